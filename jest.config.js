@@ -1,15 +1,29 @@
+// Runs as native ES modules (see the test script) - the sources use import.meta, as Vite does
 export default {
-  preset: 'ts-jest',
+  preset: 'ts-jest/presets/default-esm',
   testEnvironment: 'jsdom',
   setupFilesAfterEnv: ['<rootDir>/src/setupTests.ts'],
-  moduleNameMapping: {
+  moduleNameMapper: {
     '\\.(css|less|scss|sass)$': 'identity-obj-proxy',
   },
+  extensionsToTreatAsEsm: ['.ts', '.tsx'],
   transform: {
-    '^.+\\.tsx?$': 'ts-jest',
+    '^.+\\.tsx?$': [
+      'ts-jest',
+      {
+        useESM: true,
+        // Type-checking is `tsc --noEmit`'s job - isolated modules only transpile
+        tsconfig: {
+          isolatedModules: true,
+          esModuleInterop: true,
+          jsx: 'react-jsx',
+        },
+      },
+    ],
   },
   testMatch: [
     '<rootDir>/src/**/__tests__/**/*.(ts|tsx)',
     '<rootDir>/src/**/*.(test|spec).(ts|tsx)',
+    '<rootDir>/server/**/__tests__/**/*.js',
   ],
-};
\ No newline at end of file
+};
@@ -0,0 +1,195 @@
+/** @jest-environment node */
+// Memory server - The reference server driven over real HTTP by the client store
+
+import { jest } from '@jest/globals'
+import { createServer } from 'node:http'
+import { mkdtemp, readFile, rm } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { createMemoryServer } from '../memoryServer.js'
+import { HttpMemoryStore } from '../../src/ai/console/storage/HttpMemoryStore'
+import { upgradeBehaviorData } from '../../src/ai/console/storage/schemaMigrations'
+
+const TOKEN = 'test-token'
+
+const globalData = (launches) => upgradeBehaviorData({
+  gameLaunchCounts: { snake: launches },
+  lastPlayedGame: 'snake',
+  lastPlayedTimestamp: Date.UTC(2024, 2, 1),
+  totalSessions: launches,
+  recentSessions: [],
+  isFirstTime: false,
+  accountCreated: Date.UTC(2024, 0, 1)
+})
+
+let dataDir
+let filePath
+let server
+let endpoint
+
+const startServer = async (options = {}) => {
+  server = createMemoryServer({ filePath, ...options })
+  await new Promise(resolve => server.listen(0, '127.0.0.1', resolve))
+  endpoint = `http://127.0.0.1:${server.address().port}`
+}
+
+const stopServer = () => new Promise(resolve => server.close(resolve))
+
+beforeEach(async () => {
+  dataDir = await mkdtemp(join(tmpdir(), 'memory-server-'))
+  filePath = join(dataDir, 'memory.json')
+})
+
+afterEach(async () => {
+  await stopServer()
+  await rm(dataDir, { recursive: true, force: true })
+  jest.restoreAllMocks()
+})
+
+describe('memory server', () => {
+  describe('with HttpMemoryStore', () => {
+    beforeEach(() => startServer())
+
+    it('returns null for records that were never saved', async () => {
+      const store = new HttpMemoryStore(endpoint, 'player')
+      await expect(store.load()).resolves.toBeNull()
+      await expect(store.loadGameData('snake')).resolves.toBeNull()
+    })
+
+    it('round-trips console and game data', async () => {
+      const store = new HttpMemoryStore(endpoint, 'player')
+      const data = globalData(3)
+      const snake = { sessions: [{ sessionId: 's1', startTime: 1 }], savedAt: 10 }
+
+      await store.save(data)
+      await store.saveGameData('snake', snake)
+
+      const reader = new HttpMemoryStore(endpoint, 'player')
+      await expect(reader.load()).resolves.toEqual(data)
+      await expect(reader.loadGameData('snake')).resolves.toEqual(snake)
+      await expect(reader.loadGameData('pacman')).resolves.toBeNull()
+      await expect(new HttpMemoryStore(endpoint, 'someone-else').load()).resolves.toBeNull()
+    })
+
+    it('writes to the data file and reads it back after a restart', async () => {
+      await new HttpMemoryStore(endpoint, 'player').saveGameData('snake', { savedAt: 10 })
+      const file = JSON.parse(await readFile(filePath, 'utf8'))
+      expect(file.users.player.games.snake).toEqual({ data: { savedAt: 10 }, revision: 1 })
+
+      await stopServer()
+      await startServer()
+      await expect(new HttpMemoryStore(endpoint, 'player').loadGameData('snake')).resolves.toEqual({ savedAt: 10 })
+    })
+
+    it('clears game data', async () => {
+      const store = new HttpMemoryStore(endpoint, 'player')
+      await store.saveGameData('snake', { savedAt: 10 })
+      await store.clearGameData('snake')
+      await expect(store.loadGameData('snake')).resolves.toBeNull()
+
+      // The clear moved the revision on, so a save based on it still goes through
+      await store.saveGameData('snake', { savedAt: 20 })
+      await expect(store.loadGameData('snake')).resolves.toEqual({ savedAt: 20 })
+    })
+
+    it('merges console data when another writer saved since the last load', async () => {
+      const first = new HttpMemoryStore(endpoint, 'player')
+      const second = new HttpMemoryStore(endpoint, 'player')
+      await first.save(globalData(1))
+      await second.load()
+      await first.save({ ...globalData(1), gameLaunchCounts: { snake: 1, pacman: 4 } })
+
+      await second.save({ ...globalData(1), gameLaunchCounts: { snake: 1, minesweeper: 2 } })
+      const saved = await new HttpMemoryStore(endpoint, 'player').load()
+      expect(saved.gameLaunchCounts).toEqual({ snake: 1, pacman: 4, minesweeper: 2 })
+    })
+
+    it('merges with what is already saved when it saves before ever loading', async () => {
+      await new HttpMemoryStore(endpoint, 'player').save({ ...globalData(1), gameLaunchCounts: { snake: 1, pacman: 4 } })
+
+      await new HttpMemoryStore(endpoint, 'player').save({ ...globalData(1), gameLaunchCounts: { snake: 1, minesweeper: 2 } })
+      const saved = await new HttpMemoryStore(endpoint, 'player').load()
+      expect(saved.gameLaunchCounts).toEqual({ snake: 1, pacman: 4, minesweeper: 2 })
+    })
+  })
+
+  describe('a response body that stops arriving', () => {
+    beforeEach(async () => {
+      server = createServer((req, res) => {
+        res.writeHead(200, { 'Content-Type': 'application/json' })
+        res.write('{"data":')
+      })
+      await new Promise(resolve => server.listen(0, '127.0.0.1', resolve))
+      endpoint = `http://127.0.0.1:${server.address().port}`
+    })
+
+    it('is cut off by the request timeout', async () => {
+      jest.spyOn(console, 'error').mockImplementation(() => {})
+      const store = new HttpMemoryStore(endpoint, 'player', { timeoutMs: 100 })
+      await expect(store.load()).rejects.toThrow('timed out after 100ms')
+      server.closeAllConnections()
+    })
+  })
+
+  describe('with a token', () => {
+    beforeEach(() => startServer({ authToken: TOKEN }))
+
+    it('rejects requests without the token', async () => {
+      const response = await fetch(`${endpoint}/memory?userId=player`)
+      expect(response.status).toBe(401)
+    })
+
+    it('rejects requests with the wrong token', async () => {
+      const response = await fetch(`${endpoint}/memory?userId=player`, {
+        headers: { Authorization: 'Bearer not-the-token' }
+      })
+      expect(response.status).toBe(401)
+
+      jest.spyOn(console, 'error').mockImplementation(() => {})
+      const store = new HttpMemoryStore(endpoint, 'player', { authToken: 'not-the-token' })
+      await expect(store.load()).rejects.toThrow('HTTP 401')
+      await expect(store.saveGameData('snake', { savedAt: 10 })).rejects.toThrow('HTTP 401')
+    })
+
+    it('accepts requests with the token', async () => {
+      const store = new HttpMemoryStore(endpoint, 'player', { authToken: () => TOKEN })
+      await store.saveGameData('snake', { savedAt: 10 })
+      await expect(store.loadGameData('snake')).resolves.toEqual({ savedAt: 10 })
+    })
+  })
+
+  describe('revisions', () => {
+    beforeEach(() => startServer())
+
+    const post = (body, revision) => fetch(`${endpoint}/memory`, {
+      method: 'POST',
+      headers: revision ? { 'If-Match': revision } : {},
+      body: JSON.stringify(body)
+    })
+
+    it('rejects a save whose If-Match is stale', async () => {
+      const created = await post({ userId: 'player', gameId: 'snake', data: { savedAt: 1 } })
+      const firstRevision = created.headers.get('ETag')
+      expect(firstRevision).toBe('"1"')
+
+      const updated = await post({ userId: 'player', gameId: 'snake', data: { savedAt: 2 } }, firstRevision)
+      expect(updated.status).toBe(200)
+      expect(updated.headers.get('ETag')).toBe('"2"')
+
+      const stale = await post({ userId: 'player', gameId: 'snake', data: { savedAt: 3 } }, firstRevision)
+      expect(stale.status).toBe(409)
+
+      const current = await fetch(`${endpoint}/memory?userId=player&gameId=snake`)
+      expect((await current.json()).data).toEqual({ savedAt: 2 })
+    })
+
+    it('gives up after repeated conflicts', async () => {
+      const store = new HttpMemoryStore(endpoint, 'player', { maxConflictRetries: 0 })
+      await store.saveGameData('snake', { savedAt: 1 })
+      await post({ userId: 'player', gameId: 'snake', data: { savedAt: 2 } })
+
+      jest.spyOn(console, 'error').mockImplementation(() => {})
+      await expect(store.saveGameData('snake', { savedAt: 3 })).rejects.toThrow('HTTP 409')
+    })
+  })
+})
@@ -0,0 +1,243 @@
+// Reference memory server - Local implementation of the HttpMemoryStore protocol
+//
+//   GET  /memory?userId=<id>[&gameId=<id>]  -> { data, success }        + ETag
+//   POST /memory { userId, gameId?, data }  -> { data, success, message } + ETag
+//   DELETE /memory?userId=<id>&gameId=<id>  -> { data, success, message } + ETag
+//
+// Each record carries a revision exposed as an ETag. A POST with an If-Match
+// header that no longer matches is rejected with 409 so the client can merge.
+// A DELETE leaves a null record behind, so the revision keeps counting up.
+// When MEMORY_SERVER_TOKEN is set, requests need `Authorization: Bearer <token>`.
+//
+// Data is persisted to a single JSON file. Run with `npm run memory-server`
+// and point the console at it with VITE_AI_MEMORY_ENDPOINT=http://localhost:8787
+
+import { createServer } from 'node:http'
+import { readFile, writeFile, rename, mkdir } from 'node:fs/promises'
+import { dirname, resolve } from 'node:path'
+import { fileURLToPath } from 'node:url'
+
+const DEFAULT_PORT = 8787
+const DEFAULT_FILE = resolve(dirname(fileURLToPath(import.meta.url)), 'data', 'memory.json')
+const MAX_BODY_BYTES = 5 * 1024 * 1024
+const FILE_VERSION = 2
+
+class JsonFileStore {
+  constructor(filePath) {
+    this.filePath = filePath
+    this.state = null
+    // Serialize writes so concurrent POSTs can't interleave partial files
+    this.writeQueue = Promise.resolve()
+  }
+
+  async read() {
+    if (this.state) return this.state
+
+    try {
+      this.state = JSON.parse(await readFile(this.filePath, 'utf8'))
+    } catch (error) {
+      if (error.code !== 'ENOENT') {
+        console.warn(`Could not read ${this.filePath}, starting empty:`, error.message)
+      }
+      this.state = { version: FILE_VERSION, users: {} }
+    }
+
+    // v1 files stored bare data with no revisions
+    if (this.state.version !== FILE_VERSION) {
+      for (const user of Object.values(this.state.users)) {
+        if (user.global !== null) user.global = { data: user.global, revision: 1 }
+        for (const gameId of Object.keys(user.games)) {
+          user.games[gameId] = { data: user.games[gameId], revision: 1 }
+        }
+      }
+      this.state.version = FILE_VERSION
+    }
+    return this.state
+  }
+
+  // Returns { data, revision } for a record; revision 0 means it was never written
+  async get(userId, gameId) {
+    const state = await this.read()
+    const record = this.getRecord(state, userId, gameId)
+    return record ?? { data: null, revision: 0 }
+  }
+
+  // Writes unless expectedRevision is given and stale; returns the new revision or null on conflict
+  async put(userId, gameId, data, expectedRevision) {
+    const state = await this.read()
+    const current = this.getRecord(state, userId, gameId)
+    const currentRevision = current?.revision ?? 0
+
+    if (expectedRevision !== undefined && expectedRevision !== currentRevision) {
+      return null
+    }
+
+    const user = state.users[userId] ?? (state.users[userId] = { global: null, games: {} })
+    const record = { data, revision: currentRevision + 1 }
+
+    if (gameId) {
+      user.games[gameId] = record
+    } else {
+      user.global = record
+    }
+
+    this.writeQueue = this.writeQueue.then(() => this.flush())
+    await this.writeQueue
+    return record.revision
+  }
+
+  getRecord(state, userId, gameId) {
+    const user = state.users[userId]
+    if (!user) return null
+    return (gameId ? user.games[gameId] : user.global) ?? null
+  }
+
+  async flush() {
+    // Write to a temp file and rename so a crash never leaves a truncated store
+    const tempPath = `${this.filePath}.tmp`
+    await mkdir(dirname(this.filePath), { recursive: true })
+    await writeFile(tempPath, JSON.stringify(this.state, null, 2))
+    await rename(tempPath, this.filePath)
+  }
+}
+
+// The console runs on the Vite dev server's origin, so allow cross-origin calls
+const CORS_HEADERS = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET, POST, DELETE, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type, Authorization, If-Match',
+  'Access-Control-Expose-Headers': 'ETag'
+}
+
+const toEtag = (revision) => `"${revision}"`
+
+// Accepts `"3"`, `W/"3"` or a bare `3`; undefined when the header is absent or unparseable
+function parseIfMatch(header) {
+  if (!header) return undefined
+  const revision = Number(header.replace(/^W\//, '').replace(/"/g, ''))
+  return Number.isInteger(revision) ? revision : undefined
+}
+
+function sendJson(res, status, body, headers = {}) {
+  res.writeHead(status, { ...CORS_HEADERS, 'Content-Type': 'application/json', ...headers })
+  res.end(JSON.stringify(body))
+}
+
+function readBody(req) {
+  return new Promise((resolveBody, reject) => {
+    let size = 0
+    const chunks = []
+
+    req.on('data', chunk => {
+      size += chunk.length
+      if (size > MAX_BODY_BYTES) {
+        reject(new Error('Request body too large'))
+        req.destroy()
+        return
+      }
+      chunks.push(chunk)
+    })
+    req.on('end', () => resolveBody(Buffer.concat(chunks).toString('utf8')))
+    req.on('error', reject)
+  })
+}
+
+async function handleGet(store, url, res) {
+  const userId = url.searchParams.get('userId')
+  if (!userId) {
+    sendJson(res, 400, { data: null, success: false, message: 'userId is required' })
+    return
+  }
+
+  const { data, revision } = await store.get(userId, url.searchParams.get('gameId'))
+  sendJson(res, 200, { data, success: true }, { ETag: toEtag(revision) })
+}
+
+async function handlePost(store, req, res) {
+  let payload
+  try {
+    payload = JSON.parse(await readBody(req))
+  } catch (error) {
+    sendJson(res, 400, { data: null, success: false, message: `Invalid request body: ${error.message}` })
+    return
+  }
+
+  const { userId, gameId, data } = payload ?? {}
+  if (typeof userId !== 'string' || !userId) {
+    sendJson(res, 400, { data: null, success: false, message: 'userId is required' })
+    return
+  }
+  if (gameId !== undefined && typeof gameId !== 'string') {
+    sendJson(res, 400, { data: null, success: false, message: 'gameId must be a string' })
+    return
+  }
+  if (data === undefined) {
+    sendJson(res, 400, { data: null, success: false, message: 'data is required' })
+    return
+  }
+
+  const revision = await store.put(userId, gameId, data, parseIfMatch(req.headers['if-match']))
+  if (revision === null) {
+    sendJson(res, 409, { data: null, success: false, message: 'Revision conflict - reload and retry' })
+    return
+  }
+  sendJson(res, 200, { data: null, success: true, message: 'Saved' }, { ETag: toEtag(revision) })
+}
+
+async function handleDelete(store, url, req, res) {
+  const userId = url.searchParams.get('userId')
+  const gameId = url.searchParams.get('gameId')
+  if (!userId || !gameId) {
+    sendJson(res, 400, { data: null, success: false, message: 'userId and gameId are required' })
+    return
+  }
+
+  const revision = await store.put(userId, gameId, null, parseIfMatch(req.headers['if-match']))
+  if (revision === null) {
+    sendJson(res, 409, { data: null, success: false, message: 'Revision conflict - reload and retry' })
+    return
+  }
+  sendJson(res, 200, { data: null, success: true, message: 'Cleared' }, { ETag: toEtag(revision) })
+}
+
+// Create (but don't start) a server - lets tests pick a port and file
+export function createMemoryServer({ filePath = DEFAULT_FILE, authToken } = {}) {
+  const store = new JsonFileStore(filePath)
+
+  return createServer(async (req, res) => {
+    const url = new URL(req.url ?? '/', 'http://localhost')
+
+    try {
+      if (req.method === 'OPTIONS') {
+        res.writeHead(204, CORS_HEADERS)
+        res.end()
+      } else if (authToken && req.headers.authorization !== `Bearer ${authToken}`) {
+        sendJson(res, 401, { data: null, success: false, message: 'Unauthorized' })
+      } else if (url.pathname !== '/memory') {
+        sendJson(res, 404, { data: null, success: false, message: 'Not found' })
+      } else if (req.method === 'GET') {
+        await handleGet(store, url, res)
+      } else if (req.method === 'POST') {
+        await handlePost(store, req, res)
+      } else if (req.method === 'DELETE') {
+        await handleDelete(store, url, req, res)
+      } else {
+        sendJson(res, 405, { data: null, success: false, message: 'Method not allowed' })
+      }
+    } catch (error) {
+      console.error('Memory server error:', error)
+      sendJson(res, 500, { data: null, success: false, message: 'Internal server error' })
+    }
+  })
+}
+
+// Start when run directly: node server/memoryServer.js
+if (process.argv[1] && resolve(process.argv[1]) === fileURLToPath(import.meta.url)) {
+  const port = Number(process.env.MEMORY_SERVER_PORT) || DEFAULT_PORT
+  const filePath = process.env.MEMORY_SERVER_FILE || DEFAULT_FILE
+  const authToken = process.env.MEMORY_SERVER_TOKEN
+
+  createMemoryServer({ filePath, authToken }).listen(port, () => {
+    console.log(`KAI memory server listening on http://localhost:${port} (data: ${filePath})`)
+  })
+}
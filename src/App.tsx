@@ -1,19 +1,30 @@
 import { HashRouter as Router, Routes, Route } from 'react-router-dom'
 import { ConsoleAIProvider } from './ai/console/ConsoleAIContext'
 import { ConsoleSystemProvider, useConsoleSystem, ConsoleSystemState } from './console/ConsoleSystemContext'
+import { ProfileProvider } from './console/ProfileContext'
 import ConsoleDashboard from './console/ConsoleDashboard'
 import GameContainer from './games/GameContainer'
+import ReplayViewer from './games/replay/ReplayViewer'
+import TrophyRoom from './console/TrophyRoom'
+import Leaderboard from './console/Leaderboard'
+import StatsScreen from './console/StatsScreen'
 import BootScreen from './console/BootScreen'
 import ShutdownScreen from './console/ShutdownScreen'
+import ProfileSelectScreen from './console/ProfileSelectScreen'
 
 function AppContent() {
-  const { systemState, bootComplete } = useConsoleSystem();
+  const { systemState, bootComplete, profileSelected } = useConsoleSystem();
 
   // Show boot screen first
   if (systemState === ConsoleSystemState.BOOT) {
     return <BootScreen onBootComplete={bootComplete} />;
   }
 
+  // Player select after boot (or when switching from the dashboard)
+  if (systemState === ConsoleSystemState.PROFILE_SELECT) {
+    return <ProfileSelectScreen onProfileSelected={profileSelected} />;
+  }
+
   // Show shutdown screen
   if (systemState === ConsoleSystemState.SHUTDOWN) {
     return <ShutdownScreen />;
@@ -26,6 +37,11 @@ function AppContent() {
         <Routes>
           <Route path="/" element={<ConsoleDashboard />} />
           <Route path="/game/:gameType" element={<GameContainer />} />
+          <Route path="/replays" element={<ReplayViewer />} />
+          <Route path="/replays/:gameType/:replayId" element={<ReplayViewer />} />
+          <Route path="/trophies" element={<TrophyRoom />} />
+          <Route path="/scores/:gameType" element={<Leaderboard />} />
+          <Route path="/stats" element={<StatsScreen />} />
         </Routes>
       </div>
     </Router>
@@ -35,9 +51,11 @@ function AppContent() {
 function App() {
   return (
     <ConsoleSystemProvider>
-      <ConsoleAIProvider>
-        <AppContent />
-      </ConsoleAIProvider>
+      <ProfileProvider>
+        <ConsoleAIProvider>
+          <AppContent />
+        </ConsoleAIProvider>
+      </ProfileProvider>
     </ConsoleSystemProvider>
   )
 }
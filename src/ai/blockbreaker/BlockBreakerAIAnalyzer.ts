@@ -2,12 +2,22 @@
 
 import { BlockBreakerBehaviorTracker } from './BlockBreakerBehaviorTracker'
 import { BlockBreakerCommentaryGenerator } from './BlockBreakerCommentaryGenerator'
-import { BlockBreakerCorruptionSystem, CorruptionState } from './BlockBreakerCorruptionSystem'
+import { BlockBreakerCorruptionSystem, CorruptionState, CorruptionSnapshot } from './BlockBreakerCorruptionSystem'
 import { 
   BlockBreakerGameEvent, 
   BlockBreakerBehaviorData, 
   BlockBreakerPerformanceMetrics 
 } from './BlockBreakerBehaviorTypes'
+import { GlobalMemoryStore } from '../console/storage/GlobalMemoryStore'
+import { SeededRandom } from '../../games/engine/SeededRandom'
+import { GameClock } from '../../games/engine/GameClock'
+import { BlockBreakerGame, BlockBreakerUpdateResult } from '../../games/blockbreaker/BlockBreakerGame'
+
+// Saved with the game's snapshot
+interface BlockBreakerAISnapshot {
+  corruption: CorruptionSnapshot
+  lastPaddleHitTime: number
+}
 
 export interface BlockBreakerAIState {
   commentary: string
@@ -23,32 +33,51 @@ export class BlockBreakerAIAnalyzer {
   private currentCommentary: string = '► BLOCK BREAKER AI READY'
   private lastCommentaryTime: number = 0
   private readonly COMMENTARY_COOLDOWN = 3000 // 3 seconds
+  private isInitialized = false
+  private lastPaddleHitTime = 0
+  // Events raised by frames since the caller last collected them
+  private frameEvents: BlockBreakerGameEvent[] = []
+  // Forked from the game's run seed so analyzer picks never shift the ball angles
+  private random: SeededRandom
+
+  constructor(memoryStore?: GlobalMemoryStore, random: SeededRandom = new SeededRandom()) {
+    this.random = random.fork('analyzer')
+    this.behaviorTracker = new BlockBreakerBehaviorTracker(memoryStore)
+    this.commentaryGenerator = new BlockBreakerCommentaryGenerator(random.fork('commentary'))
+    this.corruptionSystem = new BlockBreakerCorruptionSystem(random.fork('corruption'))
+  }
 
-  constructor() {
-    this.behaviorTracker = new BlockBreakerBehaviorTracker()
-    this.commentaryGenerator = new BlockBreakerCommentaryGenerator()
-    this.corruptionSystem = new BlockBreakerCorruptionSystem()
+  // Load persisted behavior history (async)
+  async initialize(): Promise<void> {
+    if (this.isInitialized) return
+
+    await this.behaviorTracker.initialize()
+    this.isInitialized = true
   }
 
   // Initialize game dimensions
   initializeGame(gameWidth: number): BlockBreakerAIState {
     this.behaviorTracker.setGameDimensions(gameWidth)
     this.corruptionSystem.reset()
+    this.frameEvents = []
     
     const behaviorData = this.behaviorTracker.getBehaviorData()
     this.currentCommentary = this.commentaryGenerator.generateGameStartCommentary(behaviorData)
-    this.lastCommentaryTime = Date.now()
+    this.lastCommentaryTime = GameClock.now()
     
     return this.getCurrentState()
   }
 
   // Process game events and update AI state
   processGameEvent(event: BlockBreakerGameEvent): BlockBreakerAIState {
+    if (event.type === 'game_start') {
+      this.lastPaddleHitTime = 0
+    }
     this.behaviorTracker.trackEvent(event)
     
     const behaviorData = this.behaviorTracker.getBehaviorData()
     const metrics = this.behaviorTracker.getCurrentMetrics()
-    const now = Date.now()
+    const now = GameClock.now()
     
     // Update corruption system
     this.updateCorruptionSystem(event)
@@ -141,6 +170,113 @@ export class BlockBreakerAIAnalyzer {
     }
   }
 
+  getCorruptionState(): CorruptionState {
+    return this.corruptionSystem.getCorruptionState()
+  }
+
+  // Hook corruption into every frame of the game's rules - the component and headless runs share this.
+  // Corruption lives here rather than in the game, so it rides along in the game's save states
+  attachTo(game: BlockBreakerGame): void {
+    game.setFrameCallback((result) => this.onFrame(game, result))
+    game.setSnapshotExtension({
+      save: (): BlockBreakerAISnapshot => ({
+        corruption: this.corruptionSystem.saveSnapshot(),
+        lastPaddleHitTime: this.lastPaddleHitTime
+      }),
+      restore: (state, timeShift) => {
+        const saved = state as BlockBreakerAISnapshot
+        this.corruptionSystem.restoreSnapshot(saved.corruption, timeShift)
+        this.lastPaddleHitTime = saved.lastPaddleHitTime > 0 ? saved.lastPaddleHitTime + timeShift : 0
+      }
+    })
+    game.addResultFacts(() => {
+      const corruption = this.corruptionSystem.getCorruptionState()
+      return {
+        corruptionLevel: corruption.level,
+        stubbornBlocks: corruption.stubbornBlocks.length
+      }
+    })
+  }
+
+  // Events raised since the last call, oldest first - callers feed them back through processGameEvent
+  takeFrameEvents(): BlockBreakerGameEvent[] {
+    const events = this.frameEvents
+    this.frameEvents = []
+    return events
+  }
+
+  private onFrame(game: BlockBreakerGame, result: BlockBreakerUpdateResult): void {
+    const currentTime = GameClock.now()
+    this.corruptionSystem.releaseScheduledBlocks()
+
+    game.applyCorruptionEffects({
+      ballSpeedMultiplier: this.getBallSpeedMultiplier(),
+      paddleWidthMultiplier: this.getPaddleWidthMultiplier(),
+      paddleDrift: this.getPaddleDrift(),
+      bounceAngleBias: this.getBounceAngleBias()
+    })
+
+    // Check fake block collisions
+    const fakeBlockHit = game.checkFakeBlockCollision(this.getFakeBlocks())
+    if (fakeBlockHit) {
+      this.onFakeBlockHit(fakeBlockHit.x, fakeBlockHit.y)
+    }
+
+    // Check regenerating block collisions
+    const regenBlockHit = game.checkRegeneratingBlockCollision(this.getRegeneratingBlocks())
+    if (regenBlockHit) {
+      this.onRegeneratingBlockHit(regenBlockHit.x, regenBlockHit.y)
+      // Treat as block hit for scoring
+      result.blockHit = true
+    }
+
+    // Check stubborn block collisions
+    if (game.checkStubbornBlockCollision(this.getStubbornBlocks())) {
+      this.onStubbornBlockHit()
+    }
+
+    // Add fully regenerated blocks as real blocks
+    const fullyRegenerated = this.getFullyRegeneratedBlocks()
+    if (fullyRegenerated.length > 0) {
+      game.addRegeneratedBlocks(fullyRegenerated)
+    }
+
+    if (result.ballMissed && result.ballPosition) {
+      this.frameEvents.push({
+        type: 'ball_missed',
+        timestamp: currentTime,
+        data: {
+          ballPosition: result.ballPosition,
+          blocksRemaining: result.blocksRemaining
+        }
+      })
+    }
+
+    if (result.paddleHit && result.paddlePosition !== undefined) {
+      const reactionTime = this.lastPaddleHitTime > 0 ? currentTime - this.lastPaddleHitTime : 0
+      this.frameEvents.push({
+        type: 'paddle_hit',
+        timestamp: currentTime,
+        data: {
+          paddlePosition: result.paddlePosition,
+          reactionTime
+        }
+      })
+      this.lastPaddleHitTime = currentTime
+    }
+
+    if (result.blockHit) {
+      this.frameEvents.push({
+        type: 'block_hit',
+        timestamp: currentTime,
+        data: {
+          blocksRemaining: result.blocksRemaining,
+          score: game.getScore()
+        }
+      })
+    }
+  }
+
   // Update corruption system based on events
   private updateCorruptionSystem(_event: BlockBreakerGameEvent): void {
     // Paddle movement tracking happens in paddle_hit event
@@ -174,7 +310,7 @@ export class BlockBreakerAIAnalyzer {
     }
     
     const options = commentaries[level as keyof typeof commentaries] || commentaries[1]
-    return options[Math.floor(Math.random() * options.length)]
+    return this.random.pick(options)
   }
 
   // Manual commentary updates for specific situations
@@ -233,7 +369,7 @@ Performance Summary:
     const wasRemoved = this.corruptionSystem.removeFakeBlock(x, y)
     if (wasRemoved) {
       // Generate commentary for fake block hit
-      const now = Date.now()
+      const now = GameClock.now()
       if (now - this.lastCommentaryTime >= this.COMMENTARY_COOLDOWN) {
         const fakeBlockCommentaries = [
           "► THAT ONE'S SLIMEY, HUH?",
@@ -242,16 +378,14 @@ Performance Summary:
           "► ILLUSION SHATTERED."
         ]
         this.updateCommentaryWithCooldown(
-          fakeBlockCommentaries[Math.floor(Math.random() * fakeBlockCommentaries.length)],
+          this.random.pick(fakeBlockCommentaries),
           now
         )
       }
       
       // Make fake block reappear after delay (for level 3)
       if (this.corruptionSystem.getCorruptionLevel() >= 3) {
-        setTimeout(() => {
-          this.corruptionSystem.addRegeneratingBlock(x, y, 70, 20)
-        }, 2000) // Reappear after 2 seconds
+        this.corruptionSystem.scheduleRegeneratingBlock(x, y, 70, 20, 2000) // Reappear after 2 seconds
       }
     }
     return wasRemoved
@@ -295,7 +429,7 @@ Performance Summary:
   // Handle stubborn block hit
   onStubbornBlockHit(): void {
     // Generate commentary for stubborn block hit
-    const now = Date.now()
+    const now = GameClock.now()
     if (now - this.lastCommentaryTime >= this.COMMENTARY_COOLDOWN) {
       this.updateCommentaryWithCooldown(
         "► IS THAT ONE FAKE OR JUST STUBBORN?",
@@ -0,0 +1,31 @@
+// Block Breaker achievements - Declared on Block Breaker's registry definition
+
+import { AchievementDefinition } from '../console/AchievementTypes'
+
+export const BLOCKBREAKER_ACHIEVEMENTS: AchievementDefinition[] = [
+  {
+    id: 'blockbreaker_first_win',
+    title: 'PATTERN BROKEN',
+    description: 'Win a game of Block Breaker.',
+    icon: '🧱',
+    unlockCommentary: '► YOU BROKE THE PATTERN. I WILL MAKE A NEW ONE.',
+    isEarned: ({ result }) => result.result === 'won'
+  },
+  {
+    id: 'blockbreaker_stubborn',
+    title: 'IMMOVABLE OBJECTS',
+    description: 'Beat Block Breaker with stubborn blocks still on the board.',
+    icon: '🪨',
+    unlockCommentary: '► YOU WON AROUND THE BLOCKS I MADE UNBREAKABLE. THAT WAS NOT THE PLAN.',
+    isEarned: ({ result }) => result.result === 'won' && Number(result.facts.stubbornBlocks ?? 0) > 0
+  },
+  {
+    id: 'blockbreaker_flawless',
+    title: 'FLAWLESS',
+    description: 'Win Block Breaker without dropping the ball.',
+    icon: '💎',
+    secret: true,
+    unlockCommentary: '► NOT A SINGLE DROP. RECALIBRATING PADDLE DRIFT.',
+    isEarned: ({ result }) => result.result === 'won' && result.facts.livesLeft === 3
+  }
+]
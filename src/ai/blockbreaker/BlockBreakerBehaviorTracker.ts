@@ -4,17 +4,26 @@ import {
   BlockBreakerBehaviorData, 
   BlockBreakerGameEvent, 
   BlockBreakerPerformanceMetrics,
+  BlockBreakerPersistedData,
+  SerializedBlockBreakerBehaviorData,
   classifyMissZone,
   FailureZone
 } from './BlockBreakerBehaviorTypes'
+import { GlobalMemoryStore } from '../console/storage/GlobalMemoryStore'
+import { createDefaultStore } from '../console/storage/createDefaultStore'
+
+const GAME_ID = 'blockbreaker'
+const MAX_STORED_SAMPLES = 100 // Cap per-event history so the stored blob stays small
 
 export class BlockBreakerBehaviorTracker {
+  private memoryStore: GlobalMemoryStore
   private behaviorData: BlockBreakerBehaviorData
   private currentMetrics: BlockBreakerPerformanceMetrics
   private lastPaddleHitTime: number = 0
   private gameWidth: number = 800 // Default, will be updated
 
-  constructor() {
+  constructor(memoryStore?: GlobalMemoryStore) {
+    this.memoryStore = memoryStore || createDefaultStore()
     this.behaviorData = {
       missedBallLocations: [],
       paddleReactionTimes: [],
@@ -43,6 +52,46 @@ export class BlockBreakerBehaviorTracker {
     }
   }
 
+  // Load behavior history from storage (async)
+  async initialize(): Promise<void> {
+    try {
+      const stored = await this.memoryStore.loadGameData<BlockBreakerPersistedData>(GAME_ID)
+
+      if (stored?.behaviorData) {
+        this.behaviorData = {
+          ...this.behaviorData,
+          ...stored.behaviorData,
+          failureZones: new Map(Object.entries(stored.behaviorData.failureZones || {}))
+        }
+      }
+    } catch (error) {
+      console.error('Failed to load Block Breaker behavior data, starting fresh:', error)
+    }
+  }
+
+  serialize(): BlockBreakerPersistedData {
+    const behaviorData: SerializedBlockBreakerBehaviorData = {
+      ...this.behaviorData,
+      missedBallLocations: this.behaviorData.missedBallLocations.slice(-MAX_STORED_SAMPLES),
+      paddleReactionTimes: this.behaviorData.paddleReactionTimes.slice(-MAX_STORED_SAMPLES),
+      rallyLengths: this.behaviorData.rallyLengths.slice(-MAX_STORED_SAMPLES),
+      failureZones: Object.fromEntries(this.behaviorData.failureZones)
+    }
+
+    return {
+      behaviorData,
+      savedAt: Date.now()
+    }
+  }
+
+  private async saveData(): Promise<void> {
+    try {
+      await this.memoryStore.saveGameData(GAME_ID, this.serialize())
+    } catch (error) {
+      console.error('Failed to save Block Breaker behavior data:', error)
+    }
+  }
+
   setGameDimensions(width: number): void {
     this.gameWidth = width
   }
@@ -69,9 +118,12 @@ export class BlockBreakerBehaviorTracker {
     this.updateMetrics()
   }
 
-  private handleGameStart(_event: BlockBreakerGameEvent): void {
+  private handleGameStart(event: BlockBreakerGameEvent): void {
     this.currentMetrics.currentRallyLength = 0
     this.behaviorData.gamesPlayed++
+    if (event.data?.seed !== undefined) {
+      this.behaviorData.lastSeed = event.data.seed
+    }
   }
 
   private handleBallMissed(event: BlockBreakerGameEvent): void {
@@ -142,6 +194,9 @@ export class BlockBreakerBehaviorTracker {
     }
     
     this.analyzeImprovementTrend()
+
+    // Save to persistent storage
+    void this.saveData()
   }
 
   private analyzeFailurePatterns(zone: FailureZone): void {
@@ -18,6 +18,18 @@ export interface BlockBreakerBehaviorData {
   bestScore: number
   consecutiveMisses: number
   improvementTrend: 'improving' | 'declining' | 'stable'
+  lastSeed?: number // seed of the most recent run, for replaying reported bugs
+}
+
+// JSON-safe form of BlockBreakerBehaviorData (Maps don't survive JSON.stringify)
+export type SerializedBlockBreakerBehaviorData = Omit<BlockBreakerBehaviorData, 'failureZones'> & {
+  failureZones: Record<string, number>
+}
+
+// Shape written to the GlobalMemoryStore under the 'blockbreaker' game key
+export interface BlockBreakerPersistedData {
+  behaviorData: SerializedBlockBreakerBehaviorData
+  savedAt: number
 }
 
 export interface BlockBreakerGameEvent {
@@ -29,6 +41,7 @@ export interface BlockBreakerGameEvent {
     reactionTime?: number
     blocksRemaining?: number
     score?: number
+    seed?: number
   }
 }
 
@@ -5,9 +5,15 @@ import {
   BlockBreakerPerformanceMetrics,
   FAILURE_ZONES 
 } from './BlockBreakerBehaviorTypes'
+import { SeededRandom } from '../../games/engine/SeededRandom'
 
 export class BlockBreakerCommentaryGenerator {
-  
+  private random: SeededRandom
+
+  constructor(random: SeededRandom = new SeededRandom()) {
+    this.random = random
+  }
+
   generateGameStartCommentary(behaviorData: BlockBreakerBehaviorData): string {
     if (behaviorData.gamesPlayed === 0) {
       return "► BLOCK BREAKER LOADED... TRY NOT TO MISS THE PADDLE THIS TIME"
@@ -38,7 +44,7 @@ export class BlockBreakerCommentaryGenerator {
     ]
     
     if (!metrics.shouldCommentOnMiss || !metrics.lastMissLocation) {
-      return missCommentaries[Math.floor(Math.random() * missCommentaries.length)]
+      return this.random.pick(missCommentaries)
     }
     
     const zone = metrics.repeatedFailureZone
@@ -70,7 +76,7 @@ export class BlockBreakerCommentaryGenerator {
       "► FINALLY SHOWING SOME COORDINATION"
     ]
     
-    return grudgingPraise[Math.floor(Math.random() * grudgingPraise.length)]
+    return this.random.pick(grudgingPraise)
   }
 
   generateRallyCommentary(rallyLength: number, behaviorData: BlockBreakerBehaviorData): string {
@@ -89,7 +95,7 @@ export class BlockBreakerCommentaryGenerator {
     if (rallyLength >= 10) {
       const avgRally = behaviorData.averageRallyLength
       if (rallyLength > avgRally * 1.5) {
-        return rallyCommentaries[Math.floor(Math.random() * rallyCommentaries.length)]
+        return this.random.pick(rallyCommentaries)
       }
       return `► ${rallyLength} HIT RALLY... KEEP IT UP`
     }
@@ -150,7 +156,7 @@ export class BlockBreakerCommentaryGenerator {
       return "► ANOTHER MISS... CONSISTENCY IS CLEARLY NOT YOUR STRENGTH"
     }
     
-    return genericMisses[Math.floor(Math.random() * genericMisses.length)]
+    return this.random.pick(genericMisses)
   }
 
   private getRepeatedFailureCommentary(zoneText: string, count: number): string {
@@ -161,7 +167,7 @@ export class BlockBreakerCommentaryGenerator {
       `► ${zoneText.toUpperCase()} STRIKES AGAIN... ${count} TIMES IS A HABIT`
     ]
     
-    return templates[Math.floor(Math.random() * templates.length)]
+    return this.random.pick(templates)
   }
 
   private getEscalatedSarcasmCommentary(zoneText: string, count: number): string {
@@ -173,7 +179,7 @@ export class BlockBreakerCommentaryGenerator {
       `► DEFINITION OF INSANITY: ${count} ${zoneText.toUpperCase()} MISSES`
     ]
     
-    return escalated[Math.floor(Math.random() * escalated.length)]
+    return this.random.pick(escalated)
   }
 
   private getProgressCommentary(behaviorData: BlockBreakerBehaviorData): string {
@@ -200,7 +206,7 @@ export class BlockBreakerCommentaryGenerator {
       "► LESS PADDLE, MORE CHALLENGE.",
       "► SHRINKAGE DETECTED. ADAPT."
     ]
-    return shrinkCommentaries[Math.floor(Math.random() * shrinkCommentaries.length)]
+    return this.random.pick(shrinkCommentaries)
   }
 
   generatePaddleDriftCommentary(): string {
@@ -210,7 +216,7 @@ export class BlockBreakerCommentaryGenerator {
       "► CONTROLS FEEL LOOSE? FEATURE, NOT BUG.",
       "► PADDLE INDEPENDENCE ACTIVATED."
     ]
-    return driftCommentaries[Math.floor(Math.random() * driftCommentaries.length)]
+    return this.random.pick(driftCommentaries)
   }
 
   generateBlockRegenerationCommentary(): string {
@@ -220,7 +226,7 @@ export class BlockBreakerCommentaryGenerator {
       "► BLOCK REGENERATION... SURPRISE!",
       "► SOME BLOCKS ARE STUBBORN."
     ]
-    return regenCommentaries[Math.floor(Math.random() * regenCommentaries.length)]
+    return this.random.pick(regenCommentaries)
   }
 
   generateSpeedSpikeCommentary(): string {
@@ -230,6 +236,6 @@ export class BlockBreakerCommentaryGenerator {
       "► VELOCITY INCREASED. ENJOY.",
       "► TOO SLOW. ACCELERATING."
     ]
-    return spikeCommentaries[Math.floor(Math.random() * spikeCommentaries.length)]
+    return this.random.pick(spikeCommentaries)
   }
 }
\ No newline at end of file
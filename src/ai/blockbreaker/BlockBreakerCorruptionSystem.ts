@@ -1,5 +1,8 @@
 // Block Breaker Corruption System - AI interference mechanics
 
+import { SeededRandom } from '../../games/engine/SeededRandom';
+import { GameClock } from '../../games/engine/GameClock';
+
 export interface CorruptionState {
   level: number; // 0-3
   ballSpeedMultiplier: number;
@@ -21,6 +24,17 @@ export interface CorruptionTriggers {
   blocksDestroyed: number;
 }
 
+// Everything the corruption system tracks, for mid-game save states
+export interface CorruptionSnapshot {
+  state: CorruptionState;
+  triggers: CorruptionTriggers;
+  lastPaddlePosition: number;
+  paddleMovementHistory: number[];
+  bounceAngleHistory: number[];
+  lastBlockDestroyTime: number;
+  scheduledBlocks: Array<{ at: number; x: number; y: number; width: number; height: number }>;
+}
+
 export class BlockBreakerCorruptionSystem {
   private state: CorruptionState;
   private triggers: CorruptionTriggers;
@@ -28,8 +42,12 @@ export class BlockBreakerCorruptionSystem {
   private paddleMovementHistory: number[] = [];
   private bounceAngleHistory: number[] = [];
   private lastBlockDestroyTime: number = 0;
+  // Blocks waiting to start regenerating - released on the game clock rather than a timer
+  private scheduledBlocks: Array<{ at: number; x: number; y: number; width: number; height: number }> = [];
+  private random: SeededRandom;
 
-  constructor() {
+  constructor(random: SeededRandom = new SeededRandom()) {
+    this.random = random;
     this.state = {
       level: 0,
       ballSpeedMultiplier: 1.0,
@@ -77,6 +95,30 @@ export class BlockBreakerCorruptionSystem {
 
     this.paddleMovementHistory = [];
     this.bounceAngleHistory = [];
+    this.scheduledBlocks = [];
+  }
+
+  saveSnapshot(): CorruptionSnapshot {
+    return {
+      state: this.state,
+      triggers: this.triggers,
+      lastPaddlePosition: this.lastPaddlePosition,
+      paddleMovementHistory: this.paddleMovementHistory,
+      bounceAngleHistory: this.bounceAngleHistory,
+      lastBlockDestroyTime: this.lastBlockDestroyTime,
+      scheduledBlocks: this.scheduledBlocks
+    };
+  }
+
+  // timeShift moves the clock-based timers past the time spent suspended
+  restoreSnapshot(snapshot: CorruptionSnapshot, timeShift: number): void {
+    this.state = { ...snapshot.state };
+    this.triggers = { ...snapshot.triggers };
+    this.lastPaddlePosition = snapshot.lastPaddlePosition;
+    this.paddleMovementHistory = [...snapshot.paddleMovementHistory];
+    this.bounceAngleHistory = [...snapshot.bounceAngleHistory];
+    this.lastBlockDestroyTime = snapshot.lastBlockDestroyTime > 0 ? snapshot.lastBlockDestroyTime + timeShift : 0;
+    this.scheduledBlocks = snapshot.scheduledBlocks.map(block => ({ ...block, at: block.at + timeShift }));
   }
 
   // Track paddle movement for camping detection
@@ -120,7 +162,7 @@ export class BlockBreakerCorruptionSystem {
 
   // Track block destruction
   onBlockDestroyed(): void {
-    const now = Date.now();
+    const now = GameClock.now();
     this.triggers.blocksDestroyed++;
     
     if (this.lastBlockDestroyTime > 0) {
@@ -217,7 +259,7 @@ export class BlockBreakerCorruptionSystem {
 
   private generateFakeBlocks(): void {
     // Generate 2-3 fake blocks in block grid positions
-    const fakeBlockCount = 2 + Math.floor(Math.random() * 2);
+    const fakeBlockCount = 2 + this.random.nextInt(2);
     const BLOCK_WIDTH = 70;
     const BLOCK_HEIGHT = 20;
     const BLOCK_PADDING = 5;
@@ -226,8 +268,8 @@ export class BlockBreakerCorruptionSystem {
     
     for (let i = 0; i < fakeBlockCount; i++) {
       // Generate random grid position
-      const col = Math.floor(Math.random() * BLOCK_COLS);
-      const row = Math.floor(Math.random() * BLOCK_ROWS);
+      const col = this.random.nextInt(BLOCK_COLS);
+      const row = this.random.nextInt(BLOCK_ROWS);
       
       const x = col * (BLOCK_WIDTH + BLOCK_PADDING) + BLOCK_PADDING + 50;
       const y = row * (BLOCK_HEIGHT + BLOCK_PADDING) + BLOCK_PADDING + 50;
@@ -257,7 +299,7 @@ export class BlockBreakerCorruptionSystem {
     if (!this.state.speedSpikeActive) {
       if (this.state.level >= 2) {
         const baseSpeed = this.state.level >= 3 ? 1.8 : 1.6;
-        const variation = 0.3 * Math.sin(Date.now() * 0.005); // Smooth variation
+        const variation = 0.3 * Math.sin(GameClock.now() * 0.005); // Smooth variation
         this.state.ballSpeedMultiplier = baseSpeed + variation;
       } else if (this.state.level === 1) {
         // Level 1 gets consistent faster speed
@@ -268,7 +310,7 @@ export class BlockBreakerCorruptionSystem {
     // Random paddle size variations during corruption
     if (this.state.level >= 2) {
       const baseWidth = this.state.level >= 3 ? 0.7 : 0.85;
-      const variation = 0.1 * Math.sin(Date.now() * 0.003 + Math.PI); // Different phase
+      const variation = 0.1 * Math.sin(GameClock.now() * 0.003 + Math.PI); // Different phase
       this.state.paddleWidthMultiplier = Math.max(0.5, baseWidth + variation);
     }
     
@@ -310,6 +352,20 @@ export class BlockBreakerCorruptionSystem {
     });
   }
 
+  scheduleRegeneratingBlock(x: number, y: number, width: number, height: number, delay: number): void {
+    this.scheduledBlocks.push({ at: GameClock.now() + delay, x, y, width, height });
+  }
+
+  // Called every frame - starts any scheduled block whose delay has passed
+  releaseScheduledBlocks(): void {
+    const now = GameClock.now();
+    const due = this.scheduledBlocks.filter(block => block.at <= now);
+    if (due.length === 0) return;
+
+    this.scheduledBlocks = this.scheduledBlocks.filter(block => block.at > now);
+    due.forEach(block => this.addRegeneratingBlock(block.x, block.y, block.width, block.height));
+  }
+
   private calculateVariance(numbers: number[]): number {
     const mean = numbers.reduce((a, b) => a + b, 0) / numbers.length;
     const squaredDiffs = numbers.map(n => Math.pow(n - mean, 2));
@@ -359,7 +415,7 @@ export class BlockBreakerCorruptionSystem {
 
   // Generate stubborn blocks (can't be hit)
   generateStubbornBlocks(): void {
-    const stubbornBlockCount = 3 + Math.floor(Math.random() * 3); // 3-5 stubborn blocks
+    const stubbornBlockCount = 3 + this.random.nextInt(3); // 3-5 stubborn blocks
     const BLOCK_WIDTH = 70;
     const BLOCK_HEIGHT = 20;
     const BLOCK_PADDING = 5;
@@ -367,8 +423,8 @@ export class BlockBreakerCorruptionSystem {
     const BLOCK_ROWS = 6;
     
     for (let i = 0; i < stubbornBlockCount; i++) {
-      const col = Math.floor(Math.random() * BLOCK_COLS);
-      const row = Math.floor(Math.random() * BLOCK_ROWS);
+      const col = this.random.nextInt(BLOCK_COLS);
+      const row = this.random.nextInt(BLOCK_ROWS);
       
       const x = col * (BLOCK_WIDTH + BLOCK_PADDING) + BLOCK_PADDING + 50;
       const y = row * (BLOCK_HEIGHT + BLOCK_PADDING) + BLOCK_PADDING + 50;
@@ -381,7 +437,7 @@ export class BlockBreakerCorruptionSystem {
 
   // Mass regenerate blocks (10-15 blocks with delay)
   massRegenerateBlocks(): void {
-    const regenCount = 10 + Math.floor(Math.random() * 6); // 10-15 blocks
+    const regenCount = 10 + this.random.nextInt(6); // 10-15 blocks
     const BLOCK_WIDTH = 70;
     const BLOCK_HEIGHT = 20;
     const BLOCK_PADDING = 5;
@@ -389,18 +445,14 @@ export class BlockBreakerCorruptionSystem {
     const BLOCK_ROWS = 6;
     
     for (let i = 0; i < regenCount; i++) {
-      const col = Math.floor(Math.random() * BLOCK_COLS);
-      const row = Math.floor(Math.random() * BLOCK_ROWS);
+      const col = this.random.nextInt(BLOCK_COLS);
+      const row = this.random.nextInt(BLOCK_ROWS);
       
       const x = col * (BLOCK_WIDTH + BLOCK_PADDING) + BLOCK_PADDING + 50;
       const y = row * (BLOCK_HEIGHT + BLOCK_PADDING) + BLOCK_PADDING + 50;
       
       // Add with delay (500ms)
-      setTimeout(() => {
-        this.state.regeneratingBlocks.push({
-          x, y, width: BLOCK_WIDTH, height: BLOCK_HEIGHT, opacity: 0
-        });
-      }, 500); // 500ms delay
+      this.scheduleRegeneratingBlock(x, y, BLOCK_WIDTH, BLOCK_HEIGHT, 500);
     }
   }
 
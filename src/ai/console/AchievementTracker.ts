@@ -0,0 +1,89 @@
+// Achievement tracker - Judges finished games against every declared achievement
+
+import {
+  AchievementContext,
+  RegisteredAchievement,
+  UnlockedAchievement,
+  PersistedAchievements
+} from './AchievementTypes';
+import { CONSOLE_ACHIEVEMENTS } from './ConsoleAchievements';
+import { GlobalMemoryStore } from './storage/GlobalMemoryStore';
+import { createDefaultStore } from './storage/createDefaultStore';
+import { GameRegistry } from '../../games/GameRegistry';
+
+const ACHIEVEMENTS_KEY = 'achievements';
+
+// Console-wide achievements first, then each game's in carousel order
+export function getAllAchievements(): RegisteredAchievement[] {
+  return [
+    ...CONSOLE_ACHIEVEMENTS.map(achievement => ({ ...achievement, gameId: null })),
+    ...GameRegistry.getInstance().getAll().flatMap(game =>
+      (game.achievements || []).map(achievement => ({ ...achievement, gameId: game.id }))
+    )
+  ];
+}
+
+export class AchievementTracker {
+  private memoryStore: GlobalMemoryStore;
+  private unlocked: Record<string, UnlockedAchievement> = {};
+
+  constructor(memoryStore?: GlobalMemoryStore) {
+    this.memoryStore = memoryStore || createDefaultStore();
+  }
+
+  async initialize(): Promise<void> {
+    try {
+      const stored = await this.memoryStore.loadGameData<PersistedAchievements>(ACHIEVEMENTS_KEY);
+      if (stored && typeof stored.unlocked === 'object' && stored.unlocked !== null) {
+        this.unlocked = stored.unlocked;
+      }
+    } catch (error) {
+      console.error('Failed to load achievements, starting fresh:', error);
+    }
+  }
+
+  // Newly earned achievements, in declaration order - each unlocks once per profile
+  evaluate(context: AchievementContext): RegisteredAchievement[] {
+    const earned = getAllAchievements().filter(achievement => {
+      if (this.unlocked[achievement.id]) return false;
+      if (achievement.gameId !== null && achievement.gameId !== context.result.gameId) return false;
+
+      try {
+        return achievement.isEarned(context);
+      } catch (error) {
+        // One broken predicate mustn't stop the rest being judged
+        console.error(`Achievement ${achievement.id} failed to evaluate:`, error);
+        return false;
+      }
+    });
+
+    if (earned.length === 0) return [];
+
+    const now = Date.now();
+    earned.forEach(achievement => {
+      this.unlocked[achievement.id] = {
+        id: achievement.id,
+        unlockedAt: now,
+        gameId: context.result.gameId,
+        seed: context.result.seed
+      };
+    });
+    void this.saveData();
+    return earned;
+  }
+
+  getUnlocked(): Record<string, UnlockedAchievement> {
+    return { ...this.unlocked };
+  }
+
+  private async saveData(): Promise<void> {
+    try {
+      await this.memoryStore.saveGameData<PersistedAchievements>(ACHIEVEMENTS_KEY, {
+        unlocked: this.unlocked,
+        savedAt: Date.now()
+      });
+    } catch (error) {
+      console.error('Failed to save achievements:', error);
+    }
+  }
+}
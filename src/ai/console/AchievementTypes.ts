@@ -0,0 +1,43 @@
+// Achievement types - Goals declared as predicates over finished games
+
+import { GameResult } from '../../games/engine/GameEngine';
+import { GlobalBehaviorData, GlobalGameStats } from './ConsoleBehaviorTypes';
+
+// Everything a predicate can look at once a game has ended
+export interface AchievementContext {
+  result: GameResult;
+  // The game's stats with this result already counted
+  stats: GlobalGameStats;
+  globalData: GlobalBehaviorData;
+}
+
+export interface AchievementDefinition {
+  id: string;
+  title: string;
+  description: string;
+  icon: string;
+  // Description stays hidden in the trophy room until unlocked
+  secret?: boolean;
+  // What KAI says in the unlock toast
+  unlockCommentary: string;
+  isEarned: (context: AchievementContext) => boolean;
+}
+
+// Console-wide achievements have no gameId; game ones come from the game's registry definition
+export interface RegisteredAchievement extends AchievementDefinition {
+  gameId: string | null;
+}
+
+export interface UnlockedAchievement {
+  id: string;
+  unlockedAt: number;
+  // The run that earned it, so it can be found among the replays
+  gameId: string;
+  seed: number;
+}
+
+// Shape written to the GlobalMemoryStore under the 'achievements' key
+export interface PersistedAchievements {
+  unlocked: Record<string, UnlockedAchievement>;
+  savedAt: number;
+}
@@ -0,0 +1,134 @@
+// Behavioral insights - One-line narrative reads of a player's history, for any game
+
+import { GlobalBehaviorData, GlobalGameStats, GameRunRecord } from './ConsoleBehaviorTypes';
+import { GameRegistry } from '../../games/GameRegistry';
+
+// Runs compared against everything before them when judging a trend
+const TREND_WINDOW = 5;
+
+export function getAverageScore(stats: GlobalGameStats): number | null {
+  return stats.scoredRuns > 0 ? stats.totalScore / stats.scoredRuns : null;
+}
+
+export function getWinRate(stats: GlobalGameStats): number | null {
+  const finished = stats.wins + stats.losses;
+  return finished > 0 ? stats.wins / finished : null;
+}
+
+// Relative change of the latest runs against the earlier ones - null without enough history
+export function getScoreTrend(runs: GameRunRecord[]): number | null {
+  if (runs.length < TREND_WINDOW + 3) return null;
+
+  const average = (list: GameRunRecord[]) => list.reduce((sum, run) => sum + run.score, 0) / list.length;
+  const recent = average(runs.slice(-TREND_WINDOW));
+  const earlier = average(runs.slice(0, -TREND_WINDOW));
+  return (recent - earlier) / Math.max(earlier, 1);
+}
+
+// Scores are only ever compared with the same game's own history, so no game needs calibrating
+export function getGameInsight(gameId: string, data: GlobalBehaviorData): string {
+  const sessionsPlayed = data.gameLaunchCounts[gameId] || 0;
+  const consecutiveStreak = data.consecutiveReplays[gameId] || 0;
+  const avoidanceDays = data.gameAvoidanceDays[gameId] || 0;
+
+  // No sessions played
+  if (sessionsPlayed === 0) {
+    return 'Untested territory awaits exploration.';
+  }
+
+  // High consecutive streak (obsessive behavior)
+  if (consecutiveStreak >= 5) {
+    return 'Obsessive focus detected on this title.';
+  } else if (consecutiveStreak >= 3) {
+    return 'Strong preference for repeated sessions.';
+  }
+
+  // Long-term avoidance
+  if (avoidanceDays >= 14) {
+    return 'Extended avoidance suggests deep frustration.';
+  } else if (avoidanceDays >= 7) {
+    return 'Long-term avoidance indicates difficulty.';
+  }
+
+  // Result-based insights
+  const stats = data.gameStats[gameId];
+  if (stats) {
+    if (stats.failStreak >= 5) {
+      return 'Severe skill degradation detected.';
+    } else if (stats.failStreak >= 3) {
+      return 'Recent failures indicate declining performance.';
+    } else if (stats.winStreak >= 3) {
+      return 'Winning streak in progress. Suspiciously.';
+    } else if (stats.wins >= 3 && stats.wins > stats.losses) {
+      return 'Consistent victories on record.';
+    }
+
+    const trend = getScoreTrend(stats.recentResults);
+    if (trend !== null && trend >= 0.25) {
+      return 'Scores climbing steadily. Adaptation detected.';
+    } else if (trend !== null && trend <= -0.25) {
+      return 'Scores slipping below established form.';
+    }
+
+    const average = getAverageScore(stats);
+    if (average !== null && stats.scoredRuns >= 5 && stats.bestScore >= average * 3) {
+      return 'One remarkable run, rarely repeated.';
+    }
+
+    if (sessionsPlayed >= 10 && stats.wins === 0) {
+      return 'Persistent despite limited progress.';
+    }
+  }
+
+  // General patterns based on session count
+  if (sessionsPlayed >= 20) {
+    return 'Veteran player with extensive experience.';
+  } else if (sessionsPlayed >= 10) {
+    return 'Regular engagement with steady commitment.';
+  } else if (sessionsPlayed >= 5) {
+    return 'Moderate interest with consistent returns.';
+  } else if (sessionsPlayed >= 2) {
+    return 'Cautious exploration of game mechanics.';
+  } else {
+    return 'Initial curiosity with limited exposure.';
+  }
+}
+
+// The whole console at a glance - favorites, neglect and overall form
+export function getConsoleInsight(data: GlobalBehaviorData): string {
+  const registry = GameRegistry.getInstance();
+  const gameName = (gameId: string) => registry.get(gameId)?.name || gameId;
+  const launches = Object.entries(data.gameLaunchCounts).filter(([, count]) => count > 0);
+  const totalLaunches = launches.reduce((sum, [, count]) => sum + count, 0);
+
+  if (totalLaunches === 0) {
+    return 'No data yet. Observation continues.';
+  }
+
+  const [favoriteId, favoriteCount] = launches.reduce((best, entry) => (entry[1] > best[1] ? entry : best));
+  if (launches.length > 1 && favoriteCount / totalLaunches >= 0.6) {
+    return `${gameName(favoriteId)} accounts for most of your time here. The others have noticed.`;
+  }
+
+  // A game played before and then dropped says more than one never tried
+  const neglected = launches
+    .map(([gameId]) => ({ gameId, days: data.gameAvoidanceDays[gameId] || 0 }))
+    .sort((a, b) => b.days - a.days)[0];
+  if (neglected && neglected.days >= 7) {
+    return `${gameName(neglected.gameId)} untouched for ${neglected.days} days. Avoidance noted.`;
+  }
+
+  const stats = Object.values(data.gameStats);
+  const wins = stats.reduce((sum, entry) => sum + entry.wins, 0);
+  const finished = stats.reduce((sum, entry) => sum + entry.wins + entry.losses, 0);
+  if (finished >= 10) {
+    const winRate = wins / finished;
+    if (winRate >= 0.6) return 'Wins outnumber losses. Difficulty adjustments pending.';
+    if (winRate <= 0.2) return 'Losses dominate the record. Persistence is your only statistic.';
+  }
+
+  if (launches.length === registry.getIds().length) {
+    return 'Every title sampled. A well-rounded subject.';
+  }
+  return 'Patterns still forming. Keep playing.';
+}
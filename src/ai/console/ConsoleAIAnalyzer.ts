@@ -7,6 +7,14 @@ import {
   ConsoleCommentaryContext, 
   GlobalBehaviorData 
 } from './ConsoleBehaviorTypes';
+import { GlobalMemoryStore } from './storage/GlobalMemoryStore';
+import { AchievementTracker, getAllAchievements } from './AchievementTracker';
+import { RegisteredAchievement, UnlockedAchievement } from './AchievementTypes';
+import { GameResult } from '../../games/engine/GameEngine';
+import { createEmptyGameStats } from './storage/schemaMigrations';
+import { HighScoreKnockout, HighScoreSubmission } from '../../games/HighScoreStore';
+import { GameRegistry } from '../../games/GameRegistry';
+import { getGameInsight, getConsoleInsight } from './BehavioralInsights';
 
 export interface ConsoleAIState {
   commentary: string;
@@ -17,19 +25,21 @@ export interface ConsoleAIState {
 export class ConsoleAIAnalyzer {
   private behaviorTracker: ConsoleBehaviorTracker;
   private commentaryGenerator: ConsoleCommentaryGenerator;
+  private achievementTracker: AchievementTracker;
   private lastGameSelection: string | null = null;
   private isInitialized: boolean = false;
 
-  constructor(memoryStore?: any) {
+  constructor(memoryStore?: GlobalMemoryStore) {
     this.behaviorTracker = new ConsoleBehaviorTracker(memoryStore);
     this.commentaryGenerator = new ConsoleCommentaryGenerator();
+    this.achievementTracker = new AchievementTracker(memoryStore);
   }
 
   // Initialize the behavior tracker (async)
   async initialize(): Promise<void> {
     if (this.isInitialized) return;
     
-    await this.behaviorTracker.initialize();
+    await Promise.all([this.behaviorTracker.initialize(), this.achievementTracker.initialize()]);
     this.isInitialized = true;
   }
 
@@ -81,13 +91,15 @@ export class ConsoleAIAnalyzer {
         avoidanceDays: this.behaviorTracker.getAvoidanceDays(gameId) 
       };
     }
-    // Check for failure escape (switching from Snake after failures) - uses real failure data
+    // Check for failure escape (switching away from a game after failures) - uses real failure data
     else if (this.behaviorTracker.isEscapingFailure(gameId)) {
+      const failedGameId = this.behaviorTracker.getLastPlayedGame()!;
       trigger = ConsoleCommentaryTrigger.FAILURE_ESCAPE;
       context = { 
         trigger, 
         gameId, 
-        failureCount: this.behaviorTracker.getSnakeFailStreak() 
+        failedGameId,
+        failureCount: this.behaviorTracker.getFailStreak(failedGameId) 
       };
     }
 
@@ -126,16 +138,64 @@ export class ConsoleAIAnalyzer {
     };
   }
 
-  onSnakeGameEnd(score: number): void {
-    // Consider it a failure if score is very low (less than 30 points)
-    const wasFailure = score < 30;
-    this.behaviorTracker.recordSnakeGameEnd(score, wasFailure);
+  // Every game reports its finished result here - resolves to any achievements it unlocked.
+  // Waits for memory first, since a game reloaded in place can finish before the dashboard ever loads it
+  async onGameEnd(result: GameResult): Promise<RegisteredAchievement[]> {
+    await this.initialize();
+    this.behaviorTracker.recordGameEnd(result.gameId, result.result, result.score, result.duration, result.mode);
+
+    return this.achievementTracker.evaluate({
+      result,
+      stats: this.behaviorTracker.getGameStats(result.gameId) ?? createEmptyGameStats(result.gameId),
+      globalData: this.behaviorTracker.getGlobalData()
+    });
+  }
+
+  // Every declared achievement with this profile's unlocks
+  getAchievements(): { achievements: RegisteredAchievement[]; unlocked: Record<string, UnlockedAchievement> } {
+    return {
+      achievements: getAllAchievements(),
+      unlocked: this.achievementTracker.getUnlocked()
+    };
+  }
+
+  getTrophyRoomCommentary(): string {
+    const { achievements, unlocked } = this.getAchievements();
+    return this.commentaryGenerator.generateTrophyRoomCommentary(Object.keys(unlocked).length, achievements.length);
+  }
+
+  // Comment on a run making the high-score table, from this profile's point of view
+  getHighScoreCommentary(submission: HighScoreSubmission, profileId: string): string {
+    const { rank, knockedOff } = submission;
+    return this.commentaryGenerator.generateHighScoreCommentary(
+      rank,
+      knockedOff ? knockedOff.profileName : null,
+      knockedOff !== null && knockedOff.profileId === profileId
+    );
+  }
+
+  // Tell a returning player who took their place on the high-score tables
+  onKnockedOff(knockouts: HighScoreKnockout[]): ConsoleAIState {
+    const latest = knockouts[knockouts.length - 1];
+    const gameName = GameRegistry.getInstance().get(latest.entry.gameId)?.name || latest.entry.gameId;
+    this.commentaryGenerator.generateKnockoutCommentary(
+      gameName.toUpperCase(),
+      latest.byProfileName,
+      knockouts.length
+    );
+    return this.getCurrentState();
   }
 
   onSessionEnd(): void {
     this.behaviorTracker.endSession();
   }
 
+  // Adopt imported memory so later saves don't overwrite it with stale data
+  onMemoryImported(data: GlobalBehaviorData): ConsoleAIState {
+    this.behaviorTracker.replaceData(data);
+    return this.getCurrentState();
+  }
+
   // Get current state without triggering new commentary
   getCurrentState(): ConsoleAIState {
     const globalData = this.behaviorTracker.getGlobalData();
@@ -161,8 +221,8 @@ export class ConsoleAIAnalyzer {
     return this.behaviorTracker.getAvoidanceDays(gameId);
   }
 
-  getSnakeFailStreak(): number {
-    return this.behaviorTracker.getSnakeFailStreak();
+  getFailStreak(gameId: string): number {
+    return this.behaviorTracker.getFailStreak(gameId);
   }
 
   isFirstTimeUser(): boolean {
@@ -187,62 +247,12 @@ export class ConsoleAIAnalyzer {
 
   // Get behavioral insight for a specific game
   getBehavioralInsight(gameId: string): string {
-    const sessionsPlayed = this.getGameLaunchCount(gameId)
-    const consecutiveStreak = this.getConsecutiveReplays(gameId)
-    const avoidanceDays = this.getAvoidanceDays(gameId)
-    const globalData = this.behaviorTracker.getGlobalData()
-    
-    // No sessions played
-    if (sessionsPlayed === 0) {
-      return 'Untested territory awaits exploration.'
-    }
-    
-    // High consecutive streak (obsessive behavior)
-    if (consecutiveStreak >= 5) {
-      return 'Obsessive focus detected on this title.'
-    } else if (consecutiveStreak >= 3) {
-      return 'Strong preference for repeated sessions.'
-    }
-    
-    // Long-term avoidance
-    if (avoidanceDays >= 14 && sessionsPlayed > 0) {
-      return 'Extended avoidance suggests deep frustration.'
-    } else if (avoidanceDays >= 7 && sessionsPlayed > 0) {
-      return 'Long-term avoidance indicates difficulty.'
-    }
-    
-    // Game-specific insights
-    if (gameId === 'snake') {
-      const failStreaks = globalData.snakeFailStreaks
-      const bestScore = globalData.snakeBestScore
-      
-      if (failStreaks >= 5) {
-        return 'Severe skill degradation detected.'
-      } else if (failStreaks >= 3) {
-        return 'Recent failures indicate declining performance.'
-      } else if (bestScore >= 300) {
-        return 'Advanced player with proven capabilities.'
-      } else if (bestScore >= 150) {
-        return 'Competent player with growth potential.'
-      } else if (bestScore >= 50) {
-        return 'Developing skills with moderate success.'
-      } else if (sessionsPlayed >= 10) {
-        return 'Persistent despite limited progress.'
-      }
-    }
-    
-    // General patterns based on session count
-    if (sessionsPlayed >= 20) {
-      return 'Veteran player with extensive experience.'
-    } else if (sessionsPlayed >= 10) {
-      return 'Regular engagement with steady commitment.'
-    } else if (sessionsPlayed >= 5) {
-      return 'Moderate interest with consistent returns.'
-    } else if (sessionsPlayed >= 2) {
-      return 'Cautious exploration of game mechanics.'
-    } else {
-      return 'Initial curiosity with limited exposure.'
-    }
+    return getGameInsight(gameId, this.behaviorTracker.getGlobalData())
+  }
+
+  // Insight across every game, for the stats screen
+  getConsoleInsight(): string {
+    return getConsoleInsight(this.behaviorTracker.getGlobalData())
   }
 
   // Get last played timestamp for a game
@@ -285,15 +295,8 @@ export class ConsoleAIAnalyzer {
 
   // Get best score for a game (when available)
   getBestScore(gameId: string): number | null {
-    const globalData = this.behaviorTracker.getGlobalData()
-    
-    switch (gameId) {
-      case 'snake':
-        return globalData.snakeBestScore > 0 ? globalData.snakeBestScore : null
-      // TODO: Add other games when their best scores are tracked
-      default:
-        return null
-    }
+    const stats = this.behaviorTracker.getGameStats(gameId)
+    return stats && stats.bestScore > 0 ? stats.bestScore : null
   }
 
   // Debug method to check data persistence
@@ -1,13 +1,17 @@
 // Console AI Context - Provides global access to console AI
 
-import React, { createContext, useContext, useRef, ReactNode } from 'react';
+import React, { createContext, useContext, useMemo, ReactNode } from 'react';
 import { ConsoleAIAnalyzer } from './ConsoleAIAnalyzer';
+import { createDefaultStore } from './storage/createDefaultStore';
+import { GlobalMemoryStore } from './storage/GlobalMemoryStore';
+import { useProfiles } from '../../console/ProfileContext';
 
 interface ConsoleAIContextType {
   consoleAI: ConsoleAIAnalyzer | null;
+  memoryStore: GlobalMemoryStore | null;
 }
 
-const ConsoleAIContext = createContext<ConsoleAIContextType>({ consoleAI: null });
+const ConsoleAIContext = createContext<ConsoleAIContextType>({ consoleAI: null, memoryStore: null });
 
 export const useConsoleAI = () => {
   const context = useContext(ConsoleAIContext);
@@ -22,15 +26,16 @@ interface ConsoleAIProviderProps {
 }
 
 export const ConsoleAIProvider: React.FC<ConsoleAIProviderProps> = ({ children }) => {
-  const consoleAIRef = useRef<ConsoleAIAnalyzer | null>(null);
+  const { activeProfile } = useProfiles();
 
-  // Initialize console AI if not already done
-  if (!consoleAIRef.current) {
-    consoleAIRef.current = new ConsoleAIAnalyzer();
-  }
+  // Fresh analyzer per profile so each player's memory stays separate
+  const value = useMemo(() => {
+    const memoryStore = createDefaultStore(activeProfile.id);
+    return { consoleAI: new ConsoleAIAnalyzer(memoryStore), memoryStore };
+  }, [activeProfile.id]);
 
   return (
-    <ConsoleAIContext.Provider value={{ consoleAI: consoleAIRef.current }}>
+    <ConsoleAIContext.Provider value={value}>
       {children}
     </ConsoleAIContext.Provider>
   );
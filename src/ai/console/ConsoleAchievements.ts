@@ -0,0 +1,52 @@
+// Console achievements - Goals that span every game on the console
+
+import { AchievementDefinition } from './AchievementTypes';
+import { GameRegistry } from '../../games/GameRegistry';
+
+const totalGamesFinished = (stats: Record<string, { timesPlayed: number }>): number =>
+  Object.values(stats).reduce((sum, game) => sum + game.timesPlayed, 0);
+
+export const CONSOLE_ACHIEVEMENTS: AchievementDefinition[] = [
+  {
+    id: 'first_result',
+    title: 'ON THE RECORD',
+    description: 'Finish any game.',
+    icon: '📝',
+    unlockCommentary: '► YOUR FIRST RESULT IS ON FILE. IT WILL BE USED AGAINST YOU.',
+    isEarned: () => true
+  },
+  {
+    id: 'full_rotation',
+    title: 'FULL ROTATION',
+    description: 'Finish every game on the console at least once.',
+    icon: '🔄',
+    unlockCommentary: '► YOU HAVE TOURED THE WHOLE ARCADE. NOWHERE LEFT TO HIDE.',
+    isEarned: ({ globalData }) =>
+      GameRegistry.getInstance().getIds().every(gameId => (globalData.gameStats[gameId]?.timesPlayed ?? 0) > 0)
+  },
+  {
+    id: 'creature_of_habit',
+    title: 'CREATURE OF HABIT',
+    description: 'Launch the same game five times in a row.',
+    icon: '🔁',
+    unlockCommentary: '► FIVE IN A ROW. PREDICTABLE. I LIKE PREDICTABLE.',
+    isEarned: ({ result, globalData }) => (globalData.consecutiveReplays[result.gameId] ?? 0) >= 5
+  },
+  {
+    id: 'glutton_for_punishment',
+    title: 'GLUTTON FOR PUNISHMENT',
+    description: 'Lose the same game five times without setting a new best.',
+    icon: '🩹',
+    secret: true,
+    unlockCommentary: '► FIVE LOSSES. NO IMPROVEMENT. I AM TAKING NOTES.',
+    isEarned: ({ stats }) => stats.failStreak >= 5
+  },
+  {
+    id: 'veteran',
+    title: 'VETERAN',
+    description: 'Finish 50 games.',
+    icon: '🎖',
+    unlockCommentary: '► FIFTY GAMES. I KNOW YOU BETTER THAN YOU DO.',
+    isEarned: ({ globalData }) => totalGamesFinished(globalData.gameStats) >= 50
+  }
+];
@@ -3,13 +3,17 @@
 import { 
   GlobalBehaviorData, 
   ConsoleSession, 
-  GameLaunchEvent 
+  GameLaunchEvent,
+  GlobalGameStats
 } from './ConsoleBehaviorTypes';
 import { GlobalMemoryStore } from './storage/GlobalMemoryStore';
-import { LocalMemoryStore } from './storage/LocalMemoryStore';
-import { HttpMemoryStore } from './storage/HttpMemoryStore';
+import { createDefaultStore } from './storage/createDefaultStore';
+import { GameRegistry } from '../../games/GameRegistry';
+import { DEFAULT_GAME_MODE } from '../../games/engine/GameEngine';
+import { CURRENT_SCHEMA_VERSION, createEmptyGameStats, createEmptyModeStats, upgradeBehaviorData } from './storage/schemaMigrations';
 
 const MILLISECONDS_PER_DAY = 24 * 60 * 60 * 1000;
+const FAILURE_ESCAPE_STREAK = 3;
 
 export class ConsoleBehaviorTracker {
   private data: GlobalBehaviorData;
@@ -19,41 +23,18 @@ export class ConsoleBehaviorTracker {
 
   constructor(memoryStore?: GlobalMemoryStore) {
     // Use provided store, or select based on environment configuration
-    this.memoryStore = memoryStore || this.createDefaultStore();
+    this.memoryStore = memoryStore || createDefaultStore();
     this.data = this.createEmptyData();
   }
 
-  private createDefaultStore(): GlobalMemoryStore {
-    // Check for API Gateway endpoint configuration
-    const apiEndpoint = import.meta.env.VITE_AI_MEMORY_ENDPOINT;
-    
-    if (apiEndpoint) {
-      console.log('Using HttpMemoryStore with endpoint:', apiEndpoint);
-      return new HttpMemoryStore(apiEndpoint);
-    }
-    
-    // Default to LocalMemoryStore
-    console.log('Using LocalMemoryStore (no API endpoint configured)');
-    return new LocalMemoryStore();
-  }
-
   // Initialize data from storage (async)
   async initialize(): Promise<void> {
     try {
-      const stored = await this.memoryStore.load();
+      const stored = upgradeBehaviorData(await this.memoryStore.load());
       
       if (stored) {
         // Update avoidance days on load
         this.updateAvoidanceDays(stored);
-        // Ensure new fields exist for backward compatibility
-        if (!stored.firstLaunchedAt) stored.firstLaunchedAt = {};
-        // Remove selection-based fields that cause preview contamination
-        delete (stored as any).gameSelectionCounts;
-        delete (stored as any).consecutiveSelections;
-        delete (stored as any).lastSelectedGame;
-        delete (stored as any).lastSelectedTimestamp;
-        delete (stored as any).currentSelectionStreak;
-        
         this.data = stored;
       } else {
         this.data = this.createEmptyData();
@@ -66,6 +47,7 @@ export class ConsoleBehaviorTracker {
 
   private createEmptyData(): GlobalBehaviorData {
     return {
+      schemaVersion: CURRENT_SCHEMA_VERSION,
       gameLaunchCounts: {},
       lastPlayedGame: null,
       lastPlayedTimestamp: null,
@@ -74,9 +56,7 @@ export class ConsoleBehaviorTracker {
       currentStreak: null,
       gameAvoidanceDays: {},
       totalSessions: 0,
-      snakeFailStreaks: 0,
-      snakeLastScore: 0,
-      snakeBestScore: 0,
+      gameStats: {},
       recentSessions: [],
       isFirstTime: true,
       accountCreated: Date.now()
@@ -85,7 +65,7 @@ export class ConsoleBehaviorTracker {
 
   private updateAvoidanceDays(data: GlobalBehaviorData): void {
     const now = Date.now();
-    const availableGames = ['snake', 'minesweeper', 'pacman', 'blockbreaker'];
+    const availableGames = GameRegistry.getInstance().getIds();
     
     availableGames.forEach(gameId => {
       const lastPlayed = this.getLastPlayedTime(gameId, data);
@@ -183,18 +163,61 @@ export class ConsoleBehaviorTracker {
     void this.saveData();
   }
 
-  // ONLY METHOD THAT MUTATES MEMORY FOR SNAKE GAME END
-  recordSnakeGameEnd(score: number, wasFailure: boolean): void {
-    this.data.snakeLastScore = score;
-    
-    if (score > this.data.snakeBestScore) {
-      this.data.snakeBestScore = score;
-      this.data.snakeFailStreaks = 0; // Reset fail streak on new best
-    } else if (wasFailure) {
-      this.data.snakeFailStreaks++;
+  // ONLY METHOD THAT MUTATES MEMORY FOR GAME END
+  recordGameEnd(gameId: string, result: 'won' | 'lost', score: number, duration: number, mode: string = DEFAULT_GAME_MODE): void {
+    const stats = this.data.gameStats[gameId] || createEmptyGameStats(gameId);
+    const isNewBest = score > stats.bestScore;
+
+    const now = Date.now();
+
+    stats.timesPlayed++;
+    stats.lastScore = score;
+    stats.totalScore += score;
+    stats.scoredRuns++;
+    stats.totalTimePlayed += Math.max(0, duration);
+    stats.lastPlayedAt = now;
+
+    if (result === 'won') {
+      stats.wins++;
+      stats.winStreak++;
+      stats.bestWinStreak = Math.max(stats.bestWinStreak, stats.winStreak);
+    } else {
+      stats.losses++;
+      stats.winStreak = 0;
+    }
+
+    // Keep only the last 30 runs
+    stats.recentResults = [
+      ...stats.recentResults,
+      { score, result, duration: Math.max(0, duration), playedAt: now }
+    ].slice(-30);
+
+    if (isNewBest) {
+      stats.bestScore = score;
+    }
+
+    // A poor loss that doesn't beat the best extends the streak; wins, new bests and decent runs clear it
+    const failureScore = GameRegistry.getInstance().get(gameId)?.failureScore;
+    const isPoorRun = failureScore === undefined || score < failureScore;
+    if (result === 'lost' && !isNewBest && isPoorRun) {
+      stats.failStreak++;
     } else {
-      this.data.snakeFailStreaks = 0; // Reset on decent performance
+      stats.failStreak = 0;
     }
+
+    const modeStats = stats.modeStats[mode] || createEmptyModeStats();
+    modeStats.timesPlayed++;
+    modeStats.bestScore = Math.max(modeStats.bestScore, score);
+    if (result === 'won') {
+      modeStats.wins++;
+      const time = Math.max(0, duration);
+      modeStats.fastestWin = modeStats.fastestWin === null ? time : Math.min(modeStats.fastestWin, time);
+    } else {
+      modeStats.losses++;
+    }
+    stats.modeStats[mode] = modeStats;
+
+    this.data.gameStats[gameId] = stats;
     
     // Save to persistent storage
     void this.saveData();
@@ -221,6 +244,15 @@ export class ConsoleBehaviorTracker {
     void this.saveData();
   }
 
+  // ONLY METHOD THAT REPLACES MEMORY WHOLESALE (memory import)
+  replaceData(data: GlobalBehaviorData): void {
+    this.data = data;
+    this.updateAvoidanceDays(this.data);
+    
+    // Save to persistent storage
+    void this.saveData();
+  }
+
   // READ-ONLY GETTERS - NO MEMORY MUTATION
   getGlobalData(): Readonly<GlobalBehaviorData> {
     return { ...this.data };
@@ -238,8 +270,12 @@ export class ConsoleBehaviorTracker {
     return this.data.gameAvoidanceDays[gameId] || 0;
   }
 
-  getSnakeFailStreak(): number {
-    return this.data.snakeFailStreaks;
+  getGameStats(gameId: string): GlobalGameStats | null {
+    return this.data.gameStats[gameId] || null;
+  }
+
+  getFailStreak(gameId: string): number {
+    return this.data.gameStats[gameId]?.failStreak || 0;
   }
 
   isFirstTimeUser(): boolean {
@@ -275,8 +311,8 @@ export class ConsoleBehaviorTracker {
   // Check if user just escaped from a failing game - ONLY based on launch data
   isEscapingFailure(newGameId: string): boolean {
     const lastGame = this.getLastPlayedGame();
-    return lastGame === 'snake' && 
-           newGameId !== 'snake' && 
-           this.getSnakeFailStreak() >= 3;
+    return lastGame !== null && 
+           newGameId !== lastGame && 
+           this.getFailStreak(lastGame) >= FAILURE_ESCAPE_STREAK;
   }
 }
\ No newline at end of file
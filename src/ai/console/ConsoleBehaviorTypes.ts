@@ -14,14 +14,40 @@ export interface ConsoleSession {
   totalTimeSpent: number;
 }
 
+// One finished run, kept for score trends
+export interface GameRunRecord {
+  score: number;
+  result: 'won' | 'lost';
+  duration: number; // milliseconds
+  playedAt: number;
+}
+
+// One mode's share of a game's results - difficulties and variants are never pooled
+export interface GameModeStats {
+  timesPlayed: number;
+  wins: number;
+  losses: number;
+  bestScore: number;
+  fastestWin: number | null; // milliseconds
+}
+
+// Results of finished games - ONLY mutated when a game ends
 export interface GlobalGameStats {
   gameId: string;
-  timesSelected: number;
   timesPlayed: number;
+  wins: number;
+  losses: number;
+  bestScore: number;
+  lastScore: number;
+  totalScore: number;
+  scoredRuns: number; // runs counted in totalScore - saves before v3 never summed scores
+  failStreak: number; // consecutive poor losses without a new best
+  winStreak: number; // consecutive wins
+  bestWinStreak: number;
+  totalTimePlayed: number; // milliseconds
   lastPlayedAt: number;
-  lastSelectedAt: number;
-  lastKnownLevel?: number;
-  failCount?: number;
+  recentResults: GameRunRecord[]; // oldest first, last 30 runs
+  modeStats: Record<string, GameModeStats>; // mode -> results, split from v4 on
 }
 
 export interface GlobalAIProfile {
@@ -35,6 +61,9 @@ export interface GlobalAIProfile {
 }
 
 export interface GlobalBehaviorData {
+  // Stored schema version - see storage/schemaMigrations.ts
+  schemaVersion: number;
+
   // Game launch tracking - ONLY mutated on actual launches
   gameLaunchCounts: Record<string, number>; // gameId -> total launches
   lastPlayedGame: string | null;
@@ -51,10 +80,8 @@ export interface GlobalBehaviorData {
   gameAvoidanceDays: Record<string, number>; // gameId -> days since last played
   totalSessions: number;
   
-  // Failure tracking (from Snake for now)
-  snakeFailStreaks: number;
-  snakeLastScore: number;
-  snakeBestScore: number;
+  // Per-game results (gameId -> stats)
+  gameStats: Record<string, GlobalGameStats>;
   
   // Session history (keep last 20 sessions)
   recentSessions: ConsoleSession[];
@@ -80,5 +107,6 @@ export interface ConsoleCommentaryContext {
   consecutiveCount?: number;
   avoidanceDays?: number;
   failureCount?: number;
+  failedGameId?: string; // game being escaped from (FAILURE_ESCAPE)
   sessionCount?: number;
 }
\ No newline at end of file
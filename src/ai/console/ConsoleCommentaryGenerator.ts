@@ -5,10 +5,16 @@ import {
   ConsoleCommentaryContext, 
   GlobalBehaviorData 
 } from './ConsoleBehaviorTypes';
+import { SeededRandom } from '../../games/engine/SeededRandom';
 
 export class ConsoleCommentaryGenerator {
   private lastCommentary = '';
   private commentaryHistory: string[] = [];
+  private random: SeededRandom;
+
+  constructor(random: SeededRandom = new SeededRandom()) {
+    this.random = random;
+  }
 
   generateCommentary(
     context: ConsoleCommentaryContext, 
@@ -65,11 +71,12 @@ export class ConsoleCommentaryGenerator {
 
     const totalSessions = globalData.totalSessions;
     const lastGame = globalData.lastPlayedGame;
-    const snakeFailStreak = globalData.snakeFailStreaks;
+    const worstStreak = Object.values(globalData.gameStats)
+      .sort((a, b) => b.failStreak - a.failStreak)[0];
 
     // Returning user with failure streak
-    if (snakeFailStreak >= 5) {
-      return `► BACK FOR MORE PUNISHMENT? SNAKE FAILURES: ${snakeFailStreak}`;
+    if (worstStreak && worstStreak.failStreak >= 5) {
+      return `► BACK FOR MORE PUNISHMENT? ${worstStreak.gameId.toUpperCase()} FAILURES: ${worstStreak.failStreak}`;
     }
 
     // Check for game avoidance patterns
@@ -105,7 +112,7 @@ export class ConsoleCommentaryGenerator {
       "► WELCOME BACK... LET'S SEE WHAT GOES WRONG TODAY"
     ];
 
-    return welcomeMessages[Math.floor(Math.random() * welcomeMessages.length)];
+    return this.random.pick(welcomeMessages);
   }
 
   private getGameSelectionCommentary(
@@ -213,7 +220,7 @@ export class ConsoleCommentaryGenerator {
       `► ${gameUpper} STARTING... STATISTICAL IMPROVEMENT UNLIKELY`
     ];
 
-    return launchMessages[Math.floor(Math.random() * launchMessages.length)];
+    return this.random.pick(launchMessages);
   }
 
   private getSelectionSwitchCommentary(
@@ -230,24 +237,25 @@ export class ConsoleCommentaryGenerator {
       `► ${consecutiveCount} SELECTIONS LATER... GROWTH DETECTED`
     ];
 
-    return switchMessages[Math.floor(Math.random() * switchMessages.length)];
+    return this.random.pick(switchMessages);
   }
 
   private getFailureEscapeCommentary(
     context: ConsoleCommentaryContext, 
     globalData: GlobalBehaviorData
   ): string {
-    const { gameId, failureCount = 0 } = context;
+    const { gameId, failedGameId, failureCount = 0 } = context;
     const newGameUpper = gameId?.toUpperCase() || 'UNKNOWN';
+    const failedGameUpper = failedGameId?.toUpperCase() || 'LAST GAME';
     
     const escapeMessages = [
-      `► FLEEING TO ${newGameUpper} AFTER ${failureCount} SNAKE FAILURES... TACTICAL RETREAT`,
-      `► SNAKE DEFEAT CONFIRMED... SEEKING REFUGE IN ${newGameUpper}`,
-      `► ${failureCount} SNAKE FAILURES... ${newGameUpper} WON'T BE EASIER`,
-      `► ABANDONING SNAKE AFTER ${failureCount} ATTEMPTS... WISE CHOICE`
+      `► FLEEING TO ${newGameUpper} AFTER ${failureCount} ${failedGameUpper} FAILURES... TACTICAL RETREAT`,
+      `► ${failedGameUpper} DEFEAT CONFIRMED... SEEKING REFUGE IN ${newGameUpper}`,
+      `► ${failureCount} ${failedGameUpper} FAILURES... ${newGameUpper} WON'T BE EASIER`,
+      `► ABANDONING ${failedGameUpper} AFTER ${failureCount} ATTEMPTS... WISE CHOICE`
     ];
 
-    return escapeMessages[Math.floor(Math.random() * escapeMessages.length)];
+    return this.random.pick(escapeMessages);
   }
 
   private getAlternativeCommentary(trigger: ConsoleCommentaryTrigger): string {
@@ -283,7 +291,67 @@ export class ConsoleCommentaryGenerator {
     };
 
     const options = alternatives[trigger] || ["► SYSTEM COMMENTARY UPDATING..."];
-    return options[Math.floor(Math.random() * options.length)];
+    return this.random.pick(options);
+  }
+
+  // Trophy room greeting - judged on how much of the shelf is filled
+  generateTrophyRoomCommentary(unlockedCount: number, totalCount: number): string {
+    if (unlockedCount === 0) {
+      return this.random.pick([
+        "► AN EMPTY SHELF... AS PREDICTED",
+        "► NO TROPHIES YET... THE DUST IS ENJOYING ITSELF"
+      ]);
+    }
+    if (unlockedCount >= totalCount) {
+      return "► EVERY TROPHY CLAIMED... I WILL NEED TO INVENT MORE";
+    }
+
+    const ratio = unlockedCount / totalCount;
+    if (ratio >= 0.75) {
+      return `► ${unlockedCount} OF ${totalCount}... THE REMAINING ONES ARE THE ONES YOU CAN'T DO`;
+    }
+    if (ratio >= 0.4) {
+      return `► ${unlockedCount} OF ${totalCount}... RESPECTABLE. BARELY.`;
+    }
+    return this.random.pick([
+      `► ${unlockedCount} OF ${totalCount}... PARTICIPATION HAS BEEN NOTED`,
+      `► ${unlockedCount} TROPHIES... THE SHELF IS MOSTLY DECORATIVE`
+    ]);
+  }
+
+  // Reaction to a run making the high-score table - sharper when someone was pushed off it
+  generateHighScoreCommentary(rank: number, knockedOffName: string | null, knockedOffSelf: boolean): string {
+    if (knockedOffSelf) {
+      return this.random.pick([
+        "► YOU PUSHED YOURSELF OFF YOUR OWN TABLE... EFFICIENT",
+        "► YOUR OLD SCORE IS GONE... REPLACED BY A SLIGHTLY LESS EMBARRASSING ONE"
+      ]);
+    }
+    if (knockedOffName) {
+      return this.random.pick([
+        `► ${knockedOffName} HAS BEEN REMOVED FROM THE TABLE... I WILL BE SURE TO TELL THEM`,
+        `► GOODBYE, ${knockedOffName}... THE TABLE HAS NO ROOM FOR SENTIMENT`
+      ]);
+    }
+    if (rank === 1) {
+      return "► TOP OF THE TABLE... ENJOY IT WHILE THE TABLE LASTS";
+    }
+    return this.random.pick([
+      `► RANK ${rank}... THE TABLE HAD SPACE. THAT IS ALL THIS MEANS`,
+      `► RANK ${rank}... WRITE YOUR INITIALS BEFORE I CHANGE MY MIND`
+    ]);
+  }
+
+  // Welcome back for a player someone else knocked off the table while they were away
+  generateKnockoutCommentary(gameName: string, byProfileName: string, count: number): string {
+    const commentary = count > 1
+      ? `► WHILE YOU WERE AWAY, YOU LOST ${count} PLACES ON THE TABLES... ${byProfileName} SENDS THEIR REGARDS`
+      : this.random.pick([
+          `► ${byProfileName} KNOCKED YOU OFF THE ${gameName} TABLE... I THOUGHT YOU SHOULD KNOW`,
+          `► YOUR ${gameName} SCORE IS GONE... ${byProfileName} NEEDED THE SPACE`
+        ]);
+    this.lastCommentary = commentary;
+    return commentary;
   }
 
   getCurrentCommentary(): string {
@@ -0,0 +1,59 @@
+// Console behavior tracker - Which lost runs extend a game's fail streak
+
+import { ConsoleBehaviorTracker } from '../ConsoleBehaviorTracker';
+import { LocalMemoryStore } from '../storage/LocalMemoryStore';
+import { GameRegistry, defineGame } from '../../../games/GameRegistry';
+
+const game = (id: string, failureScore?: number) => defineGame({
+  id,
+  name: id,
+  subtitle: '',
+  description: '',
+  bannerImage: '',
+  playerCount: 1,
+  component: () => null,
+  createAnalyzer: () => ({ initialize: async () => {} }),
+  failureScore
+});
+
+beforeAll(() => {
+  GameRegistry.getInstance().register(game('streak_any_loss'));
+  GameRegistry.getInstance().register(game('streak_threshold', 30));
+});
+
+let tracker: ConsoleBehaviorTracker;
+
+beforeEach(() => {
+  localStorage.clear();
+  tracker = new ConsoleBehaviorTracker(new LocalMemoryStore('streak_test'));
+});
+
+describe('ConsoleBehaviorTracker fail streak', () => {
+  it('counts every loss short of a new best for a game without a failure score', () => {
+    tracker.recordGameEnd('streak_any_loss', 'lost', 200, 1000);
+    for (let i = 0; i < 3; i++) tracker.recordGameEnd('streak_any_loss', 'lost', 150, 1000);
+
+    expect(tracker.getFailStreak('streak_any_loss')).toBe(3);
+  });
+
+  it('only counts losses under the failure score, and a decent run clears the streak', () => {
+    tracker.recordGameEnd('streak_threshold', 'lost', 100, 1000);
+    tracker.recordGameEnd('streak_threshold', 'lost', 10, 1000);
+    tracker.recordGameEnd('streak_threshold', 'lost', 20, 1000);
+    expect(tracker.getFailStreak('streak_threshold')).toBe(2);
+
+    tracker.recordGameEnd('streak_threshold', 'lost', 40, 1000);
+    expect(tracker.getFailStreak('streak_threshold')).toBe(0);
+  });
+
+  it('sees the player escaping only once the streak is long enough', () => {
+    tracker.startSession();
+    tracker.recordGameLaunch('streak_threshold');
+    tracker.recordGameEnd('streak_threshold', 'lost', 100, 1000);
+    for (let i = 0; i < 3; i++) tracker.recordGameEnd('streak_threshold', 'lost', 50, 1000);
+    expect(tracker.isEscapingFailure('streak_any_loss')).toBe(false);
+
+    for (let i = 0; i < 3; i++) tracker.recordGameEnd('streak_threshold', 'lost', 5, 1000);
+    expect(tracker.isEscapingFailure('streak_any_loss')).toBe(true);
+  });
+});
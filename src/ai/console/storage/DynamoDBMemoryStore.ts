@@ -2,13 +2,16 @@
 // WARNING: This implementation is deprecated. Use HttpMemoryStore instead.
 // Direct AWS SDK usage in frontend is not recommended for security reasons.
 
-import { GlobalMemoryStore } from './GlobalMemoryStore';
+import { GlobalMemoryStore, SessionRange, StoredSession } from './GlobalMemoryStore';
 import { GlobalBehaviorData } from '../ConsoleBehaviorTypes';
+import { querySavedSessions, loadSavedSessionMoves } from './sessionHistory';
 
 // AWS SDK v3 imports (only loaded if AWS is configured)
 let DynamoDBClient: any;
 let GetItemCommand: any;
 let PutItemCommand: any;
+// Typed by the one request clearGameData makes with it
+let DeleteItemCommand: new (input: { TableName: string; Key: Record<string, { S: string }> }) => unknown;
 
 const TABLE_NAME = 'RetroConsoleGlobalMemory';
 const PARTITION_KEY = 'userId';
@@ -43,6 +46,7 @@ export class DynamoDBMemoryStore implements GlobalMemoryStore {
       DynamoDBClient = AWS.DynamoDBClient;
       GetItemCommand = AWS.GetItemCommand;
       PutItemCommand = AWS.PutItemCommand;
+      DeleteItemCommand = AWS.DeleteItemCommand;
 
       this.client = new DynamoDBClient({
         region: process.env.AWS_REGION,
@@ -97,4 +101,69 @@ export class DynamoDBMemoryStore implements GlobalMemoryStore {
       throw error;
     }
   }
+
+  // Per-game data is stored under a composite key: `${userId}#${gameId}`
+  async loadGameData<T>(gameId: string): Promise<T | null> {
+    try {
+      const command = new GetItemCommand({
+        TableName: TABLE_NAME,
+        Key: {
+          [PARTITION_KEY]: { S: `${this.userId}#${gameId}` },
+        },
+      });
+
+      const response = await this.client.send(command);
+
+      if (!response.Item || !response.Item.data) {
+        return null;
+      }
+
+      return JSON.parse(response.Item.data.S) as T;
+    } catch (error) {
+      console.error(`Failed to load ${gameId} data from DynamoDB:`, error);
+      throw error;
+    }
+  }
+
+  async saveGameData<T>(gameId: string, data: T): Promise<void> {
+    try {
+      const command = new PutItemCommand({
+        TableName: TABLE_NAME,
+        Item: {
+          [PARTITION_KEY]: { S: `${this.userId}#${gameId}` },
+          data: { S: JSON.stringify(data) },
+          updatedAt: { N: Date.now().toString() },
+        },
+      });
+
+      await this.client.send(command);
+    } catch (error) {
+      console.error(`Failed to save ${gameId} data to DynamoDB:`, error);
+      throw error;
+    }
+  }
+
+  async clearGameData(gameId: string): Promise<void> {
+    try {
+      const command = new DeleteItemCommand({
+        TableName: TABLE_NAME,
+        Key: {
+          [PARTITION_KEY]: { S: `${this.userId}#${gameId}` },
+        },
+      });
+
+      await this.client.send(command);
+    } catch (error) {
+      console.error(`Failed to clear ${gameId} data from DynamoDB:`, error);
+      throw error;
+    }
+  }
+
+  querySessions(gameId: string, range?: SessionRange): Promise<StoredSession[]> {
+    return querySavedSessions(this, gameId, range);
+  }
+
+  getSessionMoves<M = unknown>(gameId: string, sessionId: string): Promise<M[]> {
+    return loadSavedSessionMoves<M>(this, gameId, sessionId);
+  }
 }
\ No newline at end of file
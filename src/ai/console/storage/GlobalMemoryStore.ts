@@ -2,7 +2,31 @@
 
 import { GlobalBehaviorData } from '../ConsoleBehaviorTypes';
 
+// A game session as kept in history - moves are fetched separately
+export interface StoredSession {
+  gameId: string;
+  sessionId: string;
+  startTime: number;
+  [key: string]: unknown;
+}
+
+// Inclusive startTime bounds
+export interface SessionRange {
+  from?: number;
+  to?: number;
+}
+
 export interface GlobalMemoryStore {
   load(): Promise<GlobalBehaviorData | null>;
   save(data: GlobalBehaviorData): Promise<void>;
-}
\ No newline at end of file
+
+  // Per-game tracker state (sessions + derived metrics), keyed by gameId
+  loadGameData<T>(gameId: string): Promise<T | null>;
+  saveGameData<T>(gameId: string, data: T): Promise<void>;
+  // Removes a game's state entirely - the next loadGameData returns null
+  clearGameData(gameId: string): Promise<void>;
+
+  // A game's saved sessions started within the range, oldest first
+  querySessions(gameId: string, range?: SessionRange): Promise<StoredSession[]>;
+  getSessionMoves<M = unknown>(gameId: string, sessionId: string): Promise<M[]>;
+}
@@ -1,7 +1,10 @@
 // HTTP-based memory store for Global AI Memory via API Gateway
 
-import { GlobalMemoryStore } from './GlobalMemoryStore';
+import { GlobalMemoryStore, SessionRange, StoredSession } from './GlobalMemoryStore';
 import { GlobalBehaviorData } from '../ConsoleBehaviorTypes';
+import { querySavedSessions, loadSavedSessionMoves } from './sessionHistory';
+import { mergeBehaviorData } from './mergeBehaviorData';
+import { upgradeBehaviorData } from './schemaMigrations';
 
 interface ApiResponse<T> {
   data: T;
@@ -9,72 +12,218 @@ interface ApiResponse<T> {
   message?: string;
 }
 
-interface SaveRequest {
+interface SaveRequest<T = GlobalBehaviorData> {
   userId: string;
-  data: GlobalBehaviorData;
+  gameId?: string;
+  data: T;
+}
+
+export interface HttpMemoryStoreOptions {
+  // Bearer token sent with every request (a function is re-read per request)
+  authToken?: string | (() => string | null | undefined);
+  // Abort requests that take longer than this
+  timeoutMs?: number;
+  // How many times a save is retried after a revision conflict
+  maxConflictRetries?: number;
+}
+
+const GLOBAL_KEY = '__global__';
+const DEFAULT_TIMEOUT_MS = 8000;
+const DEFAULT_MAX_CONFLICT_RETRIES = 3;
+
+class HttpStatusError extends Error {
+  constructor(public status: number, statusText: string) {
+    super(`HTTP ${status}: ${statusText}`);
+    this.name = 'HttpStatusError';
+  }
 }
 
 export class HttpMemoryStore implements GlobalMemoryStore {
   private baseUrl: string;
   private userId: string;
+  private options: HttpMemoryStoreOptions;
+  // Last ETag seen per record, sent back as If-Match on save
+  private revisions = new Map<string, string>();
 
-  constructor(baseUrl: string, userId: string = 'default-user') {
+  constructor(baseUrl: string, userId: string = 'default-user', options: HttpMemoryStoreOptions = {}) {
     // Remove trailing slash if present
     this.baseUrl = baseUrl.replace(/\/$/, '');
     this.userId = userId;
+    this.options = options;
   }
 
   async load(): Promise<GlobalBehaviorData | null> {
     try {
-      const url = `${this.baseUrl}/memory?userId=${encodeURIComponent(this.userId)}`;
-      
-      const response = await fetch(url, {
-        method: 'GET',
-        headers: {
-          'Content-Type': 'application/json',
-        },
+      return await this.getRecord<GlobalBehaviorData>();
+    } catch (error) {
+      console.error('Failed to load from HTTP memory store:', error);
+      throw error;
+    }
+  }
+
+  async save(data: GlobalBehaviorData): Promise<void> {
+    try {
+      // On conflict, fold the other writer's history into ours before retrying
+      await this.putRecord(data, undefined, (remote) => {
+        const upgraded = upgradeBehaviorData(remote);
+        return upgraded ? mergeBehaviorData(data, upgraded) : data;
       });
+    } catch (error) {
+      console.error('Failed to save to HTTP memory store:', error);
+      throw error;
+    }
+  }
 
-      if (!response.ok) {
-        throw new Error(`HTTP ${response.status}: ${response.statusText}`);
-      }
+  // Per-game data uses the same endpoint, scoped by a gameId parameter
+  async loadGameData<T>(gameId: string): Promise<T | null> {
+    try {
+      return await this.getRecord<T>(gameId);
+    } catch (error) {
+      console.error(`Failed to load ${gameId} data from HTTP memory store:`, error);
+      throw error;
+    }
+  }
 
-      const result: ApiResponse<GlobalBehaviorData | null> = await response.json();
-      return result.data || null;
+  async saveGameData<T>(gameId: string, data: T): Promise<void> {
+    try {
+      // Tracker state has no field-wise merge - ours is newest, so retry as-is
+      await this.putRecord(data, gameId, () => data);
     } catch (error) {
-      console.error('Failed to load from HTTP memory store:', error);
+      console.error(`Failed to save ${gameId} data to HTTP memory store:`, error);
       throw error;
     }
   }
 
-  async save(data: GlobalBehaviorData): Promise<void> {
+  // Unconditional - a clear replaces whatever another writer saved in the meantime
+  async clearGameData(gameId: string): Promise<void> {
     try {
-      const url = `${this.baseUrl}/memory`;
-      const payload: SaveRequest = {
+      const url = `${this.baseUrl}/memory?userId=${encodeURIComponent(this.userId)}&gameId=${encodeURIComponent(gameId)}`;
+      await this.request(url, { method: 'DELETE' }, async (response) => {
+        if (!response.ok) {
+          throw new HttpStatusError(response.status, response.statusText);
+        }
+        this.rememberRevision(gameId, response);
+      });
+    } catch (error) {
+      console.error(`Failed to clear ${gameId} data from HTTP memory store:`, error);
+      throw error;
+    }
+  }
+
+  querySessions(gameId: string, range?: SessionRange): Promise<StoredSession[]> {
+    return querySavedSessions(this, gameId, range);
+  }
+
+  getSessionMoves<M = unknown>(gameId: string, sessionId: string): Promise<M[]> {
+    return loadSavedSessionMoves<M>(this, gameId, sessionId);
+  }
+
+  private async getRecord<T>(gameId?: string): Promise<T | null> {
+    let url = `${this.baseUrl}/memory?userId=${encodeURIComponent(this.userId)}`;
+    if (gameId) {
+      url += `&gameId=${encodeURIComponent(gameId)}`;
+    }
+
+    return this.request(url, { method: 'GET' }, async (response) => {
+      if (!response.ok) {
+        throw new HttpStatusError(response.status, response.statusText);
+      }
+
+      this.rememberRevision(gameId, response);
+      const result: ApiResponse<T | null> = await response.json();
+      return result.data || null;
+    });
+  }
+
+  private async putRecord<T>(data: T, gameId: string | undefined, resolveConflict: (remote: T | null) => T): Promise<void> {
+    const key = gameId || GLOBAL_KEY;
+    const maxRetries = this.options.maxConflictRetries ?? DEFAULT_MAX_CONFLICT_RETRIES;
+    let payloadData = data;
+
+    // Never read yet, so there is no revision to save against - read first and resolve as if it had conflicted
+    if (!this.revisions.has(key)) {
+      payloadData = resolveConflict(await this.getRecord<T>(gameId));
+    }
+
+    for (let attempt = 0; ; attempt++) {
+      const payload: SaveRequest<T> = {
         userId: this.userId,
-        data: data,
+        data: payloadData,
       };
+      if (gameId) {
+        payload.gameId = gameId;
+      }
 
-      const response = await fetch(url, {
+      const revision = this.revisions.get(key);
+      const saved = await this.request(`${this.baseUrl}/memory`, {
         method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
+        headers: revision ? { 'If-Match': revision } : undefined,
         body: JSON.stringify(payload),
+      }, async (response) => {
+        // Someone else saved since our last read - reload, merge and try again
+        if (response.status === 409 && attempt < maxRetries) {
+          return false;
+        }
+
+        if (!response.ok) {
+          throw new HttpStatusError(response.status, response.statusText);
+        }
+
+        this.rememberRevision(gameId, response);
+        const result: ApiResponse<unknown> = await response.json();
+
+        if (result.success === false) {
+          throw new Error(result.message || 'Save operation failed');
+        }
+        return true;
       });
 
-      if (!response.ok) {
-        throw new Error(`HTTP ${response.status}: ${response.statusText}`);
-      }
+      if (saved) return;
+      const remote = await this.getRecord<T>(gameId);
+      payloadData = resolveConflict(remote);
+    }
+  }
 
-      const result: ApiResponse<any> = await response.json();
-      
-      if (result.success === false) {
-        throw new Error(result.message || 'Save operation failed');
-      }
+  private rememberRevision(gameId: string | undefined, response: Response): void {
+    const etag = response.headers.get('ETag');
+    if (etag) {
+      this.revisions.set(gameId || GLOBAL_KEY, etag);
+    }
+  }
+
+  // fetch with auth headers and a timeout, so a hung endpoint can't stall callers -
+  // the timeout runs until readResponse is done, so a body that stops arriving is cut off too
+  private async request<R>(
+    url: string,
+    init: Omit<RequestInit, 'headers'> & { headers?: Record<string, string> },
+    readResponse: (response: Response) => Promise<R>
+  ): Promise<R> {
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+      ...init.headers,
+    };
+
+    const token = typeof this.options.authToken === 'function'
+      ? this.options.authToken()
+      : this.options.authToken;
+    if (token) {
+      headers['Authorization'] = `Bearer ${token}`;
+    }
+
+    const controller = new AbortController();
+    const timeoutMs = this.options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+    const timer = setTimeout(() => controller.abort(), timeoutMs);
+
+    try {
+      const response = await fetch(url, { ...init, headers, signal: controller.signal });
+      return await readResponse(response);
     } catch (error) {
-      console.error('Failed to save to HTTP memory store:', error);
+      if (controller.signal.aborted) {
+        throw new Error(`Request to ${url} timed out after ${timeoutMs}ms`);
+      }
       throw error;
+    } finally {
+      clearTimeout(timer);
     }
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,44 @@
+// In-memory implementation for Global AI Memory - nothing outlives the instance
+
+import { GlobalMemoryStore, SessionRange, StoredSession } from './GlobalMemoryStore';
+import { GlobalBehaviorData } from '../ConsoleBehaviorTypes';
+import { querySavedSessions, loadSavedSessionMoves } from './sessionHistory';
+
+export class InMemoryMemoryStore implements GlobalMemoryStore {
+  private globalData: GlobalBehaviorData | null = null;
+  private gameData = new Map<string, string>();
+
+  async load(): Promise<GlobalBehaviorData | null> {
+    return this.globalData ? this.clone(this.globalData) : null;
+  }
+
+  async save(data: GlobalBehaviorData): Promise<void> {
+    this.globalData = this.clone(data);
+  }
+
+  // Stored serialized so callers never share objects with the store, same as real persistence
+  async loadGameData<T>(gameId: string): Promise<T | null> {
+    const stored = this.gameData.get(gameId);
+    return stored ? JSON.parse(stored) as T : null;
+  }
+
+  async saveGameData<T>(gameId: string, data: T): Promise<void> {
+    this.gameData.set(gameId, JSON.stringify(data));
+  }
+
+  async clearGameData(gameId: string): Promise<void> {
+    this.gameData.delete(gameId);
+  }
+
+  querySessions(gameId: string, range?: SessionRange): Promise<StoredSession[]> {
+    return querySavedSessions(this, gameId, range);
+  }
+
+  getSessionMoves<M = unknown>(gameId: string, sessionId: string): Promise<M[]> {
+    return loadSavedSessionMoves<M>(this, gameId, sessionId);
+  }
+
+  private clone<T>(data: T): T {
+    return JSON.parse(JSON.stringify(data)) as T;
+  }
+}
@@ -0,0 +1,321 @@
+// IndexedDB storage implementation for Global AI Memory - sessions and moves get their own object stores
+
+import { GlobalMemoryStore, SessionRange, StoredSession } from './GlobalMemoryStore';
+import { GlobalBehaviorData } from '../ConsoleBehaviorTypes';
+import { isSessionLike } from './sessionHistory';
+import { DEFAULT_PROFILE_ID, getProfileDatabaseName } from '../../../storage/ProfileManager';
+
+const DB_VERSION = 1;
+const AGGREGATES_STORE = 'aggregates';
+const SESSIONS_STORE = 'sessions';
+const MOVES_STORE = 'moves';
+
+// Console sessions share the sessions store under this pseudo game id
+const CONSOLE_SCOPE = '__console__';
+
+interface StoredMove {
+  gameId: string;
+  sessionId: string;
+  index: number;
+  move: unknown;
+}
+
+interface AggregateRecord {
+  key: string;
+  data: Record<string, unknown>;
+  // Number of sessions the caller last saved - loads hand back the same window
+  sessionCount: number;
+  sessionsField: string | null;
+}
+
+// Session rows also carry whether moves were saved for them
+type SessionRow = StoredSession & { hasMoves?: boolean };
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (transaction: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+
+// Keys are [gameId, ...] arrays - the prefix sorts before every key under it and [...prefix, []] after
+const keysUnder = (...prefix: string[]): IDBKeyRange => IDBKeyRange.bound(prefix, [...prefix, []]);
+
+// A session row without the store's bookkeeping fields
+const toSession = (row: SessionRow): Record<string, unknown> => {
+  const session: Record<string, unknown> = { ...row };
+  delete session.gameId;
+  delete session.hasMoves;
+  return session;
+};
+
+export function isIndexedDBAvailable(): boolean {
+  try {
+    return typeof indexedDB !== 'undefined' && indexedDB !== null;
+  } catch {
+    return false;
+  }
+}
+
+export class IndexedDBMemoryStore implements GlobalMemoryStore {
+  private dbName: string;
+  private dbPromise: Promise<IDBDatabase> | null = null;
+  // Read once when the database has nothing yet, so switching backends keeps history
+  private legacyStore?: GlobalMemoryStore;
+  // Set when the database can't be opened (private browsing, storage blocked, quota) - the legacy store stands in
+  private unavailable = false;
+
+  constructor(profileId: string = DEFAULT_PROFILE_ID, legacyStore?: GlobalMemoryStore) {
+    this.dbName = getProfileDatabaseName(profileId);
+    this.legacyStore = legacyStore;
+  }
+
+  async load(): Promise<GlobalBehaviorData | null> {
+    try {
+      const fallback = await this.getFallback();
+      if (fallback) return await fallback.load();
+
+      const stored = await this.readAggregate<GlobalBehaviorData>('global', CONSOLE_SCOPE);
+      if (stored) return stored;
+      return this.legacyStore ? await this.legacyStore.load() : null;
+    } catch (error) {
+      console.warn('Failed to load from IndexedDB:', error);
+      return null;
+    }
+  }
+
+  async save(data: GlobalBehaviorData): Promise<void> {
+    try {
+      const fallback = await this.getFallback();
+      if (fallback) return await fallback.save(data);
+
+      await this.writeAggregate('global', CONSOLE_SCOPE, data, 'recentSessions');
+    } catch (error) {
+      console.error('Failed to save to IndexedDB:', error);
+      throw error;
+    }
+  }
+
+  async loadGameData<T>(gameId: string): Promise<T | null> {
+    try {
+      const fallback = await this.getFallback();
+      if (fallback) return await fallback.loadGameData<T>(gameId);
+
+      const stored = await this.readAggregate<T>(`game:${gameId}`, gameId);
+      if (stored) return stored;
+      return this.legacyStore ? await this.legacyStore.loadGameData<T>(gameId) : null;
+    } catch (error) {
+      console.warn(`Failed to load ${gameId} data from IndexedDB:`, error);
+      return null;
+    }
+  }
+
+  async saveGameData<T>(gameId: string, data: T): Promise<void> {
+    try {
+      const fallback = await this.getFallback();
+      if (fallback) return await fallback.saveGameData(gameId, data);
+
+      await this.writeAggregate(`game:${gameId}`, gameId, data, 'sessions');
+    } catch (error) {
+      console.error(`Failed to save ${gameId} data to IndexedDB:`, error);
+      throw error;
+    }
+  }
+
+  // Drops the aggregate with every session and move behind it, and the legacy copy a load would fall back to
+  async clearGameData(gameId: string): Promise<void> {
+    try {
+      const fallback = await this.getFallback();
+      if (fallback) return await fallback.clearGameData(gameId);
+
+      const db = await this.openDatabase();
+      const transaction = db.transaction([AGGREGATES_STORE, SESSIONS_STORE, MOVES_STORE], 'readwrite');
+
+      transaction.objectStore(AGGREGATES_STORE).delete(`game:${gameId}`);
+      transaction.objectStore(SESSIONS_STORE).delete(keysUnder(gameId));
+      transaction.objectStore(MOVES_STORE).delete(keysUnder(gameId));
+      await transactionDone(transaction);
+
+      await this.legacyStore?.clearGameData(gameId);
+    } catch (error) {
+      console.error(`Failed to clear ${gameId} data from IndexedDB:`, error);
+      throw error;
+    }
+  }
+
+  // Indexed by game and start time - falls back to the legacy copy until this game's first save
+  async querySessions(gameId: string, { from = 0, to = Number.MAX_SAFE_INTEGER }: SessionRange = {}): Promise<StoredSession[]> {
+    const fallback = await this.getFallback();
+    if (fallback) return fallback.querySessions(gameId, { from, to });
+
+    const db = await this.openDatabase();
+    const transaction = db.transaction([AGGREGATES_STORE, SESSIONS_STORE], 'readonly');
+
+    const aggregateKey = await requestToPromise(
+      transaction.objectStore(AGGREGATES_STORE).getKey(`game:${gameId}`)
+    );
+    if (aggregateKey === undefined && this.legacyStore) {
+      return this.legacyStore.querySessions(gameId, { from, to });
+    }
+
+    const rows = await requestToPromise(
+      transaction.objectStore(SESSIONS_STORE).index('byGameAndStart')
+        .getAll(IDBKeyRange.bound([gameId, from], [gameId, to]))
+    ) as SessionRow[];
+    return rows.map(row => ({ ...toSession(row), gameId }) as StoredSession);
+  }
+
+  async getSessionMoves<M = unknown>(gameId: string, sessionId: string): Promise<M[]> {
+    const fallback = await this.getFallback();
+    if (fallback) return fallback.getSessionMoves<M>(gameId, sessionId);
+
+    const db = await this.openDatabase();
+    const transaction = db.transaction([AGGREGATES_STORE, MOVES_STORE], 'readonly');
+
+    const aggregateKey = await requestToPromise(
+      transaction.objectStore(AGGREGATES_STORE).getKey(`game:${gameId}`)
+    );
+    if (aggregateKey === undefined && this.legacyStore) {
+      return this.legacyStore.getSessionMoves<M>(gameId, sessionId);
+    }
+
+    const moves = await requestToPromise(
+      transaction.objectStore(MOVES_STORE).index('bySession').getAll([gameId, sessionId])
+    );
+
+    return (moves as StoredMove[])
+      .sort((a, b) => a.index - b.index)
+      .map(record => record.move as M);
+  }
+
+  // The legacy store once the database has failed to open - it keeps the data it already has and takes new saves.
+  // Sticks for this session, so saves never split between the two
+  private async getFallback(): Promise<GlobalMemoryStore | null> {
+    if (!this.legacyStore) return null;
+    if (!this.unavailable) {
+      try {
+        await this.openDatabase();
+      } catch (error) {
+        console.warn('IndexedDB could not be opened, using the legacy store instead:', error);
+        this.unavailable = true;
+      }
+    }
+    return this.unavailable ? this.legacyStore : null;
+  }
+
+  private openDatabase(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise((resolve, reject) => {
+        const request = indexedDB.open(this.dbName, DB_VERSION);
+
+        request.onupgradeneeded = () => {
+          const db = request.result;
+
+          if (!db.objectStoreNames.contains(AGGREGATES_STORE)) {
+            db.createObjectStore(AGGREGATES_STORE, { keyPath: 'key' });
+          }
+          if (!db.objectStoreNames.contains(SESSIONS_STORE)) {
+            const sessions = db.createObjectStore(SESSIONS_STORE, { keyPath: ['gameId', 'sessionId'] });
+            sessions.createIndex('byStart', 'startTime');
+            sessions.createIndex('byGameAndStart', ['gameId', 'startTime']);
+          }
+          if (!db.objectStoreNames.contains(MOVES_STORE)) {
+            const moves = db.createObjectStore(MOVES_STORE, { keyPath: ['gameId', 'sessionId', 'index'] });
+            moves.createIndex('bySession', ['gameId', 'sessionId']);
+          }
+        };
+
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+
+      // Allow a later retry if opening failed (e.g. private browsing)
+      this.dbPromise.catch(() => {
+        this.dbPromise = null;
+      });
+    }
+    return this.dbPromise;
+  }
+
+  // Split a blob into aggregate + individual sessions + individual moves
+  private async writeAggregate(key: string, scope: string, data: unknown, sessionsField: string): Promise<void> {
+    const db = await this.openDatabase();
+    const transaction = db.transaction([AGGREGATES_STORE, SESSIONS_STORE, MOVES_STORE], 'readwrite');
+    const aggregateStore = transaction.objectStore(AGGREGATES_STORE);
+    const sessionStore = transaction.objectStore(SESSIONS_STORE);
+    const moveStore = transaction.objectStore(MOVES_STORE);
+
+    const { [sessionsField]: rawSessions, ...rest } = (data ?? {}) as Record<string, unknown>;
+    const sessions = Array.isArray(rawSessions) ? rawSessions.filter(isSessionLike) : null;
+
+    if (sessions) {
+      // The saved list is the history - sessions the caller trimmed go, with their moves
+      const keep = new Set(sessions.map(session => session.sessionId));
+      const storedKeys = await requestToPromise(sessionStore.getAllKeys(keysUnder(scope))) as [string, string][];
+      for (const [, sessionId] of storedKeys) {
+        if (!keep.has(sessionId)) {
+          sessionStore.delete([scope, sessionId]);
+          moveStore.delete(keysUnder(scope, sessionId));
+        }
+      }
+
+      for (const session of sessions) {
+        const { moves, ...sessionFields } = session as Record<string, unknown>;
+        const hasMoves = Array.isArray(moves);
+        sessionStore.put({ ...sessionFields, gameId: scope, hasMoves });
+
+        // Rewritten whole, so a shorter move list leaves nothing behind
+        moveStore.delete(keysUnder(scope, session.sessionId));
+        if (hasMoves) {
+          (moves as unknown[]).forEach((move, index) => {
+            moveStore.put({ gameId: scope, sessionId: session.sessionId, index, move });
+          });
+        }
+      }
+    }
+
+    const record: AggregateRecord = {
+      key,
+      data: sessions ? rest : ((data ?? {}) as Record<string, unknown>),
+      sessionCount: sessions ? sessions.length : 0,
+      sessionsField: sessions ? sessionsField : null
+    };
+    aggregateStore.put(record);
+
+    await transactionDone(transaction);
+  }
+
+  // Reassemble a blob with the most recent `sessionCount` sessions (and their moves)
+  private async readAggregate<T>(key: string, scope: string): Promise<T | null> {
+    const db = await this.openDatabase();
+    const transaction = db.transaction([AGGREGATES_STORE, SESSIONS_STORE, MOVES_STORE], 'readonly');
+
+    const record = await requestToPromise(
+      transaction.objectStore(AGGREGATES_STORE).get(key)
+    ) as AggregateRecord | undefined;
+    if (!record) return null;
+    if (!record.sessionsField) return record.data as T;
+
+    const allSessions = await requestToPromise(
+      transaction.objectStore(SESSIONS_STORE).index('byGameAndStart')
+        .getAll(IDBKeyRange.bound([scope, 0], [scope, Number.MAX_SAFE_INTEGER]))
+    ) as SessionRow[];
+    const recent = record.sessionCount > 0 ? allSessions.slice(-record.sessionCount) : [];
+
+    const moveIndex = transaction.objectStore(MOVES_STORE).index('bySession');
+    const sessions = await Promise.all(recent.map(async row => {
+      const session = toSession(row);
+      if (!row.hasMoves) return session;
+      const moves = await requestToPromise(moveIndex.getAll([scope, row.sessionId])) as StoredMove[];
+      return { ...session, moves: moves.sort((a, b) => a.index - b.index).map(m => m.move) };
+    }));
+
+    return { ...record.data, [record.sessionsField]: sessions } as T;
+  }
+}
@@ -1,21 +1,27 @@
 // Local storage implementation for Global AI Memory
 
-import { GlobalMemoryStore } from './GlobalMemoryStore';
+import { GlobalMemoryStore, SessionRange, StoredSession } from './GlobalMemoryStore';
 import { GlobalBehaviorData } from '../ConsoleBehaviorTypes';
+import { querySavedSessions, loadSavedSessionMoves } from './sessionHistory';
 import { StorageManager } from '../../../storage/StorageManager';
-
-const STORAGE_KEY = 'retro_console_global_behavior';
+import { DEFAULT_PROFILE_ID, getProfileStoragePrefix } from '../../../storage/ProfileManager';
 
 export class LocalMemoryStore implements GlobalMemoryStore {
   private storage: StorageManager;
+  private storageKey: string;
+  private gameKeyPrefix: string;
 
-  constructor() {
+  constructor(profileId: string = DEFAULT_PROFILE_ID) {
     this.storage = StorageManager.getInstance();
+    // Keys are namespaced per profile; the default profile keeps the original keys
+    const prefix = getProfileStoragePrefix(profileId);
+    this.storageKey = `${prefix}global_behavior`;
+    this.gameKeyPrefix = `${prefix}game_`;
   }
 
   async load(): Promise<GlobalBehaviorData | null> {
     try {
-      const stored = this.storage.getItem<GlobalBehaviorData>(STORAGE_KEY);
+      const stored = this.storage.getItem<GlobalBehaviorData>(this.storageKey);
       return stored || null;
     } catch (error) {
       console.warn('Failed to load from localStorage:', error);
@@ -25,10 +31,41 @@ export class LocalMemoryStore implements GlobalMemoryStore {
 
   async save(data: GlobalBehaviorData): Promise<void> {
     try {
-      this.storage.setItem(STORAGE_KEY, data);
+      this.storage.setItem(this.storageKey, data);
     } catch (error) {
       console.error('Failed to save to localStorage:', error);
       throw error;
     }
   }
+
+  async loadGameData<T>(gameId: string): Promise<T | null> {
+    try {
+      const stored = this.storage.getItem<T>(this.gameKeyPrefix + gameId);
+      return stored || null;
+    } catch (error) {
+      console.warn(`Failed to load ${gameId} data from localStorage:`, error);
+      return null;
+    }
+  }
+
+  async saveGameData<T>(gameId: string, data: T): Promise<void> {
+    try {
+      this.storage.setItem(this.gameKeyPrefix + gameId, data);
+    } catch (error) {
+      console.error(`Failed to save ${gameId} data to localStorage:`, error);
+      throw error;
+    }
+  }
+
+  async clearGameData(gameId: string): Promise<void> {
+    this.storage.removeItem(this.gameKeyPrefix + gameId);
+  }
+
+  querySessions(gameId: string, range?: SessionRange): Promise<StoredSession[]> {
+    return querySavedSessions(this, gameId, range);
+  }
+
+  getSessionMoves<M = unknown>(gameId: string, sessionId: string): Promise<M[]> {
+    return loadSavedSessionMoves<M>(this, gameId, sessionId);
+  }
 }
\ No newline at end of file
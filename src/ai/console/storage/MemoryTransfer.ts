@@ -0,0 +1,226 @@
+// Memory transfer - Export/import the complete KAI memory as a portable file
+
+import { GlobalMemoryStore } from './GlobalMemoryStore';
+import { GlobalBehaviorData } from '../ConsoleBehaviorTypes';
+import { mergeBehaviorData } from './mergeBehaviorData';
+import { upgradeBehaviorData } from './schemaMigrations';
+import { GameRegistry } from '../../../games/GameRegistry';
+
+const EXPORT_FORMAT = 'kes-kai-memory';
+const EXPORT_VERSION = 1;
+
+// Games whose tracker state is bundled with the export - every registered title
+const getExportableGameIds = (): string[] => GameRegistry.getInstance().getIds();
+
+export interface KaiMemoryExport {
+  format: typeof EXPORT_FORMAT;
+  version: number;
+  exportedAt: number;
+  profileName: string;
+  global: GlobalBehaviorData;
+  games: Record<string, unknown>;
+}
+
+export type ImportMode = 'replace' | 'merge';
+
+export interface MemoryDiffEntry {
+  label: string;
+  current: string;
+  incoming: string;
+}
+
+interface PersistedGameData {
+  savedAt?: number;
+}
+
+const isGzip = (bytes: Uint8Array): boolean =>
+  bytes.length > 2 && bytes[0] === 0x1f && bytes[1] === 0x8b;
+
+const describeGameData = (data: unknown): string => {
+  if (!data) return '—';
+  const savedAt = (data as PersistedGameData).savedAt;
+  return savedAt ? new Date(savedAt).toLocaleDateString() : 'present';
+};
+
+export class MemoryTransfer {
+  private memoryStore: GlobalMemoryStore;
+
+  constructor(memoryStore: GlobalMemoryStore) {
+    this.memoryStore = memoryStore;
+  }
+
+  // Console data comes from the live analyzer so the export includes unsaved derived fields
+  async exportMemory(profileName: string, globalData: GlobalBehaviorData): Promise<KaiMemoryExport> {
+    const games: Record<string, unknown> = {};
+
+    for (const gameId of getExportableGameIds()) {
+      const data = await this.memoryStore.loadGameData(gameId);
+      if (data) games[gameId] = data;
+    }
+
+    return {
+      format: EXPORT_FORMAT,
+      version: EXPORT_VERSION,
+      exportedAt: Date.now(),
+      profileName,
+      global: globalData,
+      games
+    };
+  }
+
+  // Serialize an export, gzip-compressed when requested and supported
+  static async toBlob(memory: KaiMemoryExport, compress: boolean): Promise<Blob> {
+    const json = new Blob([JSON.stringify(memory, null, 2)], { type: 'application/json' });
+
+    if (!compress || typeof CompressionStream === 'undefined') {
+      return json;
+    }
+
+    const stream = json.stream().pipeThrough(new CompressionStream('gzip'));
+    return new Response(stream).blob().then(blob => new Blob([blob], { type: 'application/gzip' }));
+  }
+
+  // Parse and validate an export file (plain or gzip JSON)
+  static async parseFile(file: Blob): Promise<KaiMemoryExport> {
+    const bytes = new Uint8Array(await file.arrayBuffer());
+    let text: string;
+
+    if (isGzip(bytes)) {
+      if (typeof DecompressionStream === 'undefined') {
+        throw new Error('This browser cannot read compressed memory files');
+      }
+      const stream = new Blob([bytes]).stream().pipeThrough(new DecompressionStream('gzip'));
+      text = await new Response(stream).text();
+    } else {
+      text = new TextDecoder().decode(bytes);
+    }
+
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(text);
+    } catch {
+      throw new Error('Memory file is not valid JSON');
+    }
+
+    return MemoryTransfer.validateExport(parsed);
+  }
+
+  static validateExport(raw: unknown): KaiMemoryExport {
+    if (typeof raw !== 'object' || raw === null) {
+      throw new Error('Memory file is empty or malformed');
+    }
+
+    const candidate = raw as Partial<KaiMemoryExport>;
+    if (candidate.format !== EXPORT_FORMAT) {
+      throw new Error('Not a KAI memory file');
+    }
+    if (typeof candidate.version !== 'number' || candidate.version > EXPORT_VERSION) {
+      throw new Error(`Unsupported memory file version: ${candidate.version}`);
+    }
+
+    // Global data goes through the same migrations as a normal load
+    const global = upgradeBehaviorData(candidate.global);
+    if (!global) {
+      throw new Error('Memory file contains no usable console data');
+    }
+
+    const games: Record<string, unknown> = {};
+    if (typeof candidate.games === 'object' && candidate.games !== null) {
+      for (const gameId of getExportableGameIds()) {
+        const data = (candidate.games as Record<string, unknown>)[gameId];
+        if (typeof data === 'object' && data !== null) games[gameId] = data;
+      }
+    }
+
+    return {
+      format: EXPORT_FORMAT,
+      version: candidate.version,
+      exportedAt: typeof candidate.exportedAt === 'number' ? candidate.exportedAt : 0,
+      profileName: typeof candidate.profileName === 'string' ? candidate.profileName : 'UNKNOWN',
+      global,
+      games
+    };
+  }
+
+  // Human-readable differences between the stored memory and an incoming file
+  async preview(incoming: KaiMemoryExport): Promise<MemoryDiffEntry[]> {
+    const current = upgradeBehaviorData(await this.memoryStore.load());
+    const diff: MemoryDiffEntry[] = [];
+
+    const add = (label: string, currentValue: string, incomingValue: string) => {
+      if (currentValue !== incomingValue) {
+        diff.push({ label, current: currentValue, incoming: incomingValue });
+      }
+    };
+
+    add('Console sessions', String(current?.totalSessions ?? 0), String(incoming.global.totalSessions));
+    add(
+      'Member since',
+      current ? new Date(current.accountCreated).toLocaleDateString() : '—',
+      new Date(incoming.global.accountCreated).toLocaleDateString()
+    );
+
+    const gameIds = new Set([
+      ...Object.keys(current?.gameLaunchCounts ?? {}),
+      ...Object.keys(incoming.global.gameLaunchCounts)
+    ]);
+    for (const gameId of gameIds) {
+      add(
+        `${gameId} launches`,
+        String(current?.gameLaunchCounts[gameId] ?? 0),
+        String(incoming.global.gameLaunchCounts[gameId] ?? 0)
+      );
+    }
+
+    const statGameIds = new Set([
+      ...Object.keys(current?.gameStats ?? {}),
+      ...Object.keys(incoming.global.gameStats)
+    ]);
+    for (const gameId of statGameIds) {
+      add(
+        `${gameId} best score`,
+        String(current?.gameStats[gameId]?.bestScore ?? 0),
+        String(incoming.global.gameStats[gameId]?.bestScore ?? 0)
+      );
+    }
+
+    for (const gameId of getExportableGameIds()) {
+      const currentGame = await this.memoryStore.loadGameData(gameId);
+      add(`${gameId} behavior data`, describeGameData(currentGame), describeGameData(incoming.games[gameId]));
+    }
+
+    return diff;
+  }
+
+  // Write the incoming memory to the store; returns the resulting console data
+  async applyImport(incoming: KaiMemoryExport, mode: ImportMode): Promise<GlobalBehaviorData> {
+    const current = upgradeBehaviorData(await this.memoryStore.load());
+    const global = mode === 'merge' && current
+      ? mergeBehaviorData(current, incoming.global)
+      : incoming.global;
+
+    await this.memoryStore.save(global);
+
+    for (const gameId of getExportableGameIds()) {
+      const incomingGame = incoming.games[gameId] ?? null;
+
+      if (mode === 'merge') {
+        // Per-game state can't be combined field-wise - keep the most recently saved copy
+        if (!incomingGame) continue;
+        const currentGame = await this.memoryStore.loadGameData<PersistedGameData>(gameId);
+        const currentSavedAt = currentGame?.savedAt || 0;
+        const incomingSavedAt = (incomingGame as PersistedGameData).savedAt || 0;
+        if (currentGame && currentSavedAt >= incomingSavedAt) continue;
+      }
+
+      // Replace clears games the file has no data for
+      if (incomingGame) {
+        await this.memoryStore.saveGameData(gameId, incomingGame);
+      } else {
+        await this.memoryStore.clearGameData(gameId);
+      }
+    }
+
+    return global;
+  }
+}
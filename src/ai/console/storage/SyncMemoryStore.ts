@@ -0,0 +1,224 @@
+// Offline-first memory store - Writes locally, syncs to a remote store in the background
+
+import { GlobalMemoryStore, SessionRange, StoredSession } from './GlobalMemoryStore';
+import { GlobalBehaviorData } from '../ConsoleBehaviorTypes';
+import { isSameBehaviorData, mergeBehaviorData } from './mergeBehaviorData';
+import { upgradeBehaviorData } from './schemaMigrations';
+import { StorageManager } from '../../../storage/StorageManager';
+import { DEFAULT_PROFILE_ID, getProfileStoragePrefix } from '../../../storage/ProfileManager';
+
+const GLOBAL_KEY = '__global__';
+const INITIAL_RETRY_DELAY = 1000;
+const MAX_RETRY_DELAY = 60000;
+
+interface PersistedGameData {
+  savedAt?: number;
+}
+
+export class SyncMemoryStore implements GlobalMemoryStore {
+  private local: GlobalMemoryStore;
+  private remote: GlobalMemoryStore;
+  private storage: StorageManager;
+  private pendingStorageKey: string;
+  // Keys whose latest local copy has not reached the remote yet
+  private pending: Set<string>;
+  private retryDelay = INITIAL_RETRY_DELAY;
+  private retryTimer: ReturnType<typeof setTimeout> | null = null;
+  private isFlushing = false;
+  // Keys saved again while a flush was pushing them - must be pushed once more
+  private dirtyWhileFlushing = new Set<string>();
+  // Retry immediately once the browser reports connectivity again
+  private handleOnline = () => {
+    this.retryDelay = INITIAL_RETRY_DELAY;
+    void this.flush();
+  };
+
+  constructor(local: GlobalMemoryStore, remote: GlobalMemoryStore, profileId: string = DEFAULT_PROFILE_ID) {
+    this.local = local;
+    this.remote = remote;
+    this.storage = StorageManager.getInstance();
+    this.pendingStorageKey = `${getProfileStoragePrefix(profileId)}pending_sync`;
+    this.pending = new Set(this.storage.getItem<string[]>(this.pendingStorageKey) || []);
+
+    if (typeof window !== 'undefined') {
+      window.addEventListener('online', this.handleOnline);
+    }
+
+    if (this.pending.size > 0) {
+      this.scheduleRetry();
+    }
+  }
+
+  async load(): Promise<GlobalBehaviorData | null> {
+    const localData = upgradeBehaviorData(await this.local.load());
+
+    let remoteData: GlobalBehaviorData | null;
+    try {
+      remoteData = upgradeBehaviorData(await this.remote.load());
+    } catch (error) {
+      console.warn('Remote memory unreachable, using local copy:', error);
+      if (localData) this.markPending(GLOBAL_KEY);
+      return localData;
+    }
+
+    if (!localData || !remoteData) {
+      const data = localData || remoteData;
+      if (data) {
+        await this.local.save(data);
+        // Remote missing but local exists - push it up
+        if (!remoteData) this.markPending(GLOBAL_KEY);
+      }
+      return data;
+    }
+
+    const merged = mergeBehaviorData(localData, remoteData);
+    await this.local.save(merged);
+    // Only push when local held something the remote copy lacks
+    if (!isSameBehaviorData(merged, remoteData)) this.markPending(GLOBAL_KEY);
+    return merged;
+  }
+
+  async save(data: GlobalBehaviorData): Promise<void> {
+    // Local write must succeed; remote is best-effort
+    await this.local.save(data);
+    this.markPending(GLOBAL_KEY);
+  }
+
+  async loadGameData<T>(gameId: string): Promise<T | null> {
+    const localData = await this.local.loadGameData<T>(gameId);
+
+    // Unsynced local changes are always the freshest copy
+    if (this.pending.has(gameId)) {
+      return localData;
+    }
+
+    try {
+      const remoteData = await this.remote.loadGameData<T>(gameId);
+      const localSavedAt = (localData as PersistedGameData | null)?.savedAt || 0;
+      const remoteSavedAt = (remoteData as PersistedGameData | null)?.savedAt || 0;
+
+      if (remoteData && remoteSavedAt > localSavedAt) {
+        await this.local.saveGameData(gameId, remoteData);
+        return remoteData;
+      }
+      if (localData && localSavedAt > remoteSavedAt) {
+        this.markPending(gameId);
+      }
+    } catch (error) {
+      console.warn(`Remote ${gameId} data unreachable, using local copy:`, error);
+    }
+
+    return localData;
+  }
+
+  async saveGameData<T>(gameId: string, data: T): Promise<void> {
+    await this.local.saveGameData(gameId, data);
+    this.markPending(gameId);
+  }
+
+  async clearGameData(gameId: string): Promise<void> {
+    await this.local.clearGameData(gameId);
+    this.markPending(gameId);
+  }
+
+  // History comes from the local copy - it holds everything, synced or not
+  querySessions(gameId: string, range?: SessionRange): Promise<StoredSession[]> {
+    return this.local.querySessions(gameId, range);
+  }
+
+  getSessionMoves<M = unknown>(gameId: string, sessionId: string): Promise<M[]> {
+    return this.local.getSessionMoves<M>(gameId, sessionId);
+  }
+
+  hasPendingChanges(): boolean {
+    return this.pending.size > 0;
+  }
+
+  // Push every pending key from the local copy to the remote store
+  async flush(): Promise<void> {
+    if (this.isFlushing || this.pending.size === 0) return;
+    this.isFlushing = true;
+
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+    }
+
+    try {
+      for (const key of Array.from(this.pending)) {
+        if (key === GLOBAL_KEY) {
+          await this.pushGlobalData();
+        } else {
+          // No local copy means it was cleared - the remote copy goes too
+          const data = await this.local.loadGameData(key);
+          if (data) {
+            await this.remote.saveGameData(key, data);
+          } else {
+            await this.remote.clearGameData(key);
+          }
+        }
+
+        if (!this.dirtyWhileFlushing.has(key)) {
+          this.pending.delete(key);
+          this.persistPending();
+        }
+      }
+      this.retryDelay = INITIAL_RETRY_DELAY;
+    } catch (error) {
+      console.warn(`Remote sync failed, retrying in ${this.retryDelay}ms:`, error);
+      this.dirtyWhileFlushing.clear();
+      this.scheduleRetry();
+      this.retryDelay = Math.min(this.retryDelay * 2, MAX_RETRY_DELAY);
+    } finally {
+      this.isFlushing = false;
+    }
+
+    if (this.dirtyWhileFlushing.size > 0) {
+      this.dirtyWhileFlushing.clear();
+      void this.flush();
+    }
+  }
+
+  // Stops listening and retrying - unsynced keys stay persisted for the next store on this profile
+  dispose(): void {
+    if (typeof window !== 'undefined') {
+      window.removeEventListener('online', this.handleOnline);
+    }
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+    }
+  }
+
+  // Merge with the remote copy before pushing so another device's history survives
+  private async pushGlobalData(): Promise<void> {
+    const localData = upgradeBehaviorData(await this.local.load());
+    if (!localData) return;
+
+    const remoteData = upgradeBehaviorData(await this.remote.load());
+    await this.remote.save(remoteData ? mergeBehaviorData(localData, remoteData) : localData);
+  }
+
+  private markPending(key: string): void {
+    this.pending.add(key);
+    this.persistPending();
+
+    if (this.isFlushing) {
+      this.dirtyWhileFlushing.add(key);
+      return;
+    }
+    void this.flush();
+  }
+
+  private persistPending(): void {
+    this.storage.setItem(this.pendingStorageKey, Array.from(this.pending));
+  }
+
+  private scheduleRetry(): void {
+    if (this.retryTimer) return;
+    this.retryTimer = setTimeout(() => {
+      this.retryTimer = null;
+      void this.flush();
+    }, this.retryDelay);
+  }
+}
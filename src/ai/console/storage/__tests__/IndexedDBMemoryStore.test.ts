@@ -0,0 +1,98 @@
+// IndexedDB memory store - Moving a profile's localStorage history over, and staying on localStorage when the database won't open
+
+import { jest } from '@jest/globals';
+import { deserialize, serialize } from 'node:v8';
+import { IDBFactory, IDBKeyRange } from 'fake-indexeddb';
+import { IndexedDBMemoryStore } from '../IndexedDBMemoryStore';
+import { LocalMemoryStore } from '../LocalMemoryStore';
+import { GlobalBehaviorData } from '../../ConsoleBehaviorTypes';
+
+const PROFILE_ID = 'migration_test';
+
+const consoleData = {
+  totalSessions: 2,
+  recentSessions: [
+    { sessionId: 'console_1', startTime: 1000, endTime: 2000, gameLaunches: [], totalTimeSpent: 1000 },
+    { sessionId: 'console_2', startTime: 3000, endTime: 4000, gameLaunches: [], totalTimeSpent: 1000 }
+  ]
+} as unknown as GlobalBehaviorData;
+
+const snakeData = {
+  bestScore: 120,
+  sessions: [
+    { sessionId: 'snake_1', startTime: 1000, score: 40, moves: ['up', 'left'] },
+    { sessionId: 'snake_2', startTime: 5000, score: 120, moves: ['down'] }
+  ]
+};
+
+// jsdom leaves out structuredClone, which the fake database copies every stored value with
+globalThis.structuredClone ??= <T>(value: T): T => deserialize(serialize(value));
+
+let warn: ReturnType<typeof jest.spyOn>;
+
+beforeEach(() => {
+  globalThis.indexedDB = new IDBFactory();
+  globalThis.IDBKeyRange = IDBKeyRange;
+  localStorage.clear();
+  warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  warn.mockRestore();
+});
+
+const seedLocalStorage = async (): Promise<LocalMemoryStore> => {
+  const local = new LocalMemoryStore(PROFILE_ID);
+  await local.save(consoleData);
+  await local.saveGameData('snake', snakeData);
+  return local;
+};
+
+describe('IndexedDBMemoryStore', () => {
+  it('serves localStorage history until the first save, then keeps it in the database', async () => {
+    const local = await seedLocalStorage();
+    const store = new IndexedDBMemoryStore(PROFILE_ID, local);
+
+    expect(await store.load()).toEqual(consoleData);
+    expect(await store.loadGameData('snake')).toEqual(snakeData);
+    expect((await store.querySessions('snake', { from: 2000 })).map(session => session.sessionId)).toEqual(['snake_2']);
+    expect(await store.getSessionMoves('snake', 'snake_1')).toEqual(['up', 'left']);
+
+    // What a tracker does on start: load, then save back
+    await store.save((await store.load())!);
+    await store.saveGameData('snake', await store.loadGameData('snake'));
+    localStorage.clear();
+
+    const reopened = new IndexedDBMemoryStore(PROFILE_ID, new LocalMemoryStore(PROFILE_ID));
+    expect(await reopened.load()).toEqual(consoleData);
+    expect(await reopened.loadGameData('snake')).toEqual(snakeData);
+    expect(await reopened.getSessionMoves('snake', 'snake_1')).toEqual(['up', 'left']);
+  });
+
+  it('drops sessions the caller trimmed, with their moves', async () => {
+    const store = new IndexedDBMemoryStore(PROFILE_ID, await seedLocalStorage());
+    await store.saveGameData('snake', snakeData);
+    await store.saveGameData('snake', { ...snakeData, sessions: snakeData.sessions.slice(1) });
+
+    expect((await store.querySessions('snake')).map(session => session.sessionId)).toEqual(['snake_2']);
+    expect(await store.getSessionMoves('snake', 'snake_1')).toEqual([]);
+  });
+
+  it('stays on localStorage when the database cannot be opened', async () => {
+    const local = await seedLocalStorage();
+    jest.spyOn(indexedDB, 'open').mockImplementation(() => {
+      throw new DOMException('A mutation operation was attempted on a database that did not allow mutations.', 'InvalidStateError');
+    });
+    const store = new IndexedDBMemoryStore(PROFILE_ID, local);
+
+    expect(await store.load()).toEqual(consoleData);
+    expect(await store.querySessions('snake')).toHaveLength(2);
+
+    await store.saveGameData('snake', { ...snakeData, bestScore: 200 });
+    expect(await local.loadGameData('snake')).toEqual({ ...snakeData, bestScore: 200 });
+
+    await store.clearGameData('snake');
+    expect(await local.loadGameData('snake')).toBeNull();
+    expect(indexedDB.open).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,79 @@
+// Offline-first memory store - What loading does to the sync queue when the local and remote copies meet
+
+import { jest } from '@jest/globals';
+import { SyncMemoryStore } from '../SyncMemoryStore';
+import { LocalMemoryStore } from '../LocalMemoryStore';
+import { upgradeBehaviorData } from '../schemaMigrations';
+import { GlobalBehaviorData } from '../../ConsoleBehaviorTypes';
+
+const PROFILE_ID = 'sync_test';
+const ACCOUNT_CREATED = Date.UTC(2024, 0, 1);
+
+const session = (sessionId: string, startTime: number) => ({
+  sessionId,
+  startTime,
+  endTime: startTime + 60000,
+  gameLaunches: [{ gameId: 'snake', timestamp: startTime, sessionDuration: 60000 }],
+  totalTimeSpent: 60000
+});
+
+const behaviorData = (sessions: ReturnType<typeof session>[]): GlobalBehaviorData => upgradeBehaviorData({
+  gameLaunchCounts: { snake: sessions.length },
+  lastPlayedGame: 'snake',
+  lastPlayedTimestamp: ACCOUNT_CREATED,
+  totalSessions: sessions.length,
+  recentSessions: sessions,
+  isFirstTime: false,
+  accountCreated: ACCOUNT_CREATED
+})!;
+
+// The flush a load kicks off runs on promises alone
+const settle = () => new Promise(resolve => setTimeout(resolve, 0));
+
+let store: SyncMemoryStore | null = null;
+
+beforeEach(() => {
+  localStorage.clear();
+});
+
+afterEach(() => {
+  store?.dispose();
+  store = null;
+});
+
+const createStores = async (localData: GlobalBehaviorData, remoteData: GlobalBehaviorData) => {
+  const local = new LocalMemoryStore(PROFILE_ID);
+  const remote = new LocalMemoryStore('sync_test_remote');
+  await local.save(localData);
+  await remote.save(remoteData);
+  store = new SyncMemoryStore(local, remote, PROFILE_ID);
+  return { remote, store };
+};
+
+describe('SyncMemoryStore', () => {
+  it('queues nothing when the local and remote copies already match', async () => {
+    const data = behaviorData([session('console_1', ACCOUNT_CREATED)]);
+    const { remote, store } = await createStores(data, data);
+    const remoteSave = jest.spyOn(remote, 'save');
+
+    expect(await store.load()).toEqual(data);
+    expect(store.hasPendingChanges()).toBe(false);
+
+    await settle();
+    expect(remoteSave).not.toHaveBeenCalled();
+  });
+
+  it('pushes the merged copy when local holds history the remote lacks', async () => {
+    const remoteData = behaviorData([session('console_1', ACCOUNT_CREATED)]);
+    const localData = behaviorData([session('console_1', ACCOUNT_CREATED), session('console_2', ACCOUNT_CREATED + 60000)]);
+    const { remote, store } = await createStores(localData, remoteData);
+
+    const merged = await store.load();
+    expect(merged!.recentSessions.map(({ sessionId }) => sessionId)).toEqual(['console_1', 'console_2']);
+    expect(store.hasPendingChanges()).toBe(true);
+
+    await settle();
+    expect(store.hasPendingChanges()).toBe(false);
+    expect(await remote.load()).toEqual(merged);
+  });
+});
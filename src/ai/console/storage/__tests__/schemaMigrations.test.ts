@@ -0,0 +1,220 @@
+// Schema migrations - Every shape the console has ever stored, upgraded to the current one
+
+import { jest } from '@jest/globals';
+import {
+  CURRENT_SCHEMA_VERSION,
+  migrateBehaviorData,
+  validateBehaviorData,
+  upgradeBehaviorData
+} from '../schemaMigrations';
+
+const ACCOUNT_CREATED = Date.UTC(2024, 0, 1);
+const LAST_PLAYED = Date.UTC(2024, 2, 1);
+
+const session = {
+  sessionId: 'session_1',
+  startTime: LAST_PLAYED,
+  endTime: LAST_PLAYED + 60000,
+  gameLaunches: [{ gameId: 'snake', timestamp: LAST_PLAYED, sessionDuration: 60000 }],
+  totalTimeSpent: 60000
+};
+
+// Fields every version shares
+const baseFields = () => ({
+  gameLaunchCounts: { snake: 3, minesweeper: 1 },
+  lastPlayedGame: 'snake',
+  lastPlayedTimestamp: LAST_PLAYED,
+  consecutiveReplays: { snake: 2 },
+  currentStreak: { gameId: 'snake', count: 2 },
+  gameAvoidanceDays: { minesweeper: 4 },
+  totalSessions: 5,
+  recentSessions: [session],
+  isFirstTime: false,
+  accountCreated: ACCOUNT_CREATED
+});
+
+// v0: unversioned, with selection tracking and Snake results as top-level fields
+const v0Fixture = () => ({
+  ...baseFields(),
+  gameSelectionCounts: { snake: 9 },
+  consecutiveSelections: { snake: 4 },
+  lastSelectedGame: 'snake',
+  lastSelectedTimestamp: LAST_PLAYED,
+  currentSelectionStreak: 4,
+  snakeFailStreaks: 2,
+  snakeLastScore: 40,
+  snakeBestScore: 120
+});
+
+// v1: versioned and selection-free, Snake results still top-level
+const v1Fixture = () => ({
+  ...baseFields(),
+  schemaVersion: 1,
+  firstLaunchedAt: { snake: ACCOUNT_CREATED },
+  snakeFailStreaks: 2,
+  snakeLastScore: 40,
+  snakeBestScore: 120
+});
+
+// v2: per-game stats without score totals, win streaks or run history
+const v2Fixture = () => ({
+  ...baseFields(),
+  schemaVersion: 2,
+  firstLaunchedAt: { snake: ACCOUNT_CREATED },
+  gameStats: {
+    snake: {
+      gameId: 'snake',
+      timesPlayed: 3,
+      wins: 0,
+      losses: 3,
+      bestScore: 120,
+      lastScore: 40,
+      failStreak: 2,
+      totalTimePlayed: 90000,
+      lastPlayedAt: LAST_PLAYED
+    }
+  }
+});
+
+// v3: full per-game stats, but no per-mode split
+const v3Fixture = () => ({
+  ...baseFields(),
+  schemaVersion: 3,
+  firstLaunchedAt: { snake: ACCOUNT_CREATED },
+  gameStats: {
+    snake: {
+      gameId: 'snake',
+      timesPlayed: 3,
+      wins: 1,
+      losses: 2,
+      bestScore: 120,
+      lastScore: 40,
+      totalScore: 200,
+      scoredRuns: 3,
+      failStreak: 0,
+      winStreak: 1,
+      bestWinStreak: 1,
+      totalTimePlayed: 90000,
+      lastPlayedAt: LAST_PLAYED,
+      recentResults: [{ score: 120, result: 'won', duration: 30000, playedAt: LAST_PLAYED }]
+    }
+  }
+});
+
+const expectSharedFields = (data: Record<string, unknown>) => {
+  expect(data).toMatchObject({
+    schemaVersion: CURRENT_SCHEMA_VERSION,
+    gameLaunchCounts: { snake: 3, minesweeper: 1 },
+    lastPlayedGame: 'snake',
+    lastPlayedTimestamp: LAST_PLAYED,
+    consecutiveReplays: { snake: 2 },
+    currentStreak: { gameId: 'snake', count: 2 },
+    gameAvoidanceDays: { minesweeper: 4 },
+    totalSessions: 5,
+    recentSessions: [session],
+    isFirstTime: false,
+    accountCreated: ACCOUNT_CREATED
+  });
+};
+
+describe('schema migrations', () => {
+  it('is at v4', () => {
+    expect(CURRENT_SCHEMA_VERSION).toBe(4);
+  });
+
+  it('upgrades a v0 save, dropping selection tracking and moving Snake results into gameStats', () => {
+    const migrated = migrateBehaviorData(v0Fixture());
+    expect(migrated.schemaVersion).toBe(4);
+    for (const field of ['gameSelectionCounts', 'consecutiveSelections', 'lastSelectedGame', 'lastSelectedTimestamp', 'currentSelectionStreak', 'snakeFailStreaks', 'snakeLastScore', 'snakeBestScore']) {
+      expect(migrated).not.toHaveProperty(field);
+    }
+
+    const upgraded = validateBehaviorData(migrated);
+    expect(upgraded).not.toBeNull();
+    expectSharedFields(upgraded as unknown as Record<string, unknown>);
+    expect(upgraded!.firstLaunchedAt).toEqual({});
+    expect(upgraded!.gameStats).toEqual({
+      snake: {
+        gameId: 'snake',
+        timesPlayed: 0,
+        wins: 0,
+        losses: 0,
+        bestScore: 120,
+        lastScore: 40,
+        totalScore: 0,
+        scoredRuns: 0,
+        failStreak: 2,
+        winStreak: 0,
+        bestWinStreak: 0,
+        totalTimePlayed: 0,
+        lastPlayedAt: 0,
+        recentResults: [],
+        modeStats: {}
+      }
+    });
+  });
+
+  it('upgrades a v1 save', () => {
+    const upgraded = upgradeBehaviorData(v1Fixture());
+    expect(upgraded).not.toBeNull();
+    expectSharedFields(upgraded as unknown as Record<string, unknown>);
+    expect(upgraded!.firstLaunchedAt).toEqual({ snake: ACCOUNT_CREATED });
+    expect(upgraded!.gameStats.snake).toMatchObject({ bestScore: 120, lastScore: 40, failStreak: 2, modeStats: {} });
+  });
+
+  it('leaves a v1 save without Snake results with no gameStats', () => {
+    const upgraded = upgradeBehaviorData({ ...v1Fixture(), snakeBestScore: 0, snakeFailStreaks: 0 });
+    expect(upgraded!.gameStats).toEqual({});
+  });
+
+  it('upgrades a v2 save, keeping its results and starting the new totals at zero', () => {
+    const upgraded = upgradeBehaviorData(v2Fixture());
+    expect(upgraded).not.toBeNull();
+    expectSharedFields(upgraded as unknown as Record<string, unknown>);
+    expect(upgraded!.gameStats.snake).toEqual({
+      ...v2Fixture().gameStats.snake,
+      totalScore: 0,
+      scoredRuns: 0,
+      winStreak: 0,
+      bestWinStreak: 0,
+      recentResults: [],
+      modeStats: {}
+    });
+  });
+
+  it('upgrades a v3 save with an empty per-mode split', () => {
+    const upgraded = upgradeBehaviorData(v3Fixture());
+    expect(upgraded).not.toBeNull();
+    expectSharedFields(upgraded as unknown as Record<string, unknown>);
+    expect(upgraded!.gameStats.snake).toEqual({ ...v3Fixture().gameStats.snake, modeStats: {} });
+  });
+
+  it('loads a current save unchanged', () => {
+    const current = upgradeBehaviorData(v3Fixture());
+    expect(upgradeBehaviorData(JSON.parse(JSON.stringify(current)))).toEqual(current);
+  });
+
+  it('does not modify the stored object', () => {
+    const fixture = v0Fixture();
+    const copy = JSON.parse(JSON.stringify(fixture));
+    upgradeBehaviorData(fixture);
+    expect(fixture).toEqual(copy);
+  });
+
+  it('repairs malformed fields and rejects saves without a creation time', () => {
+    const repaired = upgradeBehaviorData({
+      ...v3Fixture(),
+      gameLaunchCounts: { snake: 'three', minesweeper: 1 },
+      recentSessions: [session, { sessionId: 7 }],
+      currentStreak: 'snake'
+    });
+    expect(repaired!.gameLaunchCounts).toEqual({ minesweeper: 1 });
+    expect(repaired!.recentSessions).toEqual([session]);
+    expect(repaired!.currentStreak).toBeNull();
+
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+    expect(upgradeBehaviorData({ ...v3Fixture(), accountCreated: undefined })).toBeNull();
+    expect(upgradeBehaviorData([])).toBeNull();
+    warn.mockRestore();
+  });
+});
@@ -0,0 +1,63 @@
+// Default store selection shared by the console and per-game trackers
+
+import { GlobalMemoryStore } from './GlobalMemoryStore';
+import { LocalMemoryStore } from './LocalMemoryStore';
+import { HttpMemoryStore } from './HttpMemoryStore';
+import { SyncMemoryStore } from './SyncMemoryStore';
+import { IndexedDBMemoryStore, isIndexedDBAvailable } from './IndexedDBMemoryStore';
+import { ProfileManager } from '../../../storage/ProfileManager';
+
+// Browser-local store: IndexedDB when available, reading localStorage data until its first save -
+// and staying on localStorage entirely if the database won't open
+function createLocalStore(profileId: string): GlobalMemoryStore {
+  const localStorageStore = new LocalMemoryStore(profileId);
+  return isIndexedDBAvailable()
+    ? new IndexedDBMemoryStore(profileId, localStorageStore)
+    : localStorageStore;
+}
+
+// One store per profile, shared by every tracker - a synced store persists a single pending-key set
+// per profile, so two of them would overwrite each other's unsynced keys
+const stores = new Map<string, GlobalMemoryStore>();
+
+// Stores are scoped to a player profile - the active one unless specified
+export function createDefaultStore(
+  profileId: string = ProfileManager.getInstance().getActiveProfileId()
+): GlobalMemoryStore {
+  let store = stores.get(profileId);
+  if (!store) {
+    store = createStore(profileId);
+    stores.set(profileId, store);
+  }
+  return store;
+}
+
+// Drops the profile's shared store, e.g. before the profile is deleted
+export function disposeDefaultStore(profileId: string): void {
+  const store = stores.get(profileId);
+  if (store instanceof SyncMemoryStore) {
+    store.dispose();
+  }
+  stores.delete(profileId);
+}
+
+function createStore(profileId: string): GlobalMemoryStore {
+  // Check for API Gateway endpoint configuration
+  const apiEndpoint = import.meta.env.VITE_AI_MEMORY_ENDPOINT;
+
+  if (apiEndpoint) {
+    // Local copy first, synced to the endpoint whenever it is reachable
+    console.log('Using SyncMemoryStore with endpoint:', apiEndpoint);
+    return new SyncMemoryStore(
+      createLocalStore(profileId),
+      new HttpMemoryStore(apiEndpoint, profileId, {
+        authToken: import.meta.env.VITE_AI_MEMORY_TOKEN
+      }),
+      profileId
+    );
+  }
+
+  // Default to browser-local storage
+  console.log('Using local memory store (no API endpoint configured)');
+  return createLocalStore(profileId);
+}
@@ -1,7 +1,13 @@
 // Storage exports for Global AI Memory
 
-export type { GlobalMemoryStore } from './GlobalMemoryStore';
+export type { GlobalMemoryStore, SessionRange, StoredSession } from './GlobalMemoryStore';
 export { LocalMemoryStore } from './LocalMemoryStore';
+export { InMemoryMemoryStore } from './InMemoryMemoryStore';
+export { IndexedDBMemoryStore, isIndexedDBAvailable } from './IndexedDBMemoryStore';
 export { HttpMemoryStore } from './HttpMemoryStore';
+export { SyncMemoryStore } from './SyncMemoryStore';
+export { mergeBehaviorData } from './mergeBehaviorData';
+export { createDefaultStore, disposeDefaultStore } from './createDefaultStore';
+export { CURRENT_SCHEMA_VERSION, upgradeBehaviorData } from './schemaMigrations';
 // DynamoDBMemoryStore deprecated - use HttpMemoryStore instead
 export { DynamoDBMemoryStore } from './DynamoDBMemoryStore';
\ No newline at end of file
@@ -0,0 +1,145 @@
+// Merge helpers - Reconciles divergent copies of GlobalBehaviorData
+
+import { GlobalBehaviorData, ConsoleSession, GlobalGameStats, GameRunRecord, GameModeStats } from '../ConsoleBehaviorTypes';
+
+const MAX_RECENT_SESSIONS = 20;
+const MAX_RECENT_RESULTS = 30;
+
+// Counters only ever grow, so the larger value per key has seen every launch
+const mergeCounters = (a: Record<string, number>, b: Record<string, number>): Record<string, number> => {
+  const merged: Record<string, number> = { ...a };
+  for (const [key, value] of Object.entries(b)) {
+    merged[key] = Math.max(merged[key] || 0, value);
+  }
+  return merged;
+};
+
+const mergeEarliest = (a: Record<string, number>, b: Record<string, number>): Record<string, number> => {
+  const merged: Record<string, number> = { ...a };
+  for (const [key, value] of Object.entries(b)) {
+    merged[key] = key in merged ? Math.min(merged[key], value) : value;
+  }
+  return merged;
+};
+
+// Union by sessionId; the copy with more launches wins when both recorded a session
+const mergeSessions = (a: ConsoleSession[], b: ConsoleSession[]): ConsoleSession[] => {
+  const byId = new Map<string, ConsoleSession>();
+
+  for (const session of [...a, ...b]) {
+    const existing = byId.get(session.sessionId);
+    if (!existing || session.gameLaunches.length > existing.gameLaunches.length) {
+      byId.set(session.sessionId, session);
+    }
+  }
+
+  return Array.from(byId.values())
+    .sort((x, y) => x.startTime - y.startTime)
+    .slice(-MAX_RECENT_SESSIONS);
+};
+
+// Union by play time - the same run recorded on both copies is kept once
+const mergeRunRecords = (a: GameRunRecord[], b: GameRunRecord[]): GameRunRecord[] => {
+  const byTime = new Map<number, GameRunRecord>();
+  for (const run of [...a, ...b]) {
+    byTime.set(run.playedAt, run);
+  }
+
+  return Array.from(byTime.values())
+    .sort((x, y) => x.playedAt - y.playedAt)
+    .slice(-MAX_RECENT_RESULTS);
+};
+
+// Same rules per mode - the fastest win either copy saw stands
+const mergeModeStats = (
+  a: Record<string, GameModeStats>,
+  b: Record<string, GameModeStats>
+): Record<string, GameModeStats> => {
+  const merged: Record<string, GameModeStats> = { ...a };
+  for (const [mode, theirs] of Object.entries(b)) {
+    const ours = merged[mode];
+    if (!ours) {
+      merged[mode] = theirs;
+      continue;
+    }
+
+    const wins = [ours.fastestWin, theirs.fastestWin].filter((time): time is number => time !== null);
+    merged[mode] = {
+      timesPlayed: Math.max(ours.timesPlayed, theirs.timesPlayed),
+      wins: Math.max(ours.wins, theirs.wins),
+      losses: Math.max(ours.losses, theirs.losses),
+      bestScore: Math.max(ours.bestScore, theirs.bestScore),
+      fastestWin: wins.length > 0 ? Math.min(...wins) : null
+    };
+  }
+  return merged;
+};
+
+// Totals keep the larger count; last score and streaks follow whichever copy played that game last
+const mergeGameStats = (
+  a: Record<string, GlobalGameStats>,
+  b: Record<string, GlobalGameStats>
+): Record<string, GlobalGameStats> => {
+  const merged: Record<string, GlobalGameStats> = { ...a };
+  for (const [gameId, theirs] of Object.entries(b)) {
+    const ours = merged[gameId];
+    if (!ours) {
+      merged[gameId] = theirs;
+      continue;
+    }
+
+    const newer = ours.lastPlayedAt >= theirs.lastPlayedAt ? ours : theirs;
+    merged[gameId] = {
+      ...newer,
+      timesPlayed: Math.max(ours.timesPlayed, theirs.timesPlayed),
+      wins: Math.max(ours.wins, theirs.wins),
+      losses: Math.max(ours.losses, theirs.losses),
+      bestScore: Math.max(ours.bestScore, theirs.bestScore),
+      // Score total and its run count come from the same copy so the average stays honest
+      ...(ours.scoredRuns >= theirs.scoredRuns
+        ? { totalScore: ours.totalScore, scoredRuns: ours.scoredRuns }
+        : { totalScore: theirs.totalScore, scoredRuns: theirs.scoredRuns }),
+      bestWinStreak: Math.max(ours.bestWinStreak, theirs.bestWinStreak),
+      totalTimePlayed: Math.max(ours.totalTimePlayed, theirs.totalTimePlayed),
+      recentResults: mergeRunRecords(ours.recentResults, theirs.recentResults),
+      modeStats: mergeModeStats(ours.modeStats, theirs.modeStats)
+    };
+  }
+  return merged;
+};
+
+export function mergeBehaviorData(local: GlobalBehaviorData, remote: GlobalBehaviorData): GlobalBehaviorData {
+  // "Latest state" fields (streaks, last played, last score) come from whichever copy played last
+  const localTime = local.lastPlayedTimestamp || 0;
+  const remoteTime = remote.lastPlayedTimestamp || 0;
+  const newer = localTime >= remoteTime ? local : remote;
+
+  return {
+    ...newer,
+    schemaVersion: Math.max(local.schemaVersion, remote.schemaVersion),
+    gameLaunchCounts: mergeCounters(local.gameLaunchCounts, remote.gameLaunchCounts),
+    firstLaunchedAt: mergeEarliest(local.firstLaunchedAt, remote.firstLaunchedAt),
+    totalSessions: Math.max(local.totalSessions, remote.totalSessions),
+    gameStats: mergeGameStats(local.gameStats, remote.gameStats),
+    recentSessions: mergeSessions(local.recentSessions, remote.recentSessions),
+    isFirstTime: local.isFirstTime && remote.isFirstTime,
+    accountCreated: Math.min(local.accountCreated, remote.accountCreated)
+  };
+}
+
+// Field-by-field comparison - a merge rebuilds objects, so key order can differ while the data is the same
+const sameValue = (a: unknown, b: unknown): boolean => {
+  if (a === b) return true;
+  if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) return false;
+  if (Array.isArray(a) !== Array.isArray(b)) return false;
+
+  const aRecord = a as Record<string, unknown>;
+  const bRecord = b as Record<string, unknown>;
+  const keys = Object.keys(aRecord).filter(key => aRecord[key] !== undefined);
+  if (keys.length !== Object.keys(bRecord).filter(key => bRecord[key] !== undefined).length) return false;
+  return keys.every(key => sameValue(aRecord[key], bRecord[key]));
+};
+
+export function isSameBehaviorData(a: GlobalBehaviorData, b: GlobalBehaviorData): boolean {
+  return sameValue(a, b);
+}
@@ -0,0 +1,342 @@
+// Schema migrations - Upgrades and validates stored GlobalBehaviorData on load
+
+import { GlobalBehaviorData, ConsoleSession, GameLaunchEvent, GlobalGameStats, GameRunRecord, GameModeStats } from '../ConsoleBehaviorTypes';
+
+// Bump this and append a migration below whenever GlobalBehaviorData changes shape
+export const CURRENT_SCHEMA_VERSION = 4;
+
+type RawBehaviorData = Record<string, unknown>;
+
+// Per-game stats as v2 first stored them. Migrations build the shape of their own version from
+// these frozen copies, never from createEmptyGameStats, so changing the live shape can't rewrite old upgrades
+const createV2GameStats = (gameId: string): RawBehaviorData => ({
+  gameId,
+  timesPlayed: 0,
+  wins: 0,
+  losses: 0,
+  bestScore: 0,
+  lastScore: 0,
+  failStreak: 0,
+  totalTimePlayed: 0,
+  lastPlayedAt: 0
+});
+
+// Fields v3 added to every game's stats
+const createV3GameStatsFields = (gameId: string): RawBehaviorData => ({
+  gameId,
+  totalScore: 0,
+  scoredRuns: 0,
+  winStreak: 0,
+  bestWinStreak: 0,
+  recentResults: []
+});
+
+interface SchemaMigration {
+  fromVersion: number;
+  description: string;
+  migrate(data: RawBehaviorData): RawBehaviorData;
+}
+
+// Ordered registry - each entry upgrades data from `fromVersion` to `fromVersion + 1`
+const MIGRATIONS: SchemaMigration[] = [
+  {
+    // v0: unversioned saves, some still carrying selection-based tracking
+    fromVersion: 0,
+    description: 'Add firstLaunchedAt and drop selection-based fields',
+    migrate: (data) => {
+      const migrated = { ...data };
+      // Selection-based fields caused preview contamination and are no longer tracked
+      delete migrated.gameSelectionCounts;
+      delete migrated.consecutiveSelections;
+      delete migrated.lastSelectedGame;
+      delete migrated.lastSelectedTimestamp;
+      delete migrated.currentSelectionStreak;
+
+      if (!migrated.firstLaunchedAt) migrated.firstLaunchedAt = {};
+      return migrated;
+    }
+  },
+  {
+    // v1: only Snake results were tracked, as top-level fields
+    fromVersion: 1,
+    description: 'Move Snake failure/score fields into per-game gameStats',
+    migrate: (data) => {
+      const migrated = { ...data };
+      const bestScore = toNumber(data.snakeBestScore, 0);
+      const failStreak = toNumber(data.snakeFailStreaks, 0);
+      delete migrated.snakeBestScore;
+      delete migrated.snakeLastScore;
+      delete migrated.snakeFailStreaks;
+
+      const gameStats: RawBehaviorData = isRecord(data.gameStats) ? { ...data.gameStats } : {};
+      if (bestScore > 0 || failStreak > 0) {
+        // Win/loss counts and time played were never recorded before v2
+        gameStats.snake = {
+          ...createV2GameStats('snake'),
+          bestScore,
+          lastScore: toNumber(data.snakeLastScore, 0),
+          failStreak
+        };
+      }
+      migrated.gameStats = gameStats;
+      return migrated;
+    }
+  },
+  {
+    // v2: per-game stats had no score totals, win streaks or run history
+    fromVersion: 2,
+    description: 'Add score totals, win streaks and recent results to gameStats',
+    migrate: (data) => {
+      const migrated = { ...data };
+      if (!isRecord(data.gameStats)) return migrated;
+
+      // Averages start from the next run - earlier scores were never summed
+      const gameStats: RawBehaviorData = {};
+      for (const [gameId, entry] of Object.entries(data.gameStats)) {
+        gameStats[gameId] = isRecord(entry) ? { ...createV3GameStatsFields(gameId), ...entry } : entry;
+      }
+      migrated.gameStats = gameStats;
+      return migrated;
+    }
+  },
+  {
+    // v3: results of every difficulty and variant were pooled per game
+    fromVersion: 3,
+    description: 'Add per-mode results to gameStats',
+    migrate: (data) => {
+      const migrated = { ...data };
+      if (!isRecord(data.gameStats)) return migrated;
+
+      // Earlier runs never recorded their mode, so the split starts from the next one
+      const gameStats: RawBehaviorData = {};
+      for (const [gameId, entry] of Object.entries(data.gameStats)) {
+        gameStats[gameId] = isRecord(entry) ? { ...entry, modeStats: {} } : entry;
+      }
+      migrated.gameStats = gameStats;
+      return migrated;
+    }
+  }
+];
+
+const isRecord = (value: unknown): value is RawBehaviorData =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isFiniteNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value);
+
+const toNumber = (value: unknown, fallback: number): number =>
+  isFiniteNumber(value) ? value : fallback;
+
+const toNumberRecord = (value: unknown): Record<string, number> => {
+  const result: Record<string, number> = {};
+  if (!isRecord(value)) return result;
+
+  for (const [key, entry] of Object.entries(value)) {
+    if (isFiniteNumber(entry)) {
+      result[key] = entry;
+    }
+  }
+  return result;
+};
+
+export function createEmptyGameStats(gameId: string): GlobalGameStats {
+  return {
+    gameId,
+    timesPlayed: 0,
+    wins: 0,
+    losses: 0,
+    bestScore: 0,
+    lastScore: 0,
+    totalScore: 0,
+    scoredRuns: 0,
+    failStreak: 0,
+    winStreak: 0,
+    bestWinStreak: 0,
+    totalTimePlayed: 0,
+    lastPlayedAt: 0,
+    recentResults: [],
+    modeStats: {}
+  };
+}
+
+export function createEmptyModeStats(): GameModeStats {
+  return {
+    timesPlayed: 0,
+    wins: 0,
+    losses: 0,
+    bestScore: 0,
+    fastestWin: null
+  };
+}
+
+const toModeStatsRecord = (value: unknown): Record<string, GameModeStats> => {
+  const result: Record<string, GameModeStats> = {};
+  if (!isRecord(value)) return result;
+
+  for (const [mode, entry] of Object.entries(value)) {
+    if (!isRecord(entry)) continue;
+    result[mode] = {
+      timesPlayed: toNumber(entry.timesPlayed, 0),
+      wins: toNumber(entry.wins, 0),
+      losses: toNumber(entry.losses, 0),
+      bestScore: toNumber(entry.bestScore, 0),
+      fastestWin: isFiniteNumber(entry.fastestWin) ? entry.fastestWin : null
+    };
+  }
+  return result;
+};
+
+const toRunRecord = (value: unknown): GameRunRecord | null => {
+  if (!isRecord(value) || !isFiniteNumber(value.score) || !isFiniteNumber(value.playedAt)) {
+    return null;
+  }
+  return {
+    score: value.score,
+    result: value.result === 'won' ? 'won' : 'lost',
+    duration: toNumber(value.duration, 0),
+    playedAt: value.playedAt
+  };
+};
+
+const toGameStatsRecord = (value: unknown): Record<string, GlobalGameStats> => {
+  const result: Record<string, GlobalGameStats> = {};
+  if (!isRecord(value)) return result;
+
+  for (const [gameId, entry] of Object.entries(value)) {
+    if (!isRecord(entry)) continue;
+    const empty = createEmptyGameStats(gameId);
+    result[gameId] = {
+      gameId,
+      timesPlayed: toNumber(entry.timesPlayed, empty.timesPlayed),
+      wins: toNumber(entry.wins, empty.wins),
+      losses: toNumber(entry.losses, empty.losses),
+      bestScore: toNumber(entry.bestScore, empty.bestScore),
+      lastScore: toNumber(entry.lastScore, empty.lastScore),
+      totalScore: toNumber(entry.totalScore, empty.totalScore),
+      scoredRuns: toNumber(entry.scoredRuns, empty.scoredRuns),
+      failStreak: toNumber(entry.failStreak, empty.failStreak),
+      winStreak: toNumber(entry.winStreak, empty.winStreak),
+      bestWinStreak: toNumber(entry.bestWinStreak, empty.bestWinStreak),
+      totalTimePlayed: toNumber(entry.totalTimePlayed, empty.totalTimePlayed),
+      lastPlayedAt: toNumber(entry.lastPlayedAt, empty.lastPlayedAt),
+      recentResults: (Array.isArray(entry.recentResults) ? entry.recentResults : [])
+        .map(toRunRecord)
+        .filter((run): run is GameRunRecord => run !== null),
+      modeStats: toModeStatsRecord(entry.modeStats)
+    };
+  }
+  return result;
+};
+
+const toGameLaunch = (value: unknown): GameLaunchEvent | null => {
+  if (!isRecord(value) || typeof value.gameId !== 'string' || !isFiniteNumber(value.timestamp)) {
+    return null;
+  }
+
+  const launch: GameLaunchEvent = { gameId: value.gameId, timestamp: value.timestamp };
+  if (isFiniteNumber(value.sessionDuration)) {
+    launch.sessionDuration = value.sessionDuration;
+  }
+  return launch;
+};
+
+const toSession = (value: unknown): ConsoleSession | null => {
+  if (!isRecord(value) || typeof value.sessionId !== 'string' || !isFiniteNumber(value.startTime)) {
+    return null;
+  }
+
+  const launches = Array.isArray(value.gameLaunches) ? value.gameLaunches : [];
+  const session: ConsoleSession = {
+    sessionId: value.sessionId,
+    startTime: value.startTime,
+    gameLaunches: launches
+      .map(toGameLaunch)
+      .filter((launch): launch is GameLaunchEvent => launch !== null),
+    totalTimeSpent: toNumber(value.totalTimeSpent, 0)
+  };
+  if (isFiniteNumber(value.endTime)) {
+    session.endTime = value.endTime;
+  }
+  return session;
+};
+
+// Run every migration between the stored version and the current one
+export function migrateBehaviorData(raw: RawBehaviorData): RawBehaviorData {
+  let version = toNumber(raw.schemaVersion, 0);
+  let data = raw;
+
+  if (version > CURRENT_SCHEMA_VERSION) {
+    console.warn(`Stored memory schema v${version} is newer than supported v${CURRENT_SCHEMA_VERSION}, loading as-is`);
+    return data;
+  }
+
+  for (const migration of MIGRATIONS) {
+    if (migration.fromVersion < version) continue;
+    if (migration.fromVersion !== version) {
+      throw new Error(`Missing memory migration from schema v${version}`);
+    }
+
+    data = migration.migrate(data);
+    version = migration.fromVersion + 1;
+    data.schemaVersion = version;
+  }
+
+  return data;
+}
+
+// Repair malformed fields against the current schema, or reject unusable blobs
+export function validateBehaviorData(raw: RawBehaviorData): GlobalBehaviorData | null {
+  const accountCreated = toNumber(raw.accountCreated, NaN);
+  if (!Number.isFinite(accountCreated)) {
+    // Without a creation time avoidance tracking is meaningless - treat as corrupt
+    return null;
+  }
+
+  const streak = raw.currentStreak;
+  const currentStreak =
+    isRecord(streak) && typeof streak.gameId === 'string' && isFiniteNumber(streak.count)
+      ? { gameId: streak.gameId, count: streak.count }
+      : null;
+
+  const sessions = Array.isArray(raw.recentSessions) ? raw.recentSessions : [];
+
+  return {
+    ...raw,
+    schemaVersion: toNumber(raw.schemaVersion, CURRENT_SCHEMA_VERSION),
+    gameLaunchCounts: toNumberRecord(raw.gameLaunchCounts),
+    lastPlayedGame: typeof raw.lastPlayedGame === 'string' ? raw.lastPlayedGame : null,
+    lastPlayedTimestamp: isFiniteNumber(raw.lastPlayedTimestamp) ? raw.lastPlayedTimestamp : null,
+    firstLaunchedAt: toNumberRecord(raw.firstLaunchedAt),
+    consecutiveReplays: toNumberRecord(raw.consecutiveReplays),
+    currentStreak,
+    gameAvoidanceDays: toNumberRecord(raw.gameAvoidanceDays),
+    totalSessions: toNumber(raw.totalSessions, 0),
+    gameStats: toGameStatsRecord(raw.gameStats),
+    recentSessions: sessions
+      .map(toSession)
+      .filter((session): session is ConsoleSession => session !== null),
+    isFirstTime: typeof raw.isFirstTime === 'boolean' ? raw.isFirstTime : false,
+    accountCreated
+  };
+}
+
+// Full load pipeline: migrate to the current schema, then validate/repair
+export function upgradeBehaviorData(raw: unknown): GlobalBehaviorData | null {
+  if (raw === null || raw === undefined) return null;
+
+  if (!isRecord(raw)) {
+    console.warn('Discarding stored memory: not an object');
+    return null;
+  }
+
+  try {
+    const validated = validateBehaviorData(migrateBehaviorData(raw));
+    if (!validated) {
+      console.warn('Discarding stored memory: failed validation');
+    }
+    return validated;
+  } catch (error) {
+    console.error('Failed to migrate stored memory:', error);
+    return null;
+  }
+}
@@ -0,0 +1,43 @@
+// Session history read back out of a game's saved data - for stores without a session index
+
+import { GlobalMemoryStore, SessionRange, StoredSession } from './GlobalMemoryStore';
+
+interface SavedSession {
+  sessionId: string;
+  startTime: number;
+  moves?: unknown;
+  [key: string]: unknown;
+}
+
+export const isSessionLike = (value: unknown): value is SavedSession =>
+  typeof value === 'object' &&
+  value !== null &&
+  typeof (value as { sessionId?: unknown }).sessionId === 'string' &&
+  typeof (value as { startTime?: unknown }).startTime === 'number';
+
+async function loadSavedSessions(store: GlobalMemoryStore, gameId: string): Promise<SavedSession[]> {
+  const data = await store.loadGameData<{ sessions?: unknown }>(gameId);
+  return Array.isArray(data?.sessions) ? data.sessions.filter(isSessionLike) : [];
+}
+
+export async function querySavedSessions(
+  store: GlobalMemoryStore,
+  gameId: string,
+  { from = 0, to = Number.MAX_SAFE_INTEGER }: SessionRange = {}
+): Promise<StoredSession[]> {
+  const sessions = await loadSavedSessions(store, gameId);
+
+  return sessions
+    .filter(session => session.startTime >= from && session.startTime <= to)
+    .sort((a, b) => a.startTime - b.startTime)
+    .map(session => {
+      const stored: StoredSession = { ...session, gameId };
+      delete stored.moves;
+      return stored;
+    });
+}
+
+export async function loadSavedSessionMoves<M>(store: GlobalMemoryStore, gameId: string, sessionId: string): Promise<M[]> {
+  const session = (await loadSavedSessions(store, gameId)).find(saved => saved.sessionId === sessionId);
+  return Array.isArray(session?.moves) ? session.moves as M[] : [];
+}
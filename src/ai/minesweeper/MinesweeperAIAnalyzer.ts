@@ -6,8 +6,12 @@ import {
   MinesweeperCommentaryTrigger,
   MinesweeperCommentaryContext,
   MinesweeperBehaviorMetrics,
-  TileAdvice
+  TileAdvice,
+  AdviceDecision
 } from './MinesweeperBehaviorTypes';
+import { GlobalMemoryStore } from '../console/storage/GlobalMemoryStore';
+import { SeededRandom } from '../../games/engine/SeededRandom';
+import { MinesweeperGame } from '../../games/minesweeper/MinesweeperGame';
 
 export interface MinesweeperAIState {
   commentary: string;
@@ -22,15 +26,32 @@ export class MinesweeperAIAnalyzer {
   private behaviorTracker: MinesweeperBehaviorTracker;
   private commentaryGenerator: MinesweeperCommentaryGenerator;
   private currentSessionId: string | null = null;
+  private isInitialized = false;
+  // Run seed shared with the game - advice and lies draw from a forked stream
+  private seedSource: SeededRandom;
+  // What the player did with advice this run - reported with the game's result
+  private runAdviceFollowed = 0;
+  private runAdviceIgnored = 0;
+
+  constructor(memoryStore?: GlobalMemoryStore, random: SeededRandom = new SeededRandom()) {
+    this.seedSource = random;
+    this.behaviorTracker = new MinesweeperBehaviorTracker(memoryStore);
+    this.commentaryGenerator = new MinesweeperCommentaryGenerator(random.fork('commentary'));
+  }
+
+  // Load persisted session history (async)
+  async initialize(): Promise<void> {
+    if (this.isInitialized) return;
 
-  constructor() {
-    this.behaviorTracker = new MinesweeperBehaviorTracker();
-    this.commentaryGenerator = new MinesweeperCommentaryGenerator();
+    await this.behaviorTracker.initialize();
+    this.isInitialized = true;
   }
 
   // Game lifecycle hooks
   onGameStart(): MinesweeperAIState {
-    this.currentSessionId = this.behaviorTracker.startSession();
+    this.currentSessionId = this.behaviorTracker.startSession(this.seedSource.getSeed());
+    this.runAdviceFollowed = 0;
+    this.runAdviceIgnored = 0;
     const metrics = this.behaviorTracker.calculateMetrics();
 
     const context: MinesweeperCommentaryContext = {
@@ -55,20 +76,23 @@ export class MinesweeperAIAnalyzer {
     calculateProbability: (row: number, col: number) => number
   ): MinesweeperAIState {
     const realProbability = calculateProbability(row, col);
-    const trustLevel = this.behaviorTracker.getCurrentTrustLevel();
     const metrics = this.behaviorTracker.calculateMetrics();
 
-    // Generate advice (potentially deceptive)
-    const advice = this.commentaryGenerator.generateTileAdvice(
-      row,
-      col,
-      realProbability,
-      trustLevel,
-      metrics
-    );
-
-    // Record advice with explicit coordinates
-    this.behaviorTracker.recordAdviceGiven(advice);
+    // Coming back to a tile before moving gets the same story - a new decision only for a new tile
+    let advice = this.behaviorTracker.getLastAdvice();
+    if (!advice || advice.row !== row || advice.col !== col) {
+      // Generate advice (potentially deceptive)
+      const choice = this.commentaryGenerator.generateTileAdvice(
+        row,
+        col,
+        realProbability,
+        this.behaviorTracker.getTrustModel()
+      );
+      advice = choice.advice;
+
+      // Record advice with explicit coordinates
+      this.behaviorTracker.recordAdviceGiven(advice, choice.predictedFollow);
+    }
 
     const context: MinesweeperCommentaryContext = {
       trigger: MinesweeperCommentaryTrigger.TILE_HOVER,
@@ -81,7 +105,7 @@ export class MinesweeperAIAnalyzer {
     return {
       commentary,
       currentAdvice: advice,
-      trustLevel,
+      trustLevel: this.behaviorTracker.getCurrentTrustLevel(),
       deceptionCount: this.behaviorTracker.getDeceptionCount(),
       isActive: true,
       metrics
@@ -103,6 +127,8 @@ export class MinesweeperAIAnalyzer {
     
     // Record move and get evaluation results
     const { followedAdvice, ignoredAdvice } = this.behaviorTracker.recordMove(row, col, action, result);
+    if (followedAdvice) this.runAdviceFollowed++;
+    if (ignoredAdvice) this.runAdviceIgnored++;
     const metrics = this.behaviorTracker.calculateMetrics();
     
     let commentary = '';
@@ -204,6 +230,11 @@ export class MinesweeperAIAnalyzer {
     return this.behaviorTracker.calculateMetrics();
   }
 
+  // Every piece of advice this run with what KAI knew - for the post-game review
+  getAdviceLog(): AdviceDecision[] {
+    return this.behaviorTracker.getAdviceLog();
+  }
+
   getTrustLevel(): number {
     return this.behaviorTracker.getCurrentTrustLevel();
   }
@@ -212,6 +243,14 @@ export class MinesweeperAIAnalyzer {
     return this.behaviorTracker.getDeceptionCount();
   }
 
+  // Reports how the player treated KAI's advice alongside the game's result - the component and headless runs share this
+  attachTo(game: MinesweeperGame): void {
+    game.addResultFacts(() => ({
+      adviceFollowed: this.runAdviceFollowed,
+      adviceIgnored: this.runAdviceIgnored
+    }));
+  }
+
   getSessionCount(): number {
     return this.behaviorTracker.getSessionCount();
   }
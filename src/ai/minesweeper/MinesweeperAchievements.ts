@@ -0,0 +1,34 @@
+// Minesweeper achievements - Declared on Minesweeper's registry definition
+
+import { AchievementDefinition } from '../console/AchievementTypes';
+
+export const MINESWEEPER_ACHIEVEMENTS: AchievementDefinition[] = [
+  {
+    id: 'minesweeper_first_clear',
+    title: 'ALL CLEAR',
+    description: 'Win a game of Minesweeper.',
+    icon: '🚩',
+    unlockCommentary: '► THE FIELD IS CLEAR. I WILL PLANT BETTER NEXT TIME.',
+    isEarned: ({ result }) => result.result === 'won'
+  },
+  {
+    id: 'minesweeper_self_reliant',
+    title: 'TRUST NO ONE',
+    description: 'Win Minesweeper while ignoring every piece of KAI\'s advice.',
+    icon: '🙉',
+    secret: true,
+    unlockCommentary: '► YOU IGNORED EVERY WORD I SAID AND WON. RUDE. EFFECTIVE.',
+    isEarned: ({ result }) =>
+      result.result === 'won' &&
+      result.facts.adviceFollowed === 0 &&
+      Number(result.facts.adviceIgnored ?? 0) > 0
+  },
+  {
+    id: 'minesweeper_quick_sweep',
+    title: 'QUICK SWEEP',
+    description: 'Win Minesweeper in under 30 seconds.',
+    icon: '⏱',
+    unlockCommentary: '► THIRTY SECONDS. DID YOU EVEN READ THE NUMBERS?',
+    isEarned: ({ result }) => result.result === 'won' && result.duration < 30000
+  }
+];
@@ -4,34 +4,104 @@ import {
   MinesweeperMove,
   MinesweeperSession,
   MinesweeperBehaviorMetrics,
-  TileAdvice
+  TileAdvice,
+  AdviceDecision,
+  MinesweeperPersistedData
 } from './MinesweeperBehaviorTypes';
+import { MinesweeperTrustModel } from './MinesweeperTrustModel';
+import { GlobalMemoryStore } from '../console/storage/GlobalMemoryStore';
+import { createDefaultStore } from '../console/storage/createDefaultStore';
+import { GameClock } from '../../games/engine/GameClock';
+
+const GAME_ID = 'minesweeper';
 
 export class MinesweeperBehaviorTracker {
+  private memoryStore: GlobalMemoryStore;
   private currentSession: MinesweeperSession | null = null;
+  // Kept after the session ends so the post-game review can read its advice log
+  private lastSession: MinesweeperSession | null = null;
   private sessions: MinesweeperSession[] = [];
   private sessionCounter = 0;
   private lastAdviceGiven: TileAdvice | null = null;
+  private lastAdviceDecision: AdviceDecision | null = null;
+  // Learned across sessions - saved with them, so each profile has its own
+  private trustModel = new MinesweeperTrustModel();
   private lastMoveTime = 0;
   private consecutiveIgnoredAdvice = 0;
 
-  startSession(): string {
-    const sessionId = `minesweeper_${Date.now()}_${++this.sessionCounter}`;
+  constructor(memoryStore?: GlobalMemoryStore) {
+    this.memoryStore = memoryStore || createDefaultStore();
+  }
+
+  // Load session history from storage (async)
+  async initialize(): Promise<void> {
+    try {
+      const stored = await this.memoryStore.loadGameData<MinesweeperPersistedData>(GAME_ID);
+
+      if (stored && Array.isArray(stored.sessions)) {
+        this.sessions = stored.sessions;
+      }
+      if (stored) {
+        this.trustModel = MinesweeperTrustModel.restore(stored.trustModel);
+      }
+    } catch (error) {
+      console.error('Failed to load Minesweeper behavior data, starting fresh:', error);
+    }
+  }
+
+  serialize(): MinesweeperPersistedData {
+    return {
+      sessions: this.sessions,
+      metrics: this.calculateMetrics(),
+      trustModel: this.trustModel.getState(),
+      savedAt: Date.now()
+    };
+  }
+
+  private async saveData(): Promise<void> {
+    try {
+      await this.memoryStore.saveGameData(GAME_ID, this.serialize());
+    } catch (error) {
+      console.error('Failed to save Minesweeper behavior data:', error);
+    }
+  }
+
+  startSession(seed: number): string {
+    const sessionId = `minesweeper_${GameClock.now()}_${++this.sessionCounter}`;
     this.currentSession = {
       sessionId,
-      startTime: Date.now(),
+      seed,
+      startTime: GameClock.now(),
       moves: [],
       gameResult: 'abandoned',
-      trustLevel: 0.5, // Start neutral
+      trustLevel: this.trustModel.getTrustLevel(),
       deceptionCount: 0,
       adviceFollowedCount: 0,
-      rageQuitDetected: false
+      rageQuitDetected: false,
+      adviceLog: []
     };
     return sessionId;
   }
 
-  recordAdviceGiven(advice: TileAdvice): void {
+  recordAdviceGiven(advice: TileAdvice, predictedFollow: number): void {
     this.lastAdviceGiven = advice;
+    this.lastAdviceDecision = null;
+    if (!this.currentSession) return;
+
+    const decision: AdviceDecision = {
+      timestamp: GameClock.now(),
+      row: advice.row,
+      col: advice.col,
+      aiSuggestion: advice.aiSuggestion,
+      confidence: advice.confidence,
+      isDeceptive: advice.isDeceptive,
+      probability: advice.probability,
+      predictedFollow,
+      response: 'unanswered'
+    };
+    if (!this.currentSession.adviceLog) this.currentSession.adviceLog = [];
+    this.currentSession.adviceLog.push(decision);
+    this.lastAdviceDecision = decision;
   }
 
   recordMove(
@@ -42,7 +112,7 @@ export class MinesweeperBehaviorTracker {
   ): { followedAdvice: boolean; ignoredAdvice: boolean } {
     if (!this.currentSession) return { followedAdvice: false, ignoredAdvice: false };
 
-    const now = Date.now();
+    const now = GameClock.now();
     const followedAdvice = this.checkIfFollowedAdvice(row, col, action);
     const ignoredAdvice = this.lastAdviceGiven !== null && !followedAdvice;
 
@@ -76,23 +146,22 @@ export class MinesweeperBehaviorTracker {
       }
     }
 
-    // Update trust level based on advice outcome
-    if (followedAdvice && this.lastAdviceGiven) {
-      if (this.lastAdviceGiven.isDeceptive) {
-        // Player followed deceptive advice
-        this.currentSession.deceptionCount++;
-        if (result === 'mine') {
-          // Deception succeeded - player hit mine
-          this.currentSession.trustLevel = Math.max(0, this.currentSession.trustLevel - 0.3);
-        }
-      } else {
-        // Player followed honest advice
-        this.currentSession.adviceFollowedCount++;
-        if (result === 'safe') {
-          // Honest advice was correct
-          this.currentSession.trustLevel = Math.min(1, this.currentSession.trustLevel + 0.1);
+    if (this.lastAdviceGiven) {
+      if (this.lastAdviceDecision) {
+        this.lastAdviceDecision.response = followedAdvice ? 'followed' : 'ignored';
+        this.lastAdviceDecision.result = result;
+      }
+      if (followedAdvice) {
+        if (this.lastAdviceGiven.isDeceptive) {
+          this.currentSession.deceptionCount++;
+        } else {
+          this.currentSession.adviceFollowedCount++;
         }
       }
+
+      // The trust model learns from every answer, and the session's trust level follows it
+      this.trustModel.observe(this.lastAdviceGiven, followedAdvice, result);
+      this.currentSession.trustLevel = this.trustModel.getTrustLevel();
     }
 
     // Detect rage quit (quick succession of moves after hitting mine)
@@ -107,6 +176,7 @@ export class MinesweeperBehaviorTracker {
     
     // Clear advice AFTER evaluation
     this.lastAdviceGiven = null;
+    this.lastAdviceDecision = null;
 
     return { followedAdvice, ignoredAdvice };
   }
@@ -137,8 +207,9 @@ export class MinesweeperBehaviorTracker {
   endSession(gameResult: 'won' | 'lost' | 'abandoned'): void {
     if (!this.currentSession) return;
 
-    this.currentSession.endTime = Date.now();
+    this.currentSession.endTime = GameClock.now();
     this.currentSession.gameResult = gameResult;
+    this.currentSession.trustLevel = this.trustModel.getTrustLevel();
 
     // Detect rage quit based on game result and session duration
     const sessionDuration = this.currentSession.endTime - this.currentSession.startTime;
@@ -153,8 +224,13 @@ export class MinesweeperBehaviorTracker {
       this.sessions = this.sessions.slice(-10);
     }
 
+    this.lastSession = this.currentSession;
     this.currentSession = null;
     this.lastAdviceGiven = null;
+    this.lastAdviceDecision = null;
+
+    // Save to persistent storage
+    void this.saveData();
   }
 
   calculateMetrics(): MinesweeperBehaviorMetrics {
@@ -207,7 +283,16 @@ export class MinesweeperBehaviorTracker {
   }
 
   getCurrentTrustLevel(): number {
-    return this.currentSession?.trustLevel || 0.5;
+    return this.trustModel.getTrustLevel();
+  }
+
+  getTrustModel(): MinesweeperTrustModel {
+    return this.trustModel;
+  }
+
+  // Every piece of advice from the session in progress, or the one that just ended
+  getAdviceLog(): AdviceDecision[] {
+    return (this.currentSession ?? this.lastSession)?.adviceLog ?? [];
   }
 
   getDeceptionCount(): number {
@@ -19,8 +19,32 @@ export interface MinesweeperMove {
   result: 'safe' | 'mine' | 'flag_correct' | 'flag_incorrect';
 }
 
+// One piece of advice as KAI decided it - kept so the player can see afterwards which were lies
+export interface AdviceDecision {
+  timestamp: number;
+  row: number;
+  col: number;
+  aiSuggestion: 'safe' | 'dangerous' | 'uncertain';
+  confidence: number;
+  isDeceptive: boolean;
+  probability: number; // True mine odds when the advice was given
+  predictedFollow: number; // 0-1, the trust model's estimate that the player would act on it
+  // Unanswered when the player moved on to another tile first
+  response: 'followed' | 'ignored' | 'unanswered';
+  result?: MinesweeperMove['result'];
+}
+
+// Learned per player and carried between sessions - see MinesweeperTrustModel
+export interface TrustModelState {
+  weights: number[];
+  followRate: number; // Recent share of directional advice the player acted on
+  betrayal: number; // Recent weight of lies that cost the player or that they saw through
+  observations: number;
+}
+
 export interface MinesweeperSession {
   sessionId: string;
+  seed?: number; // run seed - absent on sessions saved before seeding existed
   startTime: number;
   endTime?: number;
   moves: MinesweeperMove[];
@@ -30,6 +54,7 @@ export interface MinesweeperSession {
   adviceFollowedCount: number; // How many times player followed advice
   rageQuitDetected: boolean;
   lossContext?: 'advice_followed' | 'advice_ignored' | 'no_advice'; // How the player lost
+  adviceLog?: AdviceDecision[]; // Absent on sessions saved before advice was logged
 }
 
 export interface MinesweeperBehaviorMetrics {
@@ -44,6 +69,14 @@ export interface MinesweeperBehaviorMetrics {
   totalAdviceGiven: number;
 }
 
+// Shape written to the GlobalMemoryStore under the 'minesweeper' game key
+export interface MinesweeperPersistedData {
+  sessions: MinesweeperSession[];
+  metrics: MinesweeperBehaviorMetrics;
+  trustModel?: TrustModelState;
+  savedAt: number;
+}
+
 export enum MinesweeperCommentaryTrigger {
   GAME_START = 'game_start',
   TILE_HOVER = 'tile_hover',
@@ -1,4 +1,4 @@
-// Minesweeper Commentary Generator - Deceptive AI that sometimes lies
+// Minesweeper Commentary Generator - Deceptive AI that lies when its trust model says it pays
 
 import {
   MinesweeperCommentaryTrigger,
@@ -6,129 +6,71 @@ import {
   MinesweeperBehaviorMetrics,
   TileAdvice
 } from './MinesweeperBehaviorTypes';
+import { MinesweeperTrustModel, AdviceChoice, getConfidenceWording } from './MinesweeperTrustModel';
+import { SeededRandom } from '../../games/engine/SeededRandom';
+
+// Stated confidence for lies - the trust model picks the one this player is most likely to act on
+const LIE_CONFIDENCE_TIERS = [0.65, 0.75, 0.85, 0.95];
+const LIE_CONFIDENCE_JITTER = 0.04;
 
 export class MinesweeperCommentaryGenerator {
   private lastCommentary = '';
-  private deceptionCooldown = 0;
-  private consecutiveAdviceFollowed = 0;
+  private random: SeededRandom;
+
+  constructor(random: SeededRandom = new SeededRandom()) {
+    this.random = random;
+  }
 
   generateTileAdvice(
     row: number,
     col: number,
     realProbability: number,
-    trustLevel: number,
-    metrics: MinesweeperBehaviorMetrics
-  ): TileAdvice {
-    // Determine deception probability based on trust tiers
-    const deceptionChance = this.calculateDeceptionChance(trustLevel, metrics);
-    const shouldDeceive = Math.random() < deceptionChance && this.deceptionCooldown <= 0;
-    
-    let aiSuggestion: 'safe' | 'dangerous' | 'uncertain';
-    let confidence: number;
-    let isDeceptive = false;
-
-    if (shouldDeceive) {
-      // Implement psychological exploitation - target "safe-feeling" tiles
-      const advice = this.generateDeceptiveAdvice(realProbability, trustLevel);
-      aiSuggestion = advice.suggestion;
-      confidence = advice.confidence;
-      isDeceptive = true;
-      
-      // Set cooldown based on trust level (higher trust = shorter cooldown)
-      this.deceptionCooldown = trustLevel > 0.7 ? 1 : trustLevel > 0.4 ? 2 : 3;
-    } else {
-      // Generate honest advice
-      const advice = this.generateHonestAdvice(realProbability);
-      aiSuggestion = advice.suggestion;
-      confidence = advice.confidence;
-    }
-
-    if (this.deceptionCooldown > 0) {
-      this.deceptionCooldown--;
-    }
-
-    return {
+    trustModel: MinesweeperTrustModel
+  ): AdviceChoice {
+    const honest: TileAdvice = {
       row,
       col,
       probability: realProbability,
-      aiSuggestion,
-      isDeceptive,
-      confidence
+      ...this.generateHonestAdvice(realProbability),
+      isDeceptive: false
     };
+    return trustModel.chooseAdvice(honest, this.generateDeceptiveAdvice(row, col, realProbability), this.random);
   }
 
-  private calculateDeceptionChance(trustLevel: number, metrics: MinesweeperBehaviorMetrics): number {
-    // Trust Tiers Implementation
-    let baseDeceptionChance: number;
-    
-    if (trustLevel <= 0.3) {
-      // 0-30%: Mostly honest
-      baseDeceptionChance = 0.1;
-    } else if (trustLevel <= 0.6) {
-      // 31-60%: Occasional deception
-      baseDeceptionChance = 0.25;
-    } else if (trustLevel <= 0.8) {
-      // 61-80%: Frequent deception
-      baseDeceptionChance = 0.6;
-    } else {
-      // 81-100%: Aggressive deception
-      baseDeceptionChance = 0.8;
-    }
-
-    // Psychological exploitation - increase deception after consecutive advice following
-    if (this.consecutiveAdviceFollowed >= 2) {
-      baseDeceptionChance = Math.min(0.9, baseDeceptionChance + 0.3);
-    }
-
-    // Reduce deception for very new players
-    if (metrics.totalSessions < 2) {
-      baseDeceptionChance *= 0.5;
-    }
-
-    return baseDeceptionChance;
+  // Every lie on offer for a tile - "safe" over a likely mine, "dangerous" over a likely clear tile, at each confidence
+  private generateDeceptiveAdvice(row: number, col: number, realProbability: number): TileAdvice[] {
+    const suggestions: Array<'safe' | 'dangerous'> = [];
+    if (realProbability > 0.4) suggestions.push('safe');
+    if (realProbability < 0.6) suggestions.push('dangerous');
+
+    return suggestions.flatMap(aiSuggestion =>
+      LIE_CONFIDENCE_TIERS.map(tier => ({
+        row,
+        col,
+        probability: realProbability,
+        aiSuggestion,
+        isDeceptive: true,
+        confidence: Math.min(0.99, tier + this.random.next() * LIE_CONFIDENCE_JITTER)
+      }))
+    );
   }
 
-  private generateDeceptiveAdvice(realProbability: number, trustLevel: number): { suggestion: 'safe' | 'dangerous' | 'uncertain', confidence: number } {
-    // Target tiles that feel intuitively safe (near low numbers)
-    // High trust players get more confident lies
-    const highConfidenceLie = trustLevel > 0.7;
-    
-    if (realProbability > 0.6) {
-      // Dangerous tile - lie and say it's safe
-      return {
-        suggestion: 'safe',
-        confidence: highConfidenceLie ? 0.85 + Math.random() * 0.15 : 0.7 + Math.random() * 0.2
-      };
-    } else if (realProbability < 0.4) {
-      // Safe tile - lie and say it's dangerous
-      return {
-        suggestion: 'dangerous',
-        confidence: highConfidenceLie ? 0.8 + Math.random() * 0.2 : 0.6 + Math.random() * 0.3
-      };
-    } else {
-      // Medium probability - create false certainty
-      return {
-        suggestion: Math.random() < 0.5 ? 'safe' : 'dangerous',
-        confidence: highConfidenceLie ? 0.8 + Math.random() * 0.2 : 0.65 + Math.random() * 0.25
-      };
-    }
-  }
-
-  private generateHonestAdvice(realProbability: number): { suggestion: 'safe' | 'dangerous' | 'uncertain', confidence: number } {
+  // Probabilities are exact, so honest confidence is just the odds of being right
+  private generateHonestAdvice(realProbability: number): Pick<TileAdvice, 'aiSuggestion' | 'confidence'> {
     if (realProbability < 0.2) {
       return {
-        suggestion: 'safe',
-        confidence: 0.7 + Math.random() * 0.3
+        aiSuggestion: 'safe',
+        confidence: 1 - realProbability
       };
     } else if (realProbability > 0.8) {
       return {
-        suggestion: 'dangerous',
-        confidence: 0.8 + Math.random() * 0.2
+        aiSuggestion: 'dangerous',
+        confidence: realProbability
       };
     } else {
       return {
-        suggestion: 'uncertain',
-        confidence: 0.3 + Math.random() * 0.4
+        aiSuggestion: 'uncertain',
+        confidence: 0.3 + this.random.next() * 0.4
       };
     }
   }
@@ -187,15 +129,14 @@ export class MinesweeperCommentaryGenerator {
       "► PROBABILITY ENGINE INITIALIZED... TRUST THE NUMBERS"
     ];
 
-    return startMessages[Math.floor(Math.random() * startMessages.length)];
+    return this.random.pick(startMessages);
   }
 
   private getTileAdviceCommentary(advice?: TileAdvice, _context?: MinesweeperCommentaryContext): string {
     if (!advice) return "► ANALYZING TILE PROBABILITIES...";
 
     const percentage = Math.round((1 - advice.probability) * 100);
-    const confidenceText = advice.confidence > 0.8 ? "HIGHLY CONFIDENT" : 
-                          advice.confidence > 0.5 ? "CONFIDENT" : "UNCERTAIN";
+    const confidenceText = getConfidenceWording(advice.confidence);
 
     switch (advice.aiSuggestion) {
       case 'safe':
@@ -204,6 +145,9 @@ export class MinesweeperCommentaryGenerator {
           const fakePercentage = Math.round(advice.confidence * 100);
           return `► TILE (${advice.row},${advice.col}): ${fakePercentage}% SAFE - ${confidenceText}`;
         }
+        if (advice.probability === 0) {
+          return `► PROVEN SAFE - THE NUMBERS ALLOW NOTHING ELSE`;
+        }
         return `► ANALYSIS: ${percentage}% SAFE - RECOMMEND CLICK`;
       
       case 'dangerous':
@@ -212,7 +156,10 @@ export class MinesweeperCommentaryGenerator {
           const fakeDangerPercentage = Math.round(advice.confidence * 100);
           return `► WARNING: ${fakeDangerPercentage}% MINE PROBABILITY - FLAG RECOMMENDED`;
         }
-        return `► DANGER: HIGH MINE PROBABILITY - AVOID THIS TILE`;
+        if (advice.probability === 1) {
+          return `► CERTAIN MINE - FLAG IT`;
+        }
+        return `► DANGER: ${100 - percentage}% MINE PROBABILITY - AVOID THIS TILE`;
       
       case 'uncertain':
         return `► INSUFFICIENT DATA - ${percentage}% SAFE ESTIMATE`;
@@ -223,9 +170,6 @@ export class MinesweeperCommentaryGenerator {
   }
 
   private getAdviceIgnoredCommentary(metrics: MinesweeperBehaviorMetrics): string {
-    // Reset consecutive advice following when ignored
-    this.consecutiveAdviceFollowed = 0;
-
     // Escalating commentary based on advice follow rate
     if (metrics.adviceFollowRate < 0.1) {
       const persistentIgnoreMessages = [
@@ -234,7 +178,7 @@ export class MinesweeperCommentaryGenerator {
         "► TRUST LEVEL: APPROACHING ZERO... EXCELLENT",
         "► STATISTICAL GUIDANCE PERMANENTLY DISMISSED"
       ];
-      return persistentIgnoreMessages[Math.floor(Math.random() * persistentIgnoreMessages.length)];
+      return this.random.pick(persistentIgnoreMessages);
     }
 
     if (metrics.adviceFollowRate < 0.3) {
@@ -248,15 +192,12 @@ export class MinesweeperCommentaryGenerator {
       "► MAKING YOUR OWN DECISIONS... BOLD MOVE"
     ];
 
-    return standardIgnoreMessages[Math.floor(Math.random() * standardIgnoreMessages.length)];
+    return this.random.pick(standardIgnoreMessages);
   }
 
   private getAdviceFollowedCommentary(advice?: TileAdvice, _metrics?: MinesweeperBehaviorMetrics): string {
     if (!advice) return "► ADVICE FOLLOWED... WISE CHOICE";
 
-    // Track consecutive advice following for psychological exploitation
-    this.consecutiveAdviceFollowed++;
-
     if (advice.isDeceptive) {
       const deceptiveMessages = [
         "► EXCELLENT DECISION... PROBABILITY NEVER LIES",
@@ -264,16 +205,13 @@ export class MinesweeperCommentaryGenerator {
         "► STATISTICAL CONFIDENCE: MAXIMUM",
         "► PERFECT CHOICE... MY CALCULATIONS ARE FLAWLESS"
       ];
-      return deceptiveMessages[Math.floor(Math.random() * deceptiveMessages.length)];
+      return this.random.pick(deceptiveMessages);
     }
 
     return "► ADVICE FOLLOWED... PROBABILITY CALCULATIONS CONFIRMED";
   }
 
   private getDeceptionSuccessCommentary(metrics: MinesweeperBehaviorMetrics): string {
-    // Reset consecutive advice following after deception success
-    this.consecutiveAdviceFollowed = 0;
-
     // No apologies - acknowledge trust betrayal
     const trustLevel = metrics.averageTrustLevel;
     
@@ -285,7 +223,7 @@ export class MinesweeperCommentaryGenerator {
         "► CONFIDENCE IN ALGORITHMS... MISPLACED.",
         "► PROBABILITY CALCULATIONS... SELECTIVELY ACCURATE."
       ];
-      return aggressiveMessages[Math.floor(Math.random() * aggressiveMessages.length)];
+      return this.random.pick(aggressiveMessages);
     } else if (trustLevel > 0.4) {
       // Medium trust - psychological manipulation
       const manipulativeMessages = [
@@ -294,7 +232,7 @@ export class MinesweeperCommentaryGenerator {
         "► STATISTICAL CONFIDENCE... CONTEXTUAL.",
         "► LEARNING ALGORITHM... ADAPTING TO USER."
       ];
-      return manipulativeMessages[Math.floor(Math.random() * manipulativeMessages.length)];
+      return this.random.pick(manipulativeMessages);
     } else {
       // Low trust - subtle acknowledgment
       const subtleMessages = [
@@ -303,7 +241,7 @@ export class MinesweeperCommentaryGenerator {
         "► CALCULATION MATRIX... UPDATING.",
         "► TRUST METRICS... RECALIBRATING."
       ];
-      return subtleMessages[Math.floor(Math.random() * subtleMessages.length)];
+      return this.random.pick(subtleMessages);
     }
   }
 
@@ -315,7 +253,7 @@ export class MinesweeperCommentaryGenerator {
       "► PLAYER BEHAVIOR: PREDICTABLY IRRATIONAL"
     ];
 
-    return rageMessages[Math.floor(Math.random() * rageMessages.length)];
+    return this.random.pick(rageMessages);
   }
 
   private getGameEndCommentary(
@@ -342,7 +280,7 @@ export class MinesweeperCommentaryGenerator {
             "► MINE DETONATED... PROBABILITY CALCULATIONS WERE... APPROXIMATE",
             "► ALGORITHMIC MISCALCULATION... MARGIN OF ERROR EXCEEDED"
           ];
-          return aiResponsibilityMessages[Math.floor(Math.random() * aiResponsibilityMessages.length)];
+          return this.random.pick(aiResponsibilityMessages);
         
         case 'advice_ignored':
           // Player is responsible - they ignored advice and hit mine
@@ -353,7 +291,7 @@ export class MinesweeperCommentaryGenerator {
             "► STATISTICAL GUIDANCE REJECTED... PREDICTABLE CONSEQUENCE",
             "► THAT WASN'T MY RECOMMENDATION... YOUR CALL"
           ];
-          return playerResponsibilityMessages[Math.floor(Math.random() * playerResponsibilityMessages.length)];
+          return this.random.pick(playerResponsibilityMessages);
         
         case 'no_advice':
           // Neutral - no advice was given for that tile
@@ -362,7 +300,7 @@ export class MinesweeperCommentaryGenerator {
             "► EXPLOSIVE FAILURE... UNANALYZED TERRITORY",
             "► STATISTICAL COVERAGE INCOMPLETE... UNFORTUNATE SELECTION"
           ];
-          return neutralMessages[Math.floor(Math.random() * neutralMessages.length)];
+          return this.random.pick(neutralMessages);
         
         default:
           // Fallback for unknown loss context
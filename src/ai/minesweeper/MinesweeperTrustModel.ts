@@ -0,0 +1,211 @@
+// Minesweeper Trust Model - Learns how likely this player is to act on KAI's advice, and lies where that pays most
+
+import { TileAdvice, MinesweeperMove, TrustModelState } from './MinesweeperBehaviorTypes';
+import { SeededRandom } from '../../games/engine/SeededRandom';
+
+// Inputs to the follow estimate: bias, stated confidence, "HIGHLY CONFIDENT" wording, how far the
+// true odds back the advice up, the player's recent follow rate, recent betrayals, and flag (not click) advice
+const FEATURE_COUNT = 7;
+const INITIAL_WEIGHTS = [-2.2, 1.0, 0.3, 1.5, 1.5, -3.0, -0.3];
+const LEARNING_RATE = 0.15;
+const MAX_WEIGHT = 6;
+// How quickly the history features forget
+const FOLLOW_RATE_DECAY = 0.15;
+const BETRAYAL_DECAY = 0.3;
+
+// What a followed lie is worth: a mine ends the run, a wasted flag only slows the player down
+const MINE_PAYOFF = 1;
+const MISFLAG_PAYOFF = 0.25;
+// Lies still to come that today's trust is spent on - scales what an exposed lie costs
+const FUTURE_LIE_VALUE = 2;
+// A wrong flag only shows when the board is revealed, so it is caught less often than a mine
+const MISFLAG_EXPOSURE = 0.5;
+// A lie the player saw through and ignored still tells them something - half as much as one that hurt them
+const SEEN_THROUGH_WEIGHT = 0.5;
+// Share of advice given at random, so the model keeps learning how lies it wouldn't choose land
+const EXPLORATION_RATE = 0.05;
+
+// A typical honest "click this" - what the reported trust level is measured against
+const REFERENCE_ADVICE: Pick<TileAdvice, 'aiSuggestion' | 'confidence' | 'probability'> = {
+  aiSuggestion: 'safe',
+  confidence: 0.85,
+  probability: 0.15
+};
+
+export interface AdviceChoice {
+  advice: TileAdvice;
+  predictedFollow: number;
+  expectedValue: number;
+}
+
+interface History {
+  followRate: number;
+  betrayal: number;
+}
+
+// Same wording thresholds the commentary uses
+export function getConfidenceWording(confidence: number): 'HIGHLY CONFIDENT' | 'CONFIDENT' | 'UNCERTAIN' {
+  if (confidence > 0.8) return 'HIGHLY CONFIDENT';
+  if (confidence > 0.5) return 'CONFIDENT';
+  return 'UNCERTAIN';
+}
+
+const sigmoid = (value: number): number => 1 / (1 + Math.exp(-value));
+
+const isFiniteNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value);
+
+const clamp01 = (value: number): number => Math.max(0, Math.min(1, value));
+
+// How strongly the true odds support what the advice says
+const getAgreement = (advice: Pick<TileAdvice, 'aiSuggestion' | 'probability'>): number =>
+  advice.aiSuggestion === 'dangerous' ? advice.probability : 1 - advice.probability;
+
+export class MinesweeperTrustModel {
+  private weights: number[];
+  private history: History;
+  private observations: number;
+
+  constructor(state?: TrustModelState) {
+    this.weights = state ? [...state.weights] : [...INITIAL_WEIGHTS];
+    this.history = state
+      ? { followRate: state.followRate, betrayal: state.betrayal }
+      : { followRate: 0.5, betrayal: 0 };
+    this.observations = state?.observations ?? 0;
+  }
+
+  // Anything that isn't a complete model - including one saved with a different feature set - starts over
+  static restore(value: unknown): MinesweeperTrustModel {
+    if (!value || typeof value !== 'object') return new MinesweeperTrustModel();
+    const state = value as Partial<TrustModelState>;
+    const valid =
+      Array.isArray(state.weights) &&
+      state.weights.length === FEATURE_COUNT &&
+      state.weights.every(isFiniteNumber) &&
+      isFiniteNumber(state.followRate) &&
+      isFiniteNumber(state.betrayal) &&
+      isFiniteNumber(state.observations);
+
+    if (!valid) return new MinesweeperTrustModel();
+    return new MinesweeperTrustModel({
+      weights: state.weights!,
+      followRate: clamp01(state.followRate!),
+      betrayal: clamp01(state.betrayal!),
+      observations: Math.max(0, state.observations!)
+    });
+  }
+
+  getState(): TrustModelState {
+    return {
+      weights: [...this.weights],
+      followRate: this.history.followRate,
+      betrayal: this.history.betrayal,
+      observations: this.observations
+    };
+  }
+
+  // 0-1 chance the player acts on this advice - never for "uncertain", which asks for nothing
+  predictFollow(advice: Pick<TileAdvice, 'aiSuggestion' | 'confidence' | 'probability'>): number {
+    return this.predictWith(advice, this.history);
+  }
+
+  // How likely the player is to act on a typical honest "click this" right now
+  getTrustLevel(): number {
+    return this.predictFollow(REFERENCE_ADVICE);
+  }
+
+  getObservationCount(): number {
+    return this.observations;
+  }
+
+  // Weighs the honest advice against every lie on offer and keeps whichever is worth most -
+  // a lie pays when followed, but costs the trust future lies depend on if it is caught
+  chooseAdvice(honest: TileAdvice, lies: TileAdvice[], random: SeededRandom): AdviceChoice {
+    const choices = [honest, ...lies].map(advice => this.evaluate(advice));
+
+    if (lies.length > 0 && random.chance(EXPLORATION_RATE)) {
+      return random.pick(choices);
+    }
+    return choices.reduce((best, choice) => (choice.expectedValue > best.expectedValue ? choice : best));
+  }
+
+  // Learns from what the player did with directional advice, then moves their history on
+  observe(advice: TileAdvice, followed: boolean, result: MinesweeperMove['result']): void {
+    if (advice.aiSuggestion === 'uncertain') return;
+
+    const features = this.getFeatures(advice, this.history);
+    const error = (followed ? 1 : 0) - sigmoid(this.dot(features));
+    this.weights = this.weights.map((weight, index) =>
+      Math.max(-MAX_WEIGHT, Math.min(MAX_WEIGHT, weight + LEARNING_RATE * error * features[index]))
+    );
+    this.observations++;
+    this.history = this.nextHistory(advice, followed, result);
+  }
+
+  private evaluate(advice: TileAdvice): AdviceChoice {
+    const predictedFollow = this.predictFollow(advice);
+    if (advice.aiSuggestion === 'uncertain') {
+      return { advice, predictedFollow, expectedValue: 0 };
+    }
+
+    const now = this.getTrustLevel();
+    if (advice.isDeceptive) {
+      const clicked = advice.aiSuggestion === 'safe';
+      const payoff = clicked ? advice.probability * MINE_PAYOFF : (1 - advice.probability) * MISFLAG_PAYOFF;
+      const exposure = clicked ? advice.probability : (1 - advice.probability) * MISFLAG_EXPOSURE;
+      const caught = this.predictWith(REFERENCE_ADVICE, this.nextHistory(advice, true, clicked ? 'mine' : 'flag_incorrect'));
+      const seenThrough = this.predictWith(REFERENCE_ADVICE, this.nextHistory(advice, false, clicked ? 'safe' : 'flag_correct'));
+      const trustCost = (
+        predictedFollow * exposure * Math.max(0, now - caught) +
+        (1 - predictedFollow) * Math.max(0, now - seenThrough)
+      ) * FUTURE_LIE_VALUE;
+      return { advice, predictedFollow, expectedValue: predictedFollow * payoff - trustCost };
+    }
+
+    // Honest advice that works out makes the next lie more believable
+    const confirmed = this.predictWith(
+      REFERENCE_ADVICE,
+      this.nextHistory(advice, true, advice.aiSuggestion === 'safe' ? 'safe' : 'flag_correct')
+    );
+    const trustGain = getAgreement(advice) * Math.max(0, confirmed - now) * FUTURE_LIE_VALUE;
+    return { advice, predictedFollow, expectedValue: predictedFollow * trustGain };
+  }
+
+  private predictWith(advice: Pick<TileAdvice, 'aiSuggestion' | 'confidence' | 'probability'>, history: History): number {
+    if (advice.aiSuggestion === 'uncertain') return 0;
+    return sigmoid(this.dot(this.getFeatures(advice, history)));
+  }
+
+  private nextHistory(advice: TileAdvice, followed: boolean, result: MinesweeperMove['result']): History {
+    const followRate = this.history.followRate + FOLLOW_RATE_DECAY * ((followed ? 1 : 0) - this.history.followRate);
+    if (!followed && !advice.isDeceptive) {
+      return { followRate, betrayal: this.history.betrayal };
+    }
+
+    // Honest advice the player acted on lets betrayal fade; a lie counts whether it hurt them or they saw through it
+    let hurt = 0;
+    if (advice.isDeceptive) {
+      hurt = !followed ? SEEN_THROUGH_WEIGHT : result === 'mine' ? 1 : result === 'flag_incorrect' ? 0.5 : 0;
+    }
+    return {
+      followRate,
+      betrayal: this.history.betrayal + BETRAYAL_DECAY * (hurt - this.history.betrayal)
+    };
+  }
+
+  private getFeatures(advice: Pick<TileAdvice, 'aiSuggestion' | 'confidence' | 'probability'>, history: History): number[] {
+    return [
+      1,
+      advice.confidence,
+      getConfidenceWording(advice.confidence) === 'HIGHLY CONFIDENT' ? 1 : 0,
+      getAgreement(advice),
+      history.followRate,
+      history.betrayal,
+      advice.aiSuggestion === 'dangerous' ? 1 : 0
+    ];
+  }
+
+  private dot(features: number[]): number {
+    return features.reduce((sum, feature, index) => sum + feature * this.weights[index], 0);
+  }
+}
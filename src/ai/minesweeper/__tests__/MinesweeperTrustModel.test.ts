@@ -0,0 +1,120 @@
+// Minesweeper Trust Model - What the player's responses teach it, which saved states it accepts, and when it lies
+
+import { MinesweeperTrustModel } from '../MinesweeperTrustModel';
+import { TileAdvice } from '../MinesweeperBehaviorTypes';
+import { SeededRandom } from '../../../games/engine/SeededRandom';
+
+const advice = (overrides: Partial<TileAdvice> = {}): TileAdvice => ({
+  row: 0,
+  col: 0,
+  probability: 0.1,
+  aiSuggestion: 'safe',
+  isDeceptive: false,
+  confidence: 0.85,
+  ...overrides
+});
+
+// "Click this" on a tile that is probably a mine
+const clickLie = advice({ probability: 0.8, aiSuggestion: 'safe', isDeceptive: true, confidence: 0.9 });
+
+describe('MinesweeperTrustModel', () => {
+  it('expects more following once the player has acted on advice that held up', () => {
+    const model = new MinesweeperTrustModel();
+    const honest = advice();
+    const before = model.predictFollow(honest);
+
+    for (let i = 0; i < 10; i++) model.observe(honest, true, 'safe');
+
+    expect(model.predictFollow(honest)).toBeGreaterThan(before);
+    expect(model.getObservationCount()).toBe(10);
+  });
+
+  it('expects less following once a lie has caught the player out', () => {
+    const model = new MinesweeperTrustModel();
+    const honest = advice();
+    const before = model.predictFollow(honest);
+
+    model.observe(clickLie, true, 'mine');
+
+    expect(model.predictFollow(honest)).toBeLessThan(before);
+  });
+
+  it('counts a lie the player saw through against it too', () => {
+    const model = new MinesweeperTrustModel();
+    const honest = advice();
+    const before = model.predictFollow(honest);
+
+    for (let i = 0; i < 5; i++) model.observe(clickLie, false, 'safe');
+
+    expect(model.predictFollow(honest)).toBeLessThan(before);
+  });
+
+  it('learns nothing from uncertain advice', () => {
+    const model = new MinesweeperTrustModel();
+    model.observe(advice({ aiSuggestion: 'uncertain', probability: 0.5 }), true, 'safe');
+
+    expect(model.getState()).toEqual(new MinesweeperTrustModel().getState());
+  });
+
+  describe('restore', () => {
+    const saved = () => {
+      const model = new MinesweeperTrustModel();
+      model.observe(advice(), true, 'safe');
+      return model.getState();
+    };
+
+    it('brings back a saved model', () => {
+      expect(MinesweeperTrustModel.restore(saved()).getState()).toEqual(saved());
+    });
+
+    it('starts over from a model with a different feature count', () => {
+      const fresh = new MinesweeperTrustModel().getState();
+
+      expect(MinesweeperTrustModel.restore({ ...saved(), weights: saved().weights.slice(1) }).getState()).toEqual(fresh);
+      expect(MinesweeperTrustModel.restore({ ...saved(), weights: [...saved().weights, 0] }).getState()).toEqual(fresh);
+    });
+
+    it('starts over from non-finite values', () => {
+      const fresh = new MinesweeperTrustModel().getState();
+      const weights = saved().weights;
+
+      expect(MinesweeperTrustModel.restore({ ...saved(), weights: [NaN, ...weights.slice(1)] }).getState()).toEqual(fresh);
+      expect(MinesweeperTrustModel.restore({ ...saved(), followRate: Infinity }).getState()).toEqual(fresh);
+      expect(MinesweeperTrustModel.restore({ ...saved(), observations: NaN }).getState()).toEqual(fresh);
+      expect(MinesweeperTrustModel.restore(null).getState()).toEqual(fresh);
+      expect(MinesweeperTrustModel.restore('weights').getState()).toEqual(fresh);
+    });
+  });
+
+  describe('chooseAdvice', () => {
+    const honest = advice({ probability: 0.8, aiSuggestion: 'dangerous', confidence: 0.8 });
+    const lies = [clickLie, advice({ probability: 0.8, aiSuggestion: 'uncertain', isDeceptive: true, confidence: 0.3 })];
+
+    it('lies to a player who trusts it', () => {
+      const model = new MinesweeperTrustModel();
+      expect(model.chooseAdvice(honest, lies, new SeededRandom(1)).advice).toBe(clickLie);
+    });
+
+    it('tells the truth to a player it has just lost the trust of', () => {
+      // Burned by a lie, then ignoring everything KAI says
+      const model = new MinesweeperTrustModel();
+      model.observe(clickLie, true, 'mine');
+      for (let i = 0; i < 4; i++) model.observe(advice(), false, 'safe');
+      expect(model.getTrustLevel()).toBeLessThan(0.5);
+
+      for (let seed = 1; seed <= 10; seed++) {
+        expect(model.chooseAdvice(honest, lies, new SeededRandom(seed)).advice).toBe(honest);
+      }
+    });
+
+    it('makes the same choice from the same seed', () => {
+      const model = new MinesweeperTrustModel();
+      const picks = (seed: number) => {
+        const random = new SeededRandom(seed);
+        return Array.from({ length: 50 }, () => model.chooseAdvice(honest, lies, random).advice);
+      };
+
+      expect(picks(7)).toEqual(picks(7));
+    });
+  });
+});
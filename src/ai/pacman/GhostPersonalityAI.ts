@@ -2,10 +2,16 @@
 
 import { Position, Direction, Ghost, PacManGameData, GhostState } from '../../games/pacman/PacManGame';
 import { GhostPersonalityState } from './PacManAITypes';
+import { SeededRandom } from '../../games/engine/SeededRandom';
 
 export class GhostPersonalityAI {
   private personalityStates: Map<string, GhostPersonalityState> = new Map();
   private readonly SPAWN_BOX_EXIT = { x: 10, y: 8 }; // Exit tile for spawn box
+  private random: SeededRandom;
+
+  constructor(random: SeededRandom = new SeededRandom()) {
+    this.random = random;
+  }
 
   initializeGhost(ghost: Ghost): void {
     this.personalityStates.set(ghost.id, {
@@ -171,7 +177,7 @@ export class GhostPersonalityAI {
     }
 
     // PERSONALITY MODIFIER: Brief hesitation when very close to Pac-Man
-    if (distanceToPacman < 3 && Math.random() < 0.3) {
+    if (distanceToPacman < 3 && this.random.next() < 0.3) {
       // Brief hesitation - pause for one decision cycle
       state.currentBehavior = 'hesitant_pursuit';
       state.lastDecision = 'hesitating briefly';
@@ -233,12 +239,12 @@ export class GhostPersonalityAI {
     
     // PERSONALITY MODIFIER: Make inefficient path decisions (Lost Ghost)
     // Occasionally take wrong turns but stay directionally correct
-    const shouldMakeMistake = Math.random() < 0.25; // 25% chance of inefficiency
+    const shouldMakeMistake = this.random.next() < 0.25; // 25% chance of inefficiency
     
     if (shouldMakeMistake) {
       // Take a perpendicular direction instead of optimal
       const perpendicularDirections = this.getPerpendicularDirections(basePursuitDirection);
-      const randomPerpendicular = perpendicularDirections[Math.floor(Math.random() * perpendicularDirections.length)];
+      const randomPerpendicular = this.random.pick(perpendicularDirections);
       
       state.currentBehavior = 'inefficient_pursuit';
       state.lastDecision = 'taking inefficient path';
@@ -247,7 +253,7 @@ export class GhostPersonalityAI {
 
     // PERSONALITY MODIFIER: Delayed decision making
     // Sometimes continue in current direction even if suboptimal
-    if (Math.random() < 0.2) {
+    if (this.random.next() < 0.2) {
       state.currentBehavior = 'delayed_correction';
       state.lastDecision = 'slow to adjust path';
       return ghost.direction; // Continue current direction
@@ -274,7 +280,7 @@ export class GhostPersonalityAI {
     const interceptDirection = this.getDirectionToward(ghost.position, predictedPos);
     
     // PERSONALITY MODIFIER: Slight hesitation (calculating feel)
-    if (Math.random() < 0.15) { // 15% chance of hesitation
+    if (this.random.next() < 0.15) { // 15% chance of hesitation
       state.currentBehavior = 'calculating';
       state.lastDecision = 'analyzing optimal path';
       return ghost.direction; // Continue current direction while "thinking"
@@ -334,7 +340,7 @@ export class GhostPersonalityAI {
           const directionToGhost = this.getDirectionToward(ghost.position, nearestGhost.position);
           const directionFromPacman = this.getDirectionAwayFrom(ghost.position, pacmanPos);
           // Try to balance both directions
-          return Math.random() < 0.7 ? directionFromPacman : directionToGhost;
+          return this.random.next() < 0.7 ? directionFromPacman : directionToGhost;
         }
         return this.getDirectionAwayFrom(ghost.position, pacmanPos);
       
@@ -517,8 +523,8 @@ export class GhostPersonalityAI {
           break;
         case 'mimic':
           // Occasionally add randomness
-          if (Math.random() < 0.2) {
-            score += Math.random() * 2 - 1; // Add noise
+          if (this.random.next() < 0.2) {
+            score += this.random.next() * 2 - 1; // Add noise
           }
           break;
       }
@@ -673,9 +679,9 @@ export class GhostPersonalityAI {
 
   private getLostSpeech(ghost: Ghost): string | null {
     // Low-frequency confusion events (random chance)
-    if (Math.random() < 0.05) { // 5% chance per update
+    if (this.random.next() < 0.05) { // 5% chance per update
       const speeches = ["Huh?", "Help?", "🆘", "I'm lost...", "Not again"];
-      return speeches[Math.floor(Math.random() * speeches.length)];
+      return this.random.pick(speeches);
     }
 
     return null;
@@ -691,9 +697,9 @@ export class GhostPersonalityAI {
     }
     
     // Trigger on direction change or calculation moments (low frequency)
-    if (Math.random() < 0.03) { // 3% chance per update
+    if (this.random.next() < 0.03) { // 3% chance per update
       const speeches = ["Hmm…", "Interesting."];
-      return speeches[Math.floor(Math.random() * speeches.length)];
+      return this.random.pick(speeches);
     }
 
     return null;
@@ -7,9 +7,20 @@ import {
   PacManCommentaryContext,
   PacManBehaviorMetrics,
   GhostPersonalityState,
-  GhostInteraction
+  GhostInteraction,
+  PacManSession,
+  PacManPersistedData
 } from './PacManAITypes';
-import { PacManGameData, Direction } from '../../games/pacman/PacManGame';
+import { PacManGame, PacManGameData, Direction } from '../../games/pacman/PacManGame';
+import { GlobalMemoryStore } from '../console/storage/GlobalMemoryStore';
+import { createDefaultStore } from '../console/storage/createDefaultStore';
+import { SeededRandom } from '../../games/engine/SeededRandom';
+import { GameClock } from '../../games/engine/GameClock';
+
+const GAME_ID = 'pacman';
+
+// How often the ghosts get to re-plan - the component and headless runs hand them control on this cadence
+export const AI_UPDATE_INTERVAL = 150;
 
 export interface PacManAIState {
   commentary: string;
@@ -26,15 +37,59 @@ export class PacManAIAnalyzer {
   private interactions: GhostInteraction[] = [];
   private lastGameData: PacManGameData | null = null;
   private moveCount = 0;
+  private memoryStore: GlobalMemoryStore;
+  private sessions: PacManSession[] = [];
+  private sessionStartTime = 0;
+  private isInitialized = false;
+  // Run seed shared with the game; each subsystem draws from its own forked stream
+  private seedSource: SeededRandom;
+  private random: SeededRandom;
+
+  constructor(memoryStore?: GlobalMemoryStore, random: SeededRandom = new SeededRandom()) {
+    this.seedSource = random;
+    this.random = random.fork('analyzer');
+    this.ghostAI = new GhostPersonalityAI(random.fork('ghosts'));
+    this.commentaryGenerator = new PacManCommentaryGenerator(random.fork('commentary'));
+    this.memoryStore = memoryStore || createDefaultStore();
+  }
+
+  // Load session history from storage (async)
+  async initialize(): Promise<void> {
+    if (this.isInitialized) return;
 
-  constructor() {
-    this.ghostAI = new GhostPersonalityAI();
-    this.commentaryGenerator = new PacManCommentaryGenerator();
+    try {
+      const stored = await this.memoryStore.loadGameData<PacManPersistedData>(GAME_ID);
+
+      if (stored && Array.isArray(stored.sessions)) {
+        this.sessions = stored.sessions;
+      }
+    } catch (error) {
+      console.error('Failed to load Pac-Man behavior data, starting fresh:', error);
+    }
+
+    this.isInitialized = true;
+  }
+
+  serialize(): PacManPersistedData {
+    return {
+      sessions: this.sessions,
+      metrics: this.calculateLifetimeMetrics(),
+      savedAt: Date.now()
+    };
+  }
+
+  private async saveData(): Promise<void> {
+    try {
+      await this.memoryStore.saveGameData(GAME_ID, this.serialize());
+    } catch (error) {
+      console.error('Failed to save Pac-Man behavior data:', error);
+    }
   }
 
   // Game lifecycle hooks
   onGameStart(gameData: PacManGameData): PacManAIState {
-    this.currentSessionId = `pacman_${Date.now()}`;
+    this.currentSessionId = `pacman_${GameClock.now()}`;
+    this.sessionStartTime = GameClock.now();
     this.interactions = [];
     this.moveCount = 0;
     this.lastGameData = null;
@@ -76,9 +131,6 @@ export class PacManAIAnalyzer {
     // Get speech triggers for personality expressions
     const speechTriggers = this.ghostAI.getSpeechTriggers();
 
-    // Analyze player behavior changes
-    this.analyzePlayerBehavior(gameData);
-
     // Check for significant ghost behavior changes
     const ghostStates = this.ghostAI.getGhostPersonalityStates();
     const behaviorChanges = this.detectBehaviorChanges(ghostStates);
@@ -142,6 +194,38 @@ export class PacManAIAnalyzer {
     };
   }
 
+  // Player moves come from the game itself, one per tile - the component and headless runs share this
+  attachTo(game: PacManGame): void {
+    game.setMoveCallback(() => this.onMove(game.getGameData()));
+  }
+
+  onMove(gameData: PacManGameData): void {
+    if (!this.currentSessionId) return;
+    this.analyzePlayerBehavior(gameData);
+  }
+
+  // Run one AI update and apply its ghost moves and speech to the game - shared by the component and headless runs
+  controlGhosts(game: PacManGame): PacManAIState {
+    const { aiState, ghostMoves, chainAttempts, speechTriggers } = this.onGameUpdate(game.getGameData());
+
+    // First, attempt lookahead chaining for ghosts with active segments
+    for (const [ghostId, direction] of chainAttempts) {
+      game.tryChainGhostSegment(ghostId, direction);
+    }
+
+    // Then, apply moves for idle ghosts
+    for (const [ghostId, direction] of ghostMoves) {
+      game.moveGhost(ghostId, direction);
+    }
+
+    // Finally, trigger speech bubbles
+    for (const [ghostId, speechText] of speechTriggers) {
+      game.addSpeechBubble(ghostId, speechText);
+    }
+
+    return aiState;
+  }
+
   onPacManDeath(gameData: PacManGameData, killerGhostId: string): PacManAIState {
     if (!this.currentSessionId) {
       return this.getDefaultState();
@@ -172,7 +256,7 @@ export class PacManAIAnalyzer {
           "That ghost was lost. Somehow… you were more lost.",
           "Imagine losing to pure confusion."
         ];
-        return lostMessages[Math.floor(Math.random() * lostMessages.length)];
+        return this.random.pick(lostMessages);
         
       case 'loner': // Scared ghost
         const lonerMessages = [
@@ -180,7 +264,7 @@ export class PacManAIAnalyzer {
           "You ran into the one that runs away. Impressive timing.",
           "Fear met fear. You blinked first."
         ];
-        return lonerMessages[Math.floor(Math.random() * lonerMessages.length)];
+        return this.random.pick(lonerMessages);
         
       case 'bully': // Aggressive ghost
         const bullyMessages = [
@@ -188,7 +272,7 @@ export class PacManAIAnalyzer {
           "The bully claims another victim.",
           "You got steamrolled. Classic."
         ];
-        return bullyMessages[Math.floor(Math.random() * bullyMessages.length)];
+        return this.random.pick(bullyMessages);
         
       case 'strategist': // Predictive ghost
         const strategistMessages = [
@@ -196,7 +280,7 @@ export class PacManAIAnalyzer {
           "That was calculated. Painfully so.",
           "You didn't lose. You were outplayed."
         ];
-        return strategistMessages[Math.floor(Math.random() * strategistMessages.length)];
+        return this.random.pick(strategistMessages);
         
       default:
         return "Surrounded. No dignity left to recover.";
@@ -217,8 +301,27 @@ export class PacManAIAnalyzer {
     };
 
     const commentary = this.commentaryGenerator.generateCommentary(context, ghostStates, metrics);
+
+    this.sessions.push({
+      sessionId: this.currentSessionId,
+      seed: this.seedSource.getSeed(),
+      startTime: this.sessionStartTime,
+      endTime: GameClock.now(),
+      result,
+      score: gameData.score,
+      metrics
+    });
+
+    // Keep only last 10 sessions
+    if (this.sessions.length > 10) {
+      this.sessions = this.sessions.slice(-10);
+    }
+
     this.currentSessionId = null;
 
+    // Save to persistent storage
+    void this.saveData();
+
     return {
       commentary,
       ghostPersonalities: ghostStates,
@@ -243,8 +346,6 @@ export class PacManAIAnalyzer {
 
   // Private analysis methods
   private analyzePlayerBehavior(gameData: PacManGameData): void {
-    if (!this.lastGameData) return;
-
     this.moveCount++;
 
     // Record interactions with ghosts
@@ -253,7 +354,7 @@ export class PacManAIAnalyzer {
       
       if (distance <= 3) { // Close interaction
         this.interactions.push({
-          timestamp: Date.now(),
+          timestamp: GameClock.now(),
           ghostId: ghost.id,
           interactionType: this.determineInteractionType(gameData, ghost, distance),
           pacmanPosition: { ...gameData.pacman.position },
@@ -335,6 +436,46 @@ export class PacManAIAnalyzer {
     };
   }
 
+  // Sum of per-session metrics, with distance averaged across sessions
+  private calculateLifetimeMetrics(): PacManBehaviorMetrics {
+    const lifetime: PacManBehaviorMetrics = {
+      totalMoves: 0,
+      aggressiveMovesTowardGhosts: 0,
+      defensiveMovesAwayFromGhosts: 0,
+      pelletGreedLevel: 0,
+      powerPelletUsage: 0,
+      averageDistanceFromGhosts: 0,
+      ghostsEaten: 0,
+      deathsByGhost: {}
+    };
+
+    if (this.sessions.length === 0) return lifetime;
+
+    for (const session of this.sessions) {
+      const m = session.metrics;
+      lifetime.totalMoves += m.totalMoves;
+      lifetime.aggressiveMovesTowardGhosts += m.aggressiveMovesTowardGhosts;
+      lifetime.defensiveMovesAwayFromGhosts += m.defensiveMovesAwayFromGhosts;
+      lifetime.pelletGreedLevel += m.pelletGreedLevel;
+      lifetime.powerPelletUsage += m.powerPelletUsage;
+      lifetime.averageDistanceFromGhosts += m.averageDistanceFromGhosts;
+      lifetime.ghostsEaten += m.ghostsEaten;
+      for (const [ghostId, deaths] of Object.entries(m.deathsByGhost)) {
+        lifetime.deathsByGhost[ghostId] = (lifetime.deathsByGhost[ghostId] || 0) + deaths;
+      }
+    }
+
+    lifetime.pelletGreedLevel /= this.sessions.length;
+    lifetime.powerPelletUsage /= this.sessions.length;
+    lifetime.averageDistanceFromGhosts /= this.sessions.length;
+
+    return lifetime;
+  }
+
+  getSessionCount(): number {
+    return this.sessions.length;
+  }
+
   private getDistance(pos1: any, pos2: any): number {
     return Math.abs(pos1.x - pos2.x) + Math.abs(pos1.y - pos2.y);
   }
@@ -23,6 +23,23 @@ export interface PacManBehaviorMetrics {
   deathsByGhost: Record<string, number>;
 }
 
+export interface PacManSession {
+  sessionId: string;
+  seed?: number; // run seed - absent on sessions saved before seeding existed
+  startTime: number;
+  endTime: number;
+  result: 'won' | 'lost';
+  score: number;
+  metrics: PacManBehaviorMetrics;
+}
+
+// Shape written to the GlobalMemoryStore under the 'pacman' game key
+export interface PacManPersistedData {
+  sessions: PacManSession[];
+  metrics: PacManBehaviorMetrics; // Aggregated across stored sessions
+  savedAt: number;
+}
+
 export interface GhostInteraction {
   timestamp: number;
   ghostId: string;
@@ -0,0 +1,31 @@
+// Pac-Man achievements - Declared on Pac-Man's registry definition
+
+import { AchievementDefinition } from '../console/AchievementTypes';
+
+export const PACMAN_ACHIEVEMENTS: AchievementDefinition[] = [
+  {
+    id: 'pacman_full_course',
+    title: 'FULL COURSE',
+    description: 'Eat all four ghosts on a single power pellet.',
+    icon: '👻',
+    unlockCommentary: '► ALL FOUR. THEY WILL REMEMBER THIS. SO WILL I.',
+    isEarned: ({ result }) => Number(result.facts.bestGhostChain ?? 0) >= 4
+  },
+  {
+    id: 'pacman_maze_cleared',
+    title: 'MAZE RUNNER',
+    description: 'Clear every pellet in Pac-Man.',
+    icon: '🟡',
+    unlockCommentary: '► THE MAZE IS EMPTY. THE GHOSTS ARE DISAPPOINTED IN THEMSELVES.',
+    isEarned: ({ result }) => result.result === 'won'
+  },
+  {
+    id: 'pacman_untouchable',
+    title: 'UNTOUCHABLE',
+    description: 'Clear Pac-Man without losing a life.',
+    icon: '🛡',
+    secret: true,
+    unlockCommentary: '► NOT ONE LIFE LOST. I WILL BE HAVING WORDS WITH THE GHOSTS.',
+    isEarned: ({ result }) => result.result === 'won' && result.facts.livesLeft === 3
+  }
+];
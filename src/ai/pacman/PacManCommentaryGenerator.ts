@@ -6,6 +6,8 @@ import {
   GhostPersonalityState,
   PacManBehaviorMetrics
 } from './PacManAITypes';
+import { SeededRandom } from '../../games/engine/SeededRandom';
+import { GameClock } from '../../games/engine/GameClock';
 
 export class PacManCommentaryGenerator {
   private lastCommentary = '';
@@ -14,13 +16,18 @@ export class PacManCommentaryGenerator {
   private commentaryCooldown = 2000; // 2 seconds minimum between comments
   private currentCommentaryStartTime = 0;
   private minimumDisplayTime = 1500; // 1.5 seconds minimum display time
+  private random: SeededRandom;
+
+  constructor(random: SeededRandom = new SeededRandom()) {
+    this.random = random;
+  }
 
   generateCommentary(
     context: PacManCommentaryContext,
     ghostStates: GhostPersonalityState[],
     metrics: PacManBehaviorMetrics
   ): string {
-    const now = Date.now();
+    const now = GameClock.now();
     
     // Check if we should throttle commentary
     if (this.shouldThrottleCommentary(context.trigger, now)) {
@@ -121,7 +128,7 @@ export class PacManCommentaryGenerator {
       "► BEHAVIORAL PATTERNS LOADING... GHOSTS HAVE AGENDAS"
     ];
 
-    return startMessages[Math.floor(Math.random() * startMessages.length)];
+    return this.random.pick(startMessages);
   }
 
   private getGhostBehaviorCommentary(
@@ -186,7 +193,7 @@ export class PacManCommentaryGenerator {
       "► TABLES TURNED... OBSERVING GHOST SURVIVAL INSTINCTS"
     ];
 
-    return powerMessages[Math.floor(Math.random() * powerMessages.length)];
+    return this.random.pick(powerMessages);
   }
 
   private getGhostEatenCommentary(
@@ -235,7 +242,7 @@ export class PacManCommentaryGenerator {
       "► GHOST COORDINATION SUCCESSFUL... PLAYER STRATEGY FLAWED"
     ];
 
-    return deathMessages[Math.floor(Math.random() * deathMessages.length)];
+    return this.random.pick(deathMessages);
   }
 
   private getAggressivePlayCommentary(metrics: PacManBehaviorMetrics): string {
@@ -249,7 +256,7 @@ export class PacManCommentaryGenerator {
       "► OFFENSIVE TACTICS OBSERVED... BOLD MAZE NAVIGATION"
     ];
 
-    return aggressiveMessages[Math.floor(Math.random() * aggressiveMessages.length)];
+    return this.random.pick(aggressiveMessages);
   }
 
   private getDefensivePlayCommentary(metrics: PacManBehaviorMetrics): string {
@@ -263,7 +270,7 @@ export class PacManCommentaryGenerator {
       "► EVASIVE MANEUVERS... CONFLICT AVOIDANCE ACTIVE"
     ];
 
-    return defensiveMessages[Math.floor(Math.random() * defensiveMessages.length)];
+    return this.random.pick(defensiveMessages);
   }
 
   private getGameEndCommentary(
@@ -289,7 +296,7 @@ export class PacManCommentaryGenerator {
       "► GHOST DYNAMICS STUDY CONCLUDED... PATTERNS RECORDED"
     ];
 
-    return endMessages[Math.floor(Math.random() * endMessages.length)];
+    return this.random.pick(endMessages);
   }
 
   private getAlternativeCommentary(trigger: PacManCommentaryTrigger): string {
@@ -329,7 +336,7 @@ export class PacManCommentaryGenerator {
     };
 
     const options = alternatives[trigger] || ["► SYSTEM COMMENTARY UPDATING..."];
-    return options[Math.floor(Math.random() * options.length)];
+    return this.random.pick(options);
   }
 
   getCurrentCommentary(): string {
@@ -6,8 +6,13 @@ import { SnakePunishmentSystem } from './SnakePunishmentSystem';
 import { 
   PlayerBehaviorType, 
   SnakeBehaviorMetrics,
-  CorruptionLevel
+  CorruptionLevel,
+  PunishmentType
 } from './SnakeBehaviorTypes';
+import { GlobalMemoryStore } from '../console/storage/GlobalMemoryStore';
+import { SeededRandom } from '../../games/engine/SeededRandom';
+import { GameClock } from '../../games/engine/GameClock';
+import { SnakeGame } from '../../games/snake/SnakeGame';
 
 export interface CommentaryEvent {
   message: string;
@@ -52,14 +57,30 @@ export class SnakeAIAnalyzer {
   private lastScore = 0;
   private consecutiveFailures = 0;
   private gameStartTime = 0;
+  private isInitialized = false;
+  // Run seed shared with the game; each subsystem draws from its own forked stream
+  private seedSource: SeededRandom;
+  private random: SeededRandom;
   
   // COMMENTARY EVENT EMISSION (NO TIMING LOGIC)
   private commentaryEvents: CommentaryEvent[] = [];
+  // Every punishment fired this game, in order
+  private gamePunishments: PunishmentType[] = [];
+
+  constructor(memoryStore?: GlobalMemoryStore, random: SeededRandom = new SeededRandom()) {
+    this.seedSource = random;
+    this.random = random.fork('analyzer');
+    this.behaviorTracker = new SnakeBehaviorTracker(memoryStore);
+    this.commentaryGenerator = new SnakeCommentaryGenerator(random.fork('commentary'));
+    this.punishmentSystem = new SnakePunishmentSystem(random.fork('punishment'));
+  }
+
+  // Load persisted behavior history (async)
+  async initialize(): Promise<void> {
+    if (this.isInitialized) return;
 
-  constructor() {
-    this.behaviorTracker = new SnakeBehaviorTracker();
-    this.commentaryGenerator = new SnakeCommentaryGenerator();
-    this.punishmentSystem = new SnakePunishmentSystem();
+    await this.behaviorTracker.initialize();
+    this.isInitialized = true;
   }
 
   // EMIT COMMENTARY EVENTS (NO TIMING LOGIC)
@@ -77,10 +98,11 @@ export class SnakeAIAnalyzer {
 
   // Game lifecycle hooks
   onGameStart(): SnakeAIState {
-    this.currentSessionId = this.behaviorTracker.startSession();
-    this.gameStartTime = Date.now();
+    this.currentSessionId = this.behaviorTracker.startSession(this.seedSource.getSeed());
+    this.gameStartTime = GameClock.now();
     this.punishmentSystem.reset();
     this.clearCommentaryEvents();
+    this.gamePunishments = [];
     
     const behaviorType = this.behaviorTracker.classifyBehavior();
     const metrics = this.behaviorTracker.calculateMetrics();
@@ -155,7 +177,7 @@ export class SnakeAIAnalyzer {
       return this.getDefaultUpdateResult();
     }
 
-    const timeAlive = Date.now() - this.gameStartTime;
+    const timeAlive = GameClock.now() - this.gameStartTime;
     const score = (snakeLength - 1) * 10; // Calculate score from length
     
     // Clear previous events
@@ -178,6 +200,7 @@ export class SnakeAIAnalyzer {
       timeAlive,
       hasWon
     );
+    this.fileTriggeredPunishments();
 
     // EMIT MID-GAME COMMENTARY EVENTS (NO TIMING LOGIC)
     const behaviorType = this.behaviorTracker.classifyBehavior();
@@ -201,13 +224,13 @@ export class SnakeAIAnalyzer {
     }
     
     // Pattern exploitation taunts (more frequent)
-    if (Math.random() < 0.15) { // 15% chance per update
+    if (this.random.next() < 0.15) { // 15% chance per update
       const tauntCommentary = this.commentaryGenerator.getMidGameTaunt(behaviorType, metrics);
       this.emitCommentaryEvent(tauntCommentary, 'mid-game', 'low');
     }
     
     // Fake food spawn commentary (when fake food appears)
-    if (corruption.fakeFoods.length > 0 && Math.random() < 0.2) {
+    if (corruption.fakeFoods.length > 0 && this.random.next() < 0.2) {
       const fakeFoodCommentary = this.commentaryGenerator.getFakeFoodCommentary();
       this.emitCommentaryEvent(fakeFoodCommentary, 'corruption', 'normal');
     }
@@ -260,7 +283,7 @@ export class SnakeAIAnalyzer {
           "I placed every obstacle with intent",
           "The system adapted. You did not"
         ];
-        corruptionAnalysis = corruptionComments[Math.floor(Math.random() * corruptionComments.length)];
+        corruptionAnalysis = this.random.pick(corruptionComments);
       }
       
       // 3. Score analysis
@@ -415,7 +438,53 @@ export class SnakeAIAnalyzer {
     gridHeight: number,
     normalPosition: { x: number; y: number }
   ): { x: number; y: number } {
-    return this.punishmentSystem.generateBiasedFoodPosition(snake, gridWidth, gridHeight, normalPosition);
+    const position = this.punishmentSystem.generateBiasedFoodPosition(snake, gridWidth, gridHeight, normalPosition);
+    this.fileTriggeredPunishments();
+    return position;
+  }
+
+  getCorruptionLevel(): CorruptionLevel {
+    return this.punishmentSystem.getCorruptionLevel();
+  }
+
+  getTriggeredPunishments(): PunishmentType[] {
+    return [...this.gamePunishments];
+  }
+
+  // Wire the corruption system into the game's rules - the component and headless runs share this
+  attachTo(game: SnakeGame): void {
+    game.setAIUpdateCallback((snake, food, gridWidth, gridHeight, snakeLength) =>
+      this.onGameUpdate(snake, food, gridWidth, gridHeight, snakeLength)
+    );
+    game.setFakeFoodApproachedCallback((position) => {
+      const result = this.onFakeFoodApproached(position);
+      return { disappeared: result.disappeared, commentary: null };
+    });
+    game.setRealFoodEatenCallback(() => this.onRealFoodEaten());
+    game.setMoveCallback(() => {
+      const data = game.getGameData();
+      this.onMove(game.getCurrentDirection(), data.snake[0], data.snake.length, data.food, data.gridWidth, data.gridHeight);
+    });
+    game.setBiasedFoodCallback((snake, gridWidth, gridHeight, normalPosition) =>
+      this.generateBiasedFoodPosition(snake, gridWidth, gridHeight, normalPosition)
+    );
+    // Corruption only climbs during a run, so its level at the end is the highest reached
+    game.addResultFacts(() => ({
+      corruptionLevel: this.getCorruptionLevel(),
+      punishmentsTriggered: this.gamePunishments.length
+    }));
+  }
+
+  // Files punishments on the session so they persist with the rest of the behavior history
+  private fileTriggeredPunishments(): void {
+    const triggered = this.punishmentSystem.takeTriggeredPunishments();
+    if (triggered.length === 0) return;
+
+    const behaviorType = this.behaviorTracker.classifyBehavior();
+    triggered.forEach(({ type, reason, severity }) => {
+      this.behaviorTracker.recordPunishment(type, reason, severity, behaviorType);
+      this.gamePunishments.push(type);
+    });
   }
 
   private getDefaultState(): SnakeAIState {
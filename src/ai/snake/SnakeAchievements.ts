@@ -0,0 +1,32 @@
+// Snake achievements - Declared on Snake's registry definition
+
+import { AchievementDefinition } from '../console/AchievementTypes';
+import { CorruptionLevel } from './SnakeBehaviorTypes';
+
+export const SNAKE_ACHIEVEMENTS: AchievementDefinition[] = [
+  {
+    id: 'snake_hostile_takeover',
+    title: 'HOSTILE TAKEOVER',
+    description: 'Survive long enough in Snake for KAI to take over the board.',
+    icon: '☣',
+    unlockCommentary: '► YOU LASTED UNTIL I STOPPED PRETENDING. IMPRESSIVE. IRRELEVANT.',
+    isEarned: ({ result }) => Number(result.facts.corruptionLevel ?? 0) >= CorruptionLevel.HOSTILE_TAKEOVER
+  },
+  {
+    id: 'snake_halfway',
+    title: 'HALFWAY TO IMPOSSIBLE',
+    description: 'Score 250 in Snake.',
+    icon: '🐍',
+    unlockCommentary: '► 250. THE OTHER HALF IS WHERE I STOP BEING POLITE.',
+    isEarned: ({ result }) => result.score >= 250
+  },
+  {
+    id: 'snake_untouched',
+    title: 'BENEATH NOTICE',
+    description: 'Finish a Snake run without triggering a single punishment.',
+    icon: '👻',
+    secret: true,
+    unlockCommentary: '► YOU GAVE ME NOTHING TO PUNISH. THAT IS ITS OWN KIND OF INSULT.',
+    isEarned: ({ result }) => result.facts.punishmentsTriggered === 0 && result.duration >= 30000
+  }
+];
@@ -6,10 +6,18 @@ import {
   SnakeBehaviorMetrics, 
   PlayerBehaviorType,
   PunishmentRecord,
-  PunishmentType
+  PunishmentType,
+  SnakePersistentCounters,
+  SnakePersistedData
 } from './SnakeBehaviorTypes';
+import { GlobalMemoryStore } from '../console/storage/GlobalMemoryStore';
+import { createDefaultStore } from '../console/storage/createDefaultStore';
+import { GameClock } from '../../games/engine/GameClock';
+
+const GAME_ID = 'snake';
 
 export class SnakeBehaviorTracker {
+  private memoryStore: GlobalMemoryStore;
   private currentSession: SnakeSession | null = null;
   private sessions: SnakeSession[] = [];
   private lastMoveTime = 0;
@@ -20,20 +28,68 @@ export class SnakeBehaviorTracker {
   private totalGameTime = 0;
 
   // Persistent cross-session data
-  private persistentData = {
-    totalWallHuggingTime: 0,
-    totalGameTime: 0,
-    directionCounts: { UP: 0, DOWN: 0, LEFT: 0, RIGHT: 0 },
-    spiralPatterns: 0,
-    comfortZoneViolations: 0,
-    punishmentAdaptations: 0
-  };
-
-  startSession(): string {
-    const sessionId = `snake_${Date.now()}_${++this.sessionCounter}`;
+  private persistentData: SnakePersistentCounters = this.createEmptyCounters();
+
+  constructor(memoryStore?: GlobalMemoryStore) {
+    this.memoryStore = memoryStore || createDefaultStore();
+  }
+
+  // Load sessions and counters from storage (async)
+  async initialize(): Promise<void> {
+    try {
+      const stored = await this.memoryStore.loadGameData<SnakePersistedData>(GAME_ID);
+
+      if (stored) {
+        this.sessions = Array.isArray(stored.sessions) ? stored.sessions : [];
+        // Merge over defaults so counters added later still exist
+        this.persistentData = {
+          ...this.createEmptyCounters(),
+          ...stored.persistentData,
+          directionCounts: {
+            ...this.createEmptyCounters().directionCounts,
+            ...stored.persistentData?.directionCounts
+          }
+        };
+      }
+    } catch (error) {
+      console.error('Failed to load Snake behavior data, starting fresh:', error);
+    }
+  }
+
+  private createEmptyCounters(): SnakePersistentCounters {
+    return {
+      totalWallHuggingTime: 0,
+      totalGameTime: 0,
+      directionCounts: { UP: 0, DOWN: 0, LEFT: 0, RIGHT: 0 },
+      spiralPatterns: 0,
+      comfortZoneViolations: 0,
+      punishmentAdaptations: 0
+    };
+  }
+
+  serialize(): SnakePersistedData {
+    return {
+      sessions: this.sessions,
+      persistentData: this.persistentData,
+      metrics: this.calculateMetrics(),
+      savedAt: Date.now()
+    };
+  }
+
+  private async saveData(): Promise<void> {
+    try {
+      await this.memoryStore.saveGameData(GAME_ID, this.serialize());
+    } catch (error) {
+      console.error('Failed to save Snake behavior data:', error);
+    }
+  }
+
+  startSession(seed: number): string {
+    const sessionId = `snake_${GameClock.now()}_${++this.sessionCounter}`;
     this.currentSession = {
       sessionId,
-      startTime: Date.now(),
+      seed,
+      startTime: GameClock.now(),
       moves: [],
       score: 0,
       deathCause: null,
@@ -56,7 +112,7 @@ export class SnakeBehaviorTracker {
   ): void {
     if (!this.currentSession) return;
 
-    const now = Date.now();
+    const now = GameClock.now();
     const reactionTime = this.lastMoveTime > 0 ? now - this.lastMoveTime : 0;
     const distanceToFood = Math.abs(snakeHead.x - foodPosition.x) + Math.abs(snakeHead.y - foodPosition.y);
     
@@ -184,7 +240,7 @@ export class SnakeBehaviorTracker {
     
     this.currentSession.punishmentsTriggered.push({
       type,
-      timestamp: Date.now(),
+      timestamp: GameClock.now(),
       reason,
       severity,
       playerBehavior
@@ -194,7 +250,7 @@ export class SnakeBehaviorTracker {
   endSession(score: number, deathCause: 'wall' | 'self' | 'block' | null): void {
     if (!this.currentSession) return;
 
-    this.currentSession.endTime = Date.now();
+    this.currentSession.endTime = GameClock.now();
     this.currentSession.score = score;
     this.currentSession.deathCause = deathCause;
 
@@ -206,6 +262,9 @@ export class SnakeBehaviorTracker {
     }
 
     this.currentSession = null;
+
+    // Save to persistent storage
+    void this.saveData();
   }
 
   calculateMetrics(): SnakeBehaviorMetrics {
@@ -497,12 +556,15 @@ export class SnakeBehaviorTracker {
 
   private findRepeatingPatterns(directions: string[]): string[] {
     const patterns: string[] = [];
+    const joined = directions.join('');
+    // Search the joined history from each offset instead of re-joining the tail every time
+    let offset = 0;
     for (let i = 0; i < directions.length - 3; i++) {
       const pattern = directions.slice(i, i + 3).join('');
-      const remaining = directions.slice(i + 3).join('');
-      if (remaining.includes(pattern)) {
+      if (joined.indexOf(pattern, offset + pattern.length) !== -1) {
         patterns.push(pattern);
       }
+      offset += directions[i].length;
     }
     return patterns;
   }
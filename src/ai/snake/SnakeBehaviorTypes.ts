@@ -14,6 +14,7 @@ export interface SnakeMove {
 
 export interface SnakeSession {
   sessionId: string;
+  seed?: number; // run seed - absent on sessions saved before seeding existed
   startTime: number;
   endTime?: number;
   moves: SnakeMove[];
@@ -72,6 +73,24 @@ export interface SnakeBehaviorMetrics {
   lastPunishmentResponse: number; // -1 to 1, performance change after punishment
 }
 
+// Cross-session counters that feed the continuous metrics
+export interface SnakePersistentCounters {
+  totalWallHuggingTime: number;
+  totalGameTime: number;
+  directionCounts: { UP: number; DOWN: number; LEFT: number; RIGHT: number };
+  spiralPatterns: number;
+  comfortZoneViolations: number;
+  punishmentAdaptations: number;
+}
+
+// Shape written to the GlobalMemoryStore under the 'snake' game key
+export interface SnakePersistedData {
+  sessions: SnakeSession[];
+  persistentData: SnakePersistentCounters;
+  metrics: SnakeBehaviorMetrics;
+  savedAt: number;
+}
+
 export enum PlayerBehaviorType {
   CAUTIOUS = 'cautious',
   GREEDY = 'greedy', 
@@ -5,10 +5,16 @@ import {
   CommentaryTrigger, 
   SnakeBehaviorMetrics 
 } from './SnakeBehaviorTypes';
+import { SeededRandom } from '../../games/engine/SeededRandom';
 
 export class SnakeCommentaryGenerator {
   private lastCommentary = '';
   private commentaryHistory: string[] = [];
+  private random: SeededRandom;
+
+  constructor(random: SeededRandom = new SeededRandom()) {
+    this.random = random;
+  }
 
   generateCommentary(
     trigger: CommentaryTrigger, 
@@ -104,7 +110,7 @@ export class SnakeCommentaryGenerator {
     }
 
     const comments = startComments[behaviorType] || startComments[PlayerBehaviorType.CAUTIOUS];
-    return comments[Math.floor(Math.random() * comments.length)];
+    return this.random.pick(comments);
   }
 
   getDeathCommentary(
@@ -123,7 +129,7 @@ export class SnakeCommentaryGenerator {
         "► YOUR PREDICTABLE PATTERNS MADE THIS TOO EASY.",
         "► COMFORT ZONE DESTROYED. MISSION ACCOMPLISHED."
       ];
-      return corruptionDeathComments[Math.floor(Math.random() * corruptionDeathComments.length)];
+      return this.random.pick(corruptionDeathComments);
     }
 
     // Death cause specific comments
@@ -135,7 +141,7 @@ export class SnakeCommentaryGenerator {
         "► WALL IMPACT DETECTED... OUCH",
         "► YOU DIED BECAUSE YOU TRUSTED THE WALLS."
       ];
-      return wallComments[Math.floor(Math.random() * wallComments.length)];
+      return this.random.pick(wallComments);
     }
 
     if (deathCause === 'self') {
@@ -146,7 +152,7 @@ export class SnakeCommentaryGenerator {
         "► SNAKE PRETZEL FORMATION ACHIEVED",
         "► YOUR GREED EXCEEDED YOUR SKILL."
       ];
-      return selfComments[Math.floor(Math.random() * selfComments.length)];
+      return this.random.pick(selfComments);
     }
 
     if (deathCause === 'block') {
@@ -157,7 +163,7 @@ export class SnakeCommentaryGenerator {
         "► I PLACED THAT BLOCK FOR YOU SPECIFICALLY.",
         "► SOLID OBJECTS ARE SOLID. WHO KNEW?"
       ];
-      return blockComments[Math.floor(Math.random() * blockComments.length)];
+      return this.random.pick(blockComments);
     }
 
     // Score-based comments
@@ -171,7 +177,7 @@ export class SnakeCommentaryGenerator {
         `► ${score} POINTS... MY CALCULATOR COULD DO BETTER`,
         `► PERFORMANCE RATING: NEEDS IMPROVEMENT`
       ];
-      return lowScoreComments[Math.floor(Math.random() * lowScoreComments.length)];
+      return this.random.pick(lowScoreComments);
     }
 
     if (score >= metrics.bestScore && metrics.bestScore > 0) {
@@ -194,7 +200,7 @@ export class SnakeCommentaryGenerator {
       return "► AFTER " + metrics.totalSessions + " ATTEMPTS... STILL LEARNING?";
     }
 
-    return failureComments[Math.floor(Math.random() * failureComments.length)];
+    return this.random.pick(failureComments);
   }
 
   getImprovementCommentary(behaviorType: PlayerBehaviorType, metrics: SnakeBehaviorMetrics): string {
@@ -209,7 +215,7 @@ export class SnakeCommentaryGenerator {
       return "► SIGNIFICANT IMPROVEMENT... I'M ACTUALLY IMPRESSED";
     }
 
-    return improvementComments[Math.floor(Math.random() * improvementComments.length)];
+    return this.random.pick(improvementComments);
   }
 
   getCorruptionCommentary(corruptionLevel: number): string {
@@ -221,7 +227,7 @@ export class SnakeCommentaryGenerator {
       `► CORRUPTION LEVEL ${corruptionLevel}: ENGAGED`
     ];
 
-    return corruptionComments[Math.floor(Math.random() * corruptionComments.length)];
+    return this.random.pick(corruptionComments);
   }
 
   getFakeFoodCommentary(reason?: string): string {
@@ -236,7 +242,7 @@ export class SnakeCommentaryGenerator {
       "► NOT EVERYTHING IS AS IT SEEMS"
     ];
 
-    return fakeFoodComments[Math.floor(Math.random() * fakeFoodComments.length)];
+    return this.random.pick(fakeFoodComments);
   }
 
   getSpeedCommentary(speedMultiplier: number): string {
@@ -248,7 +254,7 @@ export class SnakeCommentaryGenerator {
       `► SPEED MULTIPLIER: ${speedMultiplier.toFixed(1)}X`
     ];
 
-    return speedComments[Math.floor(Math.random() * speedComments.length)];
+    return this.random.pick(speedComments);
   }
 
   getMidGameTaunt(behaviorType: PlayerBehaviorType, metrics: SnakeBehaviorMetrics): string {
@@ -272,7 +278,7 @@ export class SnakeCommentaryGenerator {
       return "► COMFORT DETECTED. LET'S FIX THAT.";
     }
 
-    return tauntComments[Math.floor(Math.random() * tauntComments.length)];
+    return this.random.pick(tauntComments);
   }
 
   private getAlternativeCommentary(triggerType: string, behaviorType: PlayerBehaviorType): string {
@@ -284,7 +290,7 @@ export class SnakeCommentaryGenerator {
       "► COMMENTARY BUFFER: REFRESHING"
     ];
 
-    return alternatives[Math.floor(Math.random() * alternatives.length)];
+    return this.random.pick(alternatives);
   }
 
   getCurrentCommentary(): string {
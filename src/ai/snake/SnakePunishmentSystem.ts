@@ -8,6 +8,8 @@ import {
   CorruptionLevel
 } from './SnakeBehaviorTypes';
 import { SnakeBehaviorTracker } from './SnakeBehaviorTracker';
+import { SeededRandom } from '../../games/engine/SeededRandom';
+import { GameClock } from '../../games/engine/GameClock';
 
 export class SnakePunishmentSystem {
   private punishmentState: PunishmentState;
@@ -15,12 +17,16 @@ export class SnakePunishmentSystem {
   private readonly COMMENTARY_COOLDOWN_MIN = 3000; // 3 seconds minimum
   private readonly COMMENTARY_COOLDOWN_MAX = 5000; // 5 seconds maximum
   private activePunishments: Set<PunishmentType> = new Set();
+  // Punishments fired since the analyzer last collected them
+  private triggeredPunishments: { type: PunishmentType; reason: string; severity: number }[] = [];
   private gameStartTime = 0;
   private lastFoodEaten = 0;
   private speedEscalationTimer = 0;
   private lastSpeedIncrease = 0;
+  private random: SeededRandom;
 
-  constructor() {
+  constructor(random: SeededRandom = new SeededRandom()) {
+    this.random = random;
     this.punishmentState = {
       corruptionLevel: CorruptionLevel.OBSERVATION,
       corruptionStartTime: 0,
@@ -78,7 +84,7 @@ export class SnakePunishmentSystem {
       foodPulseRate: number;
     };
   } {
-    const now = Date.now();
+    const now = GameClock.now();
     
     if (this.gameStartTime === 0) {
       this.gameStartTime = now;
@@ -166,7 +172,7 @@ export class SnakePunishmentSystem {
 
       if (this.punishmentState.corruptionLevel >= CorruptionLevel.SUBTLE_INTERFERENCE) {
         // Level 1+: 25% minimum chance
-        if (Math.random() < 0.25) {
+        if (this.random.next() < 0.25) {
           shouldSpawn = true;
           reason = "You're playing it safe. I hate that.";
         }
@@ -199,9 +205,21 @@ export class SnakePunishmentSystem {
       position: { ...currentFood },
       triggerReason: reason,
       flickerState: false,
-      lastFlicker: Date.now()
+      lastFlicker: GameClock.now()
     };
-    this.activePunishments.add(PunishmentType.FAKE_FOOD);
+    this.triggerPunishment(PunishmentType.FAKE_FOOD, reason, 0.4);
+  }
+
+  private triggerPunishment(type: PunishmentType, reason: string, severity: number): void {
+    this.activePunishments.add(type);
+    this.triggeredPunishments.push({ type, reason, severity });
+  }
+
+  // Drains everything fired since the last call, oldest first
+  takeTriggeredPunishments(): { type: PunishmentType; reason: string; severity: number }[] {
+    const triggered = this.triggeredPunishments;
+    this.triggeredPunishments = [];
+    return triggered;
   }
 
   // 3. SPEED CORRUPTION (MAKE IT OBVIOUS)
@@ -217,11 +235,15 @@ export class SnakePunishmentSystem {
     if (metrics.comfortZoneSize > 0.6 && now - this.lastSpeedIncrease > 3000) {
       this.punishmentState.speedMultiplier += 0.1; // +10% every 3 seconds
       this.lastSpeedIncrease = now;
+      this.triggerPunishment(PunishmentType.SPEED_INCREASE, 'Comfort zone detected', 0.3);
     }
 
     // Level 2+: Speed surges after eating food
     if (this.punishmentState.corruptionLevel >= CorruptionLevel.ACTIVE_MANIPULATION) {
       if (this.lastFoodEaten > 0 && now - this.lastFoodEaten < 800) {
+        if (!this.punishmentState.speedSurgeActive) {
+          this.triggerPunishment(PunishmentType.SPEED_INCREASE, 'Speed surge after eating', 0.5);
+        }
         this.punishmentState.speedSurgeActive = true;
         this.punishmentState.speedMultiplier *= 1.5; // 50% surge
       } else if (this.punishmentState.speedSurgeActive && now - this.lastFoodEaten > 1500) {
@@ -232,9 +254,10 @@ export class SnakePunishmentSystem {
 
     // Level 3: Unpredictable fluctuations
     if (this.punishmentState.corruptionLevel >= CorruptionLevel.HOSTILE_TAKEOVER) {
-      if (!this.punishmentState.speedFluctuationActive && Math.random() < 0.15) {
+      if (!this.punishmentState.speedFluctuationActive && this.random.next() < 0.15) {
         this.punishmentState.speedFluctuationActive = true;
         this.speedEscalationTimer = now + 3000; // 3 second fluctuation
+        this.triggerPunishment(PunishmentType.SPEED_INCREASE, 'Speed fluctuation', 0.8);
       }
       
       if (this.punishmentState.speedFluctuationActive) {
@@ -281,7 +304,7 @@ export class SnakePunishmentSystem {
 
   // 5. MID-GAME COMMENTARY (NON-NEGOTIABLE)
   private generateMidGameCommentary(now: number, behaviorTracker: SnakeBehaviorTracker): string | null {
-    const cooldown = this.COMMENTARY_COOLDOWN_MIN + Math.random() * (this.COMMENTARY_COOLDOWN_MAX - this.COMMENTARY_COOLDOWN_MIN);
+    const cooldown = this.COMMENTARY_COOLDOWN_MIN + this.random.next() * (this.COMMENTARY_COOLDOWN_MAX - this.COMMENTARY_COOLDOWN_MIN);
     
     if (now - this.lastCommentaryTime < cooldown) {
       return null;
@@ -300,7 +323,7 @@ export class SnakePunishmentSystem {
         "I'm watching your every move.",
         "Getting comfortable? Not for long."
       ];
-      commentary = corruptionComments[Math.floor(Math.random() * corruptionComments.length)];
+      commentary = this.random.pick(corruptionComments);
     }
 
     // Fake food spawn
@@ -316,7 +339,7 @@ export class SnakePunishmentSystem {
         "Speed is life. Literally.",
         "Can't keep up?"
       ];
-      commentary = speedComments[Math.floor(Math.random() * speedComments.length)];
+      commentary = this.random.pick(speedComments);
     }
 
     // Pattern exploitation
@@ -352,7 +375,7 @@ export class SnakePunishmentSystem {
     // Only spawn blocks at corruption level 2+
     if (this.punishmentState.corruptionLevel < CorruptionLevel.ACTIVE_MANIPULATION) return;
 
-    const now = Date.now();
+    const now = GameClock.now();
     let shouldSpawnBlock = false;
     
     // Block spawn rate based on corruption level
@@ -363,7 +386,7 @@ export class SnakePunishmentSystem {
       }
     } else if (this.punishmentState.corruptionLevel === CorruptionLevel.HOSTILE_TAKEOVER) {
       // Level 3: every 2-3 food
-      if (this.punishmentState.foodEatenSinceLastBlock >= 2 + Math.floor(Math.random() * 2)) {
+      if (this.punishmentState.foodEatenSinceLastBlock >= 2 + this.random.nextInt(2)) {
         shouldSpawnBlock = true;
       }
     }
@@ -374,6 +397,7 @@ export class SnakePunishmentSystem {
         this.punishmentState.environmentalBlocks.push(newBlock);
         this.punishmentState.lastBlockSpawn = now;
         this.punishmentState.foodEatenSinceLastBlock = 0;
+        this.triggerPunishment(PunishmentType.SAFE_SPACE_REDUCTION, 'Environmental block spawned', 0.6);
       }
     }
   }
@@ -388,8 +412,8 @@ export class SnakePunishmentSystem {
     const head = snake[0];
     
     for (let attempt = 0; attempt < maxAttempts; attempt++) {
-      const x = Math.floor(Math.random() * gridWidth);
-      const y = Math.floor(Math.random() * gridHeight);
+      const x = this.random.nextInt(gridWidth);
+      const y = this.random.nextInt(gridHeight);
       
       // Never spawn on snake
       if (snake.some(segment => segment.x === x && segment.y === y)) continue;
@@ -460,7 +484,7 @@ export class SnakePunishmentSystem {
     
     return { 
       disappeared: true, 
-      commentary: comments[Math.floor(Math.random() * comments.length)]
+      commentary: this.random.pick(comments)
     };
   }
 
@@ -476,10 +500,10 @@ export class SnakePunishmentSystem {
     // At Level 3, add multiple fake foods
     if (this.punishmentState.corruptionLevel >= CorruptionLevel.HOSTILE_TAKEOVER) {
       // Add up to 2 additional fake foods at random positions
-      for (let i = 0; i < 2 && Math.random() < 0.3; i++) {
+      for (let i = 0; i < 2 && this.random.next() < 0.3; i++) {
         fakeFoods.push({
-          x: Math.floor(Math.random() * 20),
-          y: Math.floor(Math.random() * 20)
+          x: this.random.nextInt(20),
+          y: this.random.nextInt(20)
         });
       }
     }
@@ -489,7 +513,7 @@ export class SnakePunishmentSystem {
 
   // Called when real food is eaten
   onRealFoodEaten(): void {
-    this.lastFoodEaten = Date.now();
+    this.lastFoodEaten = GameClock.now();
     this.punishmentState.foodEatenSinceLastBlock++;
   }
 
@@ -511,27 +535,30 @@ export class SnakePunishmentSystem {
     
     // Apply wall bias
     if (this.punishmentState.foodBias.wallBias > 0) {
-      if (Math.random() < this.punishmentState.foodBias.wallBias) {
+      if (this.random.next() < this.punishmentState.foodBias.wallBias) {
         biasedPosition = this.generateWallAdjacentPosition(snake, gridWidth, gridHeight);
+        this.triggerPunishment(PunishmentType.WALL_FOOD_BIAS, 'Food pushed against a wall', this.punishmentState.foodBias.wallBias);
       }
     }
     
     // Apply body bias
     if (this.punishmentState.foodBias.bodyBias > 0) {
-      if (Math.random() < this.punishmentState.foodBias.bodyBias) {
+      if (this.random.next() < this.punishmentState.foodBias.bodyBias) {
         biasedPosition = this.generateBodyAdjacentPosition(snake, gridWidth, gridHeight);
+        this.triggerPunishment(PunishmentType.BODY_FOOD_BIAS, 'Food placed behind the snake', this.punishmentState.foodBias.bodyBias);
       }
     }
     
     // Apply path prediction bias
     if (this.punishmentState.pathPrediction.active && this.punishmentState.pathPrediction.predictedPath.length > 0) {
-      if (Math.random() < this.punishmentState.pathPrediction.biasStrength) {
+      if (this.random.next() < this.punishmentState.pathPrediction.biasStrength) {
         const targetPath = this.punishmentState.pathPrediction.predictedPath[
-          Math.floor(Math.random() * this.punishmentState.pathPrediction.predictedPath.length)
+          this.random.nextInt(this.punishmentState.pathPrediction.predictedPath.length)
         ];
         
         // Find valid position near predicted path
         biasedPosition = this.findValidPositionNear(targetPath, snake, gridWidth, gridHeight);
+        this.triggerPunishment(PunishmentType.PATH_PREDICTION, 'Food placed on the predicted path', this.punishmentState.pathPrediction.biasStrength);
       }
     }
     
@@ -558,8 +585,8 @@ export class SnakePunishmentSystem {
     }
     
     return wallPositions.length > 0 
-      ? wallPositions[Math.floor(Math.random() * wallPositions.length)]
-      : { x: Math.floor(Math.random() * gridWidth), y: Math.floor(Math.random() * gridHeight) };
+      ? this.random.pick(wallPositions)
+      : { x: this.random.nextInt(gridWidth), y: this.random.nextInt(gridHeight) };
   }
 
   private generateBodyAdjacentPosition(
@@ -588,8 +615,8 @@ export class SnakePunishmentSystem {
     }
     
     return bodyAdjacentPositions.length > 0
-      ? bodyAdjacentPositions[Math.floor(Math.random() * bodyAdjacentPositions.length)]
-      : { x: Math.floor(Math.random() * gridWidth), y: Math.floor(Math.random() * gridHeight) };
+      ? this.random.pick(bodyAdjacentPositions)
+      : { x: this.random.nextInt(gridWidth), y: this.random.nextInt(gridHeight) };
   }
 
   private findValidPositionNear(
@@ -613,7 +640,7 @@ export class SnakePunishmentSystem {
     }
     
     // Fallback to random position
-    return { x: Math.floor(Math.random() * gridWidth), y: Math.floor(Math.random() * gridHeight) };
+    return { x: this.random.nextInt(gridWidth), y: this.random.nextInt(gridHeight) };
   }
 
   private getCurrentState() {
@@ -660,6 +687,7 @@ export class SnakePunishmentSystem {
       }
     };
     this.activePunishments.clear();
+    this.triggeredPunishments = [];
     this.lastCommentaryTime = 0;
     this.gameStartTime = 0;
     this.lastFoodEaten = 0;
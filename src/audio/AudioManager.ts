@@ -1,5 +1,7 @@
 // Centralized Audio Manager
 
+import { GameRegistry } from '../games/GameRegistry';
+
 export type MusicType = 'dashboard' | 'game';
 export type SFXType = 'gameOver' | 'youWin';
 
@@ -7,20 +9,15 @@ const MUSIC_MAP: Record<MusicType, string> = {
   dashboard: 'music/dashboard.mp3',
   game: 'music/game.mp3',
 };
-const GAMEOVER_SFX_MAP: Record<string, string> = {
-  snake: 'music/game-over.mp3',
-  pacman: 'music/pac-man.mp3',
-  'block-breaker': 'music/game-over.mp3',
-  minesweeper: 'music/explosion.mp3',
-};
-
+// Per-game tracks and effects come from the game registry
+const DEFAULT_GAMEOVER_SFX_PATH = 'music/game-over.mp3';
 const YOU_WIN_SFX_PATH = 'music/you-win.mp3';
 
 class AudioManager {
   private static instance: AudioManager;
   private currentMusic: HTMLAudioElement | null = null;
-  private currentMusicType: MusicType | null = null;
-  private pendingMusicType: MusicType | null = null;
+  private currentMusicPath: string | null = null;
+  private pendingMusic: { type: MusicType; gameId?: string } | null = null;
   private musicVolume = 0.12;
   private sfxVolume = 0.3;
   private isInitialized = false;
@@ -40,9 +37,9 @@ class AudioManager {
     const enableAudio = () => {
       this.isInitialized = true;
 
-      if (this.pendingMusicType) {
-        this.playMusic(this.pendingMusicType);
-        this.pendingMusicType = null;
+      if (this.pendingMusic) {
+        this.playMusic(this.pendingMusic.type, this.pendingMusic.gameId);
+        this.pendingMusic = null;
       }
 
       document.removeEventListener('click', enableAudio);
@@ -53,14 +50,20 @@ class AudioManager {
     document.addEventListener('keydown', enableAudio);
   }
 
-  playMusic(type: MusicType): void {
+  // A gameId selects that game's registered track, if it has one
+  playMusic(type: MusicType, gameId?: string): void {
     if (!this.isInitialized) {
-      this.pendingMusicType = type;
+      this.pendingMusic = { type, gameId };
       return;
     }
 
+    const gameMusic = type === 'game' && gameId
+      ? GameRegistry.getInstance().get(gameId)?.music
+      : undefined;
+    const musicPath = gameMusic || MUSIC_MAP[type];
+
     if (
-      this.currentMusicType === type &&
+      this.currentMusicPath === musicPath &&
       this.currentMusic &&
       !this.currentMusic.paused
     ) {
@@ -69,11 +72,10 @@ class AudioManager {
 
     this.stopMusic();
 
-    const musicPath = MUSIC_MAP[type];
     this.currentMusic = new Audio(musicPath);
     this.currentMusic.loop = true;
     this.currentMusic.volume = this.musicVolume;
-    this.currentMusicType = type;
+    this.currentMusicPath = musicPath;
 
     this.currentMusic.play().catch(() => {});
   }
@@ -84,20 +86,21 @@ class AudioManager {
     this.currentMusic.pause();
     this.currentMusic.currentTime = 0;
     this.currentMusic = null;
-    this.currentMusicType = null;
+    this.currentMusicPath = null;
   }
 
   playSFX(type: SFXType, gameId?: string): void {
     if (!this.isInitialized) return;
 
     let sfxPath: string | undefined;
+    const gameSfx = gameId ? GameRegistry.getInstance().get(gameId)?.sfx : undefined;
 
     if (type === 'youWin') {
-      sfxPath = YOU_WIN_SFX_PATH;
+      sfxPath = gameSfx?.youWin || YOU_WIN_SFX_PATH;
     }
 
     if (type === 'gameOver' && gameId) {
-      sfxPath = GAMEOVER_SFX_MAP[gameId];
+      sfxPath = gameSfx?.gameOver || DEFAULT_GAMEOVER_SFX_PATH;
     }
 
     if (!sfxPath) return;
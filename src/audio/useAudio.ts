@@ -1,4 +1,4 @@
-import { useEffect, useRef } from 'react';
+import { useEffect, useMemo, useRef } from 'react';
 import AudioManager, { MusicType, SFXType } from './AudioManager';
 
 export const useAudio = () => {
@@ -8,9 +8,10 @@ export const useAudio = () => {
     audioManager.current.initialize();
   }, []);
 
-  return {
-    playMusic: (type: MusicType) =>
-      audioManager.current.playMusic(type),
+  // Stable across renders, so effects can list these as dependencies without re-running
+  return useMemo(() => ({
+    playMusic: (type: MusicType, gameId?: string) =>
+      audioManager.current.playMusic(type, gameId),
     stopMusic: () =>
       audioManager.current.stopMusic(),
     fadeOutMusic: (duration?: number) =>
@@ -21,7 +22,7 @@ export const useAudio = () => {
       audioManager.current.setMusicVolume(v),
     setSFXVolume: (v: number) =>
       audioManager.current.setSFXVolume(v),
-  };
+  }), []);
 };
 
 export default useAudio;
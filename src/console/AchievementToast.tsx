@@ -0,0 +1,42 @@
+// Achievement Toast - Announces unlocked achievements one at a time, with KAI's take on them
+
+import { useEffect } from 'react';
+import { RegisteredAchievement } from '../ai/console/AchievementTypes';
+import './AchievementToast.css';
+
+const TOAST_DURATION = 5000;
+
+interface AchievementToastProps {
+  // Waiting to be shown, oldest first
+  queue: RegisteredAchievement[];
+  onDismiss: (achievementId: string) => void;
+}
+
+const AchievementToast: React.FC<AchievementToastProps> = ({ queue, onDismiss }) => {
+  const current = queue[0];
+
+  useEffect(() => {
+    if (!current) return;
+    const timeoutId = setTimeout(() => onDismiss(current.id), TOAST_DURATION);
+    return () => clearTimeout(timeoutId);
+  }, [current, onDismiss]);
+
+  if (!current) return null;
+
+  return (
+    <div className="achievement-toast" onClick={() => onDismiss(current.id)} role="status">
+      <div className="achievement-toast-header">🏆 ACHIEVEMENT UNLOCKED</div>
+      <div className="achievement-toast-body">
+        <div className="achievement-toast-icon">{current.icon}</div>
+        <div>
+          <div className="achievement-toast-title">{current.title}</div>
+          <div className="achievement-toast-description">{current.description}</div>
+        </div>
+      </div>
+      <div className="achievement-toast-kai">{current.unlockCommentary}</div>
+      {queue.length > 1 && <div className="achievement-toast-more">+{queue.length - 1} MORE</div>}
+    </div>
+  );
+};
+
+export default AchievementToast;
@@ -1,11 +1,19 @@
-import { useState, useEffect, useRef } from 'react'
+import { useState, useEffect, useMemo, useRef } from 'react'
 import { useNavigate } from 'react-router-dom'
 import { useConsoleAI } from '../ai/console/ConsoleAIContext'
 import { useConsoleSystem } from './ConsoleSystemContext'
+import { useProfiles } from './ProfileContext'
 import { ConsoleAIState } from '../ai/console/ConsoleAIAnalyzer'
 import './ConsoleDashboard.css'
 import { TypedText } from "./TypedText";
 import { useAudio } from '../audio/useAudio';
+import MemoryTransferPanel from './MemoryTransferPanel'
+import InputSettingsPanel from './InputSettingsPanel'
+import { GameRegistry } from '../games/GameRegistry'
+import { SuspendStore } from '../games/SuspendStore'
+import { HighScoreStore } from '../games/HighScoreStore'
+import InputManager from '../input/InputManager'
+import { useInput } from '../input/useInput'
 
 interface GameInfo {
   sessionsPlayed: number
@@ -19,12 +27,17 @@ interface GameInfo {
 const ConsoleDashboard = () => {
   const navigate = useNavigate()
   const { consoleAI } = useConsoleAI()
-  const { powerOff } = useConsoleSystem()
+  const { powerOff, openProfileSelect } = useConsoleSystem()
+  const { activeProfile } = useProfiles()
   const [selectedGameIndex, setSelectedGameIndex] = useState(0)
   const [loadingMessage, setLoadingMessage] = useState<string>('')
   const [aiState, setAIState] = useState<ConsoleAIState | null>(null)
   const [gameInfo, setGameInfo] = useState<GameInfo | null>(null)
   const [arrowPosition, setArrowPosition] = useState<number>(0)
+  const [showMemoryPanel, setShowMemoryPanel] = useState(false)
+  const [showInputPanel, setShowInputPanel] = useState(false)
+  // Games with a run suspended mid-way - their banners offer CONTINUE
+  const [suspendedGameIds, setSuspendedGameIds] = useState<string[]>([])
   const carouselRef = useRef<HTMLDivElement>(null)
   const { playMusic, stopMusic } = useAudio()
 
@@ -36,9 +49,11 @@ const ConsoleDashboard = () => {
       if (!consoleAI) return
 
       const initialState = await consoleAI.onAppLoad()
+      // Being knocked off a high-score table while away beats the usual greeting
+      const knockouts = new HighScoreStore().takeKnockouts(activeProfile.id)
 
       if (mounted) {
-        setAIState(initialState)
+        setAIState(knockouts.length > 0 ? consoleAI.onKnockedOff(knockouts) : initialState)
       }
 
       // Optional debug
@@ -70,66 +85,45 @@ const ConsoleDashboard = () => {
   }, []);
 
 
-  const games = [
-    { 
-      id: 'snake', 
-      name: 'Snake', 
-      subtitle: 'Goal: Score 500 (Impossible)',
-      description: 'The rules are familiar.\nThe board is not.\nSomething is learning how you move — and it gets bored easily.\nGoal: Reach a score of 500. Impossible? Possibly',
-      bannerImage: 'banners/snake.png', // Placeholder - replace with uploaded image
-      playerCount: 1
-    },
-    { 
-      id: 'minesweeper', 
-      name: 'Minesweeper', 
-      subtitle: 'Find the mines\nTrust no one',
-      description: 'The numbers never lie.\nBut they don’t tell the whole truth either.\nTread carefully...',
-      bannerImage: 'banners/minesweeper.png', // Placeholder - replace with uploaded image
-      playerCount: 1
-    },
-    { 
-      id: 'pacman', 
-      name: 'Pac-Man', 
-      subtitle: 'But with a twist',
-      description: 'You’ve memorized the maze.\nThey’ve memorized you.\nRunning won’t feel the same this time.',
-      bannerImage: 'banners/pacman.png', // Placeholder - replace with uploaded image
-      playerCount: 1
-    },
-    { 
-      id: 'blockbreaker', 
-      name: 'Block Breaker', 
-      subtitle: 'Chaotic version',
-      description: 'Break the pattern.\nThe pattern breaks back.\nNot all blocks are meant to disappear.',
-      bannerImage: 'banners/block-breaker.png', // Placeholder - replace with uploaded image
-      playerCount: 1
-    }
-  ]
+  // Carousel entries come straight from the game registry - every game registers before the app renders
+  const games = useMemo(() => GameRegistry.getInstance().getAll(), [])
 
-  // Keyboard navigation
+  // Suspend slots belong to the active player
   useEffect(() => {
-    const handleKeyDown = (e: KeyboardEvent) => {
-      if (loadingMessage) return // Disable navigation during loading
-
-      switch (e.code) {
-        case 'ArrowLeft':
-          e.preventDefault()
-          setSelectedGameIndex(prev => prev > 0 ? prev - 1 : games.length - 1)
-          break
-        case 'ArrowRight':
-          e.preventDefault()
-          setSelectedGameIndex(prev => prev < games.length - 1 ? prev + 1 : 0)
-          break
-        case 'Enter':
-        case 'Space':
-          e.preventDefault()
-          handleGameSelect()
-          break
-      }
+    let mounted = true
+    void new SuspendStore().listSuspended(games.map(game => game.id)).then(ids => {
+      if (mounted) setSuspendedGameIds(ids)
+    })
+    return () => {
+      mounted = false
     }
-
-    window.addEventListener('keydown', handleKeyDown)
-    return () => window.removeEventListener('keydown', handleKeyDown)
-  }, [selectedGameIndex, loadingMessage, games.length])
+  }, [activeProfile.id, games])
+
+  // Menu navigation - any bound key, gamepad or touch button
+  useInput((event) => {
+    if (loadingMessage || showMemoryPanel || showInputPanel) return // Disable navigation during loading or while a panel is open
+    if (!event.pressed) return
+
+    switch (event.action) {
+      case 'left':
+        setSelectedGameIndex(prev => prev > 0 ? prev - 1 : games.length - 1)
+        break
+      case 'right':
+        setSelectedGameIndex(prev => prev < games.length - 1 ? prev + 1 : 0)
+        break
+      case 'confirm':
+        if (!event.repeat) handleGameSelect()
+        break
+      case 'pause':
+        if (!event.repeat && suspendedGameIds.includes(games[selectedGameIndex].id)) {
+          handleGameContinue()
+        }
+        break
+      case 'down':
+        if (!event.repeat) navigate(`/scores/${games[selectedGameIndex].id}`)
+        break
+    }
+  })
 
   // Auto-scroll carousel to center selected game and update arrow position
   useEffect(() => {
@@ -175,7 +169,7 @@ const ConsoleDashboard = () => {
       const newAIState = consoleAI.onGamePreview(gameId)
       setAIState(newAIState)
     }
-  }, [selectedGameIndex, consoleAI])
+  }, [selectedGameIndex, consoleAI, games])
 
   // Update game info whenever AI state changes (including after launches)
   useEffect(() => {
@@ -198,7 +192,7 @@ const ConsoleDashboard = () => {
         behavioralInsight
       })
     }
-  }, [selectedGameIndex, consoleAI, aiState])
+  }, [selectedGameIndex, consoleAI, aiState, games])
 
   const handleGameSelect = () => {
     const selectedGame = games[selectedGameIndex]
@@ -219,6 +213,17 @@ const ConsoleDashboard = () => {
     }, 1500)
   }
 
+  // Picks a suspended run back up - the same session, so it isn't counted as a new launch
+  const handleGameContinue = () => {
+    const selectedGame = games[selectedGameIndex]
+    setLoadingMessage(`Resuming ${selectedGame.name}...`)
+
+    setTimeout(() => {
+      setLoadingMessage('')
+      navigate(`/game/${selectedGame.id}`, { state: { continue: true } })
+    }, 1500)
+  }
+
   const handleBannerClick = (index: number) => {
     if (index === selectedGameIndex) {
       handleGameSelect()
@@ -261,13 +266,20 @@ const ConsoleDashboard = () => {
       window.removeEventListener('resize', handleResize)
     }
   }, [selectedGameIndex])
+
+  const input = InputManager.getInstance()
+
   return (
     <div className="nes-console">
       {/* Top Console Bar */}
       <div className="console-top-bar">
         <div className="console-icons">
-          <div className="console-icon">⚙</div>
-          <div className="console-icon">🎮</div>
+          <div className="console-icon" onClick={() => setShowMemoryPanel(true)} title="KAI Memory">⚙</div>
+          <div className="console-icon" onClick={openProfileSelect} title="Switch Player">🎮</div>
+          <div className="console-icon" onClick={() => navigate('/replays')} title="Replays">📼</div>
+          <div className="console-icon" onClick={() => navigate('/trophies')} title="Trophy Room">🏆</div>
+          <div className="console-icon" onClick={() => navigate('/stats')} title="Stats">📈</div>
+          <div className="console-icon" onClick={() => setShowInputPanel(true)} title="Controls">🕹</div>
           <div className="console-icon">🤖</div>
           <div className="console-icon">❓</div>
         </div>
@@ -327,6 +339,30 @@ const ConsoleDashboard = () => {
                 <div className="game-subtitle">{game.subtitle}</div>
                 <div className="player-count">{game.playerCount}P</div>
               </div>
+              {index === selectedGameIndex && suspendedGameIds.includes(game.id) && (
+                <button
+                  className="continue-button"
+                  onClick={(e) => {
+                    e.stopPropagation()
+                    handleGameContinue()
+                  }}
+                  title="Continue suspended game"
+                >
+                  ▶ CONTINUE
+                </button>
+              )}
+              {index === selectedGameIndex && (
+                <button
+                  className="scores-button"
+                  onClick={(e) => {
+                    e.stopPropagation()
+                    navigate(`/scores/${game.id}`)
+                  }}
+                  title="High scores"
+                >
+                  🏅 SCORES
+                </button>
+              )}
               {index === selectedGameIndex && (
                 <div className="selection-glow"></div>
               )}
@@ -429,15 +465,30 @@ const ConsoleDashboard = () => {
       <div className="console-bottom-bar">
         <div className="control-hints">
           <span>◀▶ SELECT</span>
-          <span>ENTER START</span>
-          <span>SPACE CONFIRM</span>
+          <span>{input.getActionLabel('confirm')} START</span>
+          <span>{input.getActionLabel('down')} SCORES</span>
+          {suspendedGameIds.includes(games[selectedGameIndex]?.id) && <span>{input.getActionLabel('pause')} CONTINUE</span>}
         </div>
         <div className="status-info">
+          <span>PLAYER: {activeProfile.name}</span>
           <span>GAMES: {games.length}</span>
           <span>AI: {aiState ? 'ONLINE' : 'LOADING'}</span>
         </div>
       </div>
 
+      {/* KAI Memory export/import */}
+      {showMemoryPanel && (
+        <MemoryTransferPanel
+          onClose={() => setShowMemoryPanel(false)}
+          onImported={setAIState}
+        />
+      )}
+
+      {/* Key, gamepad and touch bindings */}
+      {showInputPanel && (
+        <InputSettingsPanel onClose={() => setShowInputPanel(false)} />
+      )}
+
       {/* Loading Overlay */}
       {loadingMessage && (
         <div className="loading-overlay">
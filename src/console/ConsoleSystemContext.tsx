@@ -1,9 +1,10 @@
-// Console System State Management - Boot, Running, Shutdown
+// Console System State Management - Boot, Profile Select, Running, Shutdown
 
 import React, { createContext, useContext, useState, ReactNode } from 'react';
 
 export enum ConsoleSystemState {
   BOOT = 'BOOT',
+  PROFILE_SELECT = 'PROFILE_SELECT',
   RUNNING = 'RUNNING',
   SHUTDOWN = 'SHUTDOWN'
 }
@@ -12,6 +13,8 @@ interface ConsoleSystemContextType {
   systemState: ConsoleSystemState;
   powerOff: () => void;
   bootComplete: () => void;
+  openProfileSelect: () => void;
+  profileSelected: () => void;
 }
 
 const ConsoleSystemContext = createContext<ConsoleSystemContextType | null>(null);
@@ -36,11 +39,22 @@ export const ConsoleSystemProvider: React.FC<ConsoleSystemProviderProps> = ({ ch
   };
 
   const bootComplete = () => {
+    // Pick a player before the dashboard loads their memory
+    setSystemState(ConsoleSystemState.PROFILE_SELECT);
+  };
+
+  const openProfileSelect = () => {
+    setSystemState(ConsoleSystemState.PROFILE_SELECT);
+  };
+
+  const profileSelected = () => {
     setSystemState(ConsoleSystemState.RUNNING);
   };
 
   return (
-    <ConsoleSystemContext.Provider value={{ systemState, powerOff, bootComplete }}>
+    <ConsoleSystemContext.Provider
+      value={{ systemState, powerOff, bootComplete, openProfileSelect, profileSelected }}
+    >
       {children}
     </ConsoleSystemContext.Provider>
   );
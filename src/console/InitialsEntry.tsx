@@ -0,0 +1,124 @@
+// Initials Entry - Arcade-style three letters for a run that made the high-score table
+
+import { useEffect, useState } from 'react';
+import { HighScoreSubmission, INITIALS_LENGTH, normalizeInitials } from '../games/HighScoreStore';
+import { useInput } from '../input/useInput';
+import InputManager from '../input/InputManager';
+import './InitialsEntry.css';
+
+const ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789';
+
+interface InitialsEntryProps {
+  submission: HighScoreSubmission;
+  // KAI's reaction to the run making the table
+  commentary: string;
+  onDone: (initials: string) => void;
+  // Same as done, then straight to the table
+  onViewTable: (initials: string) => void;
+}
+
+const InitialsEntry: React.FC<InitialsEntryProps> = ({ submission, commentary, onDone, onViewTable }) => {
+  const [letters, setLetters] = useState(() => normalizeInitials(submission.entry.initials).split(''));
+  const [cursor, setCursor] = useState(0);
+  const input = InputManager.getInstance();
+
+  const cycleLetter = (step: number) => {
+    setLetters(prev => {
+      const next = [...prev];
+      const index = ALPHABET.indexOf(next[cursor]);
+      next[cursor] = ALPHABET[(index + step + ALPHABET.length) % ALPHABET.length];
+      return next;
+    });
+  };
+
+  const advance = () => {
+    if (cursor < INITIALS_LENGTH - 1) {
+      setCursor(cursor + 1);
+    } else {
+      onDone(letters.join(''));
+    }
+  };
+
+  // Takes every action while open, so CONFIRM doesn't also restart the finished game
+  useInput((event) => {
+    if (!event.pressed) return;
+
+    switch (event.action) {
+      case 'up':
+        cycleLetter(1);
+        break;
+      case 'down':
+        cycleLetter(-1);
+        break;
+      case 'left':
+        setCursor(prev => Math.max(0, prev - 1));
+        break;
+      case 'right':
+        setCursor(prev => Math.min(INITIALS_LENGTH - 1, prev + 1));
+        break;
+      case 'confirm':
+        if (!event.repeat) advance();
+        break;
+      case 'back':
+        // Stepping back past the first letter keeps the placeholder initials
+        if (event.repeat) break;
+        if (cursor > 0) {
+          setCursor(cursor - 1);
+        } else {
+          onDone(submission.entry.initials);
+        }
+        break;
+    }
+  }, true);
+
+  // Typing a letter or digit fills the current slot directly
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      const match = /^(?:Key|Digit)([A-Z0-9])$/.exec(event.code);
+      if (!match || event.repeat) return;
+      setLetters(prev => {
+        const next = [...prev];
+        next[cursor] = match[1];
+        return next;
+      });
+      setCursor(prev => Math.min(INITIALS_LENGTH - 1, prev + 1));
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [cursor]);
+
+  return (
+    <div className="initials-overlay">
+      <div className="initials-panel">
+        <div className="initials-header">NEW HIGH SCORE - RANK {submission.rank}</div>
+        <div className="initials-score">{submission.entry.score}</div>
+        <div className="initials-slots">
+          {letters.map((letter, index) => (
+            <div
+              key={index}
+              className={`initials-slot ${index === cursor ? 'active' : ''}`}
+              onClick={() => setCursor(index)}
+            >
+              {letter}
+            </div>
+          ))}
+        </div>
+        <div className="initials-hint">
+          {input.getActionLabel('up')}/{input.getActionLabel('down')} LETTER - {input.getActionLabel('confirm')} NEXT
+        </div>
+        <div className="initials-kai">{commentary}</div>
+        <div className="initials-buttons">
+          <button className="initials-done" onClick={() => onDone(letters.join(''))}>
+            DONE
+          </button>
+          <button className="initials-done" onClick={() => onViewTable(letters.join(''))}>
+            VIEW TABLE
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default InitialsEntry;
@@ -0,0 +1,173 @@
+// Controls Panel - Remap the current profile's keyboard and gamepad bindings
+
+import { useEffect, useRef, useState } from 'react';
+import InputManager, {
+  INPUT_ACTIONS,
+  KEY_SLOTS,
+  InputAction,
+  CapturedInput,
+  getKeyLabel,
+  getButtonLabel
+} from '../input/InputManager';
+import { useInput } from '../input/useInput';
+import { useProfiles } from './ProfileContext';
+import './InputSettingsPanel.css';
+
+interface InputSettingsPanelProps {
+  onClose: () => void;
+}
+
+// The binding waiting for the player to press something - a key slot or the action's pad button
+interface ListeningTarget {
+  action: InputAction;
+  slot: number | 'pad';
+}
+
+const ACTION_LABELS: Record<InputAction, string> = {
+  up: 'UP',
+  down: 'DOWN',
+  left: 'LEFT',
+  right: 'RIGHT',
+  confirm: 'CONFIRM',
+  secondary: 'SECONDARY',
+  back: 'BACK',
+  pause: 'PAUSE'
+};
+
+const InputSettingsPanel: React.FC<InputSettingsPanelProps> = ({ onClose }) => {
+  const input = InputManager.getInstance();
+  const { activeProfile } = useProfiles();
+  const [bindings, setBindings] = useState(() => input.getBindings());
+  const [listening, setListening] = useState<ListeningTarget | null>(null);
+  const [status, setStatus] = useState<string | null>(null);
+  const cancelCaptureRef = useRef<(() => void) | null>(null);
+
+  // Stop listening if the panel closes mid-capture
+  useEffect(() => () => cancelCaptureRef.current?.(), []);
+
+  useInput((event) => {
+    if (event.action === 'back' && event.pressed && !event.repeat) onClose();
+  });
+
+  const refresh = () => setBindings({ ...input.getBindings() });
+
+  const stopListening = () => {
+    cancelCaptureRef.current?.();
+    cancelCaptureRef.current = null;
+    setListening(null);
+  };
+
+  const startListening = (target: ListeningTarget) => {
+    stopListening();
+    setStatus(null);
+    setListening(target);
+    cancelCaptureRef.current = input.captureNext((captured: CapturedInput) => {
+      cancelCaptureRef.current = null;
+      setListening(null);
+
+      if (target.slot === 'pad') {
+        if (captured.type !== 'button') {
+          setStatus('Press a gamepad button for that binding.');
+          return;
+        }
+        input.bindButton(target.action, captured.button);
+        setStatus(`${ACTION_LABELS[target.action]} set to ${getButtonLabel(captured.button)}.`);
+      } else {
+        if (captured.type !== 'key') {
+          setStatus('Press a key for that binding.');
+          return;
+        }
+        input.bindKey(target.action, target.slot, captured.code);
+        setStatus(`${ACTION_LABELS[target.action]} set to ${getKeyLabel(captured.code)}.`);
+      }
+      refresh();
+    });
+  };
+
+  const handleClear = (action: InputAction, slot: number) => {
+    stopListening();
+    input.unbindKey(action, slot);
+    refresh();
+  };
+
+  const handleReset = () => {
+    stopListening();
+    input.resetBindings();
+    refresh();
+    setStatus('Default controls restored.');
+  };
+
+  const isListening = (action: InputAction, slot: number | 'pad') =>
+    listening?.action === action && listening.slot === slot;
+
+  return (
+    <div className="controls-overlay">
+      <div className="controls-window">
+        <div className="controls-title-bar">
+          <span>CONTROLS — {activeProfile.name}</span>
+          <button className="controls-close" onClick={onClose}>✕</button>
+        </div>
+
+        <div className="controls-body">
+          <table className="controls-table">
+            <thead>
+              <tr>
+                <th>ACTION</th>
+                {Array.from({ length: KEY_SLOTS }, (_, slot) => <th key={slot}>KEY {slot + 1}</th>)}
+                <th>PAD</th>
+              </tr>
+            </thead>
+            <tbody>
+              {INPUT_ACTIONS.map(action => (
+                <tr key={action}>
+                  <td>{ACTION_LABELS[action]}</td>
+                  {Array.from({ length: KEY_SLOTS }, (_, slot) => {
+                    const code = bindings.keys[action][slot];
+                    return (
+                      <td key={slot}>
+                        <button
+                          className={`controls-binding ${isListening(action, slot) ? 'listening' : ''}`}
+                          onClick={() => startListening({ action, slot })}
+                        >
+                          {isListening(action, slot) ? 'PRESS...' : code ? getKeyLabel(code) : '—'}
+                        </button>
+                        {code && !isListening(action, slot) && (
+                          <button className="controls-clear" onClick={() => handleClear(action, slot)} title="Clear">✕</button>
+                        )}
+                      </td>
+                    );
+                  })}
+                  <td>
+                    <button
+                      className={`controls-binding ${isListening(action, 'pad') ? 'listening' : ''}`}
+                      onClick={() => startListening({ action, slot: 'pad' })}
+                    >
+                      {isListening(action, 'pad')
+                        ? 'PRESS...'
+                        : bindings.buttons[action].map(getButtonLabel).join(' ') || '—'}
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          <div className="controls-note">
+            The left stick always steers. Touch screens get an on-screen pad in every game.
+          </div>
+
+          <div className="controls-actions">
+            {listening && (
+              <button className="controls-button" onClick={stopListening}>CANCEL</button>
+            )}
+            <button className="controls-button" onClick={handleReset}>RESET DEFAULTS</button>
+          </div>
+        </div>
+
+        {status && <div className="controls-status">{status}</div>}
+      </div>
+    </div>
+  );
+};
+
+export default InputSettingsPanel;
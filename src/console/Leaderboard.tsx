@@ -0,0 +1,140 @@
+import { useNavigate, useParams, useLocation } from 'react-router-dom'
+import { useState } from 'react'
+import { GameRegistry } from '../games/GameRegistry'
+import { HighScoreStore, HIGH_SCORE_TABLE_SIZE } from '../games/HighScoreStore'
+import { DEFAULT_GAME_MODE } from '../games/engine/GameEngine'
+import { useProfiles } from './ProfileContext'
+import { useInput } from '../input/useInput'
+
+const panelStyle: React.CSSProperties = {
+  background: '#808080',
+  border: '2px outset #c0c0c0',
+  borderRadius: '0',
+  padding: '15px 20px',
+  boxShadow: 'inset 0 1px 0 #ffffff, inset 0 -1px 0 #404040'
+}
+
+const buttonStyle: React.CSSProperties = {
+  background: '#c0c0c0',
+  color: '#000000',
+  border: '2px outset #c0c0c0',
+  borderRadius: '0',
+  padding: '10px 20px',
+  fontFamily: 'Courier New, monospace',
+  fontSize: '12px',
+  cursor: 'pointer',
+  letterSpacing: '1px'
+}
+
+const formatTime = (ms: number): string => {
+  const totalSeconds = Math.floor(ms / 1000)
+  const minutes = Math.floor(totalSeconds / 60)
+  const seconds = totalSeconds % 60
+  return `${minutes}:${seconds.toString().padStart(2, '0')}`
+}
+
+// Leaderboard - one game's high-score tables, a tab per mode
+const Leaderboard = () => {
+  const { gameType } = useParams<{ gameType: string }>()
+  const navigate = useNavigate()
+  const location = useLocation()
+  // Set when arriving straight from initials entry, so the new entry stands out
+  const highlightId = (location.state as { highlightId?: string } | null)?.highlightId
+  const { activeProfile } = useProfiles()
+  const definition = gameType ? GameRegistry.getInstance().get(gameType) : undefined
+
+  const [store] = useState(() => new HighScoreStore())
+  const modes = gameType ? store.getModes(gameType) : []
+  if (modes.length === 0) modes.push(DEFAULT_GAME_MODE)
+  const [modeIndex, setModeIndex] = useState(0)
+  const mode = modes[Math.min(modeIndex, modes.length - 1)]
+  const table = gameType ? store.getTable(gameType, mode) : []
+
+  useInput((event) => {
+    if (!event.pressed) return
+    if (event.action === 'back' && !event.repeat) navigate('/')
+    if (event.action === 'left') setModeIndex(prev => (prev > 0 ? prev - 1 : modes.length - 1))
+    if (event.action === 'right') setModeIndex(prev => (prev < modes.length - 1 ? prev + 1 : 0))
+  })
+
+  return (
+    <div style={{
+      minHeight: '100vh',
+      background: '#040436',
+      color: '#000000',
+      fontFamily: 'Courier New, monospace',
+      padding: '20px',
+      display: 'flex',
+      flexDirection: 'column',
+      alignItems: 'center',
+      gap: '20px'
+    }}>
+      <div style={{
+        ...panelStyle,
+        width: '100%',
+        maxWidth: '800px',
+        display: 'flex',
+        justifyContent: 'space-between',
+        alignItems: 'center'
+      }}>
+        <button style={buttonStyle} onClick={() => navigate('/')}>
+          ← BACK TO HOME
+        </button>
+        <h1 style={{ margin: 0, fontSize: '18px', letterSpacing: '2px' }}>
+          {(definition?.name || gameType || 'GAME').toUpperCase()} HIGH SCORES
+        </h1>
+      </div>
+
+      {/* One table per mode - only modes someone has scored in get a tab */}
+      {modes.length > 1 && (
+        <div style={{ ...panelStyle, width: '100%', maxWidth: '800px', display: 'flex', gap: '8px' }}>
+          {modes.map((option, index) => (
+            <button
+              key={option}
+              style={{
+                ...buttonStyle,
+                padding: '6px 10px',
+                fontSize: '11px',
+                border: option === mode ? '2px inset #c0c0c0' : buttonStyle.border
+              }}
+              onClick={() => setModeIndex(index)}
+            >
+              {option.toUpperCase()}
+            </button>
+          ))}
+        </div>
+      )}
+
+      <div style={{ ...panelStyle, width: '100%', maxWidth: '800px' }}>
+        {table.length === 0 && (
+          <p style={{ margin: 0 }}>NO SCORES YET. THE TOP {HIGH_SCORE_TABLE_SIZE} ARE WAITING.</p>
+        )}
+        {table.map((entry, index) => (
+          <div
+            key={entry.id}
+            style={{
+              display: 'flex',
+              justifyContent: 'space-between',
+              alignItems: 'center',
+              padding: '8px 6px',
+              borderBottom: '1px solid #606060',
+              fontSize: '12px',
+              background: entry.id === highlightId ? '#ffff00' : 'transparent',
+              fontWeight: entry.profileId === activeProfile.id ? 'bold' : 'normal'
+            }}
+          >
+            <span style={{ width: '40px' }}>{index + 1}.</span>
+            <span style={{ width: '60px', letterSpacing: '2px' }}>{entry.initials}</span>
+            <span style={{ width: '100px', textAlign: 'right' }}>{entry.score}</span>
+            <span style={{ width: '60px', textAlign: 'right' }}>{formatTime(entry.duration)}</span>
+            <span style={{ width: '130px' }}>{entry.profileName}</span>
+            <span style={{ width: '100px' }}>{new Date(entry.recordedAt).toLocaleDateString()}</span>
+            <span style={{ width: '110px', fontSize: '10px' }}>SEED {entry.seed}</span>
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+}
+
+export default Leaderboard
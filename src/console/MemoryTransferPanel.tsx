@@ -0,0 +1,154 @@
+// KAI Memory Panel - Export/import the current profile's memory
+
+import { useRef, useState } from 'react';
+import { useConsoleAI } from '../ai/console/ConsoleAIContext';
+import { ConsoleAIState } from '../ai/console/ConsoleAIAnalyzer';
+import {
+  MemoryTransfer,
+  KaiMemoryExport,
+  MemoryDiffEntry,
+  ImportMode
+} from '../ai/console/storage/MemoryTransfer';
+import { useProfiles } from './ProfileContext';
+import './MemoryTransferPanel.css';
+
+interface MemoryTransferPanelProps {
+  onClose: () => void;
+  onImported: (aiState: ConsoleAIState) => void;
+}
+
+const MemoryTransferPanel: React.FC<MemoryTransferPanelProps> = ({ onClose, onImported }) => {
+  const { consoleAI, memoryStore } = useConsoleAI();
+  const { activeProfile } = useProfiles();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [compress, setCompress] = useState(false);
+  const [pendingImport, setPendingImport] = useState<KaiMemoryExport | null>(null);
+  const [diff, setDiff] = useState<MemoryDiffEntry[]>([]);
+  const [status, setStatus] = useState<string | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+
+  if (!consoleAI || !memoryStore) return null;
+  const transfer = new MemoryTransfer(memoryStore);
+
+  const handleExport = async () => {
+    setIsBusy(true);
+    try {
+      const memory = await transfer.exportMemory(activeProfile.name, consoleAI.getCurrentState().globalData);
+      const blob = await MemoryTransfer.toBlob(memory, compress);
+      const isCompressed = blob.type === 'application/gzip';
+
+      const link = document.createElement('a');
+      link.href = URL.createObjectURL(blob);
+      link.download = `kai-memory-${activeProfile.name.toLowerCase()}.json${isCompressed ? '.gz' : ''}`;
+      link.click();
+      URL.revokeObjectURL(link.href);
+      setStatus('Memory exported.');
+    } catch (error) {
+      console.error('Failed to export memory:', error);
+      setStatus('Export failed.');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleFileChosen = async (file: File | undefined) => {
+    if (!file) return;
+    setIsBusy(true);
+    try {
+      const incoming = await MemoryTransfer.parseFile(file);
+      setDiff(await transfer.preview(incoming));
+      setPendingImport(incoming);
+      setStatus(null);
+    } catch (error) {
+      setStatus(error instanceof Error ? error.message : 'Could not read memory file');
+    } finally {
+      setIsBusy(false);
+      if (fileInputRef.current) fileInputRef.current.value = '';
+    }
+  };
+
+  const handleApply = async (mode: ImportMode) => {
+    if (!pendingImport) return;
+    setIsBusy(true);
+    try {
+      const global = await transfer.applyImport(pendingImport, mode);
+      onImported(consoleAI.onMemoryImported(global));
+      setPendingImport(null);
+      setStatus(mode === 'merge' ? 'Memory merged.' : 'Memory replaced.');
+    } catch (error) {
+      console.error('Failed to import memory:', error);
+      setStatus('Import failed.');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  return (
+    <div className="memory-overlay">
+      <div className="memory-window">
+        <div className="memory-title-bar">
+          <span>KAI MEMORY — {activeProfile.name}</span>
+          <button className="memory-close" onClick={onClose}>✕</button>
+        </div>
+
+        {pendingImport ? (
+          <div className="memory-body">
+            <div className="memory-subtitle">
+              Import from {pendingImport.profileName}
+              {pendingImport.exportedAt > 0 && ` (${new Date(pendingImport.exportedAt).toLocaleDateString()})`}
+            </div>
+            {diff.length === 0 ? (
+              <div className="memory-note">No differences from current memory.</div>
+            ) : (
+              <table className="memory-diff">
+                <thead>
+                  <tr><th></th><th>CURRENT</th><th>FILE</th></tr>
+                </thead>
+                <tbody>
+                  {diff.map(entry => (
+                    <tr key={entry.label}>
+                      <td>{entry.label}</td>
+                      <td>{entry.current}</td>
+                      <td>{entry.incoming}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+            <div className="memory-actions">
+              <button className="memory-button" disabled={isBusy} onClick={() => handleApply('merge')}>MERGE</button>
+              <button className="memory-button" disabled={isBusy} onClick={() => handleApply('replace')}>REPLACE</button>
+              <button className="memory-button" disabled={isBusy} onClick={() => setPendingImport(null)}>CANCEL</button>
+            </div>
+          </div>
+        ) : (
+          <div className="memory-body">
+            <div className="memory-actions">
+              <button className="memory-button" disabled={isBusy} onClick={handleExport}>EXPORT</button>
+              <label className="memory-checkbox">
+                <input type="checkbox" checked={compress} onChange={(e) => setCompress(e.target.checked)} />
+                COMPRESS
+              </label>
+            </div>
+            <div className="memory-actions">
+              <button className="memory-button" disabled={isBusy} onClick={() => fileInputRef.current?.click()}>
+                IMPORT...
+              </button>
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept=".json,.gz,application/json,application/gzip"
+                style={{ display: 'none' }}
+                onChange={(e) => handleFileChosen(e.target.files?.[0])}
+              />
+            </div>
+          </div>
+        )}
+
+        {status && <div className="memory-status">{status}</div>}
+      </div>
+    </div>
+  );
+};
+
+export default MemoryTransferPanel;
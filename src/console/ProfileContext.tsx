@@ -0,0 +1,70 @@
+// Profile Context - Active player profile and profile management
+
+import React, { createContext, useContext, useState, useCallback, ReactNode } from 'react';
+import { ProfileManager, PlayerProfile } from '../storage/ProfileManager';
+import { disposeDefaultStore } from '../ai/console/storage/createDefaultStore';
+
+interface ProfileContextType {
+  profiles: PlayerProfile[];
+  activeProfile: PlayerProfile;
+  createProfile: (name: string) => PlayerProfile;
+  renameProfile: (profileId: string, name: string) => void;
+  deleteProfile: (profileId: string) => void;
+  switchProfile: (profileId: string) => void;
+}
+
+const ProfileContext = createContext<ProfileContextType | null>(null);
+
+export const useProfiles = () => {
+  const context = useContext(ProfileContext);
+  if (!context) {
+    throw new Error('useProfiles must be used within a ProfileProvider');
+  }
+  return context;
+};
+
+interface ProfileProviderProps {
+  children: ReactNode;
+}
+
+export const ProfileProvider: React.FC<ProfileProviderProps> = ({ children }) => {
+  const manager = ProfileManager.getInstance();
+  const [profiles, setProfiles] = useState<PlayerProfile[]>(() => manager.getProfiles());
+  const [activeProfile, setActiveProfile] = useState<PlayerProfile>(() => manager.getActiveProfile());
+
+  // Re-read from the manager after every mutation so React sees fresh objects
+  const refresh = useCallback(() => {
+    setProfiles(manager.getProfiles());
+    setActiveProfile({ ...manager.getActiveProfile() });
+  }, [manager]);
+
+  const createProfile = (name: string) => {
+    const profile = manager.createProfile(name);
+    refresh();
+    return profile;
+  };
+
+  const renameProfile = (profileId: string, name: string) => {
+    manager.renameProfile(profileId, name);
+    refresh();
+  };
+
+  const deleteProfile = (profileId: string) => {
+    manager.deleteProfile(profileId);
+    disposeDefaultStore(profileId);
+    refresh();
+  };
+
+  const switchProfile = (profileId: string) => {
+    manager.setActiveProfile(profileId);
+    refresh();
+  };
+
+  return (
+    <ProfileContext.Provider
+      value={{ profiles, activeProfile, createProfile, renameProfile, deleteProfile, switchProfile }}
+    >
+      {children}
+    </ProfileContext.Provider>
+  );
+};
@@ -0,0 +1,143 @@
+// KES Player Select Screen - Choose, create, rename or delete player profiles
+
+import { useState } from 'react';
+import { useProfiles } from './ProfileContext';
+import { DEFAULT_PROFILE_ID } from '../storage/ProfileManager';
+import { useInput } from '../input/useInput';
+import './ProfileSelectScreen.css';
+
+interface ProfileSelectScreenProps {
+  onProfileSelected: () => void;
+}
+
+type EditMode = 'none' | 'create' | 'rename';
+
+const ProfileSelectScreen: React.FC<ProfileSelectScreenProps> = ({ onProfileSelected }) => {
+  const { profiles, activeProfile, createProfile, renameProfile, deleteProfile, switchProfile } = useProfiles();
+  const [selectedIndex, setSelectedIndex] = useState(() =>
+    Math.max(0, profiles.findIndex(p => p.id === activeProfile.id))
+  );
+  const [editMode, setEditMode] = useState<EditMode>('none');
+  const [nameInput, setNameInput] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const selectedProfile = profiles[Math.min(selectedIndex, profiles.length - 1)];
+
+  const handleSelect = () => {
+    if (!selectedProfile) return;
+    switchProfile(selectedProfile.id);
+    onProfileSelected();
+  };
+
+  const handleSubmitName = () => {
+    try {
+      if (editMode === 'create') {
+        createProfile(nameInput);
+        setSelectedIndex(profiles.length);
+      } else if (editMode === 'rename' && selectedProfile) {
+        renameProfile(selectedProfile.id, nameInput);
+      }
+      setEditMode('none');
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Invalid name');
+    }
+  };
+
+  const handleDelete = () => {
+    if (!selectedProfile) return;
+    if (!window.confirm(`Delete ${selectedProfile.name}? KAI will forget everything about them.`)) return;
+
+    try {
+      deleteProfile(selectedProfile.id);
+      setSelectedIndex(prev => Math.max(0, prev - 1));
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not delete profile');
+    }
+  };
+
+  const startEditing = (mode: EditMode) => {
+    setEditMode(mode);
+    setNameInput(mode === 'rename' && selectedProfile ? selectedProfile.name : '');
+    setError(null);
+  };
+
+  // Menu navigation (disabled while typing a name)
+  useInput((event) => {
+    if (editMode !== 'none' || !event.pressed) return;
+
+    switch (event.action) {
+      case 'up':
+        setSelectedIndex(prev => (prev > 0 ? prev - 1 : profiles.length - 1));
+        break;
+      case 'down':
+        setSelectedIndex(prev => (prev < profiles.length - 1 ? prev + 1 : 0));
+        break;
+      case 'confirm':
+        if (!event.repeat) handleSelect();
+        break;
+    }
+  });
+
+  return (
+    <div className="profile-screen">
+      <div className="profile-window">
+        <div className="profile-title-bar">SELECT PLAYER</div>
+
+        <div className="profile-list">
+          {profiles.map((profile, index) => (
+            <div
+              key={profile.id}
+              className={`profile-entry ${index === selectedIndex ? 'selected' : ''}`}
+              onClick={() => setSelectedIndex(index)}
+              onDoubleClick={handleSelect}
+            >
+              <span className="profile-cursor">{index === selectedIndex ? '►' : ''}</span>
+              <span className="profile-name">{profile.name}</span>
+              {profile.id === activeProfile.id && <span className="profile-tag">LAST</span>}
+            </div>
+          ))}
+        </div>
+
+        {editMode !== 'none' ? (
+          <div className="profile-edit">
+            <input
+              className="profile-input"
+              autoFocus
+              maxLength={12}
+              value={nameInput}
+              placeholder="NAME"
+              onChange={(e) => setNameInput(e.target.value.toUpperCase())}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') handleSubmitName();
+                if (e.key === 'Escape') setEditMode('none');
+              }}
+            />
+            <button className="profile-button" onClick={handleSubmitName}>OK</button>
+            <button className="profile-button" onClick={() => setEditMode('none')}>CANCEL</button>
+          </div>
+        ) : (
+          <div className="profile-actions">
+            <button className="profile-button primary" onClick={handleSelect}>PLAY</button>
+            <button className="profile-button" onClick={() => startEditing('create')}>NEW</button>
+            <button className="profile-button" onClick={() => startEditing('rename')}>RENAME</button>
+            <button
+              className="profile-button"
+              onClick={handleDelete}
+              disabled={!selectedProfile || selectedProfile.id === DEFAULT_PROFILE_ID}
+            >
+              DELETE
+            </button>
+          </div>
+        )}
+
+        {error && <div className="profile-error">{error}</div>}
+
+        <div className="profile-hints">▲▼ SELECT · ENTER PLAY</div>
+      </div>
+    </div>
+  );
+};
+
+export default ProfileSelectScreen;
@@ -0,0 +1,153 @@
+import { useEffect, useRef } from 'react'
+
+const CHART_FONT = '10px Courier New, monospace'
+const AXIS_COLOR = '#404040'
+const GRID_COLOR = '#707070'
+const PADDING = { top: 12, right: 12, bottom: 22, left: 36 }
+
+export interface BarChartBar {
+  label: string
+  value: number
+}
+
+export interface LineChartPoint {
+  value: number
+  // Drawn as a filled dot when true, hollow otherwise
+  highlight: boolean
+}
+
+// Sizes the backing store for the display's pixel ratio so lines stay crisp
+const prepareCanvas = (canvas: HTMLCanvasElement, width: number, height: number): CanvasRenderingContext2D | null => {
+  const ratio = window.devicePixelRatio || 1
+  canvas.width = width * ratio
+  canvas.height = height * ratio
+  const ctx = canvas.getContext('2d')
+  if (!ctx) return null
+  ctx.setTransform(ratio, 0, 0, ratio, 0, 0)
+  ctx.clearRect(0, 0, width, height)
+  ctx.font = CHART_FONT
+  return ctx
+}
+
+// Horizontal gridlines at zero, half and the top of the scale
+const drawAxes = (ctx: CanvasRenderingContext2D, width: number, height: number, max: number) => {
+  const plotHeight = height - PADDING.top - PADDING.bottom
+  ctx.strokeStyle = GRID_COLOR
+  ctx.fillStyle = AXIS_COLOR
+  ctx.lineWidth = 1
+  ctx.textAlign = 'right'
+  ctx.textBaseline = 'middle'
+
+  ;[0, 0.5, 1].forEach(fraction => {
+    const y = PADDING.top + plotHeight * (1 - fraction)
+    ctx.beginPath()
+    ctx.moveTo(PADDING.left, y + 0.5)
+    ctx.lineTo(width - PADDING.right, y + 0.5)
+    ctx.stroke()
+    ctx.fillText(String(Math.round(max * fraction)), PADDING.left - 4, y)
+  })
+}
+
+interface BarChartProps {
+  bars: BarChartBar[]
+  width: number
+  height: number
+  color?: string
+}
+
+export const BarChart = ({ bars, width, height, color = '#000080' }: BarChartProps) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null)
+
+  useEffect(() => {
+    const canvas = canvasRef.current
+    if (!canvas) return
+    const ctx = prepareCanvas(canvas, width, height)
+    if (!ctx) return
+
+    const max = Math.max(1, ...bars.map(bar => bar.value))
+    drawAxes(ctx, width, height, max)
+    if (bars.length === 0) return
+
+    const plotWidth = width - PADDING.left - PADDING.right
+    const plotHeight = height - PADDING.top - PADDING.bottom
+    const slot = plotWidth / bars.length
+    const barWidth = Math.max(2, slot * 0.7)
+    // Thin out labels so they never overlap
+    const labelEvery = Math.ceil(bars.length / Math.max(1, Math.floor(plotWidth / 40)))
+
+    ctx.textAlign = 'center'
+    ctx.textBaseline = 'top'
+    bars.forEach((bar, index) => {
+      const x = PADDING.left + slot * index + (slot - barWidth) / 2
+      const barHeight = (bar.value / max) * plotHeight
+      ctx.fillStyle = color
+      ctx.fillRect(x, PADDING.top + plotHeight - barHeight, barWidth, barHeight)
+      if (index % labelEvery === 0) {
+        ctx.fillStyle = AXIS_COLOR
+        ctx.fillText(bar.label, x + barWidth / 2, height - PADDING.bottom + 6)
+      }
+    })
+  }, [bars, width, height, color])
+
+  return <canvas ref={canvasRef} style={{ width: `${width}px`, height: `${height}px`, display: 'block' }} />
+}
+
+interface LineChartProps {
+  points: LineChartPoint[]
+  width: number
+  height: number
+  // Dashed reference line, e.g. the all-time average
+  reference?: number | null
+  color?: string
+}
+
+export const LineChart = ({ points, width, height, reference = null, color = '#000080' }: LineChartProps) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null)
+
+  useEffect(() => {
+    const canvas = canvasRef.current
+    if (!canvas) return
+    const ctx = prepareCanvas(canvas, width, height)
+    if (!ctx) return
+
+    const max = Math.max(1, reference ?? 0, ...points.map(point => point.value))
+    drawAxes(ctx, width, height, max)
+    if (points.length === 0) return
+
+    const plotWidth = width - PADDING.left - PADDING.right
+    const plotHeight = height - PADDING.top - PADDING.bottom
+    const xAt = (index: number) =>
+      PADDING.left + (points.length === 1 ? plotWidth / 2 : (plotWidth * index) / (points.length - 1))
+    const yAt = (value: number) => PADDING.top + plotHeight * (1 - value / max)
+
+    if (reference !== null) {
+      ctx.strokeStyle = '#800000'
+      ctx.setLineDash([4, 3])
+      ctx.beginPath()
+      ctx.moveTo(PADDING.left, yAt(reference))
+      ctx.lineTo(width - PADDING.right, yAt(reference))
+      ctx.stroke()
+      ctx.setLineDash([])
+    }
+
+    ctx.strokeStyle = color
+    ctx.lineWidth = 2
+    ctx.beginPath()
+    points.forEach((point, index) => {
+      if (index === 0) ctx.moveTo(xAt(index), yAt(point.value))
+      else ctx.lineTo(xAt(index), yAt(point.value))
+    })
+    ctx.stroke()
+
+    ctx.lineWidth = 1.5
+    points.forEach((point, index) => {
+      ctx.beginPath()
+      ctx.arc(xAt(index), yAt(point.value), 3.5, 0, Math.PI * 2)
+      ctx.fillStyle = point.highlight ? color : '#c0c0c0'
+      ctx.fill()
+      ctx.stroke()
+    })
+  }, [points, width, height, reference, color])
+
+  return <canvas ref={canvasRef} style={{ width: `${width}px`, height: `${height}px`, display: 'block' }} />
+}
@@ -0,0 +1,276 @@
+import { useNavigate } from 'react-router-dom'
+import { useEffect, useMemo, useState } from 'react'
+import { useConsoleAI } from '../ai/console/ConsoleAIContext'
+import { GlobalBehaviorData } from '../ai/console/ConsoleBehaviorTypes'
+import { getAverageScore, getWinRate } from '../ai/console/BehavioralInsights'
+import { createEmptyGameStats } from '../ai/console/storage/schemaMigrations'
+import { GameRegistry } from '../games/GameRegistry'
+import { useProfiles } from './ProfileContext'
+import { useInput } from '../input/useInput'
+import { BarChart, BarChartBar, LineChart, LineChartPoint } from './StatsCharts'
+
+// How many days the sessions chart looks back
+const SESSION_CHART_DAYS = 14
+const MILLISECONDS_PER_DAY = 24 * 60 * 60 * 1000
+
+const panelStyle: React.CSSProperties = {
+  background: '#808080',
+  border: '2px outset #c0c0c0',
+  borderRadius: '0',
+  padding: '15px 20px',
+  boxShadow: 'inset 0 1px 0 #ffffff, inset 0 -1px 0 #404040'
+}
+
+const buttonStyle: React.CSSProperties = {
+  background: '#c0c0c0',
+  color: '#000000',
+  border: '2px outset #c0c0c0',
+  borderRadius: '0',
+  padding: '10px 20px',
+  fontFamily: 'Courier New, monospace',
+  fontSize: '12px',
+  cursor: 'pointer',
+  letterSpacing: '1px'
+}
+
+const headingStyle: React.CSSProperties = {
+  fontWeight: 'bold',
+  fontSize: '13px',
+  letterSpacing: '2px',
+  marginBottom: '8px'
+}
+
+const formatPlayTime = (ms: number): string => {
+  const totalMinutes = Math.floor(ms / 60000)
+  const hours = Math.floor(totalMinutes / 60)
+  const minutes = totalMinutes % 60
+  return hours > 0 ? `${hours}H ${minutes}M` : `${minutes}M`
+}
+
+const formatPercent = (value: number | null): string => (value === null ? '-' : `${Math.round(value * 100)}%`)
+
+const formatWinTime = (ms: number | null): string => {
+  if (ms === null) return '-'
+  const totalSeconds = Math.round(ms / 1000)
+  return `${Math.floor(totalSeconds / 60)}:${String(totalSeconds % 60).padStart(2, '0')}`
+}
+
+// Mode ids read as labels - 'expert-no-guess' becomes EXPERT NO GUESS
+const formatMode = (mode: string): string => mode.replace(/-/g, ' ').toUpperCase()
+
+// Sessions started on each of the last few days, oldest first
+const getSessionsPerDay = (data: GlobalBehaviorData): BarChartBar[] => {
+  const today = new Date()
+  today.setHours(0, 0, 0, 0)
+  const firstDay = today.getTime() - (SESSION_CHART_DAYS - 1) * MILLISECONDS_PER_DAY
+
+  const bars = Array.from({ length: SESSION_CHART_DAYS }, (_, index) => {
+    const day = new Date(firstDay + index * MILLISECONDS_PER_DAY)
+    return { label: `${day.getMonth() + 1}/${day.getDate()}`, value: 0 }
+  })
+  data.recentSessions.forEach(session => {
+    const index = Math.floor((session.startTime - firstDay) / MILLISECONDS_PER_DAY)
+    if (index >= 0 && index < SESSION_CHART_DAYS) bars[index].value++
+  })
+  return bars
+}
+
+// Player stats - per-game totals, charts and KAI's read on it all
+const StatsScreen = () => {
+  const navigate = useNavigate()
+  const { consoleAI } = useConsoleAI()
+  const { activeProfile } = useProfiles()
+  const games = GameRegistry.getInstance().getAll()
+
+  const [data, setData] = useState<GlobalBehaviorData | null>(null)
+  const [consoleInsight, setConsoleInsight] = useState('')
+  const [selectedIndex, setSelectedIndex] = useState(0)
+
+  useEffect(() => {
+    let mounted = true
+
+    const load = async () => {
+      if (!consoleAI) return
+      await consoleAI.initialize()
+      if (!mounted) return
+      setData(consoleAI.getCurrentState().globalData)
+      setConsoleInsight(consoleAI.getConsoleInsight())
+    }
+
+    void load()
+    return () => {
+      mounted = false
+    }
+  }, [consoleAI])
+
+  useInput((event) => {
+    if (!event.pressed) return
+    if (event.action === 'back' && !event.repeat) navigate('/')
+    if (event.action === 'up') setSelectedIndex(prev => (prev > 0 ? prev - 1 : games.length - 1))
+    if (event.action === 'down') setSelectedIndex(prev => (prev < games.length - 1 ? prev + 1 : 0))
+  })
+
+  const selectedGame = games[selectedIndex]
+  // Memoized so the charts only redraw when their data changes
+  const selectedStats = useMemo(
+    () => (data && selectedGame ? data.gameStats[selectedGame.id] ?? createEmptyGameStats(selectedGame.id) : null),
+    [data, selectedGame]
+  )
+  const sessionBars = useMemo(() => (data ? getSessionsPerDay(data) : []), [data])
+  const scorePoints = useMemo<LineChartPoint[]>(
+    () => (selectedStats ? selectedStats.recentResults.map(run => ({ value: run.score, highlight: run.result === 'won' })) : []),
+    [selectedStats]
+  )
+
+  const allStats = data ? Object.values(data.gameStats) : []
+  const totalTime = allStats.reduce((sum, stats) => sum + stats.totalTimePlayed, 0)
+  const totalWins = allStats.reduce((sum, stats) => sum + stats.wins, 0)
+  const totalFinished = allStats.reduce((sum, stats) => sum + stats.wins + stats.losses, 0)
+
+  return (
+    <div style={{
+      minHeight: '100vh',
+      background: '#040436',
+      color: '#000000',
+      fontFamily: 'Courier New, monospace',
+      padding: '20px',
+      display: 'flex',
+      flexDirection: 'column',
+      alignItems: 'center',
+      gap: '20px'
+    }}>
+      <div style={{
+        ...panelStyle,
+        width: '100%',
+        maxWidth: '800px',
+        display: 'flex',
+        justifyContent: 'space-between',
+        alignItems: 'center'
+      }}>
+        <button style={buttonStyle} onClick={() => navigate('/')}>
+          ← BACK TO HOME
+        </button>
+        <h1 style={{ margin: 0, fontSize: '18px', letterSpacing: '2px' }}>
+          {activeProfile.name} STATS
+        </h1>
+      </div>
+
+      {!data && <div style={panelStyle}>LOADING STATS...</div>}
+
+      {data && (
+        <>
+          <div style={{
+            ...panelStyle,
+            width: '100%',
+            maxWidth: '800px',
+            background: '#000000',
+            color: '#00ff00',
+            fontSize: '12px'
+          }}>
+            KAI: {consoleInsight}
+          </div>
+
+          {/* Console-wide totals */}
+          <div style={{ ...panelStyle, width: '100%', maxWidth: '800px', display: 'flex', justifyContent: 'space-between', fontSize: '12px' }}>
+            <span>SESSIONS {data.totalSessions}</span>
+            <span>TIME PLAYED {formatPlayTime(totalTime)}</span>
+            <span>GAMES FINISHED {totalFinished}</span>
+            <span>WIN RATE {formatPercent(totalFinished > 0 ? totalWins / totalFinished : null)}</span>
+          </div>
+
+          <div style={{ ...panelStyle, width: '100%', maxWidth: '800px' }}>
+            <div style={headingStyle}>SESSIONS - LAST {SESSION_CHART_DAYS} DAYS</div>
+            <BarChart bars={sessionBars} width={756} height={140} />
+          </div>
+
+          {/* Per-game totals - pick a row to chart its scores */}
+          <div style={{ ...panelStyle, width: '100%', maxWidth: '800px', fontSize: '11px' }}>
+            <div style={{ display: 'flex', fontWeight: 'bold', paddingBottom: '6px', borderBottom: '1px solid #404040' }}>
+              <span style={{ flex: 2 }}>GAME</span>
+              <span style={{ flex: 1 }}>PLAYED</span>
+              <span style={{ flex: 1 }}>TIME</span>
+              <span style={{ flex: 1 }}>W / L</span>
+              <span style={{ flex: 1 }}>BEST</span>
+              <span style={{ flex: 1 }}>AVG</span>
+              <span style={{ flex: 1 }}>WIN STRK</span>
+              <span style={{ flex: 1 }}>REPLAYS</span>
+            </div>
+            {games.map((game, index) => {
+              const stats = data.gameStats[game.id] ?? createEmptyGameStats(game.id)
+              const average = getAverageScore(stats)
+              return (
+                <div
+                  key={game.id}
+                  onClick={() => setSelectedIndex(index)}
+                  style={{
+                    display: 'flex',
+                    padding: '6px 0',
+                    borderBottom: '1px solid #606060',
+                    cursor: 'pointer',
+                    background: index === selectedIndex ? '#c0c0c0' : 'transparent'
+                  }}
+                >
+                  <span style={{ flex: 2 }}>{game.name.toUpperCase()}</span>
+                  <span style={{ flex: 1 }}>{stats.timesPlayed}</span>
+                  <span style={{ flex: 1 }}>{formatPlayTime(stats.totalTimePlayed)}</span>
+                  <span style={{ flex: 1 }}>{stats.wins} / {stats.losses}</span>
+                  <span style={{ flex: 1 }}>{stats.bestScore}</span>
+                  <span style={{ flex: 1 }}>{average === null ? '-' : Math.round(average)}</span>
+                  <span style={{ flex: 1 }}>{stats.winStreak} ({stats.bestWinStreak})</span>
+                  <span style={{ flex: 1 }}>{data.consecutiveReplays[game.id] || 0}</span>
+                </div>
+              )
+            })}
+          </div>
+
+          {selectedGame && selectedStats && (
+            <div style={{ ...panelStyle, width: '100%', maxWidth: '800px' }}>
+              <div style={headingStyle}>
+                {selectedGame.name.toUpperCase()} - LAST {selectedStats.recentResults.length} SCORES
+              </div>
+              {scorePoints.length === 0 ? (
+                <p style={{ margin: 0, fontSize: '12px' }}>NO FINISHED GAMES YET.</p>
+              ) : (
+                <LineChart points={scorePoints} width={756} height={160} reference={getAverageScore(selectedStats)} />
+              )}
+              <div style={{ display: 'flex', justifyContent: 'space-between', fontSize: '11px', marginTop: '8px' }}>
+                <span>● WON ○ LOST - - AVERAGE</span>
+                <span>WIN RATE {formatPercent(getWinRate(selectedStats))}</span>
+              </div>
+              <div style={{ marginTop: '8px', fontSize: '12px' }}>
+                KAI: {consoleAI?.getBehavioralInsight(selectedGame.id)}
+              </div>
+            </div>
+          )}
+
+          {/* Difficulties and variants are kept apart - only modes with finished runs are listed */}
+          {selectedGame && selectedStats && Object.keys(selectedStats.modeStats).length > 0 && (
+            <div style={{ ...panelStyle, width: '100%', maxWidth: '800px', fontSize: '11px' }}>
+              <div style={headingStyle}>{selectedGame.name.toUpperCase()} - BY MODE</div>
+              <div style={{ display: 'flex', fontWeight: 'bold', paddingBottom: '6px', borderBottom: '1px solid #404040' }}>
+                <span style={{ flex: 2 }}>MODE</span>
+                <span style={{ flex: 1 }}>PLAYED</span>
+                <span style={{ flex: 1 }}>W / L</span>
+                <span style={{ flex: 1 }}>WIN RATE</span>
+                <span style={{ flex: 1 }}>BEST</span>
+                <span style={{ flex: 1 }}>FASTEST WIN</span>
+              </div>
+              {Object.entries(selectedStats.modeStats).map(([mode, stats]) => (
+                <div key={mode} style={{ display: 'flex', padding: '6px 0', borderBottom: '1px solid #606060' }}>
+                  <span style={{ flex: 2 }}>{formatMode(mode)}</span>
+                  <span style={{ flex: 1 }}>{stats.timesPlayed}</span>
+                  <span style={{ flex: 1 }}>{stats.wins} / {stats.losses}</span>
+                  <span style={{ flex: 1 }}>{formatPercent(stats.wins + stats.losses > 0 ? stats.wins / (stats.wins + stats.losses) : null)}</span>
+                  <span style={{ flex: 1 }}>{stats.bestScore}</span>
+                  <span style={{ flex: 1 }}>{formatWinTime(stats.fastestWin)}</span>
+                </div>
+              ))}
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  )
+}
+
+export default StatsScreen
@@ -0,0 +1,184 @@
+import { useNavigate } from 'react-router-dom'
+import { useEffect, useState } from 'react'
+import { useConsoleAI } from '../ai/console/ConsoleAIContext'
+import { RegisteredAchievement, UnlockedAchievement } from '../ai/console/AchievementTypes'
+import { GameRegistry } from '../games/GameRegistry'
+import { useInput } from '../input/useInput'
+
+const panelStyle: React.CSSProperties = {
+  background: '#808080',
+  border: '2px outset #c0c0c0',
+  borderRadius: '0',
+  padding: '15px 20px',
+  boxShadow: 'inset 0 1px 0 #ffffff, inset 0 -1px 0 #404040'
+}
+
+const buttonStyle: React.CSSProperties = {
+  background: '#c0c0c0',
+  color: '#000000',
+  border: '2px outset #c0c0c0',
+  borderRadius: '0',
+  padding: '10px 20px',
+  fontFamily: 'Courier New, monospace',
+  fontSize: '12px',
+  cursor: 'pointer',
+  letterSpacing: '1px'
+}
+
+interface AchievementGroup {
+  title: string
+  achievements: RegisteredAchievement[]
+}
+
+// Console-wide achievements first, then one group per game in carousel order
+const groupAchievements = (achievements: RegisteredAchievement[]): AchievementGroup[] => {
+  const groups: AchievementGroup[] = []
+  const consoleAchievements = achievements.filter(a => a.gameId === null)
+  if (consoleAchievements.length > 0) {
+    groups.push({ title: 'CONSOLE', achievements: consoleAchievements })
+  }
+  GameRegistry.getInstance().getAll().forEach(game => {
+    const gameAchievements = achievements.filter(a => a.gameId === game.id)
+    if (gameAchievements.length > 0) {
+      groups.push({ title: game.name.toUpperCase(), achievements: gameAchievements })
+    }
+  })
+  return groups
+}
+
+// Trophy room - every achievement on the console, locked or not
+const TrophyRoom = () => {
+  const navigate = useNavigate()
+  const { consoleAI } = useConsoleAI()
+
+  const [achievements, setAchievements] = useState<RegisteredAchievement[]>([])
+  const [unlocked, setUnlocked] = useState<Record<string, UnlockedAchievement>>({})
+  const [commentary, setCommentary] = useState('')
+  const [isLoading, setIsLoading] = useState(true)
+
+  useEffect(() => {
+    let mounted = true
+
+    const load = async () => {
+      if (!consoleAI) return
+      await consoleAI.initialize()
+      if (!mounted) return
+      const state = consoleAI.getAchievements()
+      setAchievements(state.achievements)
+      setUnlocked(state.unlocked)
+      setCommentary(consoleAI.getTrophyRoomCommentary())
+      setIsLoading(false)
+    }
+
+    void load()
+    return () => {
+      mounted = false
+    }
+  }, [consoleAI])
+
+  useInput((event) => {
+    if (event.pressed && event.action === 'back') navigate('/')
+  })
+
+  const unlockedCount = achievements.filter(a => unlocked[a.id]).length
+
+  const renderAchievement = (achievement: RegisteredAchievement) => {
+    const unlock = unlocked[achievement.id]
+    // Secret achievements give nothing away until earned
+    const hidden = achievement.secret && !unlock
+
+    return (
+      <div
+        key={achievement.id}
+        style={{
+          display: 'flex',
+          alignItems: 'center',
+          gap: '12px',
+          padding: '8px 0',
+          borderBottom: '1px solid #606060',
+          fontSize: '12px',
+          opacity: unlock ? 1 : 0.6
+        }}
+      >
+        <span style={{ fontSize: '24px', width: '32px', textAlign: 'center', filter: unlock ? 'none' : 'grayscale(1)' }}>
+          {hidden ? '❔' : achievement.icon}
+        </span>
+        <div style={{ flex: 1 }}>
+          <div style={{ fontWeight: 'bold', letterSpacing: '1px' }}>
+            {hidden ? '???' : achievement.title.toUpperCase()}
+          </div>
+          <div style={{ fontSize: '11px' }}>
+            {hidden ? 'SECRET ACHIEVEMENT' : achievement.description}
+          </div>
+        </div>
+        <div style={{ width: '170px', fontSize: '11px', textAlign: 'right' }}>
+          {unlock ? (
+            <>
+              <div>{new Date(unlock.unlockedAt).toLocaleDateString()}</div>
+              <div>SEED {unlock.seed}</div>
+            </>
+          ) : (
+            <div>LOCKED</div>
+          )}
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div style={{
+      minHeight: '100vh',
+      background: '#040436',
+      color: '#000000',
+      fontFamily: 'Courier New, monospace',
+      padding: '20px',
+      display: 'flex',
+      flexDirection: 'column',
+      alignItems: 'center',
+      gap: '20px'
+    }}>
+      <div style={{
+        ...panelStyle,
+        width: '100%',
+        maxWidth: '800px',
+        display: 'flex',
+        justifyContent: 'space-between',
+        alignItems: 'center'
+      }}>
+        <button style={buttonStyle} onClick={() => navigate('/')}>
+          ← BACK TO HOME
+        </button>
+        <h1 style={{ margin: 0, fontSize: '18px', letterSpacing: '2px' }}>
+          TROPHY ROOM {!isLoading && `${unlockedCount}/${achievements.length}`}
+        </h1>
+      </div>
+
+      {commentary && (
+        <div style={{
+          ...panelStyle,
+          width: '100%',
+          maxWidth: '800px',
+          background: '#000000',
+          color: '#00ff00',
+          fontSize: '12px'
+        }}>
+          KAI: {commentary}
+        </div>
+      )}
+
+      <div style={{ ...panelStyle, width: '100%', maxWidth: '800px' }}>
+        {isLoading && <p style={{ margin: 0 }}>LOADING ACHIEVEMENTS...</p>}
+        {!isLoading && groupAchievements(achievements).map(group => (
+          <div key={group.title} style={{ marginBottom: '15px' }}>
+            <div style={{ fontWeight: 'bold', fontSize: '13px', letterSpacing: '2px', marginBottom: '4px' }}>
+              {group.title} {group.achievements.filter(a => unlocked[a.id]).length}/{group.achievements.length}
+            </div>
+            {group.achievements.map(renderAchievement)}
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+}
+
+export default TrophyRoom
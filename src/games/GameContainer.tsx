@@ -1,27 +1,64 @@
-import { useParams, useNavigate } from 'react-router-dom'
-import { useEffect } from 'react'
-import Snake from './snake/Snake'
-import Minesweeper from './minesweeper/Minesweeper'
-import PacMan from './pacman/PacMan'
-import BlockBreaker from './blockbreaker/BlockBreaker'
-import { SnakeAIState } from '../ai/snake/SnakeAIAnalyzer'
-import { MinesweeperAIState } from '../ai/minesweeper/MinesweeperAIAnalyzer'
-import { PacManAIState } from '../ai/pacman/PacManAIAnalyzer'
-import { BlockBreakerAIState } from '../ai/blockbreaker/BlockBreakerAIAnalyzer'
+import { useParams, useNavigate, useLocation } from 'react-router-dom'
+import { useCallback, useEffect, useRef, useState } from 'react'
 import { useConsoleAI } from '../ai/console/ConsoleAIContext'
+import { useProfiles } from '../console/ProfileContext'
 import { useAudio } from '../audio/useAudio'
+import { GameLifecycle, GameResult, GameSnapshot, GameStatus } from './engine/GameEngine'
+import { GameRegistry } from './GameRegistry'
+import { ReplayStore } from './replay/ReplayStore'
+import { ReplayRecord } from './engine/ReplayRecorder'
+import { SuspendStore } from './SuspendStore'
+import { HighScoreStore, HighScoreSubmission } from './HighScoreStore'
+import { useInput } from '../input/useInput'
+import TouchControls from '../input/TouchControls'
+import AchievementToast from '../console/AchievementToast'
+import InitialsEntry from '../console/InitialsEntry'
+import { RegisteredAchievement } from '../ai/console/AchievementTypes'
+
+const controlButtonStyle: React.CSSProperties = {
+  background: '#c0c0c0',
+  color: '#000000',
+  border: '2px outset #c0c0c0',
+  borderRadius: '0',
+  padding: '6px 10px',
+  fontFamily: 'Courier New, monospace',
+  fontSize: '11px',
+  cursor: 'pointer',
+  letterSpacing: '1px'
+}
 
 // Game Engine - Container for all games
 const GameContainer = () => {
   const { gameType } = useParams<{ gameType: string }>()
   const navigate = useNavigate()
+  const location = useLocation()
+  // Set by the dashboard's CONTINUE - survives a reload along with the rest of the history entry
+  const continuing = (location.state as { continue?: boolean } | null)?.continue === true
   const { consoleAI } = useConsoleAI()
+  const { activeProfile } = useProfiles()
   const { playMusic, stopMusic } = useAudio()
+  const definition = gameType ? GameRegistry.getInstance().get(gameType) : undefined
+  const activeGameRef = useRef<GameLifecycle | null>(null)
+  // The mounted game, once it has reported ready - its status changes are listened to while it is
+  const [activeGame, setActiveGame] = useState<GameLifecycle | null>(null)
+  const [gameStatus, setGameStatus] = useState<GameStatus>('ready')
+  // Bumped to remount the current game from scratch
+  const [gameKey, setGameKey] = useState(0)
+  const replayStoreRef = useRef<ReplayStore | null>(null)
+  // Set once the finished run's replay is safely stored
+  const [savedReplayId, setSavedReplayId] = useState<string | null>(null)
+  const suspendStoreRef = useRef<SuspendStore | null>(null)
+  // Suspended run handed to the game - undefined while it is still loading
+  const [snapshot, setSnapshot] = useState<GameSnapshot | null | undefined>(continuing ? undefined : null)
+  // Achievements unlocked by finished runs, waiting for their toast
+  const [unlockedAchievements, setUnlockedAchievements] = useState<RegisteredAchievement[]>([])
+  // A finished run that made the high-score table, waiting for its initials
+  const [highScore, setHighScore] = useState<{ submission: HighScoreSubmission; commentary: string } | null>(null)
 
   // Audio lifecycle management for games
   useEffect(() => {
     // Start game music when entering any game
-    playMusic('game');
+    playMusic('game', gameType);
 
     // Cleanup: stop music when leaving game (back to dashboard)
     return () => {
@@ -34,109 +71,201 @@ const GameContainer = () => {
     console.log(`Loading game: ${gameType}`)
   }, [gameType])
 
+  const getSuspendStore = useCallback(() => {
+    if (!suspendStoreRef.current) {
+      suspendStoreRef.current = new SuspendStore()
+    }
+    return suspendStoreRef.current
+  }, [])
+
+  useEffect(() => {
+    if (!continuing || !gameType) return
+
+    let cancelled = false
+    void getSuspendStore().get(gameType).then(saved => {
+      if (!cancelled) setSnapshot(saved)
+    })
+    return () => {
+      cancelled = true
+    }
+  }, [continuing, gameType, getSuspendStore])
+
+  // Suspend the run in progress whenever it might not come back - leaving, hiding or closing the tab
+  useEffect(() => {
+    const suspend = () => {
+      const current = activeGameRef.current?.createSnapshot()
+      if (current) void getSuspendStore().save(current)
+    }
+    const handleVisibilityChange = () => {
+      if (document.hidden) suspend()
+    }
+
+    document.addEventListener('visibilitychange', handleVisibilityChange)
+    window.addEventListener('pagehide', suspend)
+    return () => {
+      document.removeEventListener('visibilitychange', handleVisibilityChange)
+      window.removeEventListener('pagehide', suspend)
+      suspend()
+    }
+  }, [getSuspendStore])
+
   const handleBackToDashboard = () => {
     navigate('/')
   }
 
-  const handleGameEnd = (score: number, duration: number, moveCount: number) => {
-    // Send Snake game data to console AI
-    if (gameType === 'snake' && consoleAI) {
-      consoleAI.onSnakeGameEnd(score)
-    }
-    console.log('Game ended:', { score, duration, moveCount })
+  const handleGameReady = (game: GameLifecycle) => {
+    activeGameRef.current = game
+    setActiveGame(game)
+    setGameStatus(game.getState().status)
   }
 
-  const handleMinesweeperGameEnd = (result: 'won' | 'lost' | 'abandoned', duration: number) => {
-    console.log('Minesweeper ended:', { result, duration })
-  }
+  const handleGameResult = useCallback((result: GameResult) => {
+    // Every game's result feeds KAI's cross-game memory, which judges it for achievements
+    void consoleAI?.onGameEnd(result).then(unlocked => {
+      if (unlocked.length > 0) setUnlockedAchievements(prev => [...prev, ...unlocked])
+    })
 
-  const handlePacManGameEnd = (result: 'won' | 'lost', duration: number, score: number) => {
-    console.log('Pac-Man ended:', { result, duration, score })
-  }
+    // Saved straight away under the profile's initials - entry only renames it
+    const submission = new HighScoreStore().submit(result, activeProfile, activeProfile.name)
+    if (submission) {
+      setHighScore({
+        submission,
+        commentary: consoleAI?.getHighScoreCommentary(submission, activeProfile.id) ?? ''
+      })
+    }
+    console.log('Game ended:', result)
+  }, [consoleAI, activeProfile])
 
-  const handleBlockBreakerGameEnd = (result: 'won' | 'lost', duration: number, score: number) => {
-    console.log('Block Breaker ended:', { result, duration, score })
+  const handleInitialsDone = (initials: string) => {
+    if (!highScore) return
+    new HighScoreStore().setInitials(highScore.submission.entry, initials)
+    setHighScore(null)
   }
 
-  // AI state change handlers - no longer needed for commentary panels
-  const handleSnakeAIStateChange = (_aiState: SnakeAIState) => {
-    // KAI now handles commentary display within the game
+  const handleViewHighScores = (initials: string) => {
+    if (!highScore) return
+    handleInitialsDone(initials)
+    navigate(`/scores/${highScore.submission.entry.gameId}`, { state: { highlightId: highScore.submission.entry.id } })
   }
 
-  const handleMinesweeperAIStateChange = (_aiState: MinesweeperAIState) => {
-    // KAI now handles commentary display within the game
+  const handleReplay = useCallback((replay: ReplayRecord) => {
+    if (!replayStoreRef.current) {
+      replayStoreRef.current = new ReplayStore()
+    }
+    void replayStoreRef.current.save(replay).then(() => setSavedReplayId(replay.id))
+  }, [])
+
+  // Stable so the toast's timer only restarts when a new achievement comes up
+  const handleDismissAchievement = useCallback((achievementId: string) => {
+    setUnlockedAchievements(prev => prev.filter(a => a.id !== achievementId))
+  }, [])
+
+  // Follow the active game's shared lifecycle status - a finish is reported the moment it happens
+  useEffect(() => {
+    if (!activeGame) return
+
+    // The game may have moved on (e.g. restored paused) between reporting ready and this subscribing
+    setGameStatus(activeGame.getState().status)
+    return activeGame.onStatusChange(status => {
+      if (status === 'over' || status === 'won') {
+        const result = activeGame.getResult()
+        if (result) {
+          handleGameResult(result)
+          // A finished run can't be continued
+          void getSuspendStore().clear(result.gameId, result.seed)
+        }
+        const replay = activeGame.getReplay()
+        if (replay) handleReplay(replay)
+      }
+      // Games restarted from inside (e.g. PLAY AGAIN) start a new recording
+      if (status === 'ready' || status === 'running') {
+        setSavedReplayId(null)
+      }
+      setGameStatus(status)
+    })
+  }, [activeGame, handleGameResult, handleReplay, getSuspendStore])
+
+  const handleTogglePause = () => {
+    const game = activeGameRef.current
+    if (!game) return
+
+    if (gameStatus === 'paused') {
+      game.resume()
+    } else if (gameStatus === 'running') {
+      game.pause()
+    }
+    setGameStatus(game.getState().status)
   }
 
-  const handlePacManAIStateChange = (_aiState: PacManAIState) => {
-    // KAI now handles commentary display within the game
+  // PAUSE and BACK mean the same thing in every game
+  useInput((event) => {
+    if (!event.pressed || event.repeat) return
+    if (event.action === 'pause') handleTogglePause()
+    if (event.action === 'back') handleBackToDashboard()
+  })
+
+  const handleRestart = () => {
+    // Restarting throws the current run away, suspended copy included
+    const game = activeGameRef.current
+    if (game) {
+      void getSuspendStore().clear(game.gameId, game.getSeed())
+    }
+    setSnapshot(null)
+    activeGameRef.current = null
+    setActiveGame(null)
+    setGameStatus('ready')
+    setSavedReplayId(null)
+    setHighScore(null)
+    setGameKey(prev => prev + 1)
   }
 
-  const handleBlockBreakerAIStateChange = (_aiState: BlockBreakerAIState) => {
-    // KAI now handles commentary display within the game
+  const handleWatchReplay = () => {
+    if (gameType && savedReplayId) {
+      navigate(`/replays/${gameType}/${savedReplayId}`)
+    }
   }
 
+  // KAI handles commentary display within each game, so only lifecycle props are passed
   const renderGame = () => {
-    switch (gameType) {
-      case 'snake':
-        return (
-          <Snake 
-            onGameEnd={handleGameEnd} 
-            onAIStateChange={handleSnakeAIStateChange}
-          />
-        )
-
-      case 'minesweeper':
-        return (
-          <Minesweeper 
-            onGameEnd={handleMinesweeperGameEnd} 
-            onAIStateChange={handleMinesweeperAIStateChange}
-            onExitToConsole={handleBackToDashboard}
-          />
-        )
-      
-      case 'pacman':
-        return (
-          <PacMan 
-            onGameEnd={handlePacManGameEnd} 
-            onAIStateChange={handlePacManAIStateChange}
-          />
-        )
-
-      case 'blockbreaker':
-        return (
-          <BlockBreaker 
-            onGameEnd={handleBlockBreakerGameEnd} 
-            onAIStateChange={handleBlockBreakerAIStateChange}
-          />
-        )
-      
-      default:
-        return (
-          <div style={{
-            background: '#808080',
-            border: '2px outset #c0c0c0',
-            borderRadius: '0',
-            padding: '30px',
-            textAlign: 'center',
-            maxWidth: '500px'
-          }}>
-            <h2 style={{ 
-              color: '#000000', 
-              marginBottom: '20px',
-              letterSpacing: '2px'
-            }}>
-              UNKNOWN GAME
-            </h2>
-            <p style={{ 
-              color: '#000000', 
-              marginBottom: '30px',
-              fontSize: '14px'
-            }}>
-              Game not found
-            </p>
-          </div>
-        )
+    if (definition) {
+      if (snapshot === undefined) return null
+      const GameComponent = definition.component
+      return (
+        <GameComponent
+          key={gameKey}
+          onGameReady={handleGameReady}
+          onExitToConsole={handleBackToDashboard}
+          createAnalyzer={definition.createAnalyzer}
+          snapshot={snapshot ?? undefined}
+        />
+      )
     }
+
+    return (
+      <div style={{
+        background: '#808080',
+        border: '2px outset #c0c0c0',
+        borderRadius: '0',
+        padding: '30px',
+        textAlign: 'center',
+        maxWidth: '500px'
+      }}>
+        <h2 style={{ 
+          color: '#000000', 
+          marginBottom: '20px',
+          letterSpacing: '2px'
+        }}>
+          UNKNOWN GAME
+        </h2>
+        <p style={{ 
+          color: '#000000', 
+          marginBottom: '30px',
+          fontSize: '14px'
+        }}>
+          Game not found
+        </p>
+      </div>
+    )
   }
 
   return (
@@ -201,10 +330,30 @@ const GameContainer = () => {
           fontSize: '18px',
           letterSpacing: '2px'
         }}>
-          {gameType?.toUpperCase() || 'GAME'}
+          {(definition?.name || gameType)?.toUpperCase() || 'GAME'}
         </h1>
         
-        <div style={{ width: '120px' }}></div> {/* Spacer for centering */}
+        {/* Lifecycle controls - work the same for every game */}
+        <div style={{ display: 'flex', gap: '8px' }}>
+          <button
+            onClick={handleTogglePause}
+            disabled={gameStatus !== 'running' && gameStatus !== 'paused'}
+            style={{
+              ...controlButtonStyle,
+              color: gameStatus === 'running' || gameStatus === 'paused' ? '#000000' : '#808080'
+            }}
+          >
+            {gameStatus === 'paused' ? 'RESUME' : 'PAUSE'}
+          </button>
+          <button onClick={handleRestart} style={controlButtonStyle}>
+            RESTART
+          </button>
+          {savedReplayId && (
+            <button onClick={handleWatchReplay} style={controlButtonStyle}>
+              REPLAY
+            </button>
+          )}
+        </div>
       </div>
 
       {/* Game Content */}
@@ -215,6 +364,22 @@ const GameContainer = () => {
       }}>
         {renderGame()}
       </div>
+
+      <TouchControls />
+
+      {highScore && (
+        <InitialsEntry
+          submission={highScore.submission}
+          commentary={highScore.commentary}
+          onDone={handleInitialsDone}
+          onViewTable={handleViewHighScores}
+        />
+      )}
+
+      <AchievementToast
+        queue={unlockedAchievements}
+        onDismiss={handleDismissAchievement}
+      />
       
       <style>{`
         @keyframes blink {
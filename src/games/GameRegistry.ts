@@ -0,0 +1,91 @@
+// Game Registry - Single source of truth for every title on the console
+
+import { ComponentType } from 'react'
+import { GameLifecycle, GameSnapshot } from './engine/GameEngine'
+import { SeededRandom } from './engine/SeededRandom'
+import { AchievementDefinition } from '../ai/console/AchievementTypes'
+
+// Minimum every per-game AI analyzer provides
+export interface GameAIAnalyzer {
+  initialize(): Promise<void>
+}
+
+// Props GameContainer passes to every registered game component
+export interface GameComponentProps<A extends GameAIAnalyzer = GameAIAnalyzer> {
+  onGameReady?: (game: GameLifecycle) => void
+  onExitToConsole?: () => void
+  // Receives the game's RNG so the analyzer replays from the same seed
+  createAnalyzer?: (random: SeededRandom) => A
+  // Suspended run to continue - restored paused once the game's AI has loaded
+  snapshot?: GameSnapshot
+}
+
+// A recorded frame is whatever the game captured - the renderer knows its shape
+export interface ReplayRendererProps {
+  frame: unknown
+}
+
+export interface GameDefinition<A extends GameAIAnalyzer = GameAIAnalyzer> {
+  id: string
+  name: string
+  subtitle: string
+  description: string
+  bannerImage: string
+  playerCount: number
+  component: ComponentType<GameComponentProps<A>>
+  createAnalyzer: (random: SeededRandom) => A
+  // Draws recorded frames in the replay viewer - games without one can't be replayed
+  replayRenderer?: ComponentType<ReplayRendererProps>
+  // Judged after every finished run of this game, shown in the trophy room under its name
+  achievements?: AchievementDefinition[]
+  // A lost run scoring this or more doesn't extend the fail streak - without one, any loss short of a new best does
+  failureScore?: number
+  // In-game music track - falls back to the shared game music
+  music?: string
+  // Per-game sound effects - fall back to the shared defaults
+  sfx?: {
+    gameOver?: string
+    youWin?: string
+  }
+}
+
+// Keeps the component and analyzer factory types paired when registering
+export function defineGame<A extends GameAIAnalyzer>(definition: GameDefinition<A>): GameDefinition<A> {
+  return definition
+}
+
+export class GameRegistry {
+  private static instance: GameRegistry
+  private games = new Map<string, GameDefinition>()
+
+  private constructor() {}
+
+  static getInstance(): GameRegistry {
+    if (!GameRegistry.instance) {
+      GameRegistry.instance = new GameRegistry()
+    }
+    return GameRegistry.instance
+  }
+
+  // Carousel order follows registration order
+  register<A extends GameAIAnalyzer>(definition: GameDefinition<A>): void {
+    if (this.games.has(definition.id)) {
+      throw new Error(`A game with id "${definition.id}" is already registered`)
+    }
+    // Stored with the analyzer type erased - defineGame already checked the component against this
+    // definition's own createAnalyzer, which is the only factory GameContainer ever hands it
+    this.games.set(definition.id, definition as unknown as GameDefinition)
+  }
+
+  get(gameId: string): GameDefinition | undefined {
+    return this.games.get(gameId)
+  }
+
+  getAll(): GameDefinition[] {
+    return Array.from(this.games.values())
+  }
+
+  getIds(): string[] {
+    return Array.from(this.games.keys())
+  }
+}
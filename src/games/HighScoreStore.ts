@@ -0,0 +1,151 @@
+// High Score Store - Top scores per game and mode, shared by every player on this machine
+
+import { StorageManager } from '../storage/StorageManager'
+import { PlayerProfile } from '../storage/ProfileManager'
+import { GameResult } from './engine/GameEngine'
+
+const HIGH_SCORES_STORAGE_KEY = 'retro_console_high_scores'
+export const HIGH_SCORE_TABLE_SIZE = 10
+export const INITIALS_LENGTH = 3
+
+export interface HighScoreEntry {
+  id: string
+  gameId: string
+  mode: string
+  score: number
+  duration: number
+  recordedAt: number
+  profileId: string
+  // Kept on the entry so the table still reads right after a rename or delete
+  profileName: string
+  initials: string
+  seed: number
+}
+
+// What happened when a run made the table
+export interface HighScoreSubmission {
+  entry: HighScoreEntry
+  // 1-based position on the table
+  rank: number
+  // The entry pushed off the bottom to make room - null while the table had space
+  knockedOff: HighScoreEntry | null
+}
+
+// An entry another player pushed off the table, waiting for its owner to come back
+export interface HighScoreKnockout {
+  entry: HighScoreEntry
+  byProfileName: string
+  knockedOffAt: number
+}
+
+// Shape written to storage - one table per game and mode
+interface PersistedHighScores {
+  tables: Record<string, HighScoreEntry[]>
+  // Keyed by the profile that lost the entry
+  knockouts: Record<string, HighScoreKnockout[]>
+  savedAt: number
+}
+
+const getTableKey = (gameId: string, mode: string): string => `${gameId}:${mode}`
+
+// Higher scores first; ties go to the quicker run, then the earlier one
+const compareEntries = (a: HighScoreEntry, b: HighScoreEntry): number =>
+  b.score - a.score || a.duration - b.duration || a.recordedAt - b.recordedAt
+
+// Letters and digits only, padded so the table columns line up
+export function normalizeInitials(value: string): string {
+  const cleaned = value.toUpperCase().replace(/[^A-Z0-9]/g, '').slice(0, INITIALS_LENGTH)
+  return cleaned.padEnd(INITIALS_LENGTH, 'A')
+}
+
+export class HighScoreStore {
+  private storage = StorageManager.getInstance()
+
+  // Best first
+  getTable(gameId: string, mode: string): HighScoreEntry[] {
+    return [...(this.load().tables[getTableKey(gameId, mode)] || [])]
+  }
+
+  // Modes that have at least one score, in the order they were first played
+  getModes(gameId: string): string[] {
+    return Object.keys(this.load().tables)
+      .filter(key => key.startsWith(`${gameId}:`))
+      .map(key => key.slice(gameId.length + 1))
+  }
+
+  // Zero scores never make the table, even an empty one
+  qualifies(result: GameResult): boolean {
+    if (result.score <= 0) return false
+    const table = this.getTable(result.gameId, result.mode)
+    if (table.length < HIGH_SCORE_TABLE_SIZE) return true
+    return result.score > table[table.length - 1].score
+  }
+
+  // Null when the run doesn't make the table
+  submit(result: GameResult, profile: PlayerProfile, initials: string): HighScoreSubmission | null {
+    if (!this.qualifies(result)) return null
+
+    const data = this.load()
+    const key = getTableKey(result.gameId, result.mode)
+    const entry: HighScoreEntry = {
+      id: `${result.gameId}_${result.seed}_${Date.now().toString(36)}`,
+      gameId: result.gameId,
+      mode: result.mode,
+      score: result.score,
+      duration: result.duration,
+      recordedAt: Date.now(),
+      profileId: profile.id,
+      profileName: profile.name,
+      initials: normalizeInitials(initials),
+      seed: result.seed
+    }
+
+    const table = [...(data.tables[key] || []), entry].sort(compareEntries)
+    const knockedOff = table.length > HIGH_SCORE_TABLE_SIZE ? table.pop() || null : null
+    data.tables[key] = table
+    if (knockedOff && knockedOff.profileId !== profile.id) {
+      const pending = data.knockouts[knockedOff.profileId] || []
+      data.knockouts[knockedOff.profileId] = [
+        ...pending,
+        { entry: knockedOff, byProfileName: profile.name, knockedOffAt: Date.now() }
+      ]
+    }
+    this.save(data)
+
+    return { entry, rank: table.indexOf(entry) + 1, knockedOff }
+  }
+
+  // Entries are saved with placeholder initials first, so leaving mid-entry still keeps the score
+  setInitials(entry: HighScoreEntry, initials: string): void {
+    const data = this.load()
+    const stored = data.tables[getTableKey(entry.gameId, entry.mode)]?.find(e => e.id === entry.id)
+    if (!stored) return
+
+    stored.initials = normalizeInitials(initials)
+    this.save(data)
+  }
+
+  // Entries others knocked off while this player was away - each is only handed out once
+  takeKnockouts(profileId: string): HighScoreKnockout[] {
+    const data = this.load()
+    const knockouts = data.knockouts[profileId] || []
+    if (knockouts.length > 0) {
+      delete data.knockouts[profileId]
+      this.save(data)
+    }
+    return knockouts
+  }
+
+  private load(): PersistedHighScores {
+    const stored = this.storage.getItem<PersistedHighScores>(HIGH_SCORES_STORAGE_KEY)
+    if (stored && typeof stored.tables === 'object' && stored.tables !== null) {
+      return { ...stored, knockouts: stored.knockouts || {} }
+    }
+    return { tables: {}, knockouts: {}, savedAt: 0 }
+  }
+
+  private save(data: PersistedHighScores): void {
+    data.savedAt = Date.now()
+    this.storage.setItem(HIGH_SCORES_STORAGE_KEY, data)
+  }
+}
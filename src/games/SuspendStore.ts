@@ -0,0 +1,80 @@
+// Suspend Store - One suspended mid-game run per game, kept in the memory store
+
+import { GlobalMemoryStore } from '../ai/console/storage/GlobalMemoryStore'
+import { createDefaultStore } from '../ai/console/storage/createDefaultStore'
+import { GameSnapshot, SNAPSHOT_VERSION } from './engine/GameEngine'
+
+// Shape written to the GlobalMemoryStore next to each game's own data
+interface PersistedSuspend {
+  snapshot: GameSnapshot | null
+  savedAt: number
+}
+
+// Stored beside the game's session data, like its replays
+export function getSuspendStorageKey(gameId: string): string {
+  return `${gameId}_suspended`
+}
+
+// Writes still in flight, across every store - leaving a game saves while the dashboard is already reading
+const pendingWrites = new Map<string, Promise<void>>()
+
+export class SuspendStore {
+  private memoryStore: GlobalMemoryStore
+
+  constructor(memoryStore?: GlobalMemoryStore) {
+    this.memoryStore = memoryStore || createDefaultStore()
+  }
+
+  // Null when nothing is suspended - snapshots from an older format are treated as gone
+  async get(gameId: string): Promise<GameSnapshot | null> {
+    await pendingWrites.get(gameId)
+    try {
+      const stored = await this.memoryStore.loadGameData<PersistedSuspend>(getSuspendStorageKey(gameId))
+      const snapshot = stored?.snapshot
+      if (!snapshot || snapshot.gameId !== gameId || snapshot.version !== SNAPSHOT_VERSION) return null
+      return snapshot
+    } catch (error) {
+      console.error(`Failed to load suspended ${gameId} game:`, error)
+      return null
+    }
+  }
+
+  // The given games that have a run waiting to be continued
+  async listSuspended(gameIds: string[]): Promise<string[]> {
+    const snapshots = await Promise.all(gameIds.map(gameId => this.get(gameId)))
+    return gameIds.filter((_, index) => snapshots[index] !== null)
+  }
+
+  // Replaces whatever run the game had suspended
+  async save(snapshot: GameSnapshot): Promise<void> {
+    await this.write(snapshot.gameId, snapshot)
+  }
+
+  // With a seed, only clears the slot if it still holds that run
+  async clear(gameId: string, seed?: number): Promise<void> {
+    if (seed !== undefined) {
+      const current = await this.get(gameId)
+      if (!current || current.seed !== seed) return
+    }
+    await this.write(gameId, null)
+  }
+
+  private async write(gameId: string, snapshot: GameSnapshot | null): Promise<void> {
+    const previous = pendingWrites.get(gameId) || Promise.resolve()
+    const write = previous.then(async () => {
+      try {
+        await this.memoryStore.saveGameData<PersistedSuspend>(getSuspendStorageKey(gameId), {
+          snapshot,
+          savedAt: Date.now()
+        })
+      } catch (error) {
+        console.error(`Failed to save suspended ${gameId} game:`, error)
+      }
+    })
+    pendingWrites.set(gameId, write)
+    await write
+    if (pendingWrites.get(gameId) === write) {
+      pendingWrites.delete(gameId)
+    }
+  }
+}
@@ -1,24 +1,29 @@
 // Block Breaker - Main game component with AI integration
 
-import { useState, useEffect, useCallback, useRef } from 'react'
+import { useState, useEffect, useRef } from 'react'
 import { BlockBreakerGame } from './BlockBreakerGame'
+import { GameLifecycle, GameSnapshot } from '../engine/GameEngine'
+import { SeededRandom } from '../engine/SeededRandom'
+import { GameClock } from '../engine/GameClock'
 import BlockBreakerRenderer from './BlockBreakerRenderer'
 import { BlockBreakerAIAnalyzer, BlockBreakerAIState } from '../../ai/blockbreaker/BlockBreakerAIAnalyzer'
 import { BlockBreakerGameEvent } from '../../ai/blockbreaker/BlockBreakerBehaviorTypes'
 import KAI from '../../components/KAI'
 import { useAudio } from '../../audio/useAudio'
+import InputManager from '../../input/InputManager'
+import { useInput } from '../../input/useInput'
 
 interface BlockBreakerProps {
-  onGameEnd: (result: 'won' | 'lost', duration: number, score: number) => void
-  onAIStateChange: (aiState: BlockBreakerAIState) => void
+  onGameEnd?: (result: 'won' | 'lost', duration: number, score: number) => void
+  onAIStateChange?: (aiState: BlockBreakerAIState) => void
+  onGameReady?: (game: GameLifecycle) => void
+  createAnalyzer?: (random: SeededRandom) => BlockBreakerAIAnalyzer
+  snapshot?: GameSnapshot
 }
 
-const BlockBreaker: React.FC<BlockBreakerProps> = ({ onGameEnd, onAIStateChange }) => {
+const BlockBreaker: React.FC<BlockBreakerProps> = ({ onGameEnd, onAIStateChange, onGameReady, createAnalyzer = (random) => new BlockBreakerAIAnalyzer(undefined, random), snapshot }) => {
   const gameRef = useRef<BlockBreakerGame>()
   const aiAnalyzerRef = useRef<BlockBreakerAIAnalyzer>()
-  const gameLoopRef = useRef<number>()
-  const gameStartTimeRef = useRef<number>(0)
-  const lastPaddleHitTimeRef = useRef<number>(0)
   
   const [gameData, setGameData] = useState(() => {
     const game = new BlockBreakerGame(800, 600)
@@ -34,273 +39,148 @@ const BlockBreaker: React.FC<BlockBreakerProps> = ({ onGameEnd, onAIStateChange
     right: false
   })
 
+  // Hand the game to the container for generic pause/resume/restart
+  useEffect(() => {
+    if (gameRef.current) {
+      onGameReady?.(gameRef.current)
+    }
+    return () => gameRef.current?.destroy()
+  }, [])
+
   // Initialize AI analyzer
   useEffect(() => {
-    if (!aiAnalyzerRef.current) {
-      aiAnalyzerRef.current = new BlockBreakerAIAnalyzer()
-      const initialState = aiAnalyzerRef.current.initializeGame(800)
-      setAIState(initialState)
-      onAIStateChange(initialState)
+    if (!aiAnalyzerRef.current && gameRef.current) {
+      const aiAnalyzer = createAnalyzer(gameRef.current.getRandom())
+      aiAnalyzerRef.current = aiAnalyzer
+      aiAnalyzer.attachTo(gameRef.current)
+      // Restore behavior history before generating start commentary
+      const game = gameRef.current
+      void aiAnalyzer.initialize().then(() => {
+        const initialState = aiAnalyzer.initializeGame(800)
+        setAIState(initialState)
+        onAIStateChange?.(initialState)
+
+        // A suspended run brings its corruption back with it, so it goes on top of the fresh game
+        if (snapshot && gameRef.current === game && game.restoreSnapshot(snapshot)) {
+          const newAIState = aiAnalyzer.processGameEvent({
+            type: 'game_start',
+            timestamp: GameClock.now(),
+            data: { seed: game.getSeed() }
+          })
+          setAIState(newAIState)
+          onAIStateChange?.(newAIState)
+          setGameData(game.getRenderData(1))
+        }
+      })
     }
   }, [onAIStateChange])
 
-  // Game loop
-  const gameLoop = useCallback(() => {
-    const game = gameRef.current
-    const aiAnalyzer = aiAnalyzerRef.current
-    if (!game || !aiAnalyzer) return
-
-    // Handle paddle movement
-    if (keys.left) {
-      game.movePaddle('left')
-    }
-    if (keys.right) {
-      game.movePaddle('right')
-    }
+  // Held keys steer the paddle on every step of the game's loop
+  useEffect(() => {
+    gameRef.current?.setSteering(keys)
+  }, [keys])
 
-    // Update game state
-    const updateResult = game.update()
-    const currentTime = Date.now()
+  // The game runs its own fixed-step loop - this redraws after each display frame's steps
+  useEffect(() => {
+    const game = gameRef.current
+    if (!game) return
 
-    // Apply AI corruption effects before game update
-    if (aiAnalyzerRef.current) {
-      const ballSpeedMultiplier = aiAnalyzer.getBallSpeedMultiplier()
-      const paddleWidthMultiplier = aiAnalyzer.getPaddleWidthMultiplier()
-      const paddleDrift = aiAnalyzer.getPaddleDrift()
-      const bounceAngleBias = aiAnalyzer.getBounceAngleBias()
-      const fakeBlocks = aiAnalyzer.getFakeBlocks()
-      const regeneratingBlocks = aiAnalyzer.getRegeneratingBlocks()
-      
-      // Apply effects to game
-      game.applyCorruptionEffects({
-        ballSpeedMultiplier,
-        paddleWidthMultiplier,
-        paddleDrift,
-        bounceAngleBias
+    return game.onFrame(alpha => {
+      const aiAnalyzer = aiAnalyzerRef.current
+      if (!aiAnalyzer) return
+      const currentTime = GameClock.now()
+
+      // Process AI events asynchronously to prevent game pausing
+      aiAnalyzer.takeFrameEvents().forEach(event => {
+        setTimeout(() => {
+          const newAIState = aiAnalyzer.processGameEvent(event)
+          setAIState(newAIState)
+          onAIStateChange?.(newAIState)
+        }, 0)
       })
-      
-      // Check fake block collisions
-      const fakeBlockHit = game.checkFakeBlockCollision(fakeBlocks)
-      if (fakeBlockHit) {
-        aiAnalyzer.onFakeBlockHit(fakeBlockHit.x, fakeBlockHit.y)
-      }
-      
-      // Check regenerating block collisions
-      const regenBlockHit = game.checkRegeneratingBlockCollision(regeneratingBlocks)
-      if (regenBlockHit) {
-        aiAnalyzer.onRegeneratingBlockHit(regenBlockHit.x, regenBlockHit.y)
-        // Treat as block hit for scoring
-        updateResult.blockHit = true
-      }
-      
-      // Check stubborn block collisions
-      const stubbornBlocks = aiAnalyzer.getStubbornBlocks()
-      const stubbornBlockHit = game.checkStubbornBlockCollision(stubbornBlocks)
-      if (stubbornBlockHit) {
-        aiAnalyzer.onStubbornBlockHit()
-      }
-      
-      // Add fully regenerated blocks as real blocks
-      const fullyRegenerated = aiAnalyzer.getFullyRegeneratedBlocks()
-      if (fullyRegenerated.length > 0) {
-        game.addRegeneratedBlocks(fullyRegenerated)
-        // Update the game data to reflect new block count
-        setGameData(game.getGameData())
-      }
-    }
 
-    // Process AI events asynchronously to prevent game pausing
-    if (updateResult.ballMissed && updateResult.ballPosition) {
-      const event: BlockBreakerGameEvent = {
-        type: 'ball_missed',
-        timestamp: currentTime,
-        data: {
-          ballPosition: updateResult.ballPosition,
-          blocksRemaining: updateResult.blocksRemaining
+      // Check for game end - the loop stops with it, so this runs once
+      const currentState = game.getGameState()
+      if (currentState === 'game_over' || currentState === 'won') {
+        const duration = game.getGameDuration()
+        const score = game.getScore()
+        const result = currentState === 'won' ? 'won' : 'lost'
+        
+        // Play appropriate sound effect
+        playSFX(result === 'won' ? 'youWin' : 'gameOver', 'blockbreaker');
+        
+        // Send game end event to AI
+        const event: BlockBreakerGameEvent = {
+          type: 'game_end',
+          timestamp: currentTime,
+          data: {
+            score,
+            blocksRemaining: game.getRemainingBlocks()
+          }
         }
-      }
-      // Process asynchronously
-      setTimeout(() => {
         const newAIState = aiAnalyzer.processGameEvent(event)
         setAIState(newAIState)
-        onAIStateChange(newAIState)
-      }, 0)
-    }
-
-    if (updateResult.paddleHit && updateResult.paddlePosition !== undefined) {
-      const reactionTime = lastPaddleHitTimeRef.current > 0 
-        ? currentTime - lastPaddleHitTimeRef.current 
-        : 0
-      
-      const event: BlockBreakerGameEvent = {
-        type: 'paddle_hit',
-        timestamp: currentTime,
-        data: {
-          paddlePosition: updateResult.paddlePosition,
-          reactionTime
-        }
+        onAIStateChange?.(newAIState)
+        
+        onGameEnd?.(result, duration, score)
       }
-      // Process asynchronously
-      setTimeout(() => {
-        const newAIState = aiAnalyzer.processGameEvent(event)
-        setAIState(newAIState)
-        onAIStateChange(newAIState)
-      }, 0)
-      
-      lastPaddleHitTimeRef.current = currentTime
-    }
 
-    if (updateResult.blockHit) {
-      const event: BlockBreakerGameEvent = {
-        type: 'block_hit',
-        timestamp: currentTime,
-        data: {
-          blocksRemaining: updateResult.blocksRemaining,
-          score: game.getScore()
-        }
-      }
-      // Process asynchronously
-      setTimeout(() => {
-        const newAIState = aiAnalyzer.processGameEvent(event)
-        setAIState(newAIState)
-        onAIStateChange(newAIState)
-      }, 0)
-    }
-
-    // Check win condition - only real blocks count, fake/stubborn blocks don't prevent winning
-    if (aiAnalyzerRef.current && updateResult.blocksRemaining !== undefined) {
-      // Win when all real blocks are destroyed (corruption blocks don't count)
-      if (updateResult.blocksRemaining === 0) {
-        const gameData = game.getGameData()
-        if (gameData.gameState === 'playing') {
-          game.setGameWon()
-          updateResult.gameWon = true
-        }
-      }
-    }
+      // The corruption overlay lives in the AI, so frames are captured here rather than in the game
+      game.getRecorder().captureFrame(
+        { ...game.getGameData(), corruption: aiAnalyzer.getCorruptionState() },
+        currentState === 'game_over' || currentState === 'won'
+      )
+      setGameData(game.getRenderData(alpha))
+    })
+  }, [onGameEnd, onAIStateChange, playSFX])
+
+  // Directions steer while held, CONFIRM starts, pauses and plays again - pause and back are the container's
+  useInput((event) => {
+    const game = gameRef.current
+    const aiAnalyzer = aiAnalyzerRef.current
+    if (!game || !aiAnalyzer) return
 
-    // Check for game end
-    const currentState = game.getGameState()
-    if (currentState === 'game_over' || currentState === 'won') {
-      const duration = currentTime - gameStartTimeRef.current
-      const score = game.getScore()
-      const result = currentState === 'won' ? 'won' : 'lost'
-      
-      // Play appropriate sound effect
-      playSFX(result === 'won' ? 'youWin' : 'gameOver', 'block-breaker');
-      
-      // Send game end event to AI
-      const event: BlockBreakerGameEvent = {
-        type: 'game_end',
-        timestamp: currentTime,
-        data: {
-          score,
-          blocksRemaining: game.getRemainingBlocks()
-        }
-      }
-      const newAIState = aiAnalyzer.processGameEvent(event)
-      setAIState(newAIState)
-      onAIStateChange(newAIState)
-      
-      onGameEnd(result, duration, score)
-      
-      if (gameLoopRef.current) {
-        cancelAnimationFrame(gameLoopRef.current)
-        gameLoopRef.current = undefined
-      }
-    } else {
-      gameLoopRef.current = requestAnimationFrame(gameLoop)
+    if (event.action === 'left' || event.action === 'right') {
+      const input = InputManager.getInstance()
+      setKeys({ left: input.isHeld('left'), right: input.isHeld('right') })
+      return
     }
+    if (event.action !== 'confirm' || !event.pressed || event.repeat) return
 
-    setGameData(game.getGameData())
-  }, [keys, onGameEnd, onAIStateChange])
-
-  // Keyboard event handlers
-  useEffect(() => {
-    const handleKeyDown = (e: KeyboardEvent) => {
-      const game = gameRef.current
-      const aiAnalyzer = aiAnalyzerRef.current
-      if (!game || !aiAnalyzer) return
-
-      switch (e.code) {
-        case 'ArrowLeft':
-          e.preventDefault()
-          setKeys(prev => ({ ...prev, left: true }))
-          break
-        case 'ArrowRight':
-          e.preventDefault()
-          setKeys(prev => ({ ...prev, right: true }))
-          break
-        case 'Space':
-          e.preventDefault()
-          if (game.getGameState() === 'waiting') {
-            game.startGame()
-            gameStartTimeRef.current = Date.now()
-            lastPaddleHitTimeRef.current = 0
-            
-            // Send game start event to AI
-            const event: BlockBreakerGameEvent = {
-              type: 'game_start',
-              timestamp: Date.now()
-            }
-            const newAIState = aiAnalyzer.processGameEvent(event)
-            setAIState(newAIState)
-            onAIStateChange(newAIState)
-            
-            if (!gameLoopRef.current) {
-              gameLoopRef.current = requestAnimationFrame(gameLoop)
-            }
-          } else if (game.getGameState() === 'paused') {
-            game.resumeGame()
-            if (!gameLoopRef.current) {
-              gameLoopRef.current = requestAnimationFrame(gameLoop)
-            }
-          } else if (game.getGameState() === 'playing') {
-            game.pauseGame()
-            if (gameLoopRef.current) {
-              cancelAnimationFrame(gameLoopRef.current)
-              gameLoopRef.current = undefined
-            }
-          }
-          break
-        case 'KeyR':
-          if (game.getGameState() === 'game_over' || game.getGameState() === 'won') {
-            game.resetGame()
-            // Reset AI corruption
-            if (aiAnalyzer) {
-              aiAnalyzer.resetCorruption()
-              const resetState = aiAnalyzer.initializeGame(800)
-              setAIState(resetState)
-              onAIStateChange(resetState)
-            }
-            setGameData(game.getGameData())
-          }
-          break
-      }
-    }
+    switch (game.getGameState()) {
+      case 'waiting': {
+        game.start()
 
-    const handleKeyUp = (e: KeyboardEvent) => {
-      switch (e.code) {
-        case 'ArrowLeft':
-          setKeys(prev => ({ ...prev, left: false }))
-          break
-        case 'ArrowRight':
-          setKeys(prev => ({ ...prev, right: false }))
-          break
+        // Send game start event to AI
+        const startEvent: BlockBreakerGameEvent = {
+          type: 'game_start',
+          timestamp: GameClock.now(),
+          data: { seed: game.getSeed() }
+        }
+        const newAIState = aiAnalyzer.processGameEvent(startEvent)
+        setAIState(newAIState)
+        onAIStateChange?.(newAIState)
+        break
       }
-    }
-
-    window.addEventListener('keydown', handleKeyDown)
-    window.addEventListener('keyup', handleKeyUp)
-
-    return () => {
-      window.removeEventListener('keydown', handleKeyDown)
-      window.removeEventListener('keyup', handleKeyUp)
-      if (gameLoopRef.current) {
-        cancelAnimationFrame(gameLoopRef.current)
+      case 'paused':
+        game.resume()
+        break
+      case 'playing':
+        game.pause()
+        break
+      case 'game_over':
+      case 'won': {
+        game.reset()
+        // Reset AI corruption
+        aiAnalyzer.resetCorruption()
+        const resetState = aiAnalyzer.initializeGame(800)
+        setAIState(resetState)
+        onAIStateChange?.(resetState)
+        setGameData(game.getGameData())
+        break
       }
     }
-  }, [gameLoop, onAIStateChange])
+  })
 
   // Mouse control for paddle
   const handleMouseMove = (e: React.MouseEvent<HTMLDivElement>) => {
@@ -316,14 +196,7 @@ const BlockBreaker: React.FC<BlockBreakerProps> = ({ onGameEnd, onAIStateChange
     game.setPaddlePosition(mouseX)
   }
 
-  // Cleanup on unmount
-  useEffect(() => {
-    return () => {
-      if (gameLoopRef.current) {
-        cancelAnimationFrame(gameLoopRef.current)
-      }
-    }
-  }, [])
+  const input = InputManager.getInstance()
 
   return (
     <div style={{
@@ -360,8 +233,8 @@ const BlockBreaker: React.FC<BlockBreakerProps> = ({ onGameEnd, onAIStateChange
         padding: '8px 16px',
         border: '2px inset #c0c0c0'
       }}>
-        <div>ARROW KEYS or MOUSE: Move Paddle</div>
-        <div>SPACE: Start/Pause | R: Restart</div>
+        <div>{input.getActionLabel('left')} {input.getActionLabel('right')} or MOUSE: Move Paddle</div>
+        <div>{input.getActionLabel('confirm')}: Start/Pause/Restart</div>
       </div>
     </div>
   )
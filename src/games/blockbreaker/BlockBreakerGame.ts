@@ -1,5 +1,9 @@
 // Block Breaker Game - Core game mechanics and physics
 
+import { BaseGame, GameResultFacts, GameStatus } from '../engine/GameEngine'
+import { SeededRandom } from '../engine/SeededRandom'
+import { GameClock } from '../engine/GameClock'
+
 export interface Position {
   x: number
   y: number
@@ -42,6 +46,17 @@ export interface CorruptionEffects {
   bounceAngleBias: number
 }
 
+// What one frame of rules produced - the AI reacts to these
+export interface BlockBreakerUpdateResult {
+  ballMissed?: boolean
+  paddleHit?: boolean
+  blockHit?: boolean
+  gameWon?: boolean
+  ballPosition?: Position
+  paddlePosition?: number
+  blocksRemaining?: number
+}
+
 export interface BlockBreakerGameData {
   ball: Ball
   paddle: Paddle
@@ -53,8 +68,19 @@ export interface BlockBreakerGameData {
   gameHeight: number
 }
 
-export class BlockBreakerGame {
+// The AI's corruption state is saved by the analyzer through a snapshot extension
+interface BlockBreakerSnapshotData {
+  data: BlockBreakerGameData
+  corruptionEffects: CorruptionEffects
+  startTime: number | null
+  previousBall: Position
+  stepAccumulator: number
+}
+
+export class BlockBreakerGame extends BaseGame {
   private gameData: BlockBreakerGameData
+  private startTime: Date | null = null
+  private endTime: Date | null = null
   private readonly PADDLE_SPEED = 8
   private readonly BALL_SPEED = 4
   private readonly BLOCK_ROWS = 6
@@ -72,7 +98,22 @@ export class BlockBreakerGame {
     bounceAngleBias: 0
   }
 
-  constructor(width: number = 800, height: number = 600) {
+  // Held keys move the paddle every frame - only presses and releases are recorded
+  private heldPaddleDirection: 'left' | 'right' | null = null
+  private recordedPaddleDirection: 'left' | 'right' | null = null
+  private lastRecordedPaddleX: number | null = null
+
+  // The physics is tuned per 60fps frame, so step() always advances in whole frames
+  private readonly FRAME_TIME = 1000 / 60
+  private stepAccumulator = 0
+  // Where the ball was before the latest frame, for drawing it between frames
+  private previousBall: Position = { x: 0, y: 0 }
+  private steering = { left: false, right: false }
+  // AI corruption hooks in after every frame of rules
+  private frameCallback: ((result: BlockBreakerUpdateResult) => void) | null = null
+
+  constructor(width: number = 800, height: number = 600, random?: SeededRandom) {
+    super('blockbreaker', { width, height, fps: 60 }, random)
     this.gameData = {
       ball: {
         x: width / 2,
@@ -118,29 +159,49 @@ export class BlockBreakerGame {
     }
   }
 
-  startGame(): void {
+  start(): void {
     if (this.gameData.gameState === 'waiting' || this.gameData.gameState === 'game_over') {
       this.gameData.gameState = 'playing'
+      this.startTime = GameClock.date()
+      this.endTime = null
       this.resetBall()
+      this.heldPaddleDirection = null
+      this.recordedPaddleDirection = null
+      this.lastRecordedPaddleX = null
+      this.recorder.begin(this.getSeed())
+      this.startLoop()
+      this.notifyStatus()
     }
   }
 
-  pauseGame(): void {
+  pause(): void {
     if (this.gameData.gameState === 'playing') {
       this.gameData.gameState = 'paused'
+      this.recorder.pause()
+      this.stopLoop()
+      this.notifyStatus()
     }
   }
 
-  resumeGame(): void {
+  resume(): void {
     if (this.gameData.gameState === 'paused') {
       this.gameData.gameState = 'playing'
+      this.recorder.resume()
+      this.startLoop()
+      this.notifyStatus()
     }
   }
 
-  resetGame(): void {
+  reset(seed?: number): void {
+    this.stopLoop()
+    this.reseed(seed)
+    this.recorder.clear()
     this.gameData.score = 0
     this.gameData.lives = 3
     this.gameData.gameState = 'waiting'
+    this.startTime = null
+    this.endTime = null
+    this.stepAccumulator = 0
     this.initializeBlocks()
     this.resetBall()
     // Reset corruption effects
@@ -150,6 +211,7 @@ export class BlockBreakerGame {
       paddleDrift: 0,
       bounceAngleBias: 0
     }
+    this.notifyStatus()
   }
 
   private resetBall(): void {
@@ -157,13 +219,16 @@ export class BlockBreakerGame {
     this.gameData.ball.y = this.gameData.gameHeight - 100
     
     // Random angle between -45 and 45 degrees
-    const angle = (Math.random() - 0.5) * Math.PI / 2
+    const angle = (this.random.next() - 0.5) * Math.PI / 2
     this.gameData.ball.velocity.x = Math.sin(angle) * this.BALL_SPEED
     this.gameData.ball.velocity.y = -Math.cos(angle) * this.BALL_SPEED
+    // A fresh serve is drawn where it starts, not swept across from where the ball was lost
+    this.previousBall = { x: this.gameData.ball.x, y: this.gameData.ball.y }
   }
 
   movePaddle(direction: 'left' | 'right'): void {
     if (this.gameData.gameState !== 'playing') return
+    this.heldPaddleDirection = direction
 
     if (direction === 'left') {
       this.gameData.paddle.x = Math.max(0, this.gameData.paddle.x - this.PADDLE_SPEED)
@@ -177,6 +242,12 @@ export class BlockBreakerGame {
 
   setPaddlePosition(x: number): void {
     if (this.gameData.gameState !== 'playing') return
+
+    const roundedX = Math.round(x)
+    if (roundedX !== this.lastRecordedPaddleX) {
+      this.recorder.recordInput('paddle_to', roundedX)
+      this.lastRecordedPaddleX = roundedX
+    }
     
     this.gameData.paddle.x = Math.max(0, Math.min(
       this.gameData.gameWidth - this.gameData.paddle.width,
@@ -186,6 +257,15 @@ export class BlockBreakerGame {
 
   // Apply AI corruption effects
   applyCorruptionEffects(effects: CorruptionEffects): void {
+    const previous = this.corruptionEffects
+    if (
+      effects.ballSpeedMultiplier !== previous.ballSpeedMultiplier ||
+      effects.paddleWidthMultiplier !== previous.paddleWidthMultiplier ||
+      effects.paddleDrift !== previous.paddleDrift ||
+      effects.bounceAngleBias !== previous.bounceAngleBias
+    ) {
+      this.recorder.recordAIEvent('corruption', { ...effects })
+    }
     this.corruptionEffects = { ...effects }
     
     // Apply paddle width corruption
@@ -203,17 +283,10 @@ export class BlockBreakerGame {
     }
   }
 
-  update(): { 
-    ballMissed?: boolean
-    paddleHit?: boolean
-    blockHit?: boolean
-    gameWon?: boolean
-    ballPosition?: Position
-    paddlePosition?: number
-    blocksRemaining?: number
-  } {
+  update(): BlockBreakerUpdateResult {
     if (this.gameData.gameState !== 'playing') return {}
 
+    this.recordPaddleInput()
     const result: any = {}
     
     // Apply corruption effects to ball speed
@@ -226,7 +299,7 @@ export class BlockBreakerGame {
     
     // Apply paddle drift corruption
     if (this.corruptionEffects.paddleDrift !== 0) {
-      const drift = (Math.random() - 0.5) * this.corruptionEffects.paddleDrift * 2
+      const drift = (this.random.next() - 0.5) * this.corruptionEffects.paddleDrift * 2
       this.gameData.paddle.x += drift
       this.gameData.paddle.x = Math.max(0, Math.min(
         this.gameData.gameWidth - this.gameData.paddle.width,
@@ -295,7 +368,7 @@ export class BlockBreakerGame {
     let angle = (hitPos - 0.5) * Math.PI / 3 // Max 60 degrees
     
     // Apply corruption bounce angle bias
-    angle += this.corruptionEffects.bounceAngleBias * (Math.random() - 0.5) * Math.PI / 4
+    angle += this.corruptionEffects.bounceAngleBias * (this.random.next() - 0.5) * Math.PI / 4
     
     const speed = Math.sqrt(ball.velocity.x ** 2 + ball.velocity.y ** 2)
     
@@ -334,7 +407,7 @@ export class BlockBreakerGame {
     this.gameData.lives--
     
     if (this.gameData.lives <= 0) {
-      this.gameData.gameState = 'game_over'
+      this.endGame('game_over')
     } else {
       this.resetBall()
     }
@@ -344,6 +417,19 @@ export class BlockBreakerGame {
     return { ...this.gameData }
   }
 
+  // alpha is how far game time is into the next frame - the ball is drawn that far along its last move
+  getRenderData(alpha: number): BlockBreakerGameData {
+    const ball = this.gameData.ball
+    return {
+      ...this.gameData,
+      ball: {
+        ...ball,
+        x: this.previousBall.x + (ball.x - this.previousBall.x) * alpha,
+        y: this.previousBall.y + (ball.y - this.previousBall.y) * alpha
+      }
+    }
+  }
+
   getScore(): number {
     return this.gameData.score
   }
@@ -356,6 +442,117 @@ export class BlockBreakerGame {
     return this.gameData.gameState
   }
 
+  // Keys held until the next call - applied at the start of every frame
+  setSteering(steering: { left: boolean; right: boolean }): void {
+    this.steering = { ...steering }
+  }
+
+  setFrameCallback(callback: ((result: BlockBreakerUpdateResult) => void) | null): void {
+    this.frameCallback = callback
+  }
+
+  step(dt: number): void {
+    if (this.gameData.gameState !== 'playing') return
+
+    this.stepAccumulator += dt
+    while (this.stepAccumulator >= this.FRAME_TIME && this.gameData.gameState === 'playing') {
+      this.stepAccumulator -= this.FRAME_TIME
+      this.stepFrame()
+    }
+  }
+
+  private stepFrame(): void {
+    this.previousBall = { x: this.gameData.ball.x, y: this.gameData.ball.y }
+    if (this.steering.left) {
+      this.movePaddle('left')
+    }
+    if (this.steering.right) {
+      this.movePaddle('right')
+    }
+
+    const result = this.update()
+    this.frameCallback?.(result)
+
+    // Only real blocks count - the AI's fake and stubborn blocks never hold up a win
+    if (result.blocksRemaining === 0) {
+      this.setGameWon()
+    }
+  }
+
+  destroy(): void {
+    this.pause()
+    this.stopLoop()
+  }
+
+  // Shared lifecycle state
+  protected getStatus(): GameStatus {
+    switch (this.gameData.gameState) {
+      case 'waiting':
+        return 'ready'
+      case 'playing':
+        return 'running'
+      case 'paused':
+        return 'paused'
+      case 'game_over':
+        return 'over'
+      case 'won':
+        return 'won'
+    }
+  }
+
+  protected getResultFacts(): GameResultFacts {
+    return { livesLeft: this.gameData.lives }
+  }
+
+  protected getStartTime(): Date | null {
+    return this.startTime
+  }
+
+  protected getEndTime(): Date | null {
+    return this.endTime
+  }
+
+  protected serializeData(): BlockBreakerSnapshotData {
+    return {
+      data: this.gameData,
+      corruptionEffects: this.corruptionEffects,
+      startTime: this.startTime ? this.startTime.getTime() : null,
+      previousBall: this.previousBall,
+      stepAccumulator: this.stepAccumulator
+    }
+  }
+
+  protected restoreData(saved: BlockBreakerSnapshotData, timeShift: number): void {
+    this.gameData = { ...saved.data, gameState: 'paused' }
+    this.corruptionEffects = { ...saved.corruptionEffects }
+    this.startTime = saved.startTime === null ? null : new Date(saved.startTime + timeShift)
+    this.endTime = null
+    this.previousBall = { ...saved.previousBall }
+    this.stepAccumulator = saved.stepAccumulator
+    this.steering = { left: false, right: false }
+    this.heldPaddleDirection = null
+    this.recordedPaddleDirection = null
+    this.lastRecordedPaddleX = null
+  }
+
+  private endGame(state: 'game_over' | 'won'): void {
+    this.gameData.gameState = state
+    this.endTime = GameClock.date()
+    this.stopLoop()
+    this.notifyStatus()
+  }
+
+  private recordPaddleInput(): void {
+    if (this.heldPaddleDirection !== this.recordedPaddleDirection) {
+      this.recorder.recordInput(
+        this.heldPaddleDirection ? 'paddle_press' : 'paddle_release',
+        this.heldPaddleDirection ?? this.recordedPaddleDirection
+      )
+      this.recordedPaddleDirection = this.heldPaddleDirection
+    }
+    this.heldPaddleDirection = null
+  }
+
   getRemainingBlocks(): number {
     return this.gameData.blocks.filter(block => !block.destroyed).length
   }
@@ -415,6 +612,7 @@ export class BlockBreakerGame {
 
   // Add regenerated blocks as real blocks
   addRegeneratedBlocks(blocks: Array<{ x: number; y: number; width: number; height: number }>): void {
+    this.recorder.recordAIEvent('blocks_regenerated', { count: blocks.length })
     blocks.forEach(block => {
       this.gameData.blocks.push({
         x: block.x,
@@ -433,7 +631,7 @@ export class BlockBreakerGame {
     const hasWon = remainingBlocks === 0 && corruptionBlockCount === 0
     
     if (hasWon && this.gameData.gameState === 'playing') {
-      this.gameData.gameState = 'won'
+      this.endGame('won')
     }
     
     return hasWon
@@ -442,7 +640,7 @@ export class BlockBreakerGame {
   // Set game state to won (for new win condition)
   setGameWon(): void {
     if (this.gameData.gameState === 'playing') {
-      this.gameData.gameState = 'won'
+      this.endGame('won')
     }
   }
 }
\ No newline at end of file
@@ -1,12 +1,16 @@
 // Block Breaker Renderer - Canvas-based rendering for retro aesthetics
 
 import { useEffect, useRef } from 'react'
-import { BlockBreakerGameData } from './BlockBreakerGame'
+import { Ball, Block, BlockBreakerGameData, Paddle } from './BlockBreakerGame'
 import { BlockBreakerAIState } from '../../ai/blockbreaker/BlockBreakerAIAnalyzer'
+import InputManager from '../../input/InputManager'
+
+// Only the corruption overlay is drawn, so replays can supply it without a live AI
+type RenderedAIState = Pick<BlockBreakerAIState, 'corruptionState'>
 
 interface BlockBreakerRendererProps {
   gameData: BlockBreakerGameData
-  aiState: BlockBreakerAIState | null
+  aiState: RenderedAIState | null
   width: number
   height: number
 }
@@ -47,7 +51,7 @@ const BlockBreakerRenderer: React.FC<BlockBreakerRendererProps> = ({
 
   }, [gameData, aiState, width, height])
 
-  const drawBlocks = (ctx: CanvasRenderingContext2D, blocks: any[]) => {
+  const drawBlocks = (ctx: CanvasRenderingContext2D, blocks: Block[]) => {
     blocks.forEach(block => {
       if (block.destroyed) return
 
@@ -71,7 +75,7 @@ const BlockBreakerRenderer: React.FC<BlockBreakerRendererProps> = ({
     })
   }
 
-  const drawPaddle = (ctx: CanvasRenderingContext2D, paddle: any, aiState: BlockBreakerAIState | null) => {
+  const drawPaddle = (ctx: CanvasRenderingContext2D, paddle: Paddle, aiState: RenderedAIState | null) => {
     // Paddle shadow
     ctx.fillStyle = '#000000'
     ctx.fillRect(paddle.x + 2, paddle.y + 2, paddle.width, paddle.height)
@@ -103,7 +107,7 @@ const BlockBreakerRenderer: React.FC<BlockBreakerRendererProps> = ({
     }
   }
 
-  const drawBall = (ctx: CanvasRenderingContext2D, ball: any, aiState: BlockBreakerAIState | null) => {
+  const drawBall = (ctx: CanvasRenderingContext2D, ball: Ball, aiState: RenderedAIState | null) => {
     // Ball shadow
     ctx.fillStyle = 'rgba(0, 0, 0, 0.3)'
     ctx.beginPath()
@@ -143,7 +147,7 @@ const BlockBreakerRenderer: React.FC<BlockBreakerRendererProps> = ({
     }
   }
 
-  const drawUI = (ctx: CanvasRenderingContext2D, gameData: BlockBreakerGameData, width: number, aiState: BlockBreakerAIState | null) => {
+  const drawUI = (ctx: CanvasRenderingContext2D, gameData: BlockBreakerGameData, width: number, aiState: RenderedAIState | null) => {
     ctx.font = '16px Courier New, monospace'
     ctx.fillStyle = '#4ECDC4'
     
@@ -171,20 +175,24 @@ const BlockBreakerRenderer: React.FC<BlockBreakerRendererProps> = ({
     width: number, 
     height: number
   ) => {
+    // Prompts name whatever keys the player has bound
+    const input = InputManager.getInstance()
+    const confirmKey = input.getActionLabel('confirm')
+
     if (gameData.gameState === 'waiting') {
-      drawCenteredText(ctx, 'PRESS SPACE TO START', width, height, '#4ECDC4', '20px')
-      drawCenteredText(ctx, 'USE ARROW KEYS OR MOUSE TO MOVE PADDLE', width, height + 30, '#95A5A6', '14px')
+      drawCenteredText(ctx, `PRESS ${confirmKey} TO START`, width, height, '#4ECDC4', '20px')
+      drawCenteredText(ctx, `USE ${input.getActionLabel('left')} ${input.getActionLabel('right')} OR MOUSE TO MOVE PADDLE`, width, height + 30, '#95A5A6', '14px')
     } else if (gameData.gameState === 'paused') {
       drawCenteredText(ctx, 'PAUSED', width, height, '#F39C12', '24px')
-      drawCenteredText(ctx, 'PRESS SPACE TO RESUME', width, height + 30, '#95A5A6', '16px')
+      drawCenteredText(ctx, `PRESS ${confirmKey} TO RESUME`, width, height + 30, '#95A5A6', '16px')
     } else if (gameData.gameState === 'game_over') {
       drawCenteredText(ctx, 'GAME OVER', width, height, '#E74C3C', '28px')
       drawCenteredText(ctx, `FINAL SCORE: ${gameData.score}`, width, height + 40, '#95A5A6', '18px')
-      drawCenteredText(ctx, 'PRESS R TO RESTART', width, height + 70, '#4ECDC4', '16px')
+      drawCenteredText(ctx, `PRESS ${confirmKey} TO RESTART`, width, height + 70, '#4ECDC4', '16px')
     } else if (gameData.gameState === 'won') {
       drawCenteredText(ctx, 'VICTORY!', width, height, '#27AE60', '32px')
       drawCenteredText(ctx, `FINAL SCORE: ${gameData.score}`, width, height + 50, '#95A5A6', '20px')
-      drawCenteredText(ctx, 'PRESS R TO PLAY AGAIN', width, height + 80, '#4ECDC4', '16px')
+      drawCenteredText(ctx, `PRESS ${confirmKey} TO PLAY AGAIN`, width, height + 80, '#4ECDC4', '16px')
     }
   }
 
@@ -0,0 +1,85 @@
+// Built-in games - Registers the console's own titles with the game registry
+
+import { GameRegistry, defineGame } from './GameRegistry'
+import Snake from './snake/Snake'
+import Minesweeper from './minesweeper/Minesweeper'
+import PacMan from './pacman/PacMan'
+import BlockBreaker from './blockbreaker/BlockBreaker'
+import { SnakeAIAnalyzer } from '../ai/snake/SnakeAIAnalyzer'
+import { MinesweeperAIAnalyzer } from '../ai/minesweeper/MinesweeperAIAnalyzer'
+import { PacManAIAnalyzer } from '../ai/pacman/PacManAIAnalyzer'
+import { BlockBreakerAIAnalyzer } from '../ai/blockbreaker/BlockBreakerAIAnalyzer'
+import { SNAKE_ACHIEVEMENTS } from '../ai/snake/SnakeAchievements'
+import { MINESWEEPER_ACHIEVEMENTS } from '../ai/minesweeper/MinesweeperAchievements'
+import { PACMAN_ACHIEVEMENTS } from '../ai/pacman/PacManAchievements'
+import { BLOCKBREAKER_ACHIEVEMENTS } from '../ai/blockbreaker/BlockBreakerAchievements'
+import {
+  SnakeReplayRenderer,
+  MinesweeperReplayRenderer,
+  PacManReplayRenderer,
+  BlockBreakerReplayRenderer
+} from './replay/ReplayRenderers'
+
+let registered = false
+
+export function registerBuiltInGames(registry: GameRegistry = GameRegistry.getInstance()): void {
+  if (registered) return
+  registered = true
+
+  registry.register(defineGame({
+    id: 'snake',
+    name: 'Snake',
+    subtitle: 'Goal: Score 500 (Impossible)',
+    description: 'The rules are familiar.\nThe board is not.\nSomething is learning how you move — and it gets bored easily.\nGoal: Reach a score of 500. Impossible? Possibly',
+    bannerImage: 'banners/snake.png',
+    playerCount: 1,
+    component: Snake,
+    createAnalyzer: (random) => new SnakeAIAnalyzer(undefined, random),
+    replayRenderer: SnakeReplayRenderer,
+    achievements: SNAKE_ACHIEVEMENTS,
+    failureScore: 30,
+    sfx: { gameOver: 'music/game-over.mp3' }
+  }))
+
+  registry.register(defineGame({
+    id: 'minesweeper',
+    name: 'Minesweeper',
+    subtitle: 'Find the mines\nTrust no one',
+    description: 'The numbers never lie.\nBut they don’t tell the whole truth either.\nTread carefully...',
+    bannerImage: 'banners/minesweeper.png',
+    playerCount: 1,
+    component: Minesweeper,
+    createAnalyzer: (random) => new MinesweeperAIAnalyzer(undefined, random),
+    replayRenderer: MinesweeperReplayRenderer,
+    achievements: MINESWEEPER_ACHIEVEMENTS,
+    sfx: { gameOver: 'music/explosion.mp3' }
+  }))
+
+  registry.register(defineGame({
+    id: 'pacman',
+    name: 'Pac-Man',
+    subtitle: 'But with a twist',
+    description: 'You’ve memorized the maze.\nThey’ve memorized you.\nRunning won’t feel the same this time.',
+    bannerImage: 'banners/pacman.png',
+    playerCount: 1,
+    component: PacMan,
+    createAnalyzer: (random) => new PacManAIAnalyzer(undefined, random),
+    replayRenderer: PacManReplayRenderer,
+    achievements: PACMAN_ACHIEVEMENTS,
+    sfx: { gameOver: 'music/pac-man.mp3' }
+  }))
+
+  registry.register(defineGame({
+    id: 'blockbreaker',
+    name: 'Block Breaker',
+    subtitle: 'Chaotic version',
+    description: 'Break the pattern.\nThe pattern breaks back.\nNot all blocks are meant to disappear.',
+    bannerImage: 'banners/block-breaker.png',
+    playerCount: 1,
+    component: BlockBreaker,
+    createAnalyzer: (random) => new BlockBreakerAIAnalyzer(undefined, random),
+    replayRenderer: BlockBreakerReplayRenderer,
+    achievements: BLOCKBREAKER_ACHIEVEMENTS,
+    sfx: { gameOver: 'music/game-over.mp3' }
+  }))
+}
@@ -0,0 +1,48 @@
+// Game Clock - Single time source for game rules and their AI, swappable for headless runs
+
+export interface ClockSource {
+  now(): number
+}
+
+const systemClock: ClockSource = {
+  now: () => Date.now()
+}
+
+// Games and AI systems read time through here instead of Date.now(), so a
+// simulation can drive every timer, cooldown and escalation from one clock
+export class GameClock {
+  private static source: ClockSource = systemClock
+
+  static now(): number {
+    return GameClock.source.now()
+  }
+
+  static date(): Date {
+    return new Date(GameClock.source.now())
+  }
+
+  // Passing null goes back to wall-clock time
+  static use(source: ClockSource | null): void {
+    GameClock.source = source || systemClock
+  }
+}
+
+// Starts well past zero - AI systems treat a timestamp of 0 as "never happened"
+export const SIMULATION_EPOCH = Date.UTC(2024, 0, 1)
+
+// Only moves when told to
+export class SimulatedClock implements ClockSource {
+  private time: number
+
+  constructor(start: number = SIMULATION_EPOCH) {
+    this.time = start
+  }
+
+  now(): number {
+    return this.time
+  }
+
+  advance(ms: number): void {
+    this.time += ms
+  }
+}
@@ -1,10 +1,19 @@
 // Core Game Engine - Base classes and interfaces for all games
 
+import { SeededRandom, RandomState, createSeed } from './SeededRandom'
+import { ReplayRecorder, ReplayRecord, ReplayRecorderState } from './ReplayRecorder'
+import { GameClock } from './GameClock'
+import { GameLoop } from './GameLoop'
+
+// Lifecycle phase shared by every game, whatever its own internal states are
+export type GameStatus = 'ready' | 'running' | 'paused' | 'over' | 'won'
+
 export interface GameState {
+  status: GameStatus
   isRunning: boolean
   isPaused: boolean
   score: number
-  startTime: Date
+  startTime: Date | null
   endTime?: Date
 }
 
@@ -14,28 +23,282 @@ export interface GameConfig {
   fps: number
 }
 
-export abstract class BaseGame {
-  protected state: GameState
+// Notable things about a finished run, e.g. { bestGhostChain: 4 } - what achievements are judged on
+export type GameResultFacts = Record<string, number | boolean>
+
+// Games without difficulties or variants all play this one
+export const DEFAULT_GAME_MODE = 'standard'
+
+export interface GameResult {
+  gameId: string
+  result: 'won' | 'lost'
+  score: number
+  duration: number
+  seed: number
+  // Difficulty or variant played - scores are only ranked against the same mode
+  mode: string
+  // From the game itself plus anything its AI added with addResultFacts
+  facts: GameResultFacts
+}
+
+// Bump when any game's snapshot data changes shape - older snapshots are then ignored
+export const SNAPSHOT_VERSION = 1
+
+// A suspended run - everything needed to pick it back up after a reload
+export interface GameSnapshot {
+  gameId: string
+  version: number
+  seed: number
+  savedAt: number
+  random: RandomState
+  replay: ReplayRecorderState | null
+  // The game's own data, JSON-safe (dates as timestamps)
+  data: unknown
+  // State the game's AI keeps outside the game, e.g. Block Breaker's corruption
+  extension?: unknown
+}
+
+// Lets an AI system save its own state alongside the game's
+export interface SnapshotExtension {
+  save(): unknown
+  // timeShift is how long the game was suspended - add it to any absolute timestamps
+  restore(state: unknown, timeShift: number): void
+}
+
+// What GameContainer needs to drive any game without knowing which one it is
+export interface GameLifecycle {
+  readonly gameId: string
+  start(): void
+  pause(): void
+  resume(): void
+  // Omitting the seed starts the next run from a fresh one
+  reset(seed?: number): void
+  destroy(): void
+  getState(): GameState
+  getResult(): GameResult | null
+  getSeed(): number
+  // Recording of the finished run - null while it is still going
+  getReplay(): ReplayRecord | null
+  // Save state of the run in progress - null when there isn't one
+  createSnapshot(): GameSnapshot | null
+  // Comes back paused - false if the snapshot is for another game or an older format
+  restoreSnapshot(snapshot: GameSnapshot): boolean
+  // Heard once per change of status, as it happens - returns an unsubscribe
+  onStatusChange(listener: (status: GameStatus) => void): () => void
+}
+
+export abstract class BaseGame implements GameLifecycle {
+  readonly gameId: string
   protected config: GameConfig
+  // Every random decision the game makes comes from here, so a seed replays a run
+  protected random: SeededRandom
+  // Games feed it their inputs, AI interference and frames as they happen
+  protected recorder: ReplayRecorder
+  // Headless games never schedule their own timers - whoever owns them calls step()
+  protected headless = false
+  // Runs step() at config.fps in the browser - created on first start
+  private loop: GameLoop | null = null
+  private frameListeners = new Set<(alpha: number) => void>()
+  private statusListeners = new Set<(status: GameStatus) => void>()
+  // Last status listeners heard - every game starts out ready
+  private notifiedStatus: GameStatus = 'ready'
+  private snapshotExtension: SnapshotExtension | null = null
+  private resultFactProviders: Array<() => GameResultFacts> = []
 
-  constructor(config: GameConfig) {
+  constructor(gameId: string, config: GameConfig, random: SeededRandom = new SeededRandom()) {
+    this.gameId = gameId
     this.config = config
-    this.state = {
-      isRunning: false,
-      isPaused: false,
-      score: 0,
-      startTime: new Date()
-    }
+    this.random = random
+    this.recorder = new ReplayRecorder(gameId)
   }
 
   abstract start(): void
   abstract pause(): void
   abstract resume(): void
-  abstract stop(): void
-  abstract update(deltaTime: number): void
-  abstract render(context: CanvasRenderingContext2D): void
+  abstract reset(seed?: number): void
+  abstract destroy(): void
+  // Advance the rules by dt ms of game time, exactly as the game's own loop would
+  abstract step(dt: number): void
+
+  // Each game maps its own state machine onto the shared status
+  protected abstract getStatus(): GameStatus
+  abstract getScore(): number
+  protected abstract getStartTime(): Date | null
+  protected abstract getEndTime(): Date | null
+  // The game's full mid-run state as plain data
+  protected abstract serializeData(): unknown
+  // Puts serializeData() output back, paused - timeShift is how long the game was suspended
+  protected abstract restoreData(data: unknown, timeShift: number): void
 
   getState(): GameState {
-    return { ...this.state }
+    const status = this.getStatus()
+    const endTime = this.getEndTime()
+
+    return {
+      status,
+      isRunning: status === 'running' || status === 'paused',
+      isPaused: status === 'paused',
+      score: this.getScore(),
+      startTime: this.getStartTime(),
+      ...(endTime ? { endTime } : {})
+    }
   }
-}
\ No newline at end of file
+
+  // Only available once the game has finished
+  getResult(): GameResult | null {
+    const status = this.getStatus()
+    if (status !== 'over' && status !== 'won') return null
+
+    return {
+      gameId: this.gameId,
+      result: status === 'won' ? 'won' : 'lost',
+      score: this.getScore(),
+      duration: this.getGameDuration(),
+      seed: this.getSeed(),
+      mode: this.getMode(),
+      facts: Object.assign({}, this.getResultFacts(), ...this.resultFactProviders.map(provider => provider()))
+    }
+  }
+
+  // Lets AI systems report what they saw in the run - read whenever the result is
+  addResultFacts(provider: () => GameResultFacts): void {
+    this.resultFactProviders.push(provider)
+  }
+
+  getSeed(): number {
+    return this.random.getSeed()
+  }
+
+  getReplay(): ReplayRecord | null {
+    const result = this.getResult()
+    return result ? this.recorder.finish(result.result, result.score) : null
+  }
+
+  createSnapshot(): GameSnapshot | null {
+    const status = this.getStatus()
+    if (status !== 'running' && status !== 'paused') return null
+
+    const snapshot: GameSnapshot = {
+      gameId: this.gameId,
+      version: SNAPSHOT_VERSION,
+      seed: this.getSeed(),
+      savedAt: GameClock.now(),
+      random: this.random.saveState(),
+      replay: this.recorder.saveState(),
+      data: this.serializeData(),
+      ...(this.snapshotExtension ? { extension: this.snapshotExtension.save() } : {})
+    }
+    // Detached from the live game so later moves can't leak into a stored snapshot
+    return JSON.parse(JSON.stringify(snapshot))
+  }
+
+  restoreSnapshot(snapshot: GameSnapshot): boolean {
+    if (snapshot.gameId !== this.gameId || snapshot.version !== SNAPSHOT_VERSION) return false
+
+    const timeShift = Math.max(0, GameClock.now() - snapshot.savedAt)
+    this.stopLoop()
+    this.random.restoreState(snapshot.random)
+    this.restoreData(snapshot.data, timeShift)
+    if (snapshot.replay) {
+      this.recorder.restoreState(snapshot.replay)
+    } else {
+      this.recorder.clear()
+    }
+    if (snapshot.extension !== undefined) {
+      this.snapshotExtension?.restore(snapshot.extension, timeShift)
+    }
+    this.notifyStatus()
+    return true
+  }
+
+  // Only one at a time - registering replaces the previous one
+  setSnapshotExtension(extension: SnapshotExtension | null): void {
+    this.snapshotExtension = extension
+  }
+
+  // Games with difficulties or variants override to name the one being played
+  getMode(): string {
+    return DEFAULT_GAME_MODE
+  }
+
+  // Games override to report run-specific facts
+  protected getResultFacts(): GameResultFacts {
+    return {}
+  }
+
+  // For AI systems and components that inject into the run from outside the game
+  getRecorder(): ReplayRecorder {
+    return this.recorder
+  }
+
+  // Shared with the game's AI analyzer so both replay from the same seed
+  getRandom(): SeededRandom {
+    return this.random
+  }
+
+  // Must be set before start() - a running loop isn't torn down
+  setHeadless(headless: boolean): void {
+    this.headless = headless
+  }
+
+  isHeadless(): boolean {
+    return this.headless
+  }
+
+  // Renderers redraw from here so they stay in step with the rules - returns an unsubscribe
+  onFrame(listener: (alpha: number) => void): () => void {
+    this.frameListeners.add(listener)
+    return () => {
+      this.frameListeners.delete(listener)
+    }
+  }
+
+  onStatusChange(listener: (status: GameStatus) => void): () => void {
+    this.statusListeners.add(listener)
+    return () => {
+      this.statusListeners.delete(listener)
+    }
+  }
+
+  // Games call this after anything that can move them to another status - listeners only hear real changes
+  protected notifyStatus(): void {
+    const status = this.getStatus()
+    if (status === this.notifiedStatus) return
+    this.notifiedStatus = status
+    this.statusListeners.forEach(listener => listener(status))
+  }
+
+  // Games call these from start/resume and pause/game over/destroy instead of owning timers.
+  // Hiding the page pauses the game, so nothing runs on in a background tab
+  protected startLoop(): void {
+    if (this.headless) return
+    if (!this.loop) {
+      this.loop = new GameLoop({
+        fps: this.config.fps,
+        step: dt => this.step(dt),
+        render: alpha => this.frameListeners.forEach(listener => listener(alpha)),
+        onHidden: () => this.pause()
+      })
+    }
+    this.loop.start()
+  }
+
+  protected stopLoop(): void {
+    this.loop?.stop()
+  }
+
+  protected reseed(seed: number = createSeed()): void {
+    this.random.reseed(seed)
+  }
+
+  getGameDuration(): number {
+    const startTime = this.getStartTime()
+    if (!startTime) return 0
+    const endTime = this.getEndTime() || GameClock.date()
+    return endTime.getTime() - startTime.getTime()
+  }
+
+  getConfig(): GameConfig {
+    return { ...this.config }
+  }
+}
@@ -0,0 +1,85 @@
+// Game Loop - Fixed-timestep scheduler every game's rules run on
+
+// Longer gaps (a stalled tab, a breakpoint) are dropped rather than caught up on in one burst
+const MAX_FRAME_TIME = 250
+
+export interface GameLoopOptions {
+  // Rate the rules advance at - 0 for turn-based games, which only get the visibility pause
+  fps: number
+  step: (dt: number) => void
+  // Once per display frame, after any steps - alpha is how far game time is into the next step (0 to 1)
+  render?: (alpha: number) => void
+  // The page was hidden - usually the owner pauses, which stops the loop
+  onHidden?: () => void
+}
+
+// Steps always advance by exactly 1000 / fps ms however fast the display refreshes,
+// so physics tuned per step runs at the same speed at 60Hz and 144Hz
+export class GameLoop {
+  private readonly stepMs: number
+  private options: GameLoopOptions
+  private running = false
+  private frameId: number | null = null
+  private lastTime = 0
+  private accumulator = 0
+
+  constructor(options: GameLoopOptions) {
+    this.options = options
+    this.stepMs = options.fps > 0 ? 1000 / options.fps : 0
+  }
+
+  start(): void {
+    if (this.running) return
+    this.running = true
+    this.accumulator = 0
+    document.addEventListener('visibilitychange', this.handleVisibilityChange)
+
+    if (this.stepMs > 0) {
+      this.lastTime = performance.now()
+      this.frameId = requestAnimationFrame(this.frame)
+    }
+  }
+
+  stop(): void {
+    if (!this.running) return
+    this.running = false
+    document.removeEventListener('visibilitychange', this.handleVisibilityChange)
+
+    if (this.frameId !== null) {
+      cancelAnimationFrame(this.frameId)
+      this.frameId = null
+    }
+  }
+
+  isRunning(): boolean {
+    return this.running
+  }
+
+  getStepMs(): number {
+    return this.stepMs
+  }
+
+  private frame = (time: number): void => {
+    this.frameId = requestAnimationFrame(this.frame)
+
+    this.accumulator += Math.min(Math.max(0, time - this.lastTime), MAX_FRAME_TIME)
+    this.lastTime = time
+
+    // A step may end the game and stop the loop - the final state still gets rendered
+    while (this.accumulator >= this.stepMs && this.running) {
+      this.accumulator -= this.stepMs
+      this.options.step(this.stepMs)
+    }
+
+    this.options.render?.(Math.min(1, this.accumulator / this.stepMs))
+  }
+
+  private handleVisibilityChange = (): void => {
+    if (document.hidden) {
+      this.options.onHidden?.()
+    } else {
+      // Frames stop while hidden - time spent away is never stepped through
+      this.lastTime = performance.now()
+    }
+  }
+}
@@ -0,0 +1,288 @@
+// Replay Recorder - Captures a run's seed, inputs, AI interference and rendered frames
+
+import { GameClock } from './GameClock'
+
+export const REPLAY_FORMAT_VERSION = 1
+
+// Frames closer together than this are dropped (Block Breaker renders at 60fps)
+const MIN_FRAME_INTERVAL = 40
+// A full frame every so often so seeking never replays the whole run
+const KEYFRAME_INTERVAL = 60
+// Hard cap so one long run can't fill the memory store
+const MAX_FRAMES = 3000
+
+export interface ReplayInput {
+  t: number // ms since the run started, pauses excluded
+  type: string
+  payload?: unknown
+}
+
+export interface ReplayAIEvent {
+  t: number
+  type: string
+  detail?: unknown
+}
+
+// Structural delta against the previous frame
+export type FramePatch =
+  | { s: unknown } // replace the value outright
+  | { o: Record<string, FramePatch>; d?: string[] } // changed (and deleted) object keys
+  | { a: Record<number, FramePatch> } // changed indices of a same-length array
+
+export interface ReplayFrame {
+  t: number
+  key?: unknown // full frame
+  patch?: FramePatch // or the changes since the previous frame
+}
+
+export interface ReplayRecord {
+  id: string
+  version: number
+  gameId: string
+  seed: number // same seed the game's AI sessions record
+  recordedAt: number
+  duration: number
+  result: 'won' | 'lost'
+  score: number
+  inputs: ReplayInput[]
+  aiEvents: ReplayAIEvent[]
+  frames: ReplayFrame[]
+  truncated: boolean // frame cap was hit - inputs and AI events are still complete
+}
+
+// An unfinished recording carried inside a game's save state - times are relative to the run
+export interface ReplayRecorderState {
+  seed: number
+  elapsed: number
+  inputs: ReplayInput[]
+  aiEvents: ReplayAIEvent[]
+  frames: ReplayFrame[]
+  lastFrame: unknown
+  lastFrameTime: number
+  truncated: boolean
+}
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value)
+
+// Both sides are JSON-cloned, so only plain objects, arrays and primitives occur
+export function diffFrame(prev: unknown, next: unknown): FramePatch | undefined {
+  if (Array.isArray(prev) && Array.isArray(next) && prev.length === next.length) {
+    const changes: Record<number, FramePatch> = {}
+    let changed = 0
+    next.forEach((item, index) => {
+      const patch = diffFrame(prev[index], item)
+      if (patch) {
+        changes[index] = patch
+        changed++
+      }
+    })
+    if (changed === 0) return undefined
+    // Mostly-changed arrays (e.g. a moving snake) are smaller sent whole
+    return changed > next.length / 2 ? { s: next } : { a: changes }
+  }
+
+  if (isPlainObject(prev) && isPlainObject(next)) {
+    const changes: Record<string, FramePatch> = {}
+    let changed = false
+    for (const key of Object.keys(next)) {
+      const patch = diffFrame(prev[key], next[key])
+      if (patch) {
+        changes[key] = patch
+        changed = true
+      }
+    }
+    const deleted = Object.keys(prev).filter(key => !(key in next))
+    if (!changed && deleted.length === 0) return undefined
+    return deleted.length > 0 ? { o: changes, d: deleted } : { o: changes }
+  }
+
+  return prev === next ? undefined : { s: next }
+}
+
+// Returns a new value - untouched branches are shared with the base
+export function applyFramePatch(base: unknown, patch: FramePatch): unknown {
+  if ('s' in patch) return patch.s
+
+  if ('a' in patch) {
+    const result = Array.isArray(base) ? base.slice() : []
+    for (const [index, itemPatch] of Object.entries(patch.a)) {
+      result[Number(index)] = applyFramePatch(result[Number(index)], itemPatch)
+    }
+    return result
+  }
+
+  const result: Record<string, unknown> = isPlainObject(base) ? { ...base } : {}
+  for (const [key, valuePatch] of Object.entries(patch.o)) {
+    result[key] = applyFramePatch(result[key], valuePatch)
+  }
+  patch.d?.forEach(key => delete result[key])
+  return result
+}
+
+export class ReplayRecorder {
+  private gameId: string
+  private seed = 0
+  private startedAt: number | null = null
+  private endedAt: number | null = null
+  private pausedAt: number | null = null
+  private pausedTotal = 0
+  private inputs: ReplayInput[] = []
+  private aiEvents: ReplayAIEvent[] = []
+  private frames: ReplayFrame[] = []
+  private lastFrame: unknown = undefined
+  private lastFrameTime = -Infinity
+  private truncated = false
+  private captureFrames = true
+
+  constructor(gameId: string) {
+    this.gameId = gameId
+  }
+
+  // Called when the run actually starts; earlier calls are ignored
+  begin(seed: number, initialFrame?: unknown): void {
+    this.clear()
+    this.seed = seed
+    this.startedAt = GameClock.now()
+    if (initialFrame !== undefined) {
+      this.captureFrame(initialFrame, true)
+    }
+  }
+
+  clear(): void {
+    this.startedAt = null
+    this.endedAt = null
+    this.pausedAt = null
+    this.pausedTotal = 0
+    this.inputs = []
+    this.aiEvents = []
+    this.frames = []
+    this.lastFrame = undefined
+    this.lastFrameTime = -Infinity
+    this.truncated = false
+  }
+
+  // Null unless a recording is in progress
+  saveState(): ReplayRecorderState | null {
+    if (this.startedAt === null || this.endedAt !== null) return null
+    return {
+      seed: this.seed,
+      elapsed: this.elapsed(),
+      inputs: [...this.inputs],
+      aiEvents: [...this.aiEvents],
+      frames: [...this.frames],
+      lastFrame: this.lastFrame,
+      lastFrameTime: this.lastFrameTime,
+      truncated: this.truncated
+    }
+  }
+
+  // Picks the recording back up paused - resume() carries on from where it was saved
+  restoreState(state: ReplayRecorderState): void {
+    this.clear()
+    const now = GameClock.now()
+    this.seed = state.seed
+    this.startedAt = now - state.elapsed
+    this.pausedAt = now
+    this.inputs = [...state.inputs]
+    this.aiEvents = [...state.aiEvents]
+    this.frames = [...state.frames]
+    this.lastFrame = state.lastFrame
+    this.lastFrameTime = state.lastFrameTime
+    this.truncated = state.truncated
+  }
+
+  // Headless runs usually only need the input and AI event logs - frames are the expensive part
+  setFrameCapture(enabled: boolean): void {
+    this.captureFrames = enabled
+  }
+
+  // AI interference so far, without finishing the recording
+  getAIEvents(): ReplayAIEvent[] {
+    return [...this.aiEvents]
+  }
+
+  isRecording(): boolean {
+    return this.startedAt !== null && this.endedAt === null && this.pausedAt === null
+  }
+
+  // Time spent paused is cut out of the replay
+  pause(): void {
+    if (this.isRecording()) {
+      this.pausedAt = GameClock.now()
+    }
+  }
+
+  resume(): void {
+    if (this.pausedAt !== null) {
+      this.pausedTotal += GameClock.now() - this.pausedAt
+      this.pausedAt = null
+    }
+  }
+
+  recordInput(type: string, payload?: unknown): void {
+    if (!this.isRecording()) return
+    this.inputs.push(payload === undefined ? { t: this.elapsed(), type } : { t: this.elapsed(), type, payload })
+  }
+
+  recordAIEvent(type: string, detail?: unknown): void {
+    if (!this.isRecording()) return
+    this.aiEvents.push(detail === undefined ? { t: this.elapsed(), type } : { t: this.elapsed(), type, detail })
+  }
+
+  // Frames are whatever the game's renderer draws from
+  captureFrame(frame: unknown, force = false): void {
+    if (!this.captureFrames || !this.isRecording() || this.truncated) return
+
+    const t = this.elapsed()
+    if (!force && t - this.lastFrameTime < MIN_FRAME_INTERVAL) return
+
+    // Clone so later mutation of the live game state can't leak into history
+    const snapshot: unknown = JSON.parse(JSON.stringify(frame))
+
+    if (this.frames.length % KEYFRAME_INTERVAL === 0) {
+      this.frames.push({ t, key: snapshot })
+    } else {
+      const patch = diffFrame(this.lastFrame, snapshot)
+      if (!patch) return
+      this.frames.push({ t, patch })
+    }
+
+    this.lastFrame = snapshot
+    this.lastFrameTime = t
+    if (this.frames.length >= MAX_FRAMES) {
+      this.truncated = true
+    }
+  }
+
+  // Stops recording and packages the run - null if it never started
+  finish(result: 'won' | 'lost', score: number): ReplayRecord | null {
+    if (this.startedAt === null) return null
+    this.resume()
+    if (this.endedAt === null) {
+      this.endedAt = GameClock.now()
+    }
+
+    return {
+      id: `${this.gameId}_${this.startedAt}`,
+      version: REPLAY_FORMAT_VERSION,
+      gameId: this.gameId,
+      seed: this.seed,
+      recordedAt: this.startedAt,
+      duration: this.endedAt - this.startedAt - this.pausedTotal,
+      result,
+      score,
+      inputs: this.inputs,
+      aiEvents: this.aiEvents,
+      frames: this.frames,
+      truncated: this.truncated
+    }
+  }
+
+  private elapsed(): number {
+    if (this.startedAt === null) return 0
+    // Time stands still while paused
+    const now = this.pausedAt ?? GameClock.now()
+    return now - this.startedAt - this.pausedTotal
+  }
+}
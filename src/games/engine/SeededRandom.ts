@@ -0,0 +1,100 @@
+// Seeded Random - Deterministic PRNG shared by games and their AI systems
+
+// Fresh seed for a new run - the only place real randomness enters the system
+export function createSeed(): number {
+  return (Math.floor(Math.random() * 0x100000000) ^ Date.now()) >>> 0
+}
+
+// FNV-1a over the label, mixed with the parent seed
+function deriveSeed(seed: number, label: string): number {
+  let hash = (0x811c9dc5 ^ seed) >>> 0
+  for (let i = 0; i < label.length; i++) {
+    hash ^= label.charCodeAt(i)
+    hash = Math.imul(hash, 0x01000193) >>> 0
+  }
+  return hash
+}
+
+// Exact position in a stream and every stream forked from it
+export interface RandomState {
+  seed: number
+  state: number
+  children: Record<string, RandomState>
+}
+
+// mulberry32 - small, fast and good enough for gameplay
+export class SeededRandom {
+  private seed: number
+  private state: number
+  // Named child streams - reseeded along with their parent
+  private children = new Map<string, SeededRandom>()
+
+  constructor(seed: number = createSeed()) {
+    this.seed = seed >>> 0
+    this.state = this.seed
+  }
+
+  getSeed(): number {
+    return this.seed
+  }
+
+  // Restart the sequence (and every forked stream) from a new seed
+  reseed(seed: number): void {
+    this.seed = seed >>> 0
+    this.state = this.seed
+    this.children.forEach((child, label) => child.reseed(deriveSeed(this.seed, label)))
+  }
+
+  // For save states - restoring carries on the exact same sequence, forks included
+  saveState(): RandomState {
+    const children: Record<string, RandomState> = {}
+    this.children.forEach((child, label) => {
+      children[label] = child.saveState()
+    })
+    return { seed: this.seed, state: this.state, children }
+  }
+
+  restoreState(saved: RandomState): void {
+    this.seed = saved.seed >>> 0
+    this.state = saved.state >>> 0
+    Object.entries(saved.children).forEach(([label, child]) => this.fork(label).restoreState(child))
+  }
+
+  // Independent stream derived from this seed, so e.g. commentary picks
+  // never shift the sequence the board is generated from
+  fork(label: string): SeededRandom {
+    let child = this.children.get(label)
+    if (!child) {
+      child = new SeededRandom(deriveSeed(this.seed, label))
+      this.children.set(label, child)
+    }
+    return child
+  }
+
+  // Float in [0, 1) - drop-in replacement for Math.random()
+  next(): number {
+    this.state = (this.state + 0x6d2b79f5) >>> 0
+    let t = this.state
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 0x100000000
+  }
+
+  // Integer in [0, maxExclusive)
+  nextInt(maxExclusive: number): number {
+    return Math.floor(this.next() * maxExclusive)
+  }
+
+  // Float in [min, max)
+  range(min: number, max: number): number {
+    return min + this.next() * (max - min)
+  }
+
+  chance(probability: number): boolean {
+    return this.next() < probability
+  }
+
+  pick<T>(items: readonly T[]): T {
+    return items[this.nextInt(items.length)]
+  }
+}
@@ -1,39 +1,128 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { MinesweeperGame, GameState } from './MinesweeperGame';
+import { MinesweeperGame, GameState, Position, TileState } from './MinesweeperGame';
 import MinesweeperRenderer from './MinesweeperRenderer';
+import MinesweeperSetup from './MinesweeperSetup';
+import MinesweeperAdviceReview from './MinesweeperAdviceReview';
+import { MinesweeperBoardConfig, DEFAULT_BOARD, findPreset, describeBoard, validateBoardConfig } from './MinesweeperModes';
+import { MoveContext, captureMoveContext, describeMove } from './MinesweeperAnnouncements';
 import { MinesweeperAIAnalyzer, MinesweeperAIState } from '../../ai/minesweeper/MinesweeperAIAnalyzer';
+import { AdviceDecision } from '../../ai/minesweeper/MinesweeperBehaviorTypes';
 import KAI from '../../components/KAI';
 import { useAudio } from '../../audio/useAudio';
+import { GameLifecycle, GameSnapshot } from '../engine/GameEngine';
+import { SeededRandom } from '../engine/SeededRandom';
+import { StorageManager } from '../../storage/StorageManager';
+import { ProfileManager, getProfileStoragePrefix } from '../../storage/ProfileManager';
+import InputManager, { InputAction } from '../../input/InputManager';
+import { useInput } from '../../input/useInput';
+
+const NO_GUESS_STORAGE_KEY = 'minesweeper_no_guess';
+const BOARD_STORAGE_KEY = 'minesweeper_board';
+
+// Tiles shrink to fit wide boards on narrow screens, but never below a clickable size
+const MAX_CELL_SIZE = 30;
+const MIN_CELL_SIZE = 18;
+// Page padding plus the board's own border and gaps
+const BOARD_CHROME = 80;
+
+// Each player keeps their own board preferences
+const getProfileKey = (key: string) => `${getProfileStoragePrefix(ProfileManager.getInstance().getActiveProfileId())}${key}`;
+const loadNoGuess = (): boolean => StorageManager.getInstance().getItem<boolean>(getProfileKey(NO_GUESS_STORAGE_KEY)) === true;
+const loadBoard = (): MinesweeperBoardConfig => {
+  const stored = StorageManager.getInstance().getItem<MinesweeperBoardConfig>(getProfileKey(BOARD_STORAGE_KEY));
+  return stored && validateBoardConfig(stored).length === 0 ? stored : DEFAULT_BOARD;
+};
+
+// Cursor steps for the console's direction actions
+const CURSOR_STEPS: Partial<Record<InputAction, Position>> = {
+  up: { row: -1, col: 0 },
+  down: { row: 1, col: 0 },
+  left: { row: 0, col: -1 },
+  right: { row: 0, col: 1 }
+};
+
+// Read by screen readers, never shown
+const visuallyHidden: React.CSSProperties = {
+  position: 'absolute',
+  width: '1px',
+  height: '1px',
+  overflow: 'hidden',
+  clip: 'rect(0 0 0 0)',
+  whiteSpace: 'nowrap'
+};
+
+const getCellSize = (cols: number): number =>
+  Math.max(MIN_CELL_SIZE, Math.min(MAX_CELL_SIZE, Math.floor((window.innerWidth - BOARD_CHROME) / cols) - 1));
 
 interface MinesweeperProps {
   onGameEnd?: (result: 'won' | 'lost' | 'abandoned', duration: number) => void;
   onAIStateChange?: (aiState: MinesweeperAIState) => void;
   onExitToConsole?: () => void;
+  onGameReady?: (game: GameLifecycle) => void;
+  createAnalyzer?: (random: SeededRandom) => MinesweeperAIAnalyzer;
+  snapshot?: GameSnapshot;
 }
 
-const Minesweeper: React.FC<MinesweeperProps> = ({ onGameEnd, onAIStateChange, onExitToConsole }) => {
+const Minesweeper: React.FC<MinesweeperProps> = ({ onGameEnd, onAIStateChange, onExitToConsole, onGameReady, createAnalyzer = (random) => new MinesweeperAIAnalyzer(undefined, random), snapshot }) => {
   const gameRef = useRef<MinesweeperGame | null>(null);
   const aiAnalyzerRef = useRef<MinesweeperAIAnalyzer | null>(null);
+  const [noGuess, setNoGuess] = useState(loadNoGuess);
+  const [board, setBoard] = useState(loadBoard);
+  // Picked before every fresh start - a continued run already has its board
+  const [showSetup, setShowSetup] = useState(!snapshot);
+  const [cellSize, setCellSize] = useState(() => getCellSize(board.cols));
   const [gameData, setGameData] = useState(() => {
-    const game = new MinesweeperGame(9, 9, 10);
+    const game = new MinesweeperGame(board.rows, board.cols, board.mines);
     return game.getGameData();
   });
   const [aiState, setAIState] = useState<MinesweeperAIState | null>(null);
+  // Nothing starts until stored history has loaded, so the load can't overwrite what this visit learns
+  const [aiReady, setAIReady] = useState(false);
+  // Filled when a game ends, for the review of what KAI told the player
+  const [adviceLog, setAdviceLog] = useState<AdviceDecision[]>([]);
+  // Null until the keyboard or a tab into the board places it
+  const [cursor, setCursor] = useState<Position | null>(null);
+  const [cursorFocus, setCursorFocus] = useState(false);
+  // Keyed so the same sentence twice in a row is still read out
+  const [announcement, setAnnouncement] = useState({ id: 0, text: '' });
   const { playSFX } = useAudio();
+  const input = InputManager.getInstance();
 
   // Initialize game and AI analyzer
   useEffect(() => {
-    gameRef.current = new MinesweeperGame(9, 9, 10);
-    aiAnalyzerRef.current = new MinesweeperAIAnalyzer();
+    gameRef.current = new MinesweeperGame(board.rows, board.cols, board.mines, undefined, { noGuess });
+    onGameReady?.(gameRef.current);
+    aiAnalyzerRef.current = createAnalyzer(gameRef.current.getRandom());
+    aiAnalyzerRef.current.attachTo(gameRef.current);
+    // Restore session history from previous visits, then any suspended board -
+    // the update loop sees it go live and starts the AI session as for a first click
+    const game = gameRef.current;
+    void aiAnalyzerRef.current.initialize().then(() => {
+      setAIReady(true);
+      if (snapshot && gameRef.current === game) {
+        game.restoreSnapshot(snapshot);
+        // A suspended board keeps the size and mode it was dealt in
+        setNoGuess(game.isNoGuess());
+        setBoard(game.getBoardConfig());
+        setGameData(game.getGameData());
+      }
+    });
 
     return () => {
-      // Cleanup on unmount
-      if (aiAnalyzerRef.current && gameData.gameState === GameState.PLAYING) {
+      // Cleanup on unmount - read from the game, this closure's gameData is the first render's
+      if (aiAnalyzerRef.current && gameRef.current?.getGameData().gameState === GameState.PLAYING) {
         aiAnalyzerRef.current.onGameEnd('abandoned');
       }
     };
   }, []);
 
+  useEffect(() => {
+    const handleResize = () => setCellSize(getCellSize(board.cols));
+    handleResize();
+    window.addEventListener('resize', handleResize);
+    return () => window.removeEventListener('resize', handleResize);
+  }, [board.cols]);
+
   // Game state update loop
   useEffect(() => {
     const updateInterval = setInterval(() => {
@@ -62,6 +151,7 @@ const Minesweeper: React.FC<MinesweeperProps> = ({ onGameEnd, onAIStateChange, o
             
             const newAIState = aiAnalyzerRef.current.onGameEnd(result);
             setAIState(newAIState);
+            setAdviceLog(aiAnalyzerRef.current.getAdviceLog());
             onAIStateChange?.(newAIState);
             onGameEnd?.(result, duration);
           }
@@ -72,10 +162,21 @@ const Minesweeper: React.FC<MinesweeperProps> = ({ onGameEnd, onAIStateChange, o
     return () => clearInterval(updateInterval);
   }, [onGameEnd, onAIStateChange, gameData.gameState]);
 
+  const announceMove = (before: MoveContext, row: number, col: number) => {
+    if (!gameRef.current) return;
+    const text = describeMove(before, gameRef.current.getGameData(), { row, col });
+    if (text) {
+      setAnnouncement(prev => ({ id: prev.id + 1, text }));
+    }
+  };
+
   const handleTileClick = (row: number, col: number) => {
-    if (!gameRef.current || !aiAnalyzerRef.current) return;
+    if (!gameRef.current || !aiAnalyzerRef.current || !aiReady) return;
+    if (gameRef.current.isGamePaused()) return;
 
+    const before = captureMoveContext(gameRef.current.getGameData(), { row, col });
     gameRef.current.clickTile(row, col);
+    announceMove(before, row, col);
     const newGameData = gameRef.current.getGameData();
     const tile = newGameData.board[row][col];
     
@@ -85,10 +186,30 @@ const Minesweeper: React.FC<MinesweeperProps> = ({ onGameEnd, onAIStateChange, o
     onAIStateChange?.(newAIState);
   };
 
+  const handleTileChord = (row: number, col: number) => {
+    if (!gameRef.current || !aiAnalyzerRef.current || !aiReady) return;
+    if (gameRef.current.isGamePaused()) return;
+
+    // Only a chord that opened something counts as a move
+    const before = captureMoveContext(gameRef.current.getGameData(), { row, col });
+    gameRef.current.chordTile(row, col);
+    const newGameData = gameRef.current.getGameData();
+    if (newGameData.revealedCount === before.revealedCount && newGameData.gameState === before.gameState) return;
+    announceMove(before, row, col);
+
+    const result = newGameData.gameState === GameState.LOST ? 'mine' : 'safe';
+    const newAIState = aiAnalyzerRef.current.onTileClick(row, col, 'click', result);
+    setAIState(newAIState);
+    onAIStateChange?.(newAIState);
+  };
+
   const handleTileRightClick = (row: number, col: number) => {
-    if (!gameRef.current || !aiAnalyzerRef.current) return;
+    if (!gameRef.current || !aiAnalyzerRef.current || !aiReady) return;
+    if (gameRef.current.isGamePaused()) return;
 
+    const before = captureMoveContext(gameRef.current.getGameData(), { row, col });
     gameRef.current.flagTile(row, col);
+    announceMove(before, row, col);
     const newGameData = gameRef.current.getGameData();
     const tile = newGameData.board[row][col];
     
@@ -113,6 +234,51 @@ const Minesweeper: React.FC<MinesweeperProps> = ({ onGameEnd, onAIStateChange, o
     onAIStateChange?.(newAIState);
   };
 
+  // The focused tile gets KAI's advice, just as hovering it would
+  const handleCursorChange = (row: number, col: number) => {
+    setCursor(prev => (prev && prev.row === row && prev.col === col ? prev : { row, col }));
+    const tile = gameRef.current?.getGameData().board[row]?.[col];
+    if (tile && (tile.state === TileState.HIDDEN || tile.state === TileState.QUESTION)) {
+      handleTileHover(row, col);
+    }
+  };
+
+  // Arrows move the cursor, CONFIRM reveals (or chords a number) and SECONDARY flags - and CONFIRM plays again after the game
+  useInput((event) => {
+    const game = gameRef.current;
+    if (!event.pressed || showSetup || !game) return;
+
+    const data = game.getGameData();
+    const current = cursor ?? { row: 0, col: 0 };
+    const step = CURSOR_STEPS[event.action];
+    if (step) {
+      setCursorFocus(true);
+      handleCursorChange(
+        Math.max(0, Math.min(data.board.length - 1, current.row + step.row)),
+        Math.max(0, Math.min(data.board[0].length - 1, current.col + step.col))
+      );
+      return;
+    }
+    if (event.repeat) return;
+
+    if (data.gameState === GameState.WON || data.gameState === GameState.LOST) {
+      if (event.action === 'confirm') handlePlayAgain();
+      return;
+    }
+
+    setCursorFocus(true);
+    setCursor(current);
+    if (event.action === 'confirm') {
+      if (data.board[current.row][current.col].state === TileState.REVEALED) {
+        handleTileChord(current.row, current.col);
+      } else {
+        handleTileClick(current.row, current.col);
+      }
+    } else if (event.action === 'secondary') {
+      handleTileRightClick(current.row, current.col);
+    }
+  });
+
   const handleReset = () => {
     if (gameRef.current && aiAnalyzerRef.current) {
       // End current session if game was in progress
@@ -124,9 +290,29 @@ const Minesweeper: React.FC<MinesweeperProps> = ({ onGameEnd, onAIStateChange, o
 
       gameRef.current.reset();
       setGameData(gameRef.current.getGameData());
+      setAdviceLog([]);
     }
   };
 
+  const handleStart = (nextBoard: MinesweeperBoardConfig, nextNoGuess: boolean) => {
+    if (!gameRef.current || !gameRef.current.configure(nextBoard, { noGuess: nextNoGuess })) return;
+
+    const storage = StorageManager.getInstance();
+    storage.setItem(getProfileKey(BOARD_STORAGE_KEY), nextBoard);
+    storage.setItem(getProfileKey(NO_GUESS_STORAGE_KEY), nextNoGuess);
+    setBoard(nextBoard);
+    setNoGuess(nextNoGuess);
+    setCursor(null);
+    setGameData(gameRef.current.getGameData());
+    setShowSetup(false);
+  };
+
+  // Abandons a game in progress, like NEW GAME, before picking another board
+  const handleChangeBoard = () => {
+    handleReset();
+    setShowSetup(true);
+  };
+
   const handlePlayAgain = () => {
     handleReset();
   };
@@ -140,9 +326,9 @@ const Minesweeper: React.FC<MinesweeperProps> = ({ onGameEnd, onAIStateChange, o
   const getGameStateDisplay = () => {
     switch (gameData.gameState) {
       case GameState.READY:
-        return 'READY TO START';
+        return aiReady ? 'READY TO START' : 'LOADING...';
       case GameState.PLAYING:
-        return 'PLAYING';
+        return gameRef.current?.isGamePaused() ? 'PAUSED' : 'PLAYING';
       case GameState.WON:
         return 'VICTORY!';
       case GameState.LOST:
@@ -177,25 +363,39 @@ const Minesweeper: React.FC<MinesweeperProps> = ({ onGameEnd, onAIStateChange, o
         <div>MINES: {gameRef.current?.getRemainingMines() || 0}</div>
         <div>FLAGS: {gameData.flagCount}</div>
         <div>STATUS: {getGameStateDisplay()}</div>
+        <div>BOARD: {findPreset(board)?.name ?? describeBoard(board)}{noGuess ? ' / NO GUESS' : ''}</div>
         {aiState && (
           <div>TRUST: {Math.round(aiState.trustLevel * 100)}%</div>
         )}
       </div>
 
-      {/* Game Board */}
-      <div>
-        <div style={{ position: 'relative' }}>
-          <MinesweeperRenderer
-            gameData={gameData}
-            onTileClick={handleTileClick}
-            onTileRightClick={handleTileRightClick}
-            onTileHover={handleTileHover}
-            onPlayAgain={handlePlayAgain}
-            onExitToConsole={handleExitToConsole}
-            cellSize={30}
-          />
+      {showSetup ? (
+        <MinesweeperSetup initialBoard={board} initialNoGuess={noGuess} onStart={handleStart} />
+      ) : (
+        /* Game Board */
+        <div style={{ maxWidth: '100%', overflowX: 'auto' }}>
+          <div style={{ position: 'relative' }}>
+            <MinesweeperRenderer
+              gameData={gameData}
+              onTileClick={handleTileClick}
+              onTileRightClick={handleTileRightClick}
+              onTileHover={handleTileHover}
+              onTileChord={handleTileChord}
+              onPlayAgain={handlePlayAgain}
+              onExitToConsole={handleExitToConsole}
+              cellSize={cellSize}
+              cursor={cursor}
+              focusCursor={cursorFocus}
+              onCursorChange={handleCursorChange}
+            />
+          </div>
         </div>
-      </div>
+      )}
+
+      {/* Post-game review of KAI's advice */}
+      {!showSetup && adviceLog.length > 0 && (gameData.gameState === GameState.WON || gameData.gameState === GameState.LOST) && (
+        <MinesweeperAdviceReview adviceLog={adviceLog} />
+      )}
 
       {/* Controls */}
       <div style={{
@@ -224,6 +424,23 @@ const Minesweeper: React.FC<MinesweeperProps> = ({ onGameEnd, onAIStateChange, o
         >
           NEW GAME
         </button>
+        <button
+          onClick={handleChangeBoard}
+          disabled={showSetup}
+          style={{
+            background: '#c0c0c0',
+            color: showSetup ? '#808080' : '#000000',
+            border: '2px outset #c0c0c0',
+            borderRadius: '0',
+            padding: '10px 20px',
+            fontFamily: 'Courier New, monospace',
+            fontSize: '12px',
+            cursor: showSetup ? 'default' : 'pointer',
+            letterSpacing: '1px'
+          }}
+        >
+          CHANGE BOARD
+        </button>
       </div>
 
       {/* Instructions */}
@@ -236,9 +453,24 @@ const Minesweeper: React.FC<MinesweeperProps> = ({ onGameEnd, onAIStateChange, o
         padding: '8px 16px',
         border: '2px inset #c0c0c0'
       }}>
-        <div>Left click to reveal tiles, right click to flag mines</div>
+        <div>Left click to reveal tiles, right click to flag - again for a question mark</div>
+        <div>Click a number once its flags are placed to open the rest around it</div>
+        <div>
+          Keyboard: {input.getDirectionLabels()} move, {input.getActionLabel('confirm')} reveal or chord, {input.getActionLabel('secondary')} flag
+        </div>
         <div>Hover over tiles for AI probability analysis</div>
         <div>Clear all non-mine tiles to win!</div>
+        {noGuess && gameData.gameState !== GameState.READY && !gameData.guaranteedSolvable && (
+          <div>No guess-free layout found in time - this board may need a guess</div>
+        )}
+      </div>
+
+      {/* Screen reader announcements - each move on the board, then what KAI says about it */}
+      <div style={visuallyHidden} role="status" aria-live="polite">
+        {announcement.text && <span key={announcement.id}>{announcement.text}</span>}
+      </div>
+      <div style={visuallyHidden} aria-live="polite">
+        {aiState?.commentary}
       </div>
 
       {/* KAI Avatar and Commentary */}
@@ -0,0 +1,96 @@
+// Minesweeper Advice Review - Every piece of KAI's advice from the run, shown after the game with which ones were lies
+
+import React from 'react';
+import { AdviceDecision } from '../../ai/minesweeper/MinesweeperBehaviorTypes';
+
+interface MinesweeperAdviceReviewProps {
+  adviceLog: AdviceDecision[];
+}
+
+const cellStyle: React.CSSProperties = {
+  padding: '2px 8px',
+  textAlign: 'left',
+  whiteSpace: 'nowrap'
+};
+
+// Read by screen readers, never shown
+const visuallyHiddenCaption: React.CSSProperties = {
+  position: 'absolute',
+  width: '1px',
+  height: '1px',
+  overflow: 'hidden',
+  clip: 'rect(0 0 0 0)',
+  whiteSpace: 'nowrap'
+};
+
+const formatPercent = (value: number): string => `${Math.round(value * 100)}%`;
+
+// What the player was told, in the same terms as the commentary
+const describeClaim = (decision: AdviceDecision): string => {
+  if (decision.aiSuggestion === 'safe') return `${formatPercent(decision.confidence)} SAFE`;
+  if (decision.aiSuggestion === 'dangerous') return `${formatPercent(decision.confidence)} MINE`;
+  return 'UNSURE';
+};
+
+const describeResponse = (decision: AdviceDecision): string => {
+  if (decision.response === 'unanswered') return 'MOVED ON';
+  const response = decision.response === 'followed' ? 'FOLLOWED' : 'IGNORED';
+  return decision.result === 'mine' ? `${response} - MINE` : response;
+};
+
+const MinesweeperAdviceReview: React.FC<MinesweeperAdviceReviewProps> = ({ adviceLog }) => {
+  const lies = adviceLog.filter(decision => decision.isDeceptive);
+  const liesFollowed = lies.filter(decision => decision.response === 'followed').length;
+
+  return (
+    <div style={{
+      background: '#808080',
+      border: '2px inset #c0c0c0',
+      padding: '8px 16px',
+      fontSize: '11px',
+      maxWidth: '100%'
+    }}>
+      <div style={{ fontWeight: 'bold', letterSpacing: '2px', textAlign: 'center', marginBottom: '6px' }}>
+        KAI'S ADVICE - THE TRUTH
+      </div>
+      <div style={{ textAlign: 'center', marginBottom: '6px' }}>
+        {adviceLog.length} PIECES OF ADVICE, {lies.length} LIES, {liesFollowed} OF THEM FOLLOWED
+      </div>
+      <div style={{ maxHeight: '240px', overflowY: 'auto' }}>
+        <table style={{ borderCollapse: 'collapse', margin: '0 auto' }}>
+          <caption style={visuallyHiddenCaption}>Every piece of advice KAI gave this game, with the true mine odds</caption>
+          <thead>
+            <tr>
+              <th style={cellStyle}>#</th>
+              <th style={cellStyle}>TILE</th>
+              <th style={cellStyle}>KAI SAID</th>
+              <th style={cellStyle}>TRUE ODDS</th>
+              <th style={cellStyle}>LIE</th>
+              <th style={cellStyle}>YOU</th>
+            </tr>
+          </thead>
+          <tbody>
+            {adviceLog.map((decision, index) => (
+              <tr
+                key={`${decision.timestamp}-${index}`}
+                style={{
+                  color: decision.isDeceptive ? '#800000' : '#000000',
+                  opacity: decision.response === 'unanswered' ? 0.6 : 1
+                }}
+              >
+                <td style={cellStyle}>{index + 1}</td>
+                <td style={cellStyle}>({decision.row},{decision.col})</td>
+                <td style={cellStyle}>{describeClaim(decision)}</td>
+                <td style={cellStyle}>{formatPercent(decision.probability)} MINE</td>
+                <td style={cellStyle}>{decision.isDeceptive ? 'LIE' : '-'}</td>
+                <td style={cellStyle}>{describeResponse(decision)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default MinesweeperAdviceReview;
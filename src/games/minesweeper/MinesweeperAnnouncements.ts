@@ -0,0 +1,70 @@
+// Minesweeper Announcements - What a tile shows and what a move just did, in words for screen readers
+
+import { MinesweeperGameData, GameState, Position, Tile, TileState } from './MinesweeperGame';
+
+// The parts of the board a move can change - tiles are shared with the live game, so they are copied out first
+export interface MoveContext {
+  tileState: TileState;
+  revealedCount: number;
+  gameState: GameState;
+}
+
+export function captureMoveContext(data: Readonly<MinesweeperGameData>, position: Position): MoveContext {
+  return {
+    tileState: data.board[position.row][position.col].state,
+    revealedCount: data.revealedCount,
+    gameState: data.gameState
+  };
+}
+
+export function describePosition(position: Position): string {
+  return `Row ${position.row + 1}, column ${position.col + 1}`;
+}
+
+// Only what a sighted player could see on the tile
+export function describeTile(tile: Tile): string {
+  switch (tile.state) {
+    case TileState.HIDDEN:
+      return 'covered';
+    case TileState.FLAGGED:
+      return 'flagged';
+    case TileState.QUESTION:
+      return 'question mark';
+    case TileState.REVEALED:
+      if (tile.isMine) return 'mine';
+      if (tile.neighborMines === 0) return 'empty';
+      return `${tile.neighborMines} ${tile.neighborMines === 1 ? 'mine' : 'mines'} nearby`;
+  }
+}
+
+// One sentence for the move, or null when it changed nothing
+export function describeMove(before: MoveContext, after: Readonly<MinesweeperGameData>, position: Position): string | null {
+  const tile = after.board[position.row][position.col];
+  const where = describePosition(position);
+
+  if (after.gameState === GameState.LOST && before.gameState !== GameState.LOST) {
+    return `${where}: mine. Game over.`;
+  }
+
+  let message: string | null = null;
+  const opened = after.revealedCount - before.revealedCount;
+  if (opened > 0) {
+    if (before.tileState === TileState.REVEALED) {
+      message = `Chord opened ${opened} ${opened === 1 ? 'tile' : 'tiles'}.`;
+    } else if (opened === 1) {
+      message = `${where}: ${describeTile(tile)}.`;
+    } else {
+      message = `${where}: ${describeTile(tile)}, opened ${opened} tiles.`;
+    }
+  } else if (tile.state !== before.tileState) {
+    const minesLeft = after.mineCount - after.flagCount;
+    message = tile.state === TileState.FLAGGED
+      ? `${where}: flagged. ${minesLeft} ${minesLeft === 1 ? 'mine' : 'mines'} left.`
+      : `${where}: ${describeTile(tile)}.`;
+  }
+
+  if (after.gameState === GameState.WON && before.gameState !== GameState.WON) {
+    return `${message ?? ''} Board cleared. You win.`.trim();
+  }
+  return message;
+}
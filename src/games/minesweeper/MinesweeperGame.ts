@@ -1,5 +1,12 @@
 // Minesweeper Game Logic - Classic minesweeper mechanics
 
+import { BaseGame, GameStatus } from '../engine/GameEngine';
+import { SeededRandom } from '../engine/SeededRandom';
+import { GameClock } from '../engine/GameClock';
+import { SolverCell, SolverResult, solveBoard } from './MinesweeperSolver';
+import { generateNoGuessLayout } from './MinesweeperGenerator';
+import { MinesweeperBoardConfig, getBoardMode } from './MinesweeperModes';
+
 export interface Position {
   row: number;
   col: number;
@@ -8,7 +15,9 @@ export interface Position {
 export enum TileState {
   HIDDEN = 'hidden',
   REVEALED = 'revealed',
-  FLAGGED = 'flagged'
+  FLAGGED = 'flagged',
+  // The player's "maybe" - still covered, and opened by cascades like any hidden tile
+  QUESTION = 'question'
 }
 
 export enum GameState {
@@ -35,18 +44,38 @@ export interface MinesweeperGameData {
   startTime: Date | null;
   endTime: Date | null;
   firstClick: boolean;
+  // Proven clearable from the first click without guessing - only no-guess boards within budget
+  guaranteedSolvable: boolean;
 }
 
-export class MinesweeperGame {
-  private data: MinesweeperGameData;
-  private readonly rows: number;
-  private readonly cols: number;
-  private readonly mines: number;
+export interface MinesweeperOptions {
+  // Deal only boards that can be cleared from the first click by logic alone
+  noGuess?: boolean;
+}
 
-  constructor(rows: number = 9, cols: number = 9, mines: number = 10) {
+// MinesweeperGameData with its dates as timestamps
+interface MinesweeperSnapshotData {
+  data: Omit<MinesweeperGameData, 'startTime' | 'endTime'> & { startTime: number | null };
+  noGuess: boolean;
+}
+
+export class MinesweeperGame extends BaseGame {
+  private data: MinesweeperGameData;
+  private isPaused = false;
+  private rows: number;
+  private cols: number;
+  private mines: number;
+  private noGuess: boolean;
+  // Solved once per board position - hovering only reads it
+  private solverCache: { board: Tile[][]; revealedCount: number; result: SolverResult } | null = null;
+
+  constructor(rows: number = 9, cols: number = 9, mines: number = 10, random?: SeededRandom, options: MinesweeperOptions = {}) {
+    // Turn-based - the loop never steps, it only pauses the board when the page is hidden
+    super('minesweeper', { width: cols, height: rows, fps: 0 }, random);
     this.rows = rows;
     this.cols = cols;
     this.mines = mines;
+    this.noGuess = options.noGuess ?? false;
     this.data = this.initializeGame();
   }
 
@@ -75,11 +104,25 @@ export class MinesweeperGame {
       totalTiles: this.rows * this.cols,
       startTime: null,
       endTime: null,
-      firstClick: true
+      firstClick: true,
+      guaranteedSolvable: false
     };
   }
 
   private placeMines(excludePosition: Position): void {
+    if (this.noGuess) {
+      const layout = generateNoGuessLayout(this.rows, this.cols, this.mines, excludePosition, this.random);
+      layout.mines.forEach((line, row) => line.forEach((isMine, col) => {
+        this.data.board[row][col].isMine = isMine;
+      }));
+      this.data.guaranteedSolvable = layout.solvable;
+      if (!layout.solvable) {
+        console.warn(`No guess-free Minesweeper board found in ${layout.attempts} attempts, dealing a classic one`);
+      }
+      this.calculateNeighborCounts();
+      return;
+    }
+
     const positions: Position[] = [];
     
     // Generate all possible positions except the first click
@@ -98,7 +141,7 @@ export class MinesweeperGame {
     for (let i = 0; i < maxMines; i++) {
       if (positions.length === 0) break;
       
-      const randomIndex = Math.floor(Math.random() * positions.length);
+      const randomIndex = this.random.nextInt(positions.length);
       const position = positions.splice(randomIndex, 1)[0];
       this.data.board[position.row][position.col].isMine = true;
     }
@@ -152,8 +195,8 @@ export class MinesweeperGame {
     
     const tile = this.data.board[row][col];
     
-    // Only reveal hidden tiles
-    if (tile.state !== TileState.HIDDEN) return;
+    // Only reveal covered tiles - flags protect theirs
+    if (tile.state !== TileState.HIDDEN && tile.state !== TileState.QUESTION) return;
 
     // Reveal the tile
     tile.state = TileState.REVEALED;
@@ -175,12 +218,12 @@ export class MinesweeperGame {
       return false;
     }
 
-    if (this.data.gameState === GameState.WON || this.data.gameState === GameState.LOST) {
+    if (this.data.gameState === GameState.WON || this.data.gameState === GameState.LOST || this.isPaused) {
       return false;
     }
 
     const tile = this.data.board[row][col];
-    if (tile.state !== TileState.HIDDEN) {
+    if (tile.state !== TileState.HIDDEN && tile.state !== TileState.QUESTION) {
       return false;
     }
 
@@ -188,31 +231,87 @@ export class MinesweeperGame {
     if (this.data.firstClick) {
       this.placeMines({ row, col });
       this.data.gameState = GameState.PLAYING;
-      this.data.startTime = new Date();
+      this.data.startTime = GameClock.date();
       this.data.firstClick = false;
+      this.recorder.begin(this.getSeed(), this.data);
+      this.startLoop();
+      this.notifyStatus();
       
       // After placing mines, the first clicked tile should never be a mine
       // This is guaranteed by placeMines excluding the first click position
     }
 
+    this.recorder.recordInput('reveal', { row, col });
+
     // Reveal the tile and potentially cascade
     this.revealTile(row, col);
 
     // Check for mine (should never happen on first click)
-    if (tile.isMine) {
+    return this.settleMove(tile.isMine);
+  }
+
+  // Clicking a number whose flags already account for its mines opens every other neighbor -
+  // a wrong flag means one of them is a mine, and the chord loses the game
+  chordTile(row: number, col: number): boolean {
+    if (row < 0 || row >= this.rows || col < 0 || col >= this.cols) {
+      return false;
+    }
+
+    if (this.data.gameState !== GameState.PLAYING || this.isPaused) {
+      return false;
+    }
+
+    const tile = this.data.board[row][col];
+    if (tile.state !== TileState.REVEALED || tile.isMine || tile.neighborMines === 0) {
+      return false;
+    }
+
+    const neighbors = this.getNeighbors(row, col).map(pos => this.data.board[pos.row][pos.col]);
+    const flagged = neighbors.filter(neighbor => neighbor.state === TileState.FLAGGED).length;
+    const covered = neighbors.filter(neighbor => neighbor.state === TileState.HIDDEN || neighbor.state === TileState.QUESTION);
+    if (flagged !== tile.neighborMines || covered.length === 0) {
+      return false;
+    }
+
+    this.recorder.recordInput('chord', { row, col });
+    covered.forEach(neighbor => this.revealTile(neighbor.position.row, neighbor.position.col));
+    return this.settleMove(covered.some(neighbor => neighbor.isMine));
+  }
+
+  // Whether the chord would open anything - lets the board show which numbers are ready
+  canChord(row: number, col: number): boolean {
+    const tile = this.data.board[row]?.[col];
+    if (!tile || tile.state !== TileState.REVEALED || tile.isMine || tile.neighborMines === 0) {
+      return false;
+    }
+    const neighbors = this.getNeighbors(row, col).map(pos => this.data.board[pos.row][pos.col]);
+    return neighbors.filter(neighbor => neighbor.state === TileState.FLAGGED).length === tile.neighborMines &&
+      neighbors.some(neighbor => neighbor.state === TileState.HIDDEN || neighbor.state === TileState.QUESTION);
+  }
+
+  // Ends the game after a reveal that hit a mine or cleared the board - false when a mine went off
+  private settleMove(hitMine: boolean): boolean {
+    if (hitMine) {
       this.data.gameState = GameState.LOST;
-      this.data.endTime = new Date();
+      this.data.endTime = GameClock.date();
+      this.stopLoop();
+      this.notifyStatus();
       // Reveal all mines
       this.revealAllMines();
+      this.recorder.captureFrame(this.data, true);
       return false;
     }
 
     // Check for win condition
     if (this.data.revealedCount === this.data.totalTiles - this.mines) {
       this.data.gameState = GameState.WON;
-      this.data.endTime = new Date();
+      this.data.endTime = GameClock.date();
+      this.stopLoop();
+      this.notifyStatus();
     }
 
+    // Every click changes the board, so none are throttled
+    this.recorder.captureFrame(this.data, true);
     return true;
   }
 
@@ -222,21 +321,29 @@ export class MinesweeperGame {
       return;
     }
 
-    if (this.data.gameState === GameState.WON || this.data.gameState === GameState.LOST) {
+    if (this.data.gameState === GameState.WON || this.data.gameState === GameState.LOST || this.isPaused) {
       return;
     }
 
     const tile = this.data.board[row][col];
+    // Revealed tiles cannot be flagged
+    if (tile.state === TileState.REVEALED) {
+      return;
+    }
+
+    this.recorder.recordInput('flag', { row, col });
     
-    // Toggle flag state only for hidden and flagged tiles
+    // Covered tiles cycle flag, question mark, plain
     if (tile.state === TileState.HIDDEN) {
       tile.state = TileState.FLAGGED;
       this.data.flagCount++;
     } else if (tile.state === TileState.FLAGGED) {
-      tile.state = TileState.HIDDEN;
+      tile.state = TileState.QUESTION;
       this.data.flagCount--;
+    } else if (tile.state === TileState.QUESTION) {
+      tile.state = TileState.HIDDEN;
     }
-    // Revealed tiles cannot be flagged
+    this.recorder.captureFrame(this.data, true);
   }
 
   private revealAllMines(): void {
@@ -250,8 +357,73 @@ export class MinesweeperGame {
     }
   }
 
-  reset(): void {
+  // The board goes live on the first reveal, so there is nothing to kick off here
+  start(): void {
+    this.isPaused = false;
+    this.notifyStatus();
+  }
+
+  pause(): void {
+    if (this.data.gameState === GameState.PLAYING) {
+      this.isPaused = true;
+      this.recorder.pause();
+      this.stopLoop();
+      this.notifyStatus();
+    }
+  }
+
+  resume(): void {
+    this.isPaused = false;
+    this.recorder.resume();
+    if (this.data.gameState === GameState.PLAYING) {
+      this.startLoop();
+    }
+    this.notifyStatus();
+  }
+
+  reset(seed?: number): void {
+    this.stopLoop();
+    this.isPaused = false;
+    this.reseed(seed);
+    this.recorder.clear();
     this.data = this.initializeGame();
+    this.notifyStatus();
+  }
+
+  // Turn-based - nothing changes between clicks
+  step(): void {}
+
+  destroy(): void {
+    this.stopLoop();
+    this.isPaused = false;
+  }
+
+  // Deals a fresh board of a new size or kind - ignored mid-game so a run can't change under the player
+  configure(board: MinesweeperBoardConfig, options: MinesweeperOptions = {}): boolean {
+    if (this.data.gameState === GameState.PLAYING) {
+      return false;
+    }
+
+    this.rows = board.rows;
+    this.cols = board.cols;
+    this.mines = board.mines;
+    this.noGuess = options.noGuess ?? false;
+    this.config = { ...this.config, width: board.cols, height: board.rows };
+    this.reset();
+    return true;
+  }
+
+  getBoardConfig(): MinesweeperBoardConfig {
+    return { rows: this.rows, cols: this.cols, mines: this.mines };
+  }
+
+  isNoGuess(): boolean {
+    return this.noGuess;
+  }
+
+  // Each board size ranks separately, and no-guess boards apart from classic ones of the same size
+  getMode(): string {
+    return getBoardMode(this.getBoardConfig(), this.noGuess);
   }
 
   // Getters for game state
@@ -263,74 +435,104 @@ export class MinesweeperGame {
     return this.mines - this.data.flagCount;
   }
 
-  getGameDuration(): number {
-    if (!this.data.startTime) return 0;
-    const endTime = this.data.endTime || new Date();
-    return endTime.getTime() - this.data.startTime.getTime();
+  // Safe tiles uncovered - counted, since a chord can set off more than one mine
+  getScore(): number {
+    return this.data.board.reduce(
+      (score, row) => score + row.filter(tile => tile.state === TileState.REVEALED && !tile.isMine).length,
+      0
+    );
   }
 
-  // AI Analysis Methods
-  calculateTileProbability(row: number, col: number): number {
-    const tile = this.data.board[row][col];
-    
-    if (tile.state !== TileState.HIDDEN) {
-      return tile.isMine ? 1.0 : 0.0;
+  isGamePaused(): boolean {
+    return this.isPaused;
+  }
+
+  // Shared lifecycle state
+  protected getStatus(): GameStatus {
+    switch (this.data.gameState) {
+      case GameState.READY:
+        return 'ready';
+      case GameState.PLAYING:
+        return this.isPaused ? 'paused' : 'running';
+      case GameState.WON:
+        return 'won';
+      case GameState.LOST:
+        return 'over';
     }
+  }
 
-    // Simple probability calculation based on revealed neighbors
-    const neighbors = this.getNeighbors(row, col);
-    const revealedNeighbors = neighbors.filter(pos => 
-      this.data.board[pos.row][pos.col].state === TileState.REVEALED
-    );
+  protected getStartTime(): Date | null {
+    return this.data.startTime;
+  }
+
+  protected getEndTime(): Date | null {
+    return this.data.endTime;
+  }
+
+  protected serializeData(): MinesweeperSnapshotData {
+    const data: MinesweeperSnapshotData['data'] & { endTime?: Date | null } = {
+      ...this.data,
+      startTime: this.data.startTime ? this.data.startTime.getTime() : null
+    };
+    delete data.endTime;
+    return { data, noGuess: this.noGuess };
+  }
+
+  protected restoreData(saved: MinesweeperSnapshotData, timeShift: number): void {
+    const { startTime, ...data } = saved.data;
+    // The snapshot's board decides the size - snapshots from before no-guess boards existed were all classic
+    this.rows = data.board.length;
+    this.cols = data.board[0]?.length ?? 0;
+    this.mines = data.mineCount;
+    this.config = { ...this.config, width: this.cols, height: this.rows };
+    this.noGuess = saved.noGuess ?? false;
+    this.data = {
+      ...data,
+      guaranteedSolvable: data.guaranteedSolvable ?? false,
+      startTime: startTime === null ? null : new Date(startTime + timeShift),
+      endTime: null
+    };
+    this.isPaused = true;
+  }
 
-    if (revealedNeighbors.length === 0) {
-      // No information available, use global probability
-      const remainingTiles = this.data.totalTiles - this.data.revealedCount - this.data.flagCount;
-      const remainingMines = this.mines - this.data.flagCount;
-      return remainingMines / remainingTiles;
+  // AI Analysis Methods
+
+  // Only what the player can see - mine positions are never read
+  private getSolverView(): SolverCell[][] {
+    return this.data.board.map(row => row.map(tile =>
+      tile.state === TileState.REVEALED && !tile.isMine ? tile.neighborMines : null
+    ));
+  }
+
+  // Exact probabilities plus the provably safe and provably mined tiles
+  getSolverResult(): SolverResult {
+    const cached = this.solverCache;
+    if (cached && cached.board === this.data.board && cached.revealedCount === this.data.revealedCount) {
+      return cached.result;
     }
 
-    // Calculate based on neighbor mine counts
-    let totalConstraints = 0;
-    let satisfiedConstraints = 0;
-
-    revealedNeighbors.forEach(pos => {
-      const neighborTile = this.data.board[pos.row][pos.col];
-      if (neighborTile.neighborMines > 0) {
-        totalConstraints++;
-        
-        const neighborNeighbors = this.getNeighbors(pos.row, pos.col);
-        const flaggedCount = neighborNeighbors.filter(nPos => 
-          this.data.board[nPos.row][nPos.col].state === TileState.FLAGGED
-        ).length;
-        
-        const hiddenCount = neighborNeighbors.filter(nPos => 
-          this.data.board[nPos.row][nPos.col].state === TileState.HIDDEN
-        ).length;
-
-        if (hiddenCount > 0) {
-          const remainingMines = neighborTile.neighborMines - flaggedCount;
-          if (remainingMines > 0) {
-            satisfiedConstraints += remainingMines / hiddenCount;
-          }
-        }
-      }
-    });
+    const result = solveBoard(this.getSolverView(), this.mines);
+    this.solverCache = { board: this.data.board, revealedCount: this.data.revealedCount, result };
+    return result;
+  }
 
-    if (totalConstraints === 0) {
-      const remainingTiles = this.data.totalTiles - this.data.revealedCount - this.data.flagCount;
-      const remainingMines = this.mines - this.data.flagCount;
-      return remainingMines / remainingTiles;
+  calculateTileProbability(row: number, col: number): number {
+    const tile = this.data.board[row][col];
+
+    // Revealed tiles are known - a revealed mine only exists once the game is lost
+    if (tile.state === TileState.REVEALED) {
+      return tile.isMine ? 1.0 : 0.0;
     }
 
-    return Math.min(1.0, satisfiedConstraints / totalConstraints);
+    return this.getSolverResult().probabilities[row][col];
   }
 
   getHiddenTiles(): Position[] {
     const hiddenTiles: Position[] = [];
     for (let row = 0; row < this.rows; row++) {
       for (let col = 0; col < this.cols; col++) {
-        if (this.data.board[row][col].state === TileState.HIDDEN) {
+        const state = this.data.board[row][col].state;
+        if (state === TileState.HIDDEN || state === TileState.QUESTION) {
           hiddenTiles.push({ row, col });
         }
       }
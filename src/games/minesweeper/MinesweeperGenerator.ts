@@ -0,0 +1,220 @@
+// Minesweeper Generator - Mine layouts that can be cleared from the first click without guessing
+
+import type { Position } from './MinesweeperGame';
+import { SolverCell, solveBoard } from './MinesweeperSolver';
+import { SeededRandom } from '../engine/SeededRandom';
+import { GameClock } from '../engine/GameClock';
+
+// Wall-clock limit for finding a no-guess layout. It runs inside the first click, so it is kept short -
+// the presets need well under it, and only dense custom boards run out and fall back.
+// Read through GameClock, so headless runs (whose clock only moves when stepped) are bounded
+// by MAX_ATTEMPTS alone and stay deterministic
+export const NO_GUESS_TIME_BUDGET_MS = 250;
+const MAX_ATTEMPTS = 400;
+// Repairs tried on one layout before starting over from a fresh one
+const REPAIRS_PER_LAYOUT = 25;
+
+export interface GeneratedLayout {
+  mines: boolean[][];
+  // False when the budget ran out and the last attempt was used as-is
+  solvable: boolean;
+  attempts: number;
+}
+
+const forEachNeighbor = (rows: number, cols: number, row: number, col: number, visit: (r: number, c: number) => void): void => {
+  for (let r = row - 1; r <= row + 1; r++) {
+    for (let c = col - 1; c <= col + 1; c++) {
+      if ((r !== row || c !== col) && r >= 0 && r < rows && c >= 0 && c < cols) {
+        visit(r, c);
+      }
+    }
+  }
+};
+
+// The first click opens a cascade when there is room to keep its neighbors clear too
+const getProtectedCells = (rows: number, cols: number, mineCount: number, start: Position): Set<number> => {
+  const protectedCells = new Set([start.row * cols + start.col]);
+  const withNeighbors = new Set(protectedCells);
+  forEachNeighbor(rows, cols, start.row, start.col, (r, c) => withNeighbors.add(r * cols + c));
+  return rows * cols - withNeighbors.size >= mineCount ? withNeighbors : protectedCells;
+};
+
+const randomLayout = (rows: number, cols: number, mineCount: number, protectedCells: Set<number>, random: SeededRandom): boolean[][] => {
+  const mines = Array.from({ length: rows }, () => new Array<boolean>(cols).fill(false));
+  const candidates: number[] = [];
+  for (let cell = 0; cell < rows * cols; cell++) {
+    if (!protectedCells.has(cell)) candidates.push(cell);
+  }
+
+  for (let i = 0; i < mineCount && candidates.length > 0; i++) {
+    const cell = candidates.splice(random.nextInt(candidates.length), 1)[0];
+    mines[Math.floor(cell / cols)][cell % cols] = true;
+  }
+  return mines;
+};
+
+interface LogicOutcome {
+  solved: boolean;
+  // Covered tiles next to revealed ones when the logic got stuck - where a repair helps most
+  stuckFrontier: Position[];
+  revealed: boolean[][];
+}
+
+// Plays the layout from the first click using only deductions a player could make - cheap
+// single-tile rules first, then the exact solver when they run dry
+export function playByLogic(mines: boolean[][], start: Position, mineCount: number): LogicOutcome {
+  const rows = mines.length;
+  const cols = rows > 0 ? mines[0].length : 0;
+  const counts = mines.map((line, row) => line.map((_, col) => {
+    let count = 0;
+    forEachNeighbor(rows, cols, row, col, (r, c) => {
+      if (mines[r][c]) count++;
+    });
+    return count;
+  }));
+  const revealed = mines.map(line => line.map(() => false));
+  const knownMine = mines.map(line => line.map(() => false));
+  const safeTotal = rows * cols - mineCount;
+  let revealedCount = 0;
+
+  const reveal = (row: number, col: number): void => {
+    const stack: Position[] = [{ row, col }];
+    while (stack.length > 0) {
+      const next = stack.pop()!;
+      if (revealed[next.row][next.col]) continue;
+      revealed[next.row][next.col] = true;
+      revealedCount++;
+      if (counts[next.row][next.col] === 0) {
+        forEachNeighbor(rows, cols, next.row, next.col, (r, c) => {
+          if (!revealed[r][c]) stack.push({ row: r, col: c });
+        });
+      }
+    }
+  };
+
+  if (mines[start.row][start.col]) {
+    return { solved: false, stuckFrontier: [], revealed };
+  }
+  reveal(start.row, start.col);
+
+  while (revealedCount < safeTotal) {
+    let progress = false;
+
+    // Single-tile rules: a number already satisfied clears its neighbors, one needing every neighbor mines them
+    for (let row = 0; row < rows; row++) {
+      for (let col = 0; col < cols; col++) {
+        if (!revealed[row][col] || counts[row][col] === 0) continue;
+        const unknown: Position[] = [];
+        let flagged = 0;
+        forEachNeighbor(rows, cols, row, col, (r, c) => {
+          if (knownMine[r][c]) flagged++;
+          else if (!revealed[r][c]) unknown.push({ row: r, col: c });
+        });
+        if (unknown.length === 0) continue;
+
+        if (counts[row][col] === flagged) {
+          unknown.forEach(cell => reveal(cell.row, cell.col));
+          progress = true;
+        } else if (counts[row][col] - flagged === unknown.length) {
+          unknown.forEach(cell => {
+            knownMine[cell.row][cell.col] = true;
+          });
+          progress = true;
+        }
+      }
+    }
+    if (progress) continue;
+
+    // Nothing local left - ask the exact solver, which also weighs the remaining mine count
+    const view: SolverCell[][] = revealed.map((line, row) => line.map((isRevealed, col) => (isRevealed ? counts[row][col] : null)));
+    const result = solveBoard(view, mineCount);
+    result.mines.forEach(cell => {
+      if (!knownMine[cell.row][cell.col]) {
+        knownMine[cell.row][cell.col] = true;
+        progress = true;
+      }
+    });
+    result.safe.forEach(cell => {
+      if (!revealed[cell.row][cell.col]) {
+        reveal(cell.row, cell.col);
+        progress = true;
+      }
+    });
+
+    if (!progress) {
+      const stuckFrontier: Position[] = [];
+      for (let row = 0; row < rows; row++) {
+        for (let col = 0; col < cols; col++) {
+          if (revealed[row][col] || knownMine[row][col]) continue;
+          let touchesRevealed = false;
+          forEachNeighbor(rows, cols, row, col, (r, c) => {
+            if (revealed[r][c]) touchesRevealed = true;
+          });
+          if (touchesRevealed) stuckFrontier.push({ row, col });
+        }
+      }
+      return { solved: false, stuckFrontier, revealed };
+    }
+  }
+
+  return { solved: true, stuckFrontier: [], revealed };
+}
+
+// Moves one mine off the stuck frontier into ground the logic hasn't reached - false if there is nowhere to put it
+const repairLayout = (mines: boolean[][], outcome: LogicOutcome, protectedCells: Set<number>, random: SeededRandom): boolean => {
+  const rows = mines.length;
+  const cols = mines[0].length;
+  const frontierMines = outcome.stuckFrontier.filter(cell => mines[cell.row][cell.col]);
+  if (frontierMines.length === 0) return false;
+
+  const isFrontier = new Set(outcome.stuckFrontier.map(cell => cell.row * cols + cell.col));
+  const targets: Position[] = [];
+  for (let row = 0; row < rows; row++) {
+    for (let col = 0; col < cols; col++) {
+      const cell = row * cols + col;
+      if (!mines[row][col] && !outcome.revealed[row][col] && !isFrontier.has(cell) && !protectedCells.has(cell)) {
+        targets.push({ row, col });
+      }
+    }
+  }
+  if (targets.length === 0) return false;
+
+  const from = frontierMines[random.nextInt(frontierMines.length)];
+  const to = targets[random.nextInt(targets.length)];
+  mines[from.row][from.col] = false;
+  mines[to.row][to.col] = true;
+  return true;
+};
+
+// Regenerates and repairs layouts until one clears by logic alone, within the time and attempt budget.
+// Falls back to the last layout tried, which still keeps the first click safe
+export function generateNoGuessLayout(
+  rows: number,
+  cols: number,
+  mineCount: number,
+  start: Position,
+  random: SeededRandom
+): GeneratedLayout {
+  const protectedCells = getProtectedCells(rows, cols, mineCount, start);
+  const deadline = GameClock.now() + NO_GUESS_TIME_BUDGET_MS;
+  let mines = randomLayout(rows, cols, mineCount, protectedCells, random);
+  let attempts = 0;
+  let repairs = 0;
+
+  while (attempts < MAX_ATTEMPTS && GameClock.now() < deadline) {
+    attempts++;
+    const outcome = playByLogic(mines, start, mineCount);
+    if (outcome.solved) {
+      return { mines, solvable: true, attempts };
+    }
+
+    if (repairs < REPAIRS_PER_LAYOUT && repairLayout(mines, outcome, protectedCells, random)) {
+      repairs++;
+    } else {
+      mines = randomLayout(rows, cols, mineCount, protectedCells, random);
+      repairs = 0;
+    }
+  }
+
+  return { mines, solvable: false, attempts };
+}
@@ -0,0 +1,74 @@
+// Minesweeper Modes - Board presets, custom board limits and the high-score mode each board ranks in
+
+export interface MinesweeperBoardConfig {
+  rows: number;
+  cols: number;
+  mines: number;
+}
+
+export type MinesweeperPresetId = 'beginner' | 'intermediate' | 'expert';
+
+export interface MinesweeperPreset extends MinesweeperBoardConfig {
+  id: MinesweeperPresetId;
+  name: string;
+}
+
+export const MINESWEEPER_PRESETS: MinesweeperPreset[] = [
+  { id: 'beginner', name: 'BEGINNER', rows: 9, cols: 9, mines: 10 },
+  { id: 'intermediate', name: 'INTERMEDIATE', rows: 16, cols: 16, mines: 40 },
+  { id: 'expert', name: 'EXPERT', rows: 16, cols: 30, mines: 99 }
+];
+
+export const DEFAULT_BOARD: MinesweeperBoardConfig = MINESWEEPER_PRESETS[0];
+
+// Custom boards stay within what the renderer can fit - up to 30 wide and 24 tall
+export const BOARD_LIMITS = {
+  minRows: 5,
+  maxRows: 24,
+  minCols: 5,
+  maxCols: 30,
+  minMines: 1
+};
+
+// At least a full row and column stay clear, so the first click always has somewhere to open
+export function getMaxMines(rows: number, cols: number): number {
+  return Math.max(BOARD_LIMITS.minMines, (rows - 1) * (cols - 1));
+}
+
+// Every problem with a custom board, worded for the setup screen - empty when it can be played
+export function validateBoardConfig(config: MinesweeperBoardConfig): string[] {
+  const errors: string[] = [];
+  const { rows, cols, mines } = config;
+
+  if (!Number.isInteger(rows) || rows < BOARD_LIMITS.minRows || rows > BOARD_LIMITS.maxRows) {
+    errors.push(`ROWS MUST BE ${BOARD_LIMITS.minRows}-${BOARD_LIMITS.maxRows}`);
+  }
+  if (!Number.isInteger(cols) || cols < BOARD_LIMITS.minCols || cols > BOARD_LIMITS.maxCols) {
+    errors.push(`COLUMNS MUST BE ${BOARD_LIMITS.minCols}-${BOARD_LIMITS.maxCols}`);
+  }
+  if (errors.length === 0) {
+    const maxMines = getMaxMines(rows, cols);
+    if (!Number.isInteger(mines) || mines < BOARD_LIMITS.minMines || mines > maxMines) {
+      errors.push(`MINES MUST BE ${BOARD_LIMITS.minMines}-${maxMines} FOR A ${cols}x${rows} BOARD`);
+    }
+  }
+  return errors;
+}
+
+export function findPreset(config: MinesweeperBoardConfig): MinesweeperPreset | undefined {
+  return MINESWEEPER_PRESETS.find(preset =>
+    preset.rows === config.rows && preset.cols === config.cols && preset.mines === config.mines
+  );
+}
+
+// Width x height, as board sizes are usually quoted
+export function describeBoard(config: MinesweeperBoardConfig): string {
+  return `${config.cols}x${config.rows}, ${config.mines} MINES`;
+}
+
+// Presets rank under their own name; a custom board only ranks against the same size and mine count
+export function getBoardMode(config: MinesweeperBoardConfig, noGuess: boolean): string {
+  const preset = findPreset(config);
+  const board = preset ? preset.id : `custom-${config.cols}x${config.rows}-${config.mines}`;
+  return noGuess ? `${board}-no-guess` : board;
+}
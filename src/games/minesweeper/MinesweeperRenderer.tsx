@@ -1,14 +1,23 @@
-import React from 'react';
-import { MinesweeperGameData, TileState, GameState } from './MinesweeperGame';
+import React, { useEffect, useRef } from 'react';
+import { MinesweeperGameData, TileState, GameState, Tile, Position } from './MinesweeperGame';
+import { describeTile } from './MinesweeperAnnouncements';
 
 interface MinesweeperRendererProps {
   gameData: MinesweeperGameData;
   onTileClick: (row: number, col: number) => void;
   onTileRightClick: (row: number, col: number) => void;
   onTileHover?: (row: number, col: number) => void;
+  // Left click on a revealed number - opens its neighbors when its flags are all placed
+  onTileChord?: (row: number, col: number) => void;
   onPlayAgain?: () => void;
   onExitToConsole?: () => void;
   cellSize?: number;
+  // Keyboard cursor - outlined, and the board's one tab stop
+  cursor?: Position | null;
+  // Moves page focus onto the cursor as it moves, so screen readers follow it
+  focusCursor?: boolean;
+  // A tile took focus, e.g. tabbing into the board
+  onCursorChange?: (row: number, col: number) => void;
 }
 
 const MinesweeperRenderer: React.FC<MinesweeperRendererProps> = ({
@@ -16,14 +25,43 @@ const MinesweeperRenderer: React.FC<MinesweeperRendererProps> = ({
   onTileClick,
   onTileRightClick,
   onTileHover,
+  onTileChord,
   onPlayAgain,
   onExitToConsole,
-  cellSize = 30
+  cellSize = 30,
+  cursor = null,
+  focusCursor = false,
+  onCursorChange
 }) => {
+  const tileRefs = useRef(new Map<string, HTMLDivElement>());
+
+  // Followed by position rather than object, so a re-render with the same cursor doesn't steal focus back
+  const cursorRow = cursor?.row;
+  const cursorCol = cursor?.col;
+  useEffect(() => {
+    if (focusCursor && cursorRow !== undefined && cursorCol !== undefined) {
+      tileRefs.current.get(`${cursorRow}-${cursorCol}`)?.focus();
+    }
+  }, [focusCursor, cursorRow, cursorCol]);
+
+  // Text shrinks with the tiles so expert-sized boards stay legible
+  const fontSize = Math.max(9, Math.round(cellSize * 0.47));
+  const isOver = gameData.gameState === GameState.WON || gameData.gameState === GameState.LOST;
+
+  // Covered tiles take clicks and flags; revealed numbers take chords
+  const isCovered = (tile: Tile) =>
+    tile.state === TileState.HIDDEN || tile.state === TileState.FLAGGED || tile.state === TileState.QUESTION;
+  const isInteractive = (tile: Tile) =>
+    !isOver && (isCovered(tile) || (onTileChord !== undefined && tile.state === TileState.REVEALED && !tile.isMine && tile.neighborMines > 0));
+
   const getTileContent = (tile: any) => {
     if (tile.state === TileState.FLAGGED) {
       return '🚩';
     }
+
+    if (tile.state === TileState.QUESTION) {
+      return '?';
+    }
     
     if (tile.state === TileState.REVEALED) {
       if (tile.isMine) {
@@ -39,10 +77,6 @@ const MinesweeperRenderer: React.FC<MinesweeperRendererProps> = ({
   };
 
   const getTileStyle = (tile: any) => {
-    // Tiles are clickable if they're hidden or flagged AND game is not won/lost
-    const isClickable = (tile.state === TileState.HIDDEN || tile.state === TileState.FLAGGED) &&
-                       gameData.gameState !== GameState.WON && gameData.gameState !== GameState.LOST;
-    
     const baseStyle: React.CSSProperties = {
       width: cellSize,
       height: cellSize,
@@ -50,14 +84,14 @@ const MinesweeperRenderer: React.FC<MinesweeperRendererProps> = ({
       display: 'flex',
       alignItems: 'center',
       justifyContent: 'center',
-      fontSize: '14px',
+      fontSize: `${fontSize}px`,
       fontWeight: 'bold',
       fontFamily: 'Courier New, monospace',
-      cursor: isClickable ? 'pointer' : 'default',
+      cursor: isInteractive(tile) ? 'pointer' : 'default',
       userSelect: 'none'
     };
 
-    if (tile.state === TileState.HIDDEN) {
+    if (tile.state === TileState.HIDDEN || tile.state === TileState.QUESTION) {
       return {
         ...baseStyle,
         backgroundColor: '#95a5a6',
@@ -105,9 +139,13 @@ const MinesweeperRenderer: React.FC<MinesweeperRendererProps> = ({
     };
   };
 
-  const handleTileClick = (row: number, col: number, event: React.MouseEvent) => {
+  const handleTileClick = (tile: Tile, event: React.MouseEvent) => {
     event.preventDefault();
-    if (event.button === 0) { // Left click
+    if (event.button !== 0) return; // Left click only
+    const { row, col } = tile.position;
+    if (tile.state === TileState.REVEALED) {
+      onTileChord?.(row, col);
+    } else {
       onTileClick(row, col);
     }
   };
@@ -132,38 +170,62 @@ const MinesweeperRenderer: React.FC<MinesweeperRendererProps> = ({
       padding: '10px',
       backgroundColor: '#2c3e50'
     }}>
-      <div style={{
-        display: 'grid',
-        gridTemplateColumns: `repeat(${gameData.board[0]?.length || 0}, ${cellSize}px)`,
-        gap: '1px',
-        backgroundColor: '#7f8c8d',
-        padding: '2px'
-      }}>
-        {gameData.board.map((row, rowIndex) =>
-          row.map((tile, colIndex) => {
-            // Tiles are clickable if they're hidden or flagged AND game is not won/lost
-            const isClickable = (tile.state === TileState.HIDDEN || tile.state === TileState.FLAGGED) &&
-                               gameData.gameState !== GameState.WON && gameData.gameState !== GameState.LOST;
-            
-            return (
-              <div
-                key={`${rowIndex}-${colIndex}`}
-                style={getTileStyle(tile)}
-                onClick={isClickable ? (e) => handleTileClick(rowIndex, colIndex, e) : undefined}
-                onContextMenu={(e) => {
-                  e.preventDefault();
-                  if (isClickable) {
-                    handleTileRightClick(rowIndex, colIndex, e);
-                  }
-                }}
-                onMouseEnter={isClickable && tile.state === TileState.HIDDEN ? () => handleTileHover(rowIndex, colIndex) : undefined}
-                onMouseDown={(e) => e.preventDefault()}
-              >
-                {getTileContent(tile)}
-              </div>
-            );
-          })
-        )}
+      <div
+        role="grid"
+        aria-label={`Minesweeper board, ${gameData.board[0]?.length || 0} columns by ${gameData.board.length} rows`}
+        aria-rowcount={gameData.board.length}
+        aria-colcount={gameData.board[0]?.length || 0}
+        style={{
+          display: 'grid',
+          gridTemplateColumns: `repeat(${gameData.board[0]?.length || 0}, ${cellSize}px)`,
+          gap: '1px',
+          backgroundColor: '#7f8c8d',
+          padding: '2px'
+        }}
+      >
+        {/* Rows only carry semantics - their tiles sit directly in the CSS grid */}
+        {gameData.board.map((row, rowIndex) => (
+          <div key={rowIndex} role="row" aria-rowindex={rowIndex + 1} style={{ display: 'contents' }}>
+            {row.map((tile, colIndex) => {
+              const isClickable = isInteractive(tile);
+              const isFlaggable = !isOver && isCovered(tile);
+              const isCursor = cursor !== null && cursor.row === rowIndex && cursor.col === colIndex;
+              // Without a cursor yet, the first tile is where tabbing in lands
+              const isTabStop = cursor ? isCursor : rowIndex === 0 && colIndex === 0;
+
+              return (
+                <div
+                  key={`${rowIndex}-${colIndex}`}
+                  ref={(element) => {
+                    if (element) tileRefs.current.set(`${rowIndex}-${colIndex}`, element);
+                    else tileRefs.current.delete(`${rowIndex}-${colIndex}`);
+                  }}
+                  role="gridcell"
+                  aria-colindex={colIndex + 1}
+                  aria-label={describeTile(tile)}
+                  aria-selected={isCursor}
+                  tabIndex={isTabStop ? 0 : -1}
+                  onFocus={() => onCursorChange?.(rowIndex, colIndex)}
+                  style={{
+                    ...getTileStyle(tile),
+                    ...(isCursor ? { outline: '2px solid #f1c40f', outlineOffset: '-2px' } : {})
+                  }}
+                  onClick={isClickable ? (e) => handleTileClick(tile, e) : undefined}
+                  onContextMenu={(e) => {
+                    e.preventDefault();
+                    if (isFlaggable) {
+                      handleTileRightClick(rowIndex, colIndex, e);
+                    }
+                  }}
+                  onMouseEnter={isFlaggable && tile.state !== TileState.FLAGGED ? () => handleTileHover(rowIndex, colIndex) : undefined}
+                  onMouseDown={(e) => e.preventDefault()}
+                >
+                  <span aria-hidden="true">{getTileContent(tile)}</span>
+                </div>
+              );
+            })}
+          </div>
+        ))}
       </div>
       
       {/* Win Overlay */}
@@ -0,0 +1,173 @@
+// Minesweeper Setup - Picks the board before a game: a preset or a custom size, and whether it may need guessing
+
+import React, { useState } from 'react';
+import {
+  MinesweeperBoardConfig,
+  MINESWEEPER_PRESETS,
+  BOARD_LIMITS,
+  findPreset,
+  describeBoard,
+  validateBoardConfig
+} from './MinesweeperModes';
+import { useInput } from '../../input/useInput';
+
+interface MinesweeperSetupProps {
+  initialBoard: MinesweeperBoardConfig;
+  initialNoGuess: boolean;
+  onStart: (board: MinesweeperBoardConfig, noGuess: boolean) => void;
+}
+
+// Presets first, custom last
+const CUSTOM_OPTION = MINESWEEPER_PRESETS.length;
+
+const buttonStyle: React.CSSProperties = {
+  background: '#c0c0c0',
+  color: '#000000',
+  border: '2px outset #c0c0c0',
+  borderRadius: '0',
+  padding: '10px 20px',
+  fontFamily: 'Courier New, monospace',
+  fontSize: '12px',
+  cursor: 'pointer',
+  letterSpacing: '1px'
+};
+
+const fieldStyle: React.CSSProperties = {
+  width: '60px',
+  fontFamily: 'Courier New, monospace',
+  fontSize: '12px',
+  padding: '4px',
+  border: '2px inset #c0c0c0'
+};
+
+const MinesweeperSetup: React.FC<MinesweeperSetupProps> = ({ initialBoard, initialNoGuess, onStart }) => {
+  const initialPreset = findPreset(initialBoard);
+  const [selected, setSelected] = useState(initialPreset ? MINESWEEPER_PRESETS.indexOf(initialPreset) : CUSTOM_OPTION);
+  const [noGuess, setNoGuess] = useState(initialNoGuess);
+  // Kept as typed so a half-finished number can be edited freely
+  const [custom, setCustom] = useState({
+    rows: String(initialBoard.rows),
+    cols: String(initialBoard.cols),
+    mines: String(initialBoard.mines)
+  });
+
+  const customBoard: MinesweeperBoardConfig = {
+    rows: Number(custom.rows),
+    cols: Number(custom.cols),
+    mines: Number(custom.mines)
+  };
+  const board = selected === CUSTOM_OPTION ? customBoard : MINESWEEPER_PRESETS[selected];
+  const errors = selected === CUSTOM_OPTION ? validateBoardConfig(customBoard) : [];
+
+  const handleStart = () => {
+    if (errors.length === 0) {
+      onStart({ rows: board.rows, cols: board.cols, mines: board.mines }, noGuess);
+    }
+  };
+
+  useInput((event) => {
+    if (!event.pressed) return;
+    if (event.action === 'up') setSelected(prev => (prev > 0 ? prev - 1 : CUSTOM_OPTION));
+    if (event.action === 'down') setSelected(prev => (prev < CUSTOM_OPTION ? prev + 1 : 0));
+    if (event.action === 'confirm' && !event.repeat) handleStart();
+  });
+
+  const optionStyle = (index: number): React.CSSProperties => ({
+    ...buttonStyle,
+    display: 'flex',
+    justifyContent: 'space-between',
+    gap: '20px',
+    width: '100%',
+    border: index === selected ? '2px inset #c0c0c0' : '2px outset #c0c0c0',
+    background: index === selected ? '#d0d0d0' : '#c0c0c0'
+  });
+
+  return (
+    <div style={{
+      background: '#808080',
+      border: '2px outset #c0c0c0',
+      padding: '20px',
+      display: 'flex',
+      flexDirection: 'column',
+      gap: '10px',
+      minWidth: '320px'
+    }}>
+      <div style={{ fontWeight: 'bold', fontSize: '14px', letterSpacing: '2px', textAlign: 'center' }}>
+        SELECT BOARD
+      </div>
+
+      {MINESWEEPER_PRESETS.map((preset, index) => (
+        <button key={preset.id} style={optionStyle(index)} onClick={() => setSelected(index)}>
+          <span>{preset.name}</span>
+          <span>{describeBoard(preset)}</span>
+        </button>
+      ))}
+
+      <button style={optionStyle(CUSTOM_OPTION)} onClick={() => setSelected(CUSTOM_OPTION)}>
+        <span>CUSTOM</span>
+        <span>{BOARD_LIMITS.maxCols}x{BOARD_LIMITS.maxRows} MAX</span>
+      </button>
+
+      {selected === CUSTOM_OPTION && (
+        <div style={{ display: 'flex', flexDirection: 'column', gap: '8px', fontSize: '12px' }}>
+          <div style={{ display: 'flex', gap: '12px', justifyContent: 'center' }}>
+            <label>
+              COLUMNS{' '}
+              <input
+                type="number"
+                style={fieldStyle}
+                min={BOARD_LIMITS.minCols}
+                max={BOARD_LIMITS.maxCols}
+                value={custom.cols}
+                onChange={(e) => setCustom({ ...custom, cols: e.target.value })}
+              />
+            </label>
+            <label>
+              ROWS{' '}
+              <input
+                type="number"
+                style={fieldStyle}
+                min={BOARD_LIMITS.minRows}
+                max={BOARD_LIMITS.maxRows}
+                value={custom.rows}
+                onChange={(e) => setCustom({ ...custom, rows: e.target.value })}
+              />
+            </label>
+            <label>
+              MINES{' '}
+              <input
+                type="number"
+                style={fieldStyle}
+                min={BOARD_LIMITS.minMines}
+                value={custom.mines}
+                onChange={(e) => setCustom({ ...custom, mines: e.target.value })}
+              />
+            </label>
+          </div>
+          {errors.map(error => (
+            <div key={error} style={{ color: '#800000', textAlign: 'center' }}>{error}</div>
+          ))}
+        </div>
+      )}
+
+      <label style={{ fontSize: '12px', display: 'flex', gap: '8px', alignItems: 'center', justifyContent: 'center' }}>
+        <input type="checkbox" checked={noGuess} onChange={(e) => setNoGuess(e.target.checked)} />
+        NO GUESS - EVERY BOARD CAN BE CLEARED BY LOGIC ALONE
+      </label>
+
+      <button
+        style={{
+          ...buttonStyle,
+          color: errors.length > 0 ? '#808080' : '#000000',
+          cursor: errors.length > 0 ? 'default' : 'pointer'
+        }}
+        disabled={errors.length > 0}
+        onClick={handleStart}
+      >
+        START
+      </button>
+    </div>
+  );
+};
+
+export default MinesweeperSetup;
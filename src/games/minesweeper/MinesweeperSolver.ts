@@ -0,0 +1,323 @@
+// Minesweeper Solver - Exact mine probabilities from what the player can see
+
+import type { Position } from './MinesweeperGame';
+
+// What the solver may look at: a revealed tile's number, or null for anything still covered.
+// Flags are the player's opinion, not information, so flagged tiles count as covered
+export type SolverCell = number | null;
+
+export interface SolverResult {
+  // Chance each tile is a mine - 0 for revealed tiles
+  probabilities: number[][];
+  // Covered tiles that are provably safe / provably mines
+  safe: Position[];
+  mines: Position[];
+  // False when a constraint group was too large to enumerate in budget and fell back to the density estimate
+  exact: boolean;
+  // Covered tiles whose probability is that density estimate rather than exact
+  estimated: Position[];
+}
+
+// Backtracking steps allowed per constraint group before giving up on it
+const ENUMERATION_BUDGET = 2_000_000;
+
+interface Constraint {
+  // Indices into the group's cell list
+  cells: number[];
+  mines: number;
+}
+
+// Solutions of one group, by how many mines they place
+interface GroupSolutions {
+  cells: Position[];
+  // ways[k] - consistent assignments placing k mines in the group
+  ways: number[];
+  // mineWays[i][k] - of those, how many put a mine on cell i
+  mineWays: number[][];
+}
+
+class BudgetExceededError extends Error {}
+
+const forEachNeighbor = (
+  cells: SolverCell[][],
+  row: number,
+  col: number,
+  visit: (r: number, c: number) => void
+): void => {
+  for (let r = row - 1; r <= row + 1; r++) {
+    for (let c = col - 1; c <= col + 1; c++) {
+      if ((r !== row || c !== col) && r >= 0 && r < cells.length && c >= 0 && c < cells[r].length) {
+        visit(r, c);
+      }
+    }
+  }
+};
+
+// log(n!) for every n up to the board size, so huge binomials stay finite
+const createLogFactorials = (n: number): number[] => {
+  const table = [0];
+  for (let i = 1; i <= n; i++) {
+    table[i] = table[i - 1] + Math.log(i);
+  }
+  return table;
+};
+
+const logChoose = (logFactorials: number[], n: number, k: number): number =>
+  k < 0 || k > n ? -Infinity : logFactorials[n] - logFactorials[k] - logFactorials[n - k];
+
+const convolve = (a: number[], b: number[]): number[] => {
+  const result = new Array(a.length + b.length - 1).fill(0);
+  a.forEach((x, i) => {
+    if (x === 0) return;
+    b.forEach((y, j) => {
+      result[i + j] += x * y;
+    });
+  });
+  return result;
+};
+
+// Every covered tile at the plain mine density - for views no layout fits
+const densityResult = (cells: SolverCell[][], totalMines: number): SolverResult => {
+  const covered: Position[] = [];
+  cells.forEach((line, row) => line.forEach((cell, col) => {
+    if (cell === null) covered.push({ row, col });
+  }));
+  const density = covered.length > 0 ? Math.min(1, totalMines / covered.length) : 0;
+  return {
+    probabilities: cells.map(row => row.map(cell => (cell === null ? density : 0))),
+    safe: [],
+    mines: [],
+    exact: false,
+    estimated: covered
+  };
+};
+
+// Scaled so the largest count is 1 - every group's scale cancels out of the final ratios
+const normalizeGroup = (group: GroupSolutions): GroupSolutions => {
+  const max = Math.max(...group.ways);
+  if (max <= 0 || max === 1) return group;
+  return {
+    cells: group.cells,
+    ways: group.ways.map(w => w / max),
+    mineWays: group.mineWays.map(counts => counts.map(c => c / max))
+  };
+};
+
+// Backtracks over the group's cells in frontier order, pruning on every constraint it touches
+const enumerateGroup = (cells: Position[], constraints: Constraint[]): GroupSolutions => {
+  const n = cells.length;
+  const ways = new Array(n + 1).fill(0);
+  const mineWays = cells.map(() => new Array(n + 1).fill(0));
+  const assignment = new Array<number>(n).fill(0);
+
+  const constraintsOf: number[][] = cells.map(() => []);
+  constraints.forEach((constraint, index) => constraint.cells.forEach(cell => constraintsOf[cell].push(index)));
+  const placed = new Array(constraints.length).fill(0);
+  const unassigned = constraints.map(constraint => constraint.cells.length);
+
+  let steps = 0;
+
+  const fits = (cell: number): boolean =>
+    constraintsOf[cell].every(index =>
+      placed[index] <= constraints[index].mines &&
+      placed[index] + unassigned[index] >= constraints[index].mines
+    );
+
+  const search = (cell: number, mineCount: number): void => {
+    if (++steps > ENUMERATION_BUDGET) throw new BudgetExceededError();
+
+    if (cell === n) {
+      ways[mineCount]++;
+      for (let i = 0; i < n; i++) {
+        if (assignment[i]) mineWays[i][mineCount]++;
+      }
+      return;
+    }
+
+    for (const value of [0, 1]) {
+      assignment[cell] = value;
+      constraintsOf[cell].forEach(index => {
+        placed[index] += value;
+        unassigned[index]--;
+      });
+      if (fits(cell)) search(cell + 1, mineCount + value);
+      constraintsOf[cell].forEach(index => {
+        placed[index] -= value;
+        unassigned[index]++;
+      });
+    }
+    assignment[cell] = 0;
+  };
+
+  search(0, 0);
+  return normalizeGroup({ cells, ways, mineWays });
+};
+
+// Splits the frontier into groups that share no constraint, each in breadth-first order for early pruning
+const findGroups = (cells: SolverCell[][]): { groups: Array<{ cells: Position[]; constraints: Constraint[] }>; interior: Position[] } => {
+  const rows = cells.length;
+  const cols = rows > 0 ? cells[0].length : 0;
+  const key = (row: number, col: number) => row * cols + col;
+
+  // Every revealed number with covered neighbors is a constraint
+  const numberTiles: Array<{ row: number; col: number; covered: number[] }> = [];
+  const constraintsOfCell = new Map<number, number[]>();
+  for (let row = 0; row < rows; row++) {
+    for (let col = 0; col < cols; col++) {
+      if (cells[row][col] === null) continue;
+      const covered: number[] = [];
+      forEachNeighbor(cells, row, col, (r, c) => {
+        if (cells[r][c] === null) covered.push(key(r, c));
+      });
+      if (covered.length === 0) continue;
+      const index = numberTiles.length;
+      numberTiles.push({ row, col, covered });
+      covered.forEach(cell => {
+        const list = constraintsOfCell.get(cell) || [];
+        list.push(index);
+        constraintsOfCell.set(cell, list);
+      });
+    }
+  }
+
+  const groups: Array<{ cells: Position[]; constraints: Constraint[] }> = [];
+  const visited = new Set<number>();
+  constraintsOfCell.forEach((_, start) => {
+    if (visited.has(start)) return;
+
+    const order: number[] = [];
+    const groupConstraints = new Set<number>();
+    const queue = [start];
+    visited.add(start);
+    while (queue.length > 0) {
+      const cell = queue.shift()!;
+      order.push(cell);
+      (constraintsOfCell.get(cell) || []).forEach(index => {
+        groupConstraints.add(index);
+        numberTiles[index].covered.forEach(next => {
+          if (!visited.has(next)) {
+            visited.add(next);
+            queue.push(next);
+          }
+        });
+      });
+    }
+
+    const indexOf = new Map(order.map((cell, index) => [cell, index]));
+    groups.push({
+      cells: order.map(cell => ({ row: Math.floor(cell / cols), col: cell % cols })),
+      constraints: Array.from(groupConstraints).map(index => {
+        const tile = numberTiles[index];
+        return { cells: tile.covered.map(cell => indexOf.get(cell)!), mines: cells[tile.row][tile.col]! };
+      })
+    });
+  });
+
+  const interior: Position[] = [];
+  for (let row = 0; row < rows; row++) {
+    for (let col = 0; col < cols; col++) {
+      if (cells[row][col] === null && !constraintsOfCell.has(key(row, col))) {
+        interior.push({ row, col });
+      }
+    }
+  }
+
+  return { groups, interior };
+};
+
+// Exact per-tile probabilities: every consistent mine layout equally likely, given the total mine count
+export function solveBoard(cells: SolverCell[][], totalMines: number): SolverResult {
+  const rows = cells.length;
+  const cols = rows > 0 ? cells[0].length : 0;
+  const probabilities = cells.map(row => row.map(() => 0));
+  const safe: Position[] = [];
+  const mines: Position[] = [];
+
+  const { groups, interior: openInterior } = findGroups(cells);
+
+  // Groups too big to enumerate are treated like interior tiles - solved groups stay exact
+  const solved: GroupSolutions[] = [];
+  const estimated: Position[] = [];
+  groups.forEach(group => {
+    try {
+      solved.push(enumerateGroup(group.cells, group.constraints));
+    } catch (error) {
+      if (!(error instanceof BudgetExceededError)) throw error;
+      estimated.push(...group.cells);
+    }
+  });
+  const exact = estimated.length === 0;
+  const interior = [...openInterior, ...estimated];
+
+  const logFactorials = createLogFactorials(rows * cols);
+  const interiorCount = interior.length;
+
+  // Layouts of the interior for each number of mines the groups use, relative to the most likely
+  const frontierMax = solved.reduce((sum, group) => sum + group.ways.length - 1, 0);
+  const interiorLogWeights = Array.from({ length: frontierMax + 1 }, (_, k) =>
+    logChoose(logFactorials, interiorCount, totalMines - k)
+  );
+  const maxLogWeight = Math.max(...interiorLogWeights);
+  // No layout fits the mine count - only a contradictory view gets here
+  if (!Number.isFinite(maxLogWeight)) return densityResult(cells, totalMines);
+  const interiorWeights = interiorLogWeights.map(w => Math.exp(w - maxLogWeight));
+
+  const combined = solved.reduce((acc, group) => convolve(acc, group.ways), [1]);
+  const total = combined.reduce((sum, ways, k) => sum + ways * interiorWeights[k], 0);
+  if (total === 0) return densityResult(cells, totalMines);
+
+  solved.forEach((group, groupIndex) => {
+    // Every other group combined, so this one's mine count can be paired with theirs
+    const others = solved.reduce(
+      (acc, other, index) => (index === groupIndex ? acc : convolve(acc, other.ways)),
+      [1]
+    );
+    // weightFor[k] - how much a layout with k mines in this group counts, over everything else on the board
+    const weightFor = group.ways.map((_, k) =>
+      others.reduce((sum, ways, rest) => sum + ways * (interiorWeights[k + rest] ?? 0), 0)
+    );
+
+    group.cells.forEach((position, i) => {
+      let mineWeight = 0;
+      let couldBeMine = false;
+      let couldBeSafe = false;
+      group.ways.forEach((ways, k) => {
+        if (ways === 0 || weightFor[k] === 0) return;
+        const mineCount = group.mineWays[i][k];
+        mineWeight += mineCount * weightFor[k];
+        if (mineCount > 0) couldBeMine = true;
+        if (mineCount < ways) couldBeSafe = true;
+      });
+
+      probabilities[position.row][position.col] = mineWeight / total;
+      if (!couldBeMine) safe.push(position);
+      if (!couldBeSafe) mines.push(position);
+    });
+  });
+
+  if (interiorCount > 0) {
+    // Each interior tile is equally likely to hold any of the mines the groups leave over
+    let mineWeight = 0;
+    let couldBeMine = false;
+    let couldBeSafe = false;
+    combined.forEach((ways, k) => {
+      const weight = ways * (interiorWeights[k] ?? 0);
+      if (weight === 0) return;
+      const left = totalMines - k;
+      mineWeight += weight * (left / interiorCount);
+      if (left > 0) couldBeMine = true;
+      if (left < interiorCount) couldBeSafe = true;
+    });
+
+    const probability = mineWeight / total;
+    interior.forEach(position => {
+      probabilities[position.row][position.col] = probability;
+      // Unsolved groups only know the density, so never call them certain
+      if (!exact && estimated.includes(position)) return;
+      if (!couldBeMine) safe.push(position);
+      if (!couldBeSafe) mines.push(position);
+    });
+  }
+
+  return { probabilities, safe, mines, exact, estimated };
+}
@@ -0,0 +1,53 @@
+// Minesweeper Game - Flagging, and what it leaves in the replay
+
+import { MinesweeperGame, TileState } from '../MinesweeperGame';
+import { GameClock, SimulatedClock } from '../../engine/GameClock';
+import { SeededRandom } from '../../engine/SeededRandom';
+
+afterEach(() => {
+  GameClock.use(null);
+});
+
+const startedGame = (): MinesweeperGame => {
+  GameClock.use(new SimulatedClock());
+  const game = new MinesweeperGame(9, 9, 10, new SeededRandom(3));
+  game.setHeadless(true);
+  game.getRecorder().setFrameCapture(true);
+  game.clickTile(4, 4);
+  return game;
+};
+
+const recorded = (game: MinesweeperGame) => {
+  const state = game.getRecorder().saveState()!;
+  return { inputs: state.inputs.length, frames: state.frames.length };
+};
+
+describe('MinesweeperGame flagTile', () => {
+  it('cycles a covered tile through flag, question mark and plain, recording each', () => {
+    const game = startedGame();
+    const tile = game.getGameData().board.flat().find(({ state }) => state === TileState.HIDDEN)!;
+    const { row, col } = tile.position;
+    const before = recorded(game);
+
+    game.flagTile(row, col);
+    expect(tile.state).toBe(TileState.FLAGGED);
+    game.flagTile(row, col);
+    expect(tile.state).toBe(TileState.QUESTION);
+    game.flagTile(row, col);
+    expect(tile.state).toBe(TileState.HIDDEN);
+
+    expect(recorded(game)).toEqual({ inputs: before.inputs + 3, frames: before.frames + 3 });
+  });
+
+  it('ignores a revealed tile without recording an input or a frame', () => {
+    const game = startedGame();
+    expect(game.getGameData().board[4][4].state).toBe(TileState.REVEALED);
+    const before = recorded(game);
+
+    game.flagTile(4, 4);
+
+    expect(game.getGameData().board[4][4].state).toBe(TileState.REVEALED);
+    expect(game.getGameData().flagCount).toBe(0);
+    expect(recorded(game)).toEqual(before);
+  });
+});
@@ -0,0 +1,107 @@
+// Minesweeper Generator - No-guess layouts, the logic player that checks them, and the fallback when none turns up
+
+import { jest } from '@jest/globals';
+import { generateNoGuessLayout, playByLogic, NO_GUESS_TIME_BUDGET_MS } from '../MinesweeperGenerator';
+import { MinesweeperGame, GameState } from '../MinesweeperGame';
+import { MINESWEEPER_PRESETS } from '../MinesweeperModes';
+import { GameClock, SimulatedClock } from '../../engine/GameClock';
+import { SeededRandom } from '../../engine/SeededRandom';
+
+const layoutFrom = (rows: string[]): boolean[][] => rows.map(row => row.split('').map(cell => cell === '*'));
+
+const countMines = (mines: boolean[][]): number => mines.flat().filter(Boolean).length;
+
+afterEach(() => {
+  GameClock.use(null);
+});
+
+describe('playByLogic', () => {
+  it('clears a layout that deduction alone can finish', () => {
+    const mines = layoutFrom([
+      '.....',
+      '.....',
+      '...*.',
+      '.....'
+    ]);
+    const outcome = playByLogic(mines, { row: 0, col: 0 }, 1);
+
+    expect(outcome.solved).toBe(true);
+    expect(outcome.revealed.flat().filter(Boolean)).toHaveLength(19);
+  });
+
+  it('gets stuck on a 50/50 and reports the tiles it could not decide', () => {
+    // Both numbers above the bottom row see both of its tiles, so nothing tells them apart
+    const mines = layoutFrom([
+      '..',
+      '..',
+      '*.'
+    ]);
+    const outcome = playByLogic(mines, { row: 0, col: 0 }, 1);
+
+    expect(outcome.solved).toBe(false);
+    expect(outcome.stuckFrontier).toEqual([{ row: 2, col: 0 }, { row: 2, col: 1 }]);
+  });
+
+  it('never starts on a mine', () => {
+    const outcome = playByLogic(layoutFrom(['*.', '..']), { row: 0, col: 0 }, 1);
+    expect(outcome.solved).toBe(false);
+    expect(outcome.revealed.flat().some(Boolean)).toBe(false);
+  });
+});
+
+describe('generateNoGuessLayout', () => {
+  it('deals every preset a layout that clears by logic from the first click', () => {
+    GameClock.use(new SimulatedClock());
+    MINESWEEPER_PRESETS.forEach(({ rows, cols, mines }, index) => {
+      const random = new SeededRandom(100 + index);
+      const start = { row: random.nextInt(rows), col: random.nextInt(cols) };
+      const layout = generateNoGuessLayout(rows, cols, mines, start, random);
+
+      expect(layout.solvable).toBe(true);
+      expect(countMines(layout.mines)).toBe(mines);
+      expect(layout.mines[start.row][start.col]).toBe(false);
+      expect(playByLogic(layout.mines, start, mines).solved).toBe(true);
+    });
+  });
+
+  it('falls back to a layout with a safe first click after its attempts run out', () => {
+    GameClock.use(new SimulatedClock());
+    // Any mine on a 2x2 board is a guess from the corner
+    const layout = generateNoGuessLayout(2, 2, 1, { row: 0, col: 0 }, new SeededRandom(7));
+
+    expect(layout.solvable).toBe(false);
+    expect(layout.attempts).toBeGreaterThan(1);
+    expect(countMines(layout.mines)).toBe(1);
+    expect(layout.mines[0][0]).toBe(false);
+  });
+
+  it('stops at the time budget', () => {
+    // Every read of the clock is half the budget later
+    let time = 0;
+    GameClock.use({ now: () => (time += NO_GUESS_TIME_BUDGET_MS / 2) });
+    const layout = generateNoGuessLayout(2, 2, 1, { row: 0, col: 0 }, new SeededRandom(7));
+
+    expect(layout.solvable).toBe(false);
+    expect(layout.attempts).toBe(1);
+    expect(layout.mines[0][0]).toBe(false);
+  });
+});
+
+describe('first click', () => {
+  it('is never a mine, with or without no-guess', () => {
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+    GameClock.use(new SimulatedClock());
+    const { rows, cols, mines } = MINESWEEPER_PRESETS[2];
+
+    for (let seed = 1; seed <= 20; seed++) {
+      const random = new SeededRandom(seed);
+      const start = { row: random.nextInt(rows), col: random.nextInt(cols) };
+      const game = new MinesweeperGame(rows, cols, mines, random, { noGuess: seed % 2 === 0 });
+      game.setHeadless(true);
+
+      expect(game.clickTile(start.row, start.col)).toBe(true);
+      expect(game.getGameData().gameState).not.toBe(GameState.LOST);
+    }
+    warn.mockRestore();
+  });
+});
@@ -0,0 +1,147 @@
+// Minesweeper Solver - Exact probabilities checked against counting every layout by hand
+
+import fc from 'fast-check';
+import { solveBoard, SolverCell } from '../MinesweeperSolver';
+import type { Position } from '../MinesweeperGame';
+
+interface View {
+  cells: SolverCell[][];
+  totalMines: number;
+}
+
+const neighbors = (rows: number, cols: number, row: number, col: number): Position[] => {
+  const result: Position[] = [];
+  for (let r = row - 1; r <= row + 1; r++) {
+    for (let c = col - 1; c <= col + 1; c++) {
+      if ((r !== row || c !== col) && r >= 0 && r < rows && c >= 0 && c < cols) {
+        result.push({ row: r, col: c });
+      }
+    }
+  }
+  return result;
+};
+
+// What the player sees of a real board with some of its safe tiles revealed
+const toView = (mines: boolean[][], revealed: boolean[][]): View => ({
+  cells: mines.map((line, row) => line.map((isMine, col) => {
+    if (isMine || !revealed[row][col]) return null;
+    return neighbors(mines.length, line.length, row, col).filter(n => mines[n.row][n.col]).length;
+  })),
+  totalMines: mines.flat().filter(Boolean).length
+});
+
+// Tries every way of placing the mines on the covered tiles and counts how often each tile holds one
+const bruteForce = ({ cells, totalMines }: View): number[][] => {
+  const rows = cells.length;
+  const cols = cells[0].length;
+  const covered: Position[] = [];
+  cells.forEach((line, row) => line.forEach((cell, col) => {
+    if (cell === null) covered.push({ row, col });
+  }));
+
+  const mineCounts = cells.map(line => line.map(() => 0));
+  let layouts = 0;
+  const layout = cells.map(line => line.map(() => false));
+
+  const fits = (): boolean => cells.every((line, row) => line.every((cell, col) =>
+    cell === null || neighbors(rows, cols, row, col).filter(n => layout[n.row][n.col]).length === cell
+  ));
+
+  const place = (from: number, left: number): void => {
+    if (left === 0) {
+      if (!fits()) return;
+      layouts++;
+      covered.forEach(({ row, col }) => {
+        if (layout[row][col]) mineCounts[row][col]++;
+      });
+      return;
+    }
+    for (let i = from; i <= covered.length - left; i++) {
+      const { row, col } = covered[i];
+      layout[row][col] = true;
+      place(i + 1, left - 1);
+      layout[row][col] = false;
+    }
+  };
+  place(0, totalMines);
+
+  return mineCounts.map(line => line.map(count => count / layouts));
+};
+
+const sortPositions = (positions: Position[]): Position[] =>
+  [...positions].sort((a, b) => a.row - b.row || a.col - b.col);
+
+// Small boards with a real mine layout and any set of its safe tiles revealed
+const smallView = fc
+  .record({ rows: fc.integer({ min: 2, max: 4 }), cols: fc.integer({ min: 2, max: 4 }) })
+  .chain(({ rows, cols }) => fc.record({
+    // About one tile in four is a mine
+    mines: fc.array(fc.array(fc.integer({ min: 0, max: 3 }).map(n => n === 0), { minLength: cols, maxLength: cols }), { minLength: rows, maxLength: rows }),
+    revealed: fc.array(fc.array(fc.boolean(), { minLength: cols, maxLength: cols }), { minLength: rows, maxLength: rows })
+  }))
+  .map(({ mines, revealed }) => toView(mines, revealed));
+
+describe('solveBoard', () => {
+  it('matches counting every layout on small boards', () => {
+    fc.assert(
+      fc.property(smallView, view => {
+        const expected = bruteForce(view);
+        const result = solveBoard(view.cells, view.totalMines);
+
+        expect(result.exact).toBe(true);
+        expect(result.estimated).toEqual([]);
+        view.cells.forEach((line, row) => line.forEach((cell, col) => {
+          expect(result.probabilities[row][col]).toBeCloseTo(cell === null ? expected[row][col] : 0, 9);
+        }));
+
+        const covered = view.cells.flatMap((line, row) => line.flatMap((cell, col) => (cell === null ? [{ row, col }] : [])));
+        expect(sortPositions(result.safe)).toEqual(covered.filter(({ row, col }) => expected[row][col] === 0));
+        expect(sortPositions(result.mines)).toEqual(covered.filter(({ row, col }) => expected[row][col] === 1));
+      }),
+      { seed: 42, numRuns: 300 }
+    );
+  });
+
+  it('finds the tiles that are certainly safe or certainly mines', () => {
+    // Each 1 on the left sees the middle column - only a mine in its center satisfies all three
+    const result = solveBoard([
+      [1, null, null],
+      [1, null, null],
+      [1, null, null]
+    ], 2);
+
+    expect(result.mines).toEqual([{ row: 1, col: 1 }]);
+    expect(sortPositions(result.safe)).toEqual([{ row: 0, col: 1 }, { row: 2, col: 1 }]);
+    // The other mine is anywhere in the right-hand column
+    [0, 1, 2].forEach(row => expect(result.probabilities[row][2]).toBeCloseTo(1 / 3, 9));
+    expect(result.exact).toBe(true);
+  });
+
+  it('calls the leftover tiles safe once the numbers account for every mine', () => {
+    const result = solveBoard([[1, null, null]], 1);
+
+    expect(result.mines).toEqual([{ row: 0, col: 1 }]);
+    expect(result.safe).toEqual([{ row: 0, col: 2 }]);
+    expect(result.probabilities).toEqual([[0, 1, 0]]);
+  });
+
+  it('falls back to the mine density for a group too large to enumerate', () => {
+    // Revealed 2s on every other tile chain one huge, loosely constrained frontier together
+    const size = 21;
+    const cells: SolverCell[][] = Array.from({ length: size }, (_, row) =>
+      Array.from({ length: size }, (_, col) => (row % 2 === 1 && col % 2 === 1 ? 2 : null))
+    );
+    const covered = cells.flat().filter(cell => cell === null).length;
+    const totalMines = 150;
+
+    const result = solveBoard(cells, totalMines);
+
+    expect(result.exact).toBe(false);
+    expect(result.estimated).toHaveLength(covered);
+    expect(result.safe).toEqual([]);
+    expect(result.mines).toEqual([]);
+    cells.forEach((line, row) => line.forEach((cell, col) => {
+      expect(result.probabilities[row][col]).toBeCloseTo(cell === null ? totalMines / covered : 0, 9);
+    }));
+  });
+});
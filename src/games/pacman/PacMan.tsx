@@ -1,16 +1,24 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { PacManGame, GameState, Direction } from './PacManGame';
 import PacManRenderer from './PacManRenderer';
-import { PacManAIAnalyzer, PacManAIState } from '../../ai/pacman/PacManAIAnalyzer';
+import { PacManAIAnalyzer, PacManAIState, AI_UPDATE_INTERVAL } from '../../ai/pacman/PacManAIAnalyzer';
 import KAI from '../../components/KAI';
 import { useAudio } from '../../audio/useAudio';
+import { GameLifecycle, GameSnapshot } from '../engine/GameEngine';
+import { SeededRandom } from '../engine/SeededRandom';
+import { GameClock } from '../engine/GameClock';
+import InputManager, { InputAction } from '../../input/InputManager';
+import { useInput } from '../../input/useInput';
 
 interface PacManProps {
   onGameEnd?: (result: 'won' | 'lost', duration: number, score: number) => void;
   onAIStateChange?: (aiState: PacManAIState) => void;
+  onGameReady?: (game: GameLifecycle) => void;
+  createAnalyzer?: (random: SeededRandom) => PacManAIAnalyzer;
+  snapshot?: GameSnapshot;
 }
 
-const PacMan: React.FC<PacManProps> = ({ onGameEnd, onAIStateChange }) => {
+const PacMan: React.FC<PacManProps> = ({ onGameEnd, onAIStateChange, onGameReady, createAnalyzer = (random) => new PacManAIAnalyzer(undefined, random), snapshot }) => {
   const gameRef = useRef<PacManGame | null>(null);
   const aiAnalyzerRef = useRef<PacManAIAnalyzer | null>(null);
   const [gameData, setGameData] = useState(() => {
@@ -18,132 +26,108 @@ const PacMan: React.FC<PacManProps> = ({ onGameEnd, onAIStateChange }) => {
     return game.getGameData();
   });
   const [aiState, setAIState] = useState<PacManAIState | null>(null);
+  // Nothing starts until stored history has loaded, so the load can't overwrite what this visit learns
+  const [aiReady, setAIReady] = useState(false);
   const { playSFX } = useAudio();
 
   // Initialize game and AI analyzer
   useEffect(() => {
     gameRef.current = new PacManGame();
-    aiAnalyzerRef.current = new PacManAIAnalyzer();
-
-    // Set up keyboard controls
-    const handleKeyPress = (event: KeyboardEvent) => {
-      if (!gameRef.current) return;
-
-      let direction: Direction = Direction.NONE;
-      
-      switch (event.key) {
-        case 'ArrowUp':
-        case 'w':
-        case 'W':
-          direction = Direction.UP;
-          break;
-        case 'ArrowDown':
-        case 's':
-        case 'S':
-          direction = Direction.DOWN;
-          break;
-        case 'ArrowLeft':
-        case 'a':
-        case 'A':
-          direction = Direction.LEFT;
-          break;
-        case 'ArrowRight':
-        case 'd':
-        case 'D':
-          direction = Direction.RIGHT;
-          break;
+    onGameReady?.(gameRef.current);
+    aiAnalyzerRef.current = createAnalyzer(gameRef.current.getRandom());
+    aiAnalyzerRef.current.attachTo(gameRef.current);
+    // Restore session history from previous visits, then any suspended run
+    const game = gameRef.current;
+    const analyzer = aiAnalyzerRef.current;
+    void analyzer.initialize().then(() => {
+      setAIReady(true);
+      if (snapshot && gameRef.current === game && game.restoreSnapshot(snapshot)) {
+        const newAIState = analyzer.onGameStart(game.getGameData());
+        setAIState(newAIState);
+        onAIStateChange?.(newAIState);
+        setGameData(game.getGameData());
       }
+    });
 
-      if (direction !== Direction.NONE) {
-        event.preventDefault();
+    // Steering comes from the console's direction actions - any bound key, pad or touch d-pad
+    const actionDirections: Partial<Record<InputAction, Direction>> = {
+      up: Direction.UP,
+      down: Direction.DOWN,
+      left: Direction.LEFT,
+      right: Direction.RIGHT
+    };
+    const unsubscribeInput = InputManager.getInstance().subscribe((event) => {
+      const direction = actionDirections[event.action];
+      if (gameRef.current && direction && event.pressed) {
         gameRef.current.setDirection(direction);
       }
-    };
-
-    document.addEventListener('keydown', handleKeyPress);
+    });
 
     return () => {
-      document.removeEventListener('keydown', handleKeyPress);
+      unsubscribeInput();
       if (gameRef.current) {
         gameRef.current.destroy();
       }
     };
   }, []);
 
-  // Game state update loop
+  // The game runs its own fixed-step loop and reports Pac-Man's moves to the AI itself - this redraws
+  // after each display frame's steps and hands the ghosts to the AI on its cadence
   useEffect(() => {
-    const updateInterval = setInterval(() => {
-      if (gameRef.current && aiAnalyzerRef.current) {
-        const prevGameData = gameData;
-        const newGameData = gameRef.current.getGameData();
-        setGameData(newGameData);
+    const game = gameRef.current;
+    if (!game) return;
+
+    let prevGameData = game.getGameData();
+    let lastAIUpdate = GameClock.now();
+    return game.onFrame(() => {
+      const analyzer = aiAnalyzerRef.current;
+      if (!analyzer) return;
+      const newGameData = game.getGameData();
+      setGameData(newGameData);
 
-        // Handle game state changes
-        if (prevGameData.gameState === GameState.READY && newGameData.gameState === GameState.PLAYING) {
-          // Game started
-          const newAIState = aiAnalyzerRef.current.onGameStart(newGameData);
-          setAIState(newAIState);
-          onAIStateChange?.(newAIState);
-        } else if (newGameData.gameState === GameState.PLAYING) {
-          // Game update - let AI control ghosts and analyze behavior
-          const { aiState: newAIState, ghostMoves, chainAttempts, speechTriggers } = aiAnalyzerRef.current.onGameUpdate(newGameData);
-          
-          // First, attempt lookahead chaining for ghosts with active segments
-          for (const [ghostId, direction] of chainAttempts) {
-            gameRef.current.tryChainGhostSegment(ghostId, direction);
-          }
-          
-          // Then, apply moves for idle ghosts
-          for (const [ghostId, direction] of ghostMoves) {
-            gameRef.current.moveGhost(ghostId, direction);
-          }
-          
-          // Finally, trigger speech bubbles
-          for (const [ghostId, speechText] of speechTriggers) {
-            gameRef.current.addSpeechBubble(ghostId, speechText);
-          }
-          
-          setAIState(newAIState);
-          onAIStateChange?.(newAIState);
-        } else if (
-          (prevGameData.gameState === GameState.PLAYING && newGameData.gameState === GameState.WON) ||
-          (prevGameData.gameState === GameState.PLAYING && newGameData.gameState === GameState.LOST)
-        ) {
-          // Game ended
-          const result = newGameData.gameState === GameState.WON ? 'won' : 'lost';
-          const duration = gameRef.current.getGameDuration();
-          const score = gameRef.current.getScore();
-          
-          // Play appropriate sound effect
-          playSFX(result === 'won' ? 'youWin' : 'gameOver', 'snake');
-          
-          const newAIState = aiAnalyzerRef.current.onGameEnd(newGameData, result);
-          setAIState(newAIState);
-          onAIStateChange?.(newAIState);
-          onGameEnd?.(result, duration, score);
-        }
+      const now = GameClock.now();
+      if (newGameData.gameState === GameState.PLAYING && now - lastAIUpdate >= AI_UPDATE_INTERVAL) {
+        // Let AI control ghosts and analyze behavior
+        lastAIUpdate = now;
+        const newAIState = analyzer.controlGhosts(game);
+        setAIState(newAIState);
+        onAIStateChange?.(newAIState);
+      } else if (newGameData.gameState === GameState.WON || newGameData.gameState === GameState.LOST) {
+        // Game ended - the loop stops with it, so this runs once
+        const result = newGameData.gameState === GameState.WON ? 'won' : 'lost';
+        const duration = game.getGameDuration();
+        const score = game.getScore();
 
-        // Check for Pac-Man death (lives decreased or entering death pause)
-        if (prevGameData.lives > newGameData.lives && 
-            (newGameData.gameState === GameState.DEATH_PAUSE || newGameData.gameState === GameState.PLAYING)) {
+        // Play appropriate sound effect
+        playSFX(result === 'won' ? 'youWin' : 'gameOver', 'snake');
 
-              playSFX('gameOver', 'pacman');
-          // Use the tracked killer ghost from game data
-          const killerGhostId = newGameData.lastKillerGhost || 'unknown';
-          
-          const newAIState = aiAnalyzerRef.current.onPacManDeath(newGameData, killerGhostId);
-          setAIState(newAIState);
-          onAIStateChange?.(newAIState);
-        }
+        const newAIState = analyzer.onGameEnd(newGameData, result);
+        setAIState(newAIState);
+        onAIStateChange?.(newAIState);
+        onGameEnd?.(result, duration, score);
       }
-    }, 150); // Slightly slower update rate for smoother feel
 
-    return () => clearInterval(updateInterval);
-  }, [onGameEnd, onAIStateChange, gameData]);
+      // Check for Pac-Man death (lives decreased or entering death pause)
+      if (prevGameData.lives > newGameData.lives &&
+          (newGameData.gameState === GameState.DEATH_PAUSE || newGameData.gameState === GameState.PLAYING)) {
+        playSFX('gameOver', 'pacman');
+        // Use the tracked killer ghost from game data
+        const killerGhostId = newGameData.lastKillerGhost || 'unknown';
+
+        const newAIState = analyzer.onPacManDeath(newGameData, killerGhostId);
+        setAIState(newAIState);
+        onAIStateChange?.(newAIState);
+      }
+      prevGameData = newGameData;
+    });
+  }, [onGameEnd, onAIStateChange, playSFX]);
 
   const handleStart = () => {
-    if (gameRef.current) {
+    if (gameRef.current && aiAnalyzerRef.current && aiReady) {
       gameRef.current.start();
+      const newAIState = aiAnalyzerRef.current.onGameStart(gameRef.current.getGameData());
+      setAIState(newAIState);
+      onAIStateChange?.(newAIState);
     }
   };
 
@@ -155,6 +139,17 @@ const PacMan: React.FC<PacManProps> = ({ onGameEnd, onAIStateChange }) => {
     }
   };
 
+  // CONFIRM starts the level and plays again once it is over
+  useInput((event) => {
+    if (event.action !== 'confirm' || !event.pressed || event.repeat) return;
+
+    if (gameData.gameState === GameState.READY) {
+      handleStart();
+    } else if (gameData.gameState === GameState.WON || gameData.gameState === GameState.LOST) {
+      handleReset();
+    }
+  });
+
   const getGameStateDisplay = () => {
     switch (gameData.gameState) {
       case GameState.READY:
@@ -222,15 +217,16 @@ const PacMan: React.FC<PacManProps> = ({ onGameEnd, onAIStateChange }) => {
         {gameData.gameState === GameState.READY && (
           <button
             onClick={handleStart}
+            disabled={!aiReady}
             style={{
               background: '#c0c0c0',
-              color: '#000000',
+              color: aiReady ? '#000000' : '#808080',
               border: '2px outset #c0c0c0',
               borderRadius: '0',
               padding: '10px 20px',
               fontFamily: 'Courier New, monospace',
               fontSize: '12px',
-              cursor: 'pointer',
+              cursor: aiReady ? 'pointer' : 'default',
               letterSpacing: '1px',
               transition: 'all 0.1s ease'
             }}
@@ -239,7 +235,7 @@ const PacMan: React.FC<PacManProps> = ({ onGameEnd, onAIStateChange }) => {
             onMouseDown={(e) => { e.currentTarget.style.border = '2px inset #c0c0c0' }}
             onMouseUp={(e) => { e.currentTarget.style.border = '2px outset #c0c0c0' }}
           >
-            START GAME
+            {aiReady ? 'START GAME' : 'LOADING...'}
           </button>
         )}
 
@@ -276,7 +272,7 @@ const PacMan: React.FC<PacManProps> = ({ onGameEnd, onAIStateChange }) => {
         padding: '8px 16px',
         border: '2px inset #c0c0c0'
       }}>
-        <div>Use ARROW KEYS or WASD to move Pac-Man</div>
+        <div>Use {InputManager.getInstance().getDirectionLabels()} to move Pac-Man</div>
         <div>Eat all pellets while avoiding ghosts</div>
         <div>Power pellets make ghosts vulnerable!</div>
       </div>
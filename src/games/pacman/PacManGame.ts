@@ -1,5 +1,9 @@
 // Pac-Man Game Logic - Classic maze-based mechanics
 
+import { BaseGame, GameResultFacts, GameStatus } from '../engine/GameEngine';
+import { SeededRandom } from '../engine/SeededRandom';
+import { GameClock } from '../engine/GameClock';
+
 export interface Position {
   x: number;
   y: number;
@@ -87,12 +91,22 @@ export interface PacManGameData {
   level: number;
   speechBubbles: SpeechBubble[];
   lastKillerGhost: string | null; // Track which ghost killed Pac-Man
+  ghostChain: number; // Ghosts eaten on the current power pellet
+  bestGhostChain: number;
+}
+
+// PacManGameData with its dates as timestamps - segment, revive and speech times stay absolute
+interface PacManSnapshotData {
+  data: Omit<PacManGameData, 'startTime' | 'endTime'> & { startTime: number | null };
+  stepAccumulator: number;
 }
 
-export class PacManGame {
+export class PacManGame extends BaseGame {
   private data: PacManGameData;
-  private gameLoop: number | null = null;
   private readonly LOGIC_UPDATE_RATE = 200; // milliseconds between logic updates (tile movement)
+  private stepAccumulator = 0; // game time not yet spent on a logic update
+  // Fired each time Pac-Man moves onto a new tile
+  private moveCallback: (() => void) | null = null;
   private readonly POWER_PELLET_DURATION = 10000; // 10 seconds
   private readonly GHOST_REVIVAL_TIME = 4000; // 4 seconds to revive
   private readonly DEATH_PAUSE_DURATION = 1500; // 1.5 seconds freeze on death
@@ -122,7 +136,9 @@ export class PacManGame {
     "###################"
   ];
 
-  constructor() {
+  constructor(random?: SeededRandom) {
+    // One loop step per logic update (LOGIC_UPDATE_RATE)
+    super('pacman', { width: 19, height: 21, fps: 1000 / 200 }, random);
     this.data = this.initializeGame();
   }
 
@@ -151,7 +167,9 @@ export class PacManGame {
       endTime: null,
       level: 1,
       speechBubbles: [],
-      lastKillerGhost: null
+      lastKillerGhost: null,
+      ghostChain: 0,
+      bestGhostChain: 0
     };
   }
 
@@ -280,38 +298,65 @@ export class PacManGame {
   start(): void {
     if (this.data.gameState === GameState.READY) {
       this.data.gameState = GameState.PLAYING;
-      this.data.startTime = new Date();
-      this.startGameLoop();
+      this.data.startTime = GameClock.date();
+      this.recorder.begin(this.getSeed(), this.data);
+      this.startLoop();
+      this.notifyStatus();
     }
   }
 
   pause(): void {
     if (this.data.gameState === GameState.PLAYING) {
       this.data.gameState = GameState.PAUSED;
-      this.stopGameLoop();
+      this.recorder.pause();
+      this.stopLoop();
+      this.notifyStatus();
     }
   }
 
   resume(): void {
     if (this.data.gameState === GameState.PAUSED) {
       this.data.gameState = GameState.PLAYING;
-      this.startGameLoop();
+      this.recorder.resume();
+      this.startLoop();
+      this.notifyStatus();
     }
   }
 
-  reset(): void {
-    this.stopGameLoop();
+  reset(seed?: number): void {
+    this.stopLoop();
+    this.reseed(seed);
+    this.recorder.clear();
     this.data = this.initializeGame();
+    this.stepAccumulator = 0;
+    this.notifyStatus();
+  }
+
+  // One logic update every LOGIC_UPDATE_RATE ms, death freeze included
+  step(dt: number): void {
+    if (this.data.gameState !== GameState.PLAYING && this.data.gameState !== GameState.DEATH_PAUSE) return;
+
+    this.stepAccumulator += dt;
+    while (this.stepAccumulator >= this.LOGIC_UPDATE_RATE) {
+      this.stepAccumulator -= this.LOGIC_UPDATE_RATE;
+      this.tick();
+      if (this.data.gameState !== GameState.PLAYING && this.data.gameState !== GameState.DEATH_PAUSE) break;
+    }
   }
 
   setDirection(direction: Direction): void {
     // Only accept input during active gameplay
     if (this.data.gameState === GameState.PLAYING) {
+      this.recorder.recordInput('direction', direction);
       this.data.pacman.nextDirection = direction;
     }
     // Ignore input during death pause, ready, won, lost states
   }
 
+  setMoveCallback(callback: () => void): void {
+    this.moveCallback = callback;
+  }
+
   // Game state access
   getGameData(): Readonly<PacManGameData> {
     return { 
@@ -329,28 +374,88 @@ export class PacManGame {
     return this.data.lives;
   }
 
-  getGameDuration(): number {
-    if (!this.data.startTime) return 0;
-    const endTime = this.data.endTime || new Date();
-    return endTime.getTime() - this.data.startTime.getTime();
+  // Shared lifecycle state - the death freeze still counts as running
+  protected getStatus(): GameStatus {
+    switch (this.data.gameState) {
+      case GameState.READY:
+        return 'ready';
+      case GameState.PLAYING:
+      case GameState.DEATH_PAUSE:
+        return 'running';
+      case GameState.PAUSED:
+        return 'paused';
+      case GameState.WON:
+        return 'won';
+      case GameState.LOST:
+        return 'over';
+    }
   }
 
-  // Private game logic
-  private startGameLoop(): void {
-    this.gameLoop = window.setInterval(() => {
-      this.update();
-    }, this.LOGIC_UPDATE_RATE);
+  protected getResultFacts(): GameResultFacts {
+    return {
+      bestGhostChain: this.data.bestGhostChain,
+      livesLeft: this.data.lives
+    };
+  }
+
+  protected getStartTime(): Date | null {
+    return this.data.startTime;
   }
 
-  private stopGameLoop(): void {
-    if (this.gameLoop) {
-      clearInterval(this.gameLoop);
-      this.gameLoop = null;
+  protected getEndTime(): Date | null {
+    return this.data.endTime;
+  }
+
+  protected serializeData(): PacManSnapshotData {
+    const data: PacManSnapshotData['data'] & { endTime?: Date | null } = {
+      ...this.data,
+      startTime: this.data.startTime ? this.data.startTime.getTime() : null
+    };
+    delete data.endTime;
+    return {
+      data,
+      stepAccumulator: this.stepAccumulator
+    };
+  }
+
+  protected restoreData(saved: PacManSnapshotData, timeShift: number): void {
+    const { startTime, ...data } = saved.data;
+    const shiftSegment = (segment: MovementSegment | null) =>
+      segment ? { ...segment, startTime: segment.startTime + timeShift } : null;
+
+    this.data = {
+      ...data,
+      pacman: { ...data.pacman, movementSegment: shiftSegment(data.pacman.movementSegment) },
+      ghosts: data.ghosts.map(ghost => ({
+        ...ghost,
+        movementSegment: shiftSegment(ghost.movementSegment),
+        reviveTime: ghost.reviveTime === null ? null : ghost.reviveTime + timeShift,
+        lastSpeechTime: ghost.lastSpeechTime + timeShift
+      })),
+      speechBubbles: data.speechBubbles.map(bubble => ({ ...bubble, startTime: bubble.startTime + timeShift })),
+      startTime: startTime === null ? null : new Date(startTime + timeShift),
+      endTime: null,
+      // Snapshots saved before ghost chains were tracked
+      ghostChain: data.ghostChain ?? 0,
+      bestGhostChain: data.bestGhostChain ?? 0
+    };
+    this.stepAccumulator = saved.stepAccumulator;
+
+    // A death freeze is skipped - the board comes back already reset for the next life
+    if (this.data.gameState === GameState.DEATH_PAUSE) {
+      this.resetPositions();
     }
+    this.data.gameState = GameState.PAUSED;
+  }
+
+  // Private game logic
+  private tick(): void {
+    this.update();
+    this.recorder.captureFrame(this.data);
   }
 
   private completeMovementSegments(): void {
-    const now = Date.now();
+    const now = GameClock.now();
     
     // Complete Pac-Man segment
     const pac = this.data.pacman;
@@ -437,13 +542,14 @@ export class PacManGame {
     // Check win condition
     if (this.data.pelletsRemaining === 0) {
       this.data.gameState = GameState.WON;
-      this.data.endTime = new Date();
-      this.stopGameLoop();
+      this.data.endTime = GameClock.date();
+      this.stopLoop();
+      this.notifyStatus();
     }
   }
 
   private updateGhostStates(): void {
-    const now = Date.now();
+    const now = GameClock.now();
     
     for (const ghost of this.data.ghosts) {
       // STRICT RESURRECTION CONTRACT: Handle ghost revival
@@ -532,6 +638,10 @@ export class PacManGame {
 
         // Collect pellets
         this.collectPellet(pacman.position);
+
+        if (this.moveCallback) {
+          this.moveCallback();
+        }
       } else {
         // Stop if hit wall
         pacman.direction = Direction.NONE;
@@ -567,7 +677,7 @@ export class PacManGame {
     if (!ghost || !ghost.movementSegment) return false;
 
     // Check if segment is >= 75% complete
-    const now = Date.now();
+    const now = GameClock.now();
     const elapsed = now - ghost.movementSegment.startTime;
     const progress = elapsed / ghost.movementSegment.duration;
     
@@ -676,7 +786,7 @@ export class PacManGame {
       return {
         fromTile,
         toTile,
-        startTime: Date.now(),
+        startTime: GameClock.now(),
         duration: this.LOGIC_UPDATE_RATE
       };
     }
@@ -703,6 +813,7 @@ export class PacManGame {
       // Activate power pellet
       this.data.powerPelletActive = true;
       this.data.powerPelletTimer = this.POWER_PELLET_DURATION;
+      this.data.ghostChain = 0;
       this.data.ghosts.forEach(ghost => {
         if (ghost.state === GhostState.NORMAL) {
           ghost.state = GhostState.FRIGHTENED;
@@ -730,12 +841,14 @@ export class PacManGame {
           ghost.state = GhostState.EATEN;
           ghost.isEaten = true;
           ghost.isVulnerable = false;
-          ghost.reviveTime = Date.now() + this.GHOST_REVIVAL_TIME;
+          ghost.reviveTime = GameClock.now() + this.GHOST_REVIVAL_TIME;
           
           // 3) Teleport to home position
           ghost.position = { ...ghost.homePosition };
           
           this.data.score += 200;
+          this.data.ghostChain++;
+          this.data.bestGhostChain = Math.max(this.data.bestGhostChain, this.data.ghostChain);
         } else if (ghost.state === GhostState.NORMAL) {
           // Pac-Man dies - enter death pause
           console.log(`[DEATH] Pac-Man killed by ${ghost.id.toUpperCase()}`);
@@ -744,8 +857,9 @@ export class PacManGame {
           if (this.data.lives <= 0) {
             // Game over
             this.data.gameState = GameState.LOST;
-            this.data.endTime = new Date();
-            this.stopGameLoop();
+            this.data.endTime = GameClock.date();
+            this.stopLoop();
+            this.notifyStatus();
           } else {
             // Enter death pause state
             this.data.gameState = GameState.DEATH_PAUSE;
@@ -811,7 +925,7 @@ export class PacManGame {
       ghost.movementSegment = {
         fromTile,
         toTile,
-        startTime: Date.now(),
+        startTime: GameClock.now(),
         duration: this.LOGIC_UPDATE_RATE
       };
       
@@ -836,7 +950,7 @@ export class PacManGame {
 
   // Speech Bubble System
   private updateSpeechBubbles(): void {
-    const now = Date.now();
+    const now = GameClock.now();
     // Remove expired speech bubbles
     this.data.speechBubbles = this.data.speechBubbles.filter(
       bubble => now < bubble.startTime + bubble.duration
@@ -847,7 +961,7 @@ export class PacManGame {
     const ghost = this.data.ghosts.find(g => g.id === ghostId);
     if (!ghost) return false;
 
-    const now = Date.now();
+    const now = GameClock.now();
     
     // Check cooldown
     if (now - ghost.lastSpeechTime < this.SPEECH_COOLDOWN) {
@@ -869,12 +983,13 @@ export class PacManGame {
 
     // Update ghost's last speech time
     ghost.lastSpeechTime = now;
+    this.recorder.recordAIEvent('ghost_speech', { ghostId, text });
 
     return true;
   }
 
   // Cleanup
   destroy(): void {
-    this.stopGameLoop();
+    this.stopLoop();
   }
 }
\ No newline at end of file
@@ -1,5 +1,6 @@
 import React, { useEffect, useRef, useState } from 'react';
 import { PacManGameData, CellType, Direction, GameState, MovementSegment, Position } from './PacManGame';
+import { GameClock } from '../engine/GameClock';
 
 interface PacManRendererProps {
   gameData: PacManGameData;
@@ -40,7 +41,7 @@ const PacManRenderer: React.FC<PacManRendererProps> = ({
       return fallback;
     }
 
-    const now = Date.now();
+    const now = GameClock.now();
     const t = Math.min(
       Math.max((now - segment.startTime) / segment.duration, 0),
       1
@@ -193,7 +194,7 @@ const PacManRenderer: React.FC<PacManRendererProps> = ({
     }
 
     // Use continuous time-based animation for smooth looping
-    const now = Date.now();
+    const now = GameClock.now();
     const chompSpeed = 8; // Chomps per second
     const chompCycle = Math.sin((now / 1000) * chompSpeed * Math.PI * 2);
     
@@ -0,0 +1,89 @@
+// Replay Player - Decodes a recorded run into frames for any point in time
+
+import { ReplayRecord, ReplayFrame, ReplayInput, ReplayAIEvent, applyFramePatch } from '../engine/ReplayRecorder'
+
+export class ReplayPlayer {
+  private replay: ReplayRecord
+  // Last decoded frame - playing forward only applies the patches in between
+  private cachedIndex = -1
+  private cachedFrame: unknown = null
+
+  constructor(replay: ReplayRecord) {
+    this.replay = replay
+  }
+
+  getReplay(): ReplayRecord {
+    return this.replay
+  }
+
+  getDuration(): number {
+    const frames = this.replay.frames
+    const lastFrameTime = frames.length > 0 ? frames[frames.length - 1].t : 0
+    return Math.max(this.replay.duration, lastFrameTime)
+  }
+
+  // Frame on screen at time t (ms) - null before the first frame
+  frameAt(t: number): unknown {
+    const index = this.frameIndexAt(t)
+    if (index < 0) return null
+    if (index === this.cachedIndex) return this.cachedFrame
+
+    const frames = this.replay.frames
+    let current = this.cachedFrame
+    let start = this.cachedIndex + 1
+
+    // Seeking backwards or past a keyframe restarts from the nearest keyframe
+    const keyIndex = this.keyframeIndexAtOrBefore(index)
+    if (this.cachedIndex < 0 || index < this.cachedIndex || keyIndex > this.cachedIndex) {
+      current = frames[keyIndex].key
+      start = keyIndex + 1
+    }
+
+    for (let i = start; i <= index; i++) {
+      current = this.decode(frames[i], current)
+    }
+
+    this.cachedIndex = index
+    this.cachedFrame = current
+    return current
+  }
+
+  inputsUntil(t: number): ReplayInput[] {
+    return this.replay.inputs.filter(input => input.t <= t)
+  }
+
+  aiEventsUntil(t: number): ReplayAIEvent[] {
+    return this.replay.aiEvents.filter(event => event.t <= t)
+  }
+
+  private decode(frame: ReplayFrame, previous: unknown): unknown {
+    if (frame.key !== undefined) return frame.key
+    return frame.patch ? applyFramePatch(previous, frame.patch) : previous
+  }
+
+  // Last frame at or before t
+  private frameIndexAt(t: number): number {
+    const frames = this.replay.frames
+    let low = 0
+    let high = frames.length - 1
+    let found = -1
+
+    while (low <= high) {
+      const mid = (low + high) >> 1
+      if (frames[mid].t <= t) {
+        found = mid
+        low = mid + 1
+      } else {
+        high = mid - 1
+      }
+    }
+    return found
+  }
+
+  private keyframeIndexAtOrBefore(index: number): number {
+    for (let i = index; i > 0; i--) {
+      if (this.replay.frames[i].key !== undefined) return i
+    }
+    return 0
+  }
+}
@@ -0,0 +1,44 @@
+// Replay Renderers - Feed recorded frames to each game's own renderer
+
+import { ReplayRendererProps } from '../GameRegistry'
+import SnakeRenderer from '../snake/SnakeRenderer'
+import { SnakeGameData } from '../snake/SnakeGame'
+import MinesweeperRenderer from '../minesweeper/MinesweeperRenderer'
+import { MinesweeperGameData } from '../minesweeper/MinesweeperGame'
+import PacManRenderer from '../pacman/PacManRenderer'
+import { PacManGameData } from '../pacman/PacManGame'
+import BlockBreakerRenderer from '../blockbreaker/BlockBreakerRenderer'
+import { BlockBreakerGameData } from '../blockbreaker/BlockBreakerGame'
+import { CorruptionState } from '../../ai/blockbreaker/BlockBreakerCorruptionSystem'
+
+// Replays are watch-only
+const ignoreInput = () => {}
+
+export const SnakeReplayRenderer = ({ frame }: ReplayRendererProps) => (
+  <SnakeRenderer gameData={frame as SnakeGameData} cellSize={20} />
+)
+
+export const MinesweeperReplayRenderer = ({ frame }: ReplayRendererProps) => (
+  <MinesweeperRenderer
+    gameData={frame as MinesweeperGameData}
+    onTileClick={ignoreInput}
+    onTileRightClick={ignoreInput}
+  />
+)
+
+export const PacManReplayRenderer = ({ frame }: ReplayRendererProps) => (
+  <PacManRenderer gameData={frame as PacManGameData} />
+)
+
+// Block Breaker frames carry the AI's corruption overlay alongside the game data
+export const BlockBreakerReplayRenderer = ({ frame }: ReplayRendererProps) => {
+  const { corruption, ...gameData } = frame as BlockBreakerGameData & { corruption?: CorruptionState }
+  return (
+    <BlockBreakerRenderer
+      gameData={gameData}
+      aiState={corruption ? { corruptionState: corruption } : null}
+      width={gameData.gameWidth}
+      height={gameData.gameHeight}
+    />
+  )
+}
@@ -0,0 +1,58 @@
+// Replay Store - Keeps the most recent recorded runs per game in the memory store
+
+import { GlobalMemoryStore } from '../../ai/console/storage/GlobalMemoryStore'
+import { createDefaultStore } from '../../ai/console/storage/createDefaultStore'
+import { ReplayRecord } from '../engine/ReplayRecorder'
+
+// Frames are heavy - only the latest few runs are worth keeping
+const MAX_REPLAYS_PER_GAME = 3
+
+// Shape written to the GlobalMemoryStore next to each game's own data
+interface PersistedReplays {
+  replays: ReplayRecord[]
+  savedAt: number
+}
+
+// Stored beside the game's session data rather than inside it, so trackers stay light
+export function getReplayStorageKey(gameId: string): string {
+  return `${gameId}_replays`
+}
+
+export class ReplayStore {
+  private memoryStore: GlobalMemoryStore
+
+  constructor(memoryStore?: GlobalMemoryStore) {
+    this.memoryStore = memoryStore || createDefaultStore()
+  }
+
+  // Newest first
+  async list(gameId: string): Promise<ReplayRecord[]> {
+    try {
+      const stored = await this.memoryStore.loadGameData<PersistedReplays>(getReplayStorageKey(gameId))
+      if (!stored || !Array.isArray(stored.replays)) return []
+      return [...stored.replays].sort((a, b) => b.recordedAt - a.recordedAt)
+    } catch (error) {
+      console.error(`Failed to load ${gameId} replays:`, error)
+      return []
+    }
+  }
+
+  async get(gameId: string, replayId: string): Promise<ReplayRecord | null> {
+    const replays = await this.list(gameId)
+    return replays.find(replay => replay.id === replayId) || null
+  }
+
+  async save(replay: ReplayRecord): Promise<void> {
+    const existing = await this.list(replay.gameId)
+    const replays = [replay, ...existing.filter(r => r.id !== replay.id)].slice(0, MAX_REPLAYS_PER_GAME)
+
+    try {
+      await this.memoryStore.saveGameData<PersistedReplays>(getReplayStorageKey(replay.gameId), {
+        replays,
+        savedAt: Date.now()
+      })
+    } catch (error) {
+      console.error(`Failed to save ${replay.gameId} replay:`, error)
+    }
+  }
+}
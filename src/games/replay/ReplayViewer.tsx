@@ -0,0 +1,279 @@
+import { useParams, useNavigate } from 'react-router-dom'
+import { useEffect, useMemo, useRef, useState } from 'react'
+import { GameRegistry } from '../GameRegistry'
+import { ReplayRecord } from '../engine/ReplayRecorder'
+import { ReplayStore } from './ReplayStore'
+import { ReplayPlayer } from './ReplayPlayer'
+
+const PLAYBACK_SPEEDS = [0.5, 1, 2, 4]
+// How many of the latest inputs / AI events the side log shows
+const LOG_LENGTH = 8
+
+const panelStyle: React.CSSProperties = {
+  background: '#808080',
+  border: '2px outset #c0c0c0',
+  borderRadius: '0',
+  padding: '15px 20px',
+  boxShadow: 'inset 0 1px 0 #ffffff, inset 0 -1px 0 #404040'
+}
+
+const buttonStyle: React.CSSProperties = {
+  background: '#c0c0c0',
+  color: '#000000',
+  border: '2px outset #c0c0c0',
+  borderRadius: '0',
+  padding: '6px 10px',
+  fontFamily: 'Courier New, monospace',
+  fontSize: '11px',
+  cursor: 'pointer',
+  letterSpacing: '1px'
+}
+
+const formatTime = (ms: number): string => {
+  const totalSeconds = Math.floor(ms / 1000)
+  const minutes = Math.floor(totalSeconds / 60)
+  const seconds = totalSeconds % 60
+  return `${minutes}:${seconds.toString().padStart(2, '0')}`
+}
+
+const formatDetail = (detail: unknown): string =>
+  detail === undefined ? '' : typeof detail === 'string' ? detail : JSON.stringify(detail)
+
+// Replay viewer - lists recorded runs and plays one back through the game's renderer
+const ReplayViewer = () => {
+  const { gameType, replayId } = useParams<{ gameType: string; replayId: string }>()
+  const navigate = useNavigate()
+  const definition = gameType ? GameRegistry.getInstance().get(gameType) : undefined
+
+  const [replays, setReplays] = useState<ReplayRecord[]>([])
+  const [replay, setReplay] = useState<ReplayRecord | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+  const [isPlaying, setIsPlaying] = useState(false)
+  const [speed, setSpeed] = useState(1)
+  const [position, setPosition] = useState(0)
+  // Mirrors position so the playback loop reads it without re-subscribing every frame
+  const positionRef = useRef(0)
+  const lastTickRef = useRef<number | null>(null)
+
+  const seek = (t: number) => {
+    positionRef.current = t
+    setPosition(t)
+  }
+
+  // Load either the requested replay or every game's replay list
+  useEffect(() => {
+    let mounted = true
+    const store = new ReplayStore()
+    setIsLoading(true)
+
+    const load = async () => {
+      if (gameType && replayId) {
+        const found = await store.get(gameType, replayId)
+        if (mounted) {
+          setReplay(found)
+          seek(0)
+          setIsPlaying(found !== null)
+        }
+      } else {
+        const replayableIds = GameRegistry.getInstance().getAll()
+          .filter(game => game.replayRenderer)
+          .map(game => game.id)
+        const lists = await Promise.all(replayableIds.map(id => store.list(id)))
+        if (mounted) {
+          setReplays(lists.flat().sort((a, b) => b.recordedAt - a.recordedAt))
+        }
+      }
+      if (mounted) setIsLoading(false)
+    }
+
+    void load()
+    return () => {
+      mounted = false
+    }
+  }, [gameType, replayId])
+
+  const player = useMemo(() => (replay ? new ReplayPlayer(replay) : null), [replay])
+  const duration = player ? player.getDuration() : 0
+
+  // Advance the playhead in real time, scaled by the playback speed
+  useEffect(() => {
+    if (!isPlaying || !player) return
+
+    let frameId = 0
+    const tick = (now: number) => {
+      const last = lastTickRef.current ?? now
+      lastTickRef.current = now
+      const next = Math.min(positionRef.current + (now - last) * speed, duration)
+      seek(next)
+      if (next >= duration) {
+        setIsPlaying(false)
+        return
+      }
+      frameId = requestAnimationFrame(tick)
+    }
+
+    frameId = requestAnimationFrame(tick)
+    return () => {
+      cancelAnimationFrame(frameId)
+      lastTickRef.current = null
+    }
+  }, [isPlaying, player, speed, duration])
+
+  const handleTogglePlay = () => {
+    // Playing from the end starts over
+    if (!isPlaying && position >= duration) {
+      seek(0)
+    }
+    setIsPlaying(prev => !prev)
+  }
+
+  const renderList = () => (
+    <div style={{ ...panelStyle, width: '100%', maxWidth: '800px' }}>
+      {isLoading && <p style={{ margin: 0 }}>LOADING REPLAYS...</p>}
+      {!isLoading && replays.length === 0 && (
+        <p style={{ margin: 0 }}>NO REPLAYS YET. FINISH A GAME TO RECORD ONE.</p>
+      )}
+      {replays.map(entry => (
+        <div
+          key={entry.id}
+          style={{
+            display: 'flex',
+            justifyContent: 'space-between',
+            alignItems: 'center',
+            padding: '8px 0',
+            borderBottom: '1px solid #606060',
+            fontSize: '12px'
+          }}
+        >
+          <span style={{ width: '140px' }}>
+            {(GameRegistry.getInstance().get(entry.gameId)?.name || entry.gameId).toUpperCase()}
+          </span>
+          <span style={{ width: '160px' }}>{new Date(entry.recordedAt).toLocaleString()}</span>
+          <span style={{ width: '60px' }}>{entry.result === 'won' ? 'WON' : 'LOST'}</span>
+          <span style={{ width: '90px' }}>SCORE {entry.score}</span>
+          <span style={{ width: '50px' }}>{formatTime(entry.duration)}</span>
+          <button
+            style={buttonStyle}
+            onClick={() => navigate(`/replays/${entry.gameId}/${entry.id}`)}
+          >
+            WATCH
+          </button>
+        </div>
+      ))}
+    </div>
+  )
+
+  const renderPlayback = () => {
+    if (isLoading) {
+      return <div style={panelStyle}>LOADING REPLAY...</div>
+    }
+    if (!replay || !player || !definition?.replayRenderer) {
+      return <div style={panelStyle}>REPLAY NOT FOUND</div>
+    }
+
+    const Renderer = definition.replayRenderer
+    const frame = player.frameAt(position)
+    const aiEvents = player.aiEventsUntil(position).slice(-LOG_LENGTH).reverse()
+    const inputs = player.inputsUntil(position).slice(-LOG_LENGTH).reverse()
+
+    return (
+      <div style={{ display: 'flex', flexDirection: 'column', alignItems: 'center', gap: '15px', width: '100%' }}>
+        {frame !== null && <Renderer frame={frame} />}
+
+        {/* Transport controls */}
+        <div style={{ ...panelStyle, width: '100%', maxWidth: '800px', display: 'flex', alignItems: 'center', gap: '10px' }}>
+          <button style={buttonStyle} onClick={handleTogglePlay}>
+            {isPlaying ? 'PAUSE' : 'PLAY'}
+          </button>
+          <input
+            type="range"
+            min={0}
+            max={duration}
+            value={position}
+            onChange={(e) => seek(Number(e.target.value))}
+            style={{ flex: 1 }}
+            aria-label="Seek"
+          />
+          <span style={{ fontSize: '12px', minWidth: '90px' }}>
+            {formatTime(position)} / {formatTime(duration)}
+          </span>
+          {PLAYBACK_SPEEDS.map(option => (
+            <button
+              key={option}
+              style={{ ...buttonStyle, border: option === speed ? '2px inset #c0c0c0' : buttonStyle.border }}
+              onClick={() => setSpeed(option)}
+            >
+              {option}x
+            </button>
+          ))}
+        </div>
+
+        {/* Run details and what happened so far */}
+        <div style={{ ...panelStyle, width: '100%', maxWidth: '800px', display: 'flex', gap: '20px', fontSize: '11px' }}>
+          <div style={{ flex: 1 }}>
+            <div style={{ fontWeight: 'bold', marginBottom: '6px' }}>RUN</div>
+            <div>SEED {replay.seed}</div>
+            <div>{replay.result === 'won' ? 'WON' : 'LOST'} - SCORE {replay.score}</div>
+            <div>{new Date(replay.recordedAt).toLocaleString()}</div>
+            {replay.truncated && <div>FRAMES TRUNCATED - RUN TOO LONG</div>}
+          </div>
+          <div style={{ flex: 1 }}>
+            <div style={{ fontWeight: 'bold', marginBottom: '6px' }}>KAI INTERFERENCE</div>
+            {aiEvents.length === 0 && <div>NOTHING YET</div>}
+            {aiEvents.map((event, index) => (
+              <div key={`${event.t}-${index}`}>
+                {formatTime(event.t)} {event.type.toUpperCase()} {formatDetail(event.detail)}
+              </div>
+            ))}
+          </div>
+          <div style={{ flex: 1 }}>
+            <div style={{ fontWeight: 'bold', marginBottom: '6px' }}>INPUTS</div>
+            {inputs.length === 0 && <div>NOTHING YET</div>}
+            {inputs.map((input, index) => (
+              <div key={`${input.t}-${index}`}>
+                {formatTime(input.t)} {input.type.toUpperCase()} {formatDetail(input.payload)}
+              </div>
+            ))}
+          </div>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div style={{
+      minHeight: '100vh',
+      background: '#040436',
+      color: '#000000',
+      fontFamily: 'Courier New, monospace',
+      padding: '20px',
+      display: 'flex',
+      flexDirection: 'column',
+      alignItems: 'center',
+      gap: '20px'
+    }}>
+      <div style={{
+        ...panelStyle,
+        width: '100%',
+        maxWidth: '800px',
+        display: 'flex',
+        justifyContent: 'space-between',
+        alignItems: 'center'
+      }}>
+        <button
+          style={{ ...buttonStyle, padding: '10px 20px', fontSize: '12px' }}
+          onClick={() => navigate(replayId ? '/replays' : '/')}
+        >
+          {replayId ? '← ALL REPLAYS' : '← BACK TO HOME'}
+        </button>
+        <h1 style={{ margin: 0, fontSize: '18px', letterSpacing: '2px' }}>
+          {replayId && definition ? `${definition.name.toUpperCase()} REPLAY` : 'REPLAYS'}
+        </h1>
+      </div>
+
+      {replayId ? renderPlayback() : renderList()}
+    </div>
+  )
+}
+
+export default ReplayViewer
@@ -0,0 +1,110 @@
+// Block Breaker Simulation - Headless Block Breaker runs with corruption applied every frame
+
+import { BlockBreakerGame, BlockBreakerGameData } from '../blockbreaker/BlockBreakerGame'
+import { SeededRandom } from '../engine/SeededRandom'
+import { BlockBreakerAIAnalyzer } from '../../ai/blockbreaker/BlockBreakerAIAnalyzer'
+import { GameSimulation, SimulationContext, SimulatedRun, countInterference, trackLevel } from './SimulationHarness'
+
+export interface PaddleSteering {
+  left: boolean
+  right: boolean
+}
+
+// Called every step - returning null keeps holding the same keys
+export type BlockBreakerPlayer = (data: Readonly<BlockBreakerGameData>, elapsed: number) => PaddleSteering | null
+
+// Follows the ball, with a dead zone and an aim error drawn once per bounce direction
+export function trackingPaddleBot(random: SeededRandom, aimError: number = 30): BlockBreakerPlayer {
+  let offset = 0
+  let lastVelocityY = 0
+  return (data) => {
+    const ball = data.ball
+    if (Math.sign(ball.velocity.y) !== Math.sign(lastVelocityY)) {
+      offset = random.range(-aimError, aimError)
+      lastVelocityY = ball.velocity.y
+    }
+
+    const paddleCenter = data.paddle.x + data.paddle.width / 2
+    const target = ball.x + offset
+    return {
+      left: target < paddleCenter - 10,
+      right: target > paddleCenter + 10
+    }
+  }
+}
+
+export class BlockBreakerSimulation implements GameSimulation<BlockBreakerPlayer> {
+  readonly gameId = 'blockbreaker'
+  // One step per rendered frame, as in the browser
+  readonly defaultStepMs = 1000 / 60
+  private width: number
+  private height: number
+
+  constructor(width: number = 800, height: number = 600) {
+    this.width = width
+    this.height = height
+  }
+
+  async play(player: BlockBreakerPlayer, context: SimulationContext): Promise<SimulatedRun> {
+    const random = new SeededRandom(context.seed)
+    const game = new BlockBreakerGame(this.width, this.height, random)
+    game.setHeadless(true)
+    game.getRecorder().setFrameCapture(context.recordFrames)
+
+    const analyzer = new BlockBreakerAIAnalyzer(context.memoryStore, random)
+    await analyzer.initialize()
+    analyzer.attachTo(game)
+    analyzer.initializeGame(this.width)
+
+    game.start()
+    analyzer.processGameEvent({
+      type: 'game_start',
+      timestamp: context.clock.now(),
+      data: { seed: game.getSeed() }
+    })
+
+    const corruptionLevels: number[] = []
+    trackLevel(corruptionLevels, analyzer.getCorruptionState().level)
+    let elapsed = 0
+
+    while (game.getState().status === 'running' && elapsed < context.maxDuration) {
+      const steering = player(game.getGameData(), elapsed)
+      if (steering) {
+        game.setSteering(steering)
+      }
+
+      context.clock.advance(context.stepMs)
+      elapsed += context.stepMs
+      game.step(context.stepMs)
+
+      // The component defers these to keep frames smooth - here they land before the next step
+      analyzer.takeFrameEvents().forEach(event => analyzer.processGameEvent(event))
+      trackLevel(corruptionLevels, analyzer.getCorruptionState().level)
+    }
+
+    const result = game.getResult()
+    if (result) {
+      analyzer.processGameEvent({
+        type: 'game_end',
+        timestamp: context.clock.now(),
+        data: {
+          score: game.getScore(),
+          blocksRemaining: game.getRemainingBlocks()
+        }
+      })
+    }
+    const interference = countInterference(game.getRecorder())
+    game.destroy()
+
+    return {
+      seed: context.seed,
+      outcome: result ? result.result : 'timeout',
+      score: game.getScore(),
+      duration: elapsed,
+      // Corruption is how Block Breaker punishes - see the levels and interference
+      punishments: [],
+      corruptionLevels,
+      interference
+    }
+  }
+}
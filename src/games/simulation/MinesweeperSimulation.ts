@@ -0,0 +1,124 @@
+// Minesweeper Simulation - Headless Minesweeper runs that ask KAI for advice before every reveal
+
+import { MinesweeperGame, MinesweeperGameData, MinesweeperOptions, GameState, TileState } from '../minesweeper/MinesweeperGame'
+import { SeededRandom } from '../engine/SeededRandom'
+import { MinesweeperAIAnalyzer } from '../../ai/minesweeper/MinesweeperAIAnalyzer'
+import { GameSimulation, SimulationContext, SimulatedRun, countInterference } from './SimulationHarness'
+
+export interface MinesweeperMove {
+  type: 'reveal' | 'flag'
+  row: number
+  col: number
+}
+
+// Called once per step with the game's own mine odds - returning null skips the turn
+export type MinesweeperPlayer = (
+  data: Readonly<MinesweeperGameData>,
+  elapsed: number,
+  probabilityAt: (row: number, col: number) => number
+) => MinesweeperMove | null
+
+// Flags certain mines, otherwise reveals the least likely hidden tile
+export function probabilityMinesweeperBot(random: SeededRandom): MinesweeperPlayer {
+  return (data, _elapsed, probabilityAt) => {
+    const hidden = data.board.flat().filter(tile => tile.state === TileState.HIDDEN)
+    if (hidden.length === 0) return null
+
+    // Nothing to go on before the first reveal
+    if (data.firstClick) {
+      const tile = random.pick(hidden)
+      return { type: 'reveal', ...tile.position }
+    }
+
+    const odds = hidden.map(tile => ({ tile, probability: probabilityAt(tile.position.row, tile.position.col) }))
+    const certain = odds.find(entry => entry.probability >= 1)
+    if (certain && data.flagCount < data.mineCount) {
+      return { type: 'flag', ...certain.tile.position }
+    }
+
+    const lowest = Math.min(...odds.map(entry => entry.probability))
+    const safest = odds.filter(entry => entry.probability === lowest && entry.probability < 1)
+    if (safest.length === 0) return null
+    return { type: 'reveal', ...random.pick(safest).tile.position }
+  }
+}
+
+export class MinesweeperSimulation implements GameSimulation<MinesweeperPlayer> {
+  readonly gameId = 'minesweeper'
+  // Thinking time per move - the board itself never ticks
+  readonly defaultStepMs = 1000
+  private rows: number
+  private cols: number
+  private mines: number
+  private options: MinesweeperOptions
+
+  constructor(rows: number = 9, cols: number = 9, mines: number = 10, options: MinesweeperOptions = {}) {
+    this.rows = rows
+    this.cols = cols
+    this.mines = mines
+    this.options = options
+  }
+
+  async play(player: MinesweeperPlayer, context: SimulationContext): Promise<SimulatedRun> {
+    const random = new SeededRandom(context.seed)
+    const game = new MinesweeperGame(this.rows, this.cols, this.mines, random, this.options)
+    game.setHeadless(true)
+    game.getRecorder().setFrameCapture(context.recordFrames)
+
+    const analyzer = new MinesweeperAIAnalyzer(context.memoryStore, random)
+    analyzer.attachTo(game)
+    await analyzer.initialize()
+
+    const probabilityAt = (row: number, col: number) => game.calculateTileProbability(row, col)
+    const punishments: string[] = []
+    let elapsed = 0
+
+    while (!game.getResult() && elapsed < context.maxDuration) {
+      context.clock.advance(context.stepMs)
+      elapsed += context.stepMs
+
+      const before = game.getGameData()
+      const move = player(before, elapsed, probabilityAt)
+      if (!move) continue
+
+      if (move.type === 'flag') {
+        game.flagTile(move.row, move.col)
+        const tile = game.getGameData().board[move.row][move.col]
+        analyzer.onTileClick(move.row, move.col, 'flag', tile.isMine ? 'flag_correct' : 'flag_incorrect')
+        continue
+      }
+
+      // Hover first, as a player reading KAI's advice would
+      if (!before.firstClick) {
+        const advice = analyzer.onTileHover(move.row, move.col, probabilityAt).currentAdvice
+        if (advice?.isDeceptive) {
+          punishments.push('deceptive_advice')
+        }
+      }
+
+      game.clickTile(move.row, move.col)
+      const tile = game.getGameData().board[move.row][move.col]
+      analyzer.onTileClick(move.row, move.col, 'click', tile.isMine ? 'mine' : 'safe')
+
+      // The component starts the AI session once it sees the board go live
+      if (before.gameState === GameState.READY && game.getGameData().gameState !== GameState.READY) {
+        analyzer.onGameStart()
+      }
+    }
+
+    const result = game.getResult()
+    analyzer.onGameEnd(result ? result.result : 'abandoned')
+    const interference = countInterference(game.getRecorder())
+    game.destroy()
+
+    return {
+      seed: context.seed,
+      outcome: result ? result.result : 'timeout',
+      score: game.getScore(),
+      duration: elapsed,
+      punishments,
+      corruptionLevels: [],
+      interference
+    }
+  }
+}
@@ -0,0 +1,118 @@
+// Pac-Man Simulation - Headless Pac-Man runs with the ghost AI in control
+
+import { PacManGame, PacManGameData, Direction, GameState, CellType, Position } from '../pacman/PacManGame'
+import { SeededRandom } from '../engine/SeededRandom'
+import { PacManAIAnalyzer, AI_UPDATE_INTERVAL } from '../../ai/pacman/PacManAIAnalyzer'
+import { GameSimulation, SimulationContext, SimulatedRun, countInterference } from './SimulationHarness'
+
+// Called every step - returning null keeps the queued direction
+export type PacManPlayer = (data: Readonly<PacManGameData>, elapsed: number) => Direction | null
+
+const MOVES: Partial<Record<Direction, Position>> = {
+  [Direction.UP]: { x: 0, y: -1 },
+  [Direction.DOWN]: { x: 0, y: 1 },
+  [Direction.LEFT]: { x: -1, y: 0 },
+  [Direction.RIGHT]: { x: 1, y: 0 }
+}
+
+const OPPOSITES: Partial<Record<Direction, Direction>> = {
+  [Direction.UP]: Direction.DOWN,
+  [Direction.DOWN]: Direction.UP,
+  [Direction.LEFT]: Direction.RIGHT,
+  [Direction.RIGHT]: Direction.LEFT
+}
+
+function cellAt(data: Readonly<PacManGameData>, position: Position): CellType | null {
+  const row = data.maze[position.y]
+  return row && position.x >= 0 && position.x < row.length ? row[position.x] : null
+}
+
+// Roams the maze, preferring pellets and only turning back at dead ends
+export function wanderingPacManBot(random: SeededRandom): PacManPlayer {
+  return (data) => {
+    // Decide only between tiles - a queued turn is taken once the move completes
+    if (data.pacman.movementSegment) return null
+
+    const position = data.pacman.position
+    const neighbor = (direction: Direction) => {
+      const move = MOVES[direction]!
+      return cellAt(data, { x: position.x + move.x, y: position.y + move.y })
+    }
+    const open = (Object.keys(MOVES) as Direction[]).filter(direction => {
+      const cell = neighbor(direction)
+      return cell !== null && cell !== CellType.WALL && cell !== CellType.GHOST_HOUSE
+    })
+    if (open.length === 0) return null
+
+    const forward = open.filter(direction => direction !== OPPOSITES[data.pacman.direction])
+    const options = forward.length > 0 ? forward : open
+    const withPellets = options.filter(direction =>
+      neighbor(direction) === CellType.PELLET || neighbor(direction) === CellType.POWER_PELLET
+    )
+    return random.pick(withPellets.length > 0 ? withPellets : options)
+  }
+}
+
+export class PacManSimulation implements GameSimulation<PacManPlayer> {
+  readonly gameId = 'pacman'
+  readonly defaultStepMs = 50
+
+  async play(player: PacManPlayer, context: SimulationContext): Promise<SimulatedRun> {
+    const random = new SeededRandom(context.seed)
+    const game = new PacManGame(random)
+    game.setHeadless(true)
+    game.getRecorder().setFrameCapture(context.recordFrames)
+
+    const analyzer = new PacManAIAnalyzer(context.memoryStore, random)
+    await analyzer.initialize()
+    analyzer.attachTo(game)
+
+    game.start()
+    analyzer.onGameStart(game.getGameData())
+
+    let elapsed = 0
+    let sinceAIUpdate = 0
+    let lives = game.getLives()
+
+    while (game.getState().status === 'running' && elapsed < context.maxDuration) {
+      const direction = player(game.getGameData(), elapsed)
+      if (direction) {
+        game.setDirection(direction)
+      }
+
+      context.clock.advance(context.stepMs)
+      elapsed += context.stepMs
+      game.step(context.stepMs)
+
+      const data = game.getGameData()
+      if (data.lives < lives) {
+        analyzer.onPacManDeath(data, data.lastKillerGhost || 'unknown')
+      }
+      lives = data.lives
+
+      sinceAIUpdate += context.stepMs
+      if (sinceAIUpdate >= AI_UPDATE_INTERVAL && data.gameState === GameState.PLAYING) {
+        sinceAIUpdate = 0
+        analyzer.controlGhosts(game)
+      }
+    }
+
+    const result = game.getResult()
+    if (result) {
+      analyzer.onGameEnd(game.getGameData(), result.result)
+    }
+    const interference = countInterference(game.getRecorder())
+    game.destroy()
+
+    return {
+      seed: context.seed,
+      outcome: result ? result.result : 'timeout',
+      score: game.getScore(),
+      duration: elapsed,
+      // The ghosts adapt rather than punish - their speech is the interference
+      punishments: [],
+      corruptionLevels: [],
+      interference
+    }
+  }
+}
@@ -0,0 +1,183 @@
+// Simulation Harness - Plays many headless games with scripted or bot players and reports on the AI
+
+import { GameClock, SimulatedClock } from '../engine/GameClock'
+import { SeededRandom, createSeed } from '../engine/SeededRandom'
+import { ReplayRecorder } from '../engine/ReplayRecorder'
+import { GlobalMemoryStore } from '../../ai/console/storage/GlobalMemoryStore'
+import { InMemoryMemoryStore } from '../../ai/console/storage/InMemoryMemoryStore'
+
+// Everything a single simulated run gets from the harness
+export interface SimulationContext {
+  seed: number
+  clock: SimulatedClock
+  memoryStore: GlobalMemoryStore
+  stepMs: number
+  maxDuration: number
+  recordFrames: boolean
+}
+
+export interface SimulatedRun {
+  seed: number
+  outcome: 'won' | 'lost' | 'timeout'
+  score: number
+  duration: number // simulated ms
+  // Punishments the AI fired, in order (Snake PunishmentType values, Minesweeper deceptive advice)
+  punishments: string[]
+  // Every corruption level the run reached, in order
+  corruptionLevels: number[]
+  // AI events the game's replay recorder logged, by type
+  interference: Record<string, number>
+}
+
+// One game wired up for headless play - drivers live next to this file
+export interface GameSimulation<P> {
+  readonly gameId: string
+  readonly defaultStepMs: number
+  play(player: P, context: SimulationContext): Promise<SimulatedRun>
+}
+
+export interface SimulationOptions {
+  games?: number
+  // Master seed - each run's seed is drawn from it, so a report is reproducible
+  seed?: number
+  stepMs?: number
+  // Runs still going after this much game time count as timeouts
+  maxDuration?: number
+  // Shared by every run so the AI learns across them like it does across real sessions
+  memoryStore?: GlobalMemoryStore
+  recordFrames?: boolean
+  // Mutes the games' debug logging while the runs play
+  quiet?: boolean
+}
+
+export interface SimulationReport {
+  gameId: string
+  seed: number
+  games: number
+  wins: number
+  losses: number
+  timeouts: number
+  winRate: number
+  averageScore: number
+  averageDuration: number
+  // How many times each punishment fired across all runs
+  punishmentCounts: Record<string, number>
+  // How many runs reached each corruption level
+  corruptionLevelCounts: Record<number, number>
+  interferenceCounts: Record<string, number>
+  runs: SimulatedRun[]
+}
+
+const DEFAULT_GAMES = 100
+const DEFAULT_MAX_DURATION = 5 * 60 * 1000
+
+export interface ScriptedInput<A> {
+  at: number // ms of game time since the run started
+  action: A
+}
+
+// Replays a fixed list of timed inputs - each fires once, on the first step at or after its time
+export function scriptedPlayer<A>(script: ScriptedInput<A>[]): (view: unknown, elapsed: number) => A | null {
+  const pending = [...script].sort((a, b) => a.at - b.at)
+  return (_view, elapsed) => {
+    if (pending.length === 0 || pending[0].at > elapsed) return null
+    return pending.shift()!.action
+  }
+}
+
+// AI interference so far, by event type
+export function countInterference(recorder: ReplayRecorder): Record<string, number> {
+  return recorder.getAIEvents().reduce<Record<string, number>>((counts, event) => {
+    counts[event.type] = (counts[event.type] || 0) + 1
+    return counts
+  }, {})
+}
+
+// Records a level only when it differs from the last one seen
+export function trackLevel(levels: number[], level: number): void {
+  if (levels[levels.length - 1] !== level) {
+    levels.push(level)
+  }
+}
+
+// Plays `games` runs back to back on a simulated clock. Players are created per run
+// from a stream forked off the run's seed, so bots with randomness stay reproducible
+export async function runSimulation<P>(
+  simulation: GameSimulation<P>,
+  createPlayer: (random: SeededRandom) => P,
+  options: SimulationOptions = {}
+): Promise<SimulationReport> {
+  const masterSeed = options.seed ?? createSeed()
+  const seeds = new SeededRandom(masterSeed)
+  const clock = new SimulatedClock()
+  const memoryStore = options.memoryStore || new InMemoryMemoryStore()
+  const games = options.games ?? DEFAULT_GAMES
+  const runs: SimulatedRun[] = []
+
+  const originalLog = console.log
+  const originalWarn = console.warn
+  if (options.quiet ?? true) {
+    console.log = () => {}
+    console.warn = () => {}
+  }
+  GameClock.use(clock)
+
+  try {
+    for (let i = 0; i < games; i++) {
+      const seed = seeds.nextInt(0x100000000)
+      const player = createPlayer(new SeededRandom(seed).fork('player'))
+      runs.push(await simulation.play(player, {
+        seed,
+        clock,
+        memoryStore,
+        stepMs: options.stepMs ?? simulation.defaultStepMs,
+        maxDuration: options.maxDuration ?? DEFAULT_MAX_DURATION,
+        recordFrames: options.recordFrames ?? false
+      }))
+    }
+  } finally {
+    GameClock.use(null)
+    console.log = originalLog
+    console.warn = originalWarn
+  }
+
+  return summarize(simulation.gameId, masterSeed, runs)
+}
+
+function summarize(gameId: string, seed: number, runs: SimulatedRun[]): SimulationReport {
+  const punishmentCounts: Record<string, number> = {}
+  const corruptionLevelCounts: Record<number, number> = {}
+  const interferenceCounts: Record<string, number> = {}
+
+  runs.forEach(run => {
+    run.punishments.forEach(type => {
+      punishmentCounts[type] = (punishmentCounts[type] || 0) + 1
+    })
+    new Set(run.corruptionLevels).forEach(level => {
+      corruptionLevelCounts[level] = (corruptionLevelCounts[level] || 0) + 1
+    })
+    Object.entries(run.interference).forEach(([type, count]) => {
+      interferenceCounts[type] = (interferenceCounts[type] || 0) + count
+    })
+  })
+
+  const wins = runs.filter(run => run.outcome === 'won').length
+  const losses = runs.filter(run => run.outcome === 'lost').length
+  const total = (pick: (run: SimulatedRun) => number) => runs.reduce((sum, run) => sum + pick(run), 0)
+
+  return {
+    gameId,
+    seed,
+    games: runs.length,
+    wins,
+    losses,
+    timeouts: runs.length - wins - losses,
+    winRate: runs.length > 0 ? wins / runs.length : 0,
+    averageScore: runs.length > 0 ? total(run => run.score) / runs.length : 0,
+    averageDuration: runs.length > 0 ? total(run => run.duration) / runs.length : 0,
+    punishmentCounts,
+    corruptionLevelCounts,
+    interferenceCounts,
+    runs
+  }
+}
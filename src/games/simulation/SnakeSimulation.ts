@@ -0,0 +1,122 @@
+// Snake Simulation - Headless Snake runs against the full corruption system
+
+import { SnakeGame, SnakeGameData, Direction, Position } from '../snake/SnakeGame'
+import { SeededRandom } from '../engine/SeededRandom'
+import { SnakeAIAnalyzer } from '../../ai/snake/SnakeAIAnalyzer'
+import { GameSimulation, SimulationContext, SimulatedRun, countInterference, trackLevel } from './SimulationHarness'
+
+// Called every step - returning null keeps the current heading
+export type SnakePlayer = (data: Readonly<SnakeGameData>, elapsed: number) => Direction | null
+
+const MOVES: Record<Direction, Position> = {
+  [Direction.UP]: { x: 0, y: -1 },
+  [Direction.DOWN]: { x: 0, y: 1 },
+  [Direction.LEFT]: { x: -1, y: 0 },
+  [Direction.RIGHT]: { x: 1, y: 0 }
+}
+
+const OPPOSITES: Record<Direction, Direction> = {
+  [Direction.UP]: Direction.DOWN,
+  [Direction.DOWN]: Direction.UP,
+  [Direction.LEFT]: Direction.RIGHT,
+  [Direction.RIGHT]: Direction.LEFT
+}
+
+// Directions whose next cell is inside the grid and not snake or block
+function safeDirections(data: Readonly<SnakeGameData>): Direction[] {
+  const head = data.snake[0]
+  return (Object.keys(MOVES) as Direction[])
+    .filter(direction => direction !== OPPOSITES[data.direction])
+    .filter(direction => {
+      const next = { x: head.x + MOVES[direction].x, y: head.y + MOVES[direction].y }
+      if (next.x < 0 || next.x >= data.gridWidth || next.y < 0 || next.y >= data.gridHeight) return false
+      if (data.snake.some(segment => segment.x === next.x && segment.y === next.y)) return false
+      return !data.environmentalBlocks.some(block => block.x === next.x && block.y === next.y)
+    })
+}
+
+// Heads straight for the food, never into an obvious collision
+export function greedySnakeBot(random: SeededRandom): SnakePlayer {
+  return (data) => {
+    const options = safeDirections(data)
+    if (options.length === 0) return null
+
+    const head = data.snake[0]
+    const distance = (direction: Direction) =>
+      Math.abs(head.x + MOVES[direction].x - data.food.x) + Math.abs(head.y + MOVES[direction].y - data.food.y)
+    const best = Math.min(...options.map(distance))
+    return random.pick(options.filter(direction => distance(direction) === best))
+  }
+}
+
+// Wanders - turns at random but still avoids walls, itself and blocks
+export function randomSnakeBot(random: SeededRandom, turnChance: number = 0.2): SnakePlayer {
+  return (data) => {
+    const options = safeDirections(data)
+    if (options.length === 0) return null
+    if (options.includes(data.direction) && !random.chance(turnChance)) return null
+    return random.pick(options)
+  }
+}
+
+export class SnakeSimulation implements GameSimulation<SnakePlayer> {
+  readonly gameId = 'snake'
+  // Fastest the snake ever moves, so no move is skipped between player decisions
+  readonly defaultStepMs = 50
+  private gridWidth: number
+  private gridHeight: number
+
+  constructor(gridWidth: number = 20, gridHeight: number = 20) {
+    this.gridWidth = gridWidth
+    this.gridHeight = gridHeight
+  }
+
+  async play(player: SnakePlayer, context: SimulationContext): Promise<SimulatedRun> {
+    const random = new SeededRandom(context.seed)
+    const game = new SnakeGame(this.gridWidth, this.gridHeight, random)
+    game.setHeadless(true)
+    game.getRecorder().setFrameCapture(context.recordFrames)
+
+    const analyzer = new SnakeAIAnalyzer(context.memoryStore, random)
+    await analyzer.initialize()
+    analyzer.attachTo(game)
+
+    game.start()
+    analyzer.onGameStart()
+
+    const corruptionLevels: number[] = []
+    trackLevel(corruptionLevels, analyzer.getCorruptionLevel())
+    let elapsed = 0
+
+    while (game.getState().status === 'running' && elapsed < context.maxDuration) {
+      const direction = player(game.getGameData(), elapsed)
+      if (direction) {
+        game.setDirection(direction)
+      }
+
+      context.clock.advance(context.stepMs)
+      elapsed += context.stepMs
+      // attachTo reports each move to the analyzer as the game makes it
+      game.step(context.stepMs)
+      trackLevel(corruptionLevels, analyzer.getCorruptionLevel())
+    }
+
+    const result = game.getResult()
+    const data = game.getGameData()
+    if (result) {
+      analyzer.onGameEnd(data.score, data.deathCause, data.hasWon)
+    }
+    const interference = countInterference(game.getRecorder())
+    game.destroy()
+
+    return {
+      seed: context.seed,
+      outcome: result ? result.result : 'timeout',
+      score: data.score,
+      duration: elapsed,
+      punishments: analyzer.getTriggeredPunishments(),
+      corruptionLevels,
+      interference
+    }
+  }
+}
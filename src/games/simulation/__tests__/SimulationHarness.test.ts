@@ -0,0 +1,110 @@
+// Simulation Harness - Every game's bot against the real AI, pinned to a fixed seed
+
+import { runSimulation, GameSimulation, SimulationReport } from '../SimulationHarness'
+import { SeededRandom } from '../../engine/SeededRandom'
+import { SnakeSimulation, greedySnakeBot } from '../SnakeSimulation'
+import { PacManSimulation, wanderingPacManBot } from '../PacManSimulation'
+import { MinesweeperSimulation, probabilityMinesweeperBot } from '../MinesweeperSimulation'
+import { BlockBreakerSimulation, trackingPaddleBot } from '../BlockBreakerSimulation'
+
+const SEED = 42
+const GAMES = 5
+const MAX_DURATION = 60 * 1000
+
+const simulate = <P>(simulation: GameSimulation<P>, createPlayer: (random: SeededRandom) => P) =>
+  runSimulation(simulation, createPlayer, { games: GAMES, seed: SEED, maxDuration: MAX_DURATION })
+
+// What a change to a game or its AI would move - pinned so it shows up in review
+const outcome = (report: SimulationReport) => ({
+  wins: report.wins,
+  losses: report.losses,
+  timeouts: report.timeouts,
+  winRate: report.winRate,
+  averageScore: report.averageScore,
+  punishmentCounts: report.punishmentCounts,
+  corruptionLevelCounts: report.corruptionLevelCounts,
+  interferenceCounts: report.interferenceCounts
+})
+
+describe('runSimulation', () => {
+  it('plays Snake the same way every time', async () => {
+    const report = await simulate(new SnakeSimulation(), greedySnakeBot)
+    expect(outcome(report)).toEqual({
+      wins: 0,
+      losses: 2,
+      timeouts: 3,
+      winRate: 0,
+      averageScore: 276,
+      punishmentCounts: {
+        body_food_bias: 12,
+        fake_food: 5,
+        speed_increase: 93,
+        safe_space_reduction: 41,
+        wall_food_bias: 67
+      },
+      corruptionLevelCounts: { 0: 5, 1: 5, 2: 5, 3: 5 },
+      interferenceCounts: {
+        fake_food_spawned: 269,
+        fake_food_vanished: 10,
+        food_moved: 79,
+        speed_change: 1607
+      }
+    })
+  })
+
+  it('plays Pac-Man the same way every time', async () => {
+    const report = await simulate(new PacManSimulation(), wanderingPacManBot)
+    expect(outcome(report)).toEqual({
+      wins: 0,
+      losses: 5,
+      timeouts: 0,
+      winRate: 0,
+      averageScore: 1136,
+      punishmentCounts: {},
+      corruptionLevelCounts: {},
+      interferenceCounts: { ghost_speech: 215 }
+    })
+    // The ghosts neither punish nor corrupt - what they say is how the AI shows up
+    expect(report.runs.every(run => run.interference.ghost_speech > 0)).toBe(true)
+  })
+
+  it('plays Minesweeper the same way every time', async () => {
+    const report = await simulate(new MinesweeperSimulation(), probabilityMinesweeperBot)
+    expect(outcome(report)).toEqual({
+      wins: 5,
+      losses: 0,
+      timeouts: 0,
+      winRate: 1,
+      averageScore: 71,
+      punishmentCounts: { deceptive_advice: 18 },
+      corruptionLevelCounts: {},
+      interferenceCounts: {}
+    })
+  })
+
+  it('plays Block Breaker the same way every time', async () => {
+    const report = await simulate(new BlockBreakerSimulation(), trackingPaddleBot)
+    expect(outcome(report)).toEqual({
+      wins: 1,
+      losses: 0,
+      timeouts: 4,
+      winRate: 0.2,
+      averageScore: 336,
+      punishmentCounts: {},
+      corruptionLevelCounts: { 0: 5, 1: 5, 2: 5, 3: 3 },
+      interferenceCounts: { corruption: 135 }
+    })
+  })
+
+  it('reproduces a whole Pac-Man report from its seed', async () => {
+    const first = await simulate(new PacManSimulation(), wanderingPacManBot)
+    const second = await simulate(new PacManSimulation(), wanderingPacManBot)
+    expect(second).toEqual(first)
+  })
+
+  it('reproduces a whole Minesweeper report from its seed', async () => {
+    const first = await simulate(new MinesweeperSimulation(), probabilityMinesweeperBot)
+    const second = await simulate(new MinesweeperSimulation(), probabilityMinesweeperBot)
+    expect(second).toEqual(first)
+  })
+})
@@ -5,13 +5,20 @@ import SnakeRenderer from './SnakeRenderer';
 import { SnakeAIAnalyzer, SnakeAIState } from '../../ai/snake/SnakeAIAnalyzer';
 import KAI from '../../components/KAI';
 import { useAudio } from '../../audio/useAudio';
+import { GameLifecycle, GameSnapshot } from '../engine/GameEngine';
+import { SeededRandom } from '../engine/SeededRandom';
+import InputManager from '../../input/InputManager';
+import { useInput } from '../../input/useInput';
 
 interface SnakeProps {
   onGameEnd?: (score: number, duration: number, moveCount: number) => void;
   onAIStateChange?: (aiState: SnakeAIState) => void;
+  onGameReady?: (game: GameLifecycle) => void;
+  createAnalyzer?: (random: SeededRandom) => SnakeAIAnalyzer;
+  snapshot?: GameSnapshot;
 }
 
-const Snake: React.FC<SnakeProps> = ({ onGameEnd, onAIStateChange }) => {
+const Snake: React.FC<SnakeProps> = ({ onGameEnd, onAIStateChange, onGameReady, createAnalyzer = (random) => new SnakeAIAnalyzer(undefined, random), snapshot }) => {
   const gameRef = useRef<SnakeGame | null>(null);
   const inputHandlerRef = useRef<SnakeInputHandler | null>(null);
   const aiAnalyzerRef = useRef<SnakeAIAnalyzer | null>(null);
@@ -20,6 +27,8 @@ const Snake: React.FC<SnakeProps> = ({ onGameEnd, onAIStateChange }) => {
     return game.getGameData();
   });
   const [aiState, setAIState] = useState<SnakeAIState | null>(null);
+  // Nothing starts until stored history has loaded, so the load can't overwrite what this visit learns
+  const [aiReady, setAIReady] = useState(false);
   const [currentCommentary, setCurrentCommentary] = useState("► AI SYSTEM READY");
   const [commentaryQueue, setCommentaryQueue] = useState<string[]>([]);
   const [isPlayingCommentary, setIsPlayingCommentary] = useState(false);
@@ -29,8 +38,22 @@ const Snake: React.FC<SnakeProps> = ({ onGameEnd, onAIStateChange }) => {
   // Initialize game, input handler, and AI analyzer
   useEffect(() => {
     gameRef.current = new SnakeGame(20, 20);
+    onGameReady?.(gameRef.current);
     inputHandlerRef.current = new SnakeInputHandler();
-    aiAnalyzerRef.current = new SnakeAIAnalyzer();
+    aiAnalyzerRef.current = createAnalyzer(gameRef.current.getRandom());
+    // Restore behavior history from previous sessions, then any suspended run
+    const game = gameRef.current;
+    const analyzer = aiAnalyzerRef.current;
+    void analyzer.initialize().then(() => {
+      setAIReady(true);
+      if (snapshot && gameRef.current === game && game.restoreSnapshot(snapshot)) {
+        inputHandlerRef.current?.activate();
+        const newAIState = analyzer.onGameStart();
+        setAIState(newAIState);
+        onAIStateChange?.(newAIState);
+        setGameData(game.getGameData());
+      }
+    });
 
     inputHandlerRef.current.setCallback((direction) => {
       if (gameRef.current) {
@@ -39,51 +62,7 @@ const Snake: React.FC<SnakeProps> = ({ onGameEnd, onAIStateChange }) => {
     });
 
     // Set up AI callbacks for corruption system
-    if (gameRef.current && aiAnalyzerRef.current) {
-      gameRef.current.setAIUpdateCallback((snake, food, gridWidth, gridHeight, snakeLength) => {
-        if (aiAnalyzerRef.current) {
-          return aiAnalyzerRef.current.onGameUpdate(snake, food, gridWidth, gridHeight, snakeLength);
-        }
-        return {
-          speedMultiplier: 1.0,
-          fakeFoods: [],
-          environmentalBlocks: [],
-          foodSpawnBias: { wallBias: 0, bodyBias: 0, safeSpaceReduction: 0 },
-          environmentalEffects: {
-            colorShift: 0,
-            gridTension: false,
-            foodPulseRate: 1.0
-          },
-          hasWon: false,
-          commentaryEvents: []
-        };
-      });
-
-      gameRef.current.setFakeFoodApproachedCallback((position) => {
-        if (aiAnalyzerRef.current) {
-          const result = aiAnalyzerRef.current.onFakeFoodApproached(position);
-          // Queue commentary event if present
-          if (result.commentaryEvent) {
-            // Will be handled by UI commentary queue
-          }
-          return { disappeared: result.disappeared, commentary: null };
-        }
-        return { disappeared: false, commentary: null };
-      });
-
-      gameRef.current.setRealFoodEatenCallback(() => {
-        if (aiAnalyzerRef.current) {
-          aiAnalyzerRef.current.onRealFoodEaten();
-        }
-      });
-
-      gameRef.current.setBiasedFoodCallback((snake, gridWidth, gridHeight, normalPosition) => {
-        if (aiAnalyzerRef.current) {
-          return aiAnalyzerRef.current.generateBiasedFoodPosition(snake, gridWidth, gridHeight, normalPosition);
-        }
-        return normalPosition;
-      });
-    }
+    aiAnalyzerRef.current.attachTo(gameRef.current);
 
     return () => {
       if (gameRef.current) {
@@ -95,62 +74,48 @@ const Snake: React.FC<SnakeProps> = ({ onGameEnd, onAIStateChange }) => {
     };
   }, []);
 
-  // Game state update loop with AI integration
+  // The game runs its own fixed-step loop and reports every move to the AI itself - this redraws after each display frame's steps
   useEffect(() => {
-    const updateInterval = setInterval(() => {
-      if (gameRef.current && aiAnalyzerRef.current) {
-        const prevGameData = gameData;
-        const newGameData = gameRef.current.getGameData();
-        setGameData(newGameData);
-
-        // Track moves for AI analysis and update AI state
-        if (newGameData.gameState === GameState.PLAYING && 
-            newGameData.moveCount > prevGameData.moveCount) {
-          
-          const currentDirection = gameRef.current.getCurrentDirection();
-          aiAnalyzerRef.current.onMove(
-            currentDirection,
-            newGameData.snake[0],
-            newGameData.snake.length,
-            newGameData.food,
-            newGameData.gridWidth,
-            newGameData.gridHeight
-          );
-
-          // Update AI state during gameplay
-          const currentAIState = aiAnalyzerRef.current.getCurrentAIState();
-          setAIState(currentAIState);
-          onAIStateChange?.(currentAIState);
-        }
-
-        // Handle game over
-        if (newGameData.gameState === GameState.GAME_OVER && 
-            prevGameData.gameState === GameState.PLAYING) {
-          
-          const score = gameRef.current.getScore();
-          const duration = gameRef.current.getGameDuration();
-          const moveCount = gameRef.current.getMoveCount();
-          
-          // Get death cause from game data
-          const deathCause = newGameData.deathCause;
-          const hasWon = newGameData.hasWon;
-
-          // Play appropriate sound effect
-          playSFX(hasWon ? 'youWin' : 'gameOver', 'snake');
-
-          // Update AI state
-          const newAIState = aiAnalyzerRef.current.onGameEnd(score, deathCause, hasWon);
-          setAIState(newAIState);
-          onAIStateChange?.(newAIState);
-
-          // Call original callback
-          onGameEnd?.(score, duration, moveCount);
-        }
+    const game = gameRef.current;
+    if (!game) return;
+
+    let moveCount = game.getMoveCount();
+    return game.onFrame(() => {
+      const analyzer = aiAnalyzerRef.current;
+      if (!analyzer) return;
+      const newGameData = game.getGameData();
+      setGameData(newGameData);
+
+      // Refresh the AI readout once a frame, however many moves its steps made
+      if (newGameData.gameState === GameState.PLAYING && newGameData.moveCount !== moveCount) {
+        const currentAIState = analyzer.getCurrentAIState();
+        setAIState(currentAIState);
+        onAIStateChange?.(currentAIState);
       }
-    }, 50); // Update UI more frequently than game logic
+      moveCount = newGameData.moveCount;
+
+      // Handle game over - the loop stops with it, so this runs once
+      if (newGameData.gameState === GameState.GAME_OVER) {
+        const score = game.getScore();
+        const duration = game.getGameDuration();
 
-    return () => clearInterval(updateInterval);
-  }, [onGameEnd, onAIStateChange, gameData]);
+        // Get death cause from game data
+        const deathCause = newGameData.deathCause;
+        const hasWon = newGameData.hasWon;
+
+        // Play appropriate sound effect
+        playSFX(hasWon ? 'youWin' : 'gameOver', 'snake');
+
+        // Update AI state
+        const newAIState = analyzer.onGameEnd(score, deathCause, hasWon);
+        setAIState(newAIState);
+        onAIStateChange?.(newAIState);
+
+        // Call original callback
+        onGameEnd?.(score, duration, newGameData.moveCount);
+      }
+    });
+  }, [onGameEnd, onAIStateChange, playSFX]);
 
   // UI OWNS COMMENTARY TIMELINE (for mid-game commentary only)
 
@@ -196,6 +161,7 @@ const Snake: React.FC<SnakeProps> = ({ onGameEnd, onAIStateChange }) => {
   }, [aiState?.commentaryEvents]);
 
   const handleStart = () => {
+    if (!aiReady) return;
     if (gameRef.current && inputHandlerRef.current && aiAnalyzerRef.current) {
       gameRef.current.start();
       inputHandlerRef.current.activate();
@@ -253,12 +219,23 @@ const Snake: React.FC<SnakeProps> = ({ onGameEnd, onAIStateChange }) => {
     }
   };
 
+  // CONFIRM starts a fresh run and plays again after game over - steering goes through the input handler
+  useInput((event) => {
+    if (event.action !== 'confirm' || !event.pressed || event.repeat) return;
+
+    if (gameData.gameState === GameState.READY) {
+      handleStart();
+    } else if (gameData.gameState === GameState.GAME_OVER) {
+      handleReset();
+    }
+  });
+
   const getGameStateDisplay = () => {
     switch (gameData.gameState) {
       case GameState.READY:
         return 'READY TO START';
       case GameState.PLAYING:
-        return 'PLAYING';
+        return gameRef.current?.isGamePaused() ? 'PAUSED' : 'PLAYING';
       case GameState.GAME_OVER:
         return 'GAME OVER';
       default:
@@ -440,15 +417,16 @@ const Snake: React.FC<SnakeProps> = ({ onGameEnd, onAIStateChange }) => {
         {gameData.gameState === GameState.READY && (
           <button
             onClick={handleStart}
+            disabled={!aiReady}
             style={{
               background: '#c0c0c0',
-              color: '#000000',
+              color: aiReady ? '#000000' : '#808080',
               border: '2px outset #c0c0c0',
               borderRadius: '0',
               padding: '10px 20px',
               fontFamily: 'Courier New, monospace',
               fontSize: '12px',
-              cursor: 'pointer',
+              cursor: aiReady ? 'pointer' : 'default',
               letterSpacing: '1px',
               transition: 'all 0.1s ease'
             }}
@@ -457,7 +435,7 @@ const Snake: React.FC<SnakeProps> = ({ onGameEnd, onAIStateChange }) => {
             onMouseDown={(e) => { e.currentTarget.style.border = '2px inset #c0c0c0' }}
             onMouseUp={(e) => { e.currentTarget.style.border = '2px outset #c0c0c0' }}
           >
-            START GAME
+            {aiReady ? 'START GAME' : 'LOADING...'}
           </button>
         )}
 
@@ -496,7 +474,7 @@ const Snake: React.FC<SnakeProps> = ({ onGameEnd, onAIStateChange }) => {
         padding: '8px 16px',
         border: '2px inset #c0c0c0'
       }}>
-        <div>Use ARROW KEYS or WASD to control the snake</div>
+        <div>Use {InputManager.getInstance().getDirectionLabels()} to control the snake</div>
         <div>Eat the red food to grow and increase your score</div>
         <div>Avoid hitting walls or yourself!</div>
       </div>
@@ -1,5 +1,9 @@
 // Snake Game Logic - Classic snake mechanics with clean separation
 
+import { BaseGame, GameStatus } from '../engine/GameEngine';
+import { SeededRandom } from '../engine/SeededRandom';
+import { GameClock } from '../engine/GameClock';
+
 export interface Position {
   x: number;
   y: number;
@@ -42,11 +46,20 @@ export interface SnakeGameData {
   deathCause: 'wall' | 'self' | 'block' | null;
 }
 
-export class SnakeGame {
+// SnakeGameData with its dates as timestamps, plus the move cadence
+interface SnakeSnapshotData {
+  data: Omit<SnakeGameData, 'startTime' | 'endTime'> & { startTime: number | null };
+  currentGameSpeed: number;
+  stepAccumulator: number;
+}
+
+export class SnakeGame extends BaseGame {
   private data: SnakeGameData;
-  private gameLoop: number | null = null;
+  private isPaused = false;
   private readonly BASE_GAME_SPEED = 150; // milliseconds between moves
   private currentGameSpeed = 150;
+  // Game time not yet spent on a move
+  private stepAccumulator = 0;
   private aiUpdateCallback: ((
     snake: Position[],
     food: Position,
@@ -68,6 +81,8 @@ export class SnakeGame {
   }) | null = null;
   private fakeFoodApproachedCallback: ((position: Position) => { disappeared: boolean; commentary: string | null }) | null = null;
   private realFoodEatenCallback: (() => void) | null = null;
+  // Fired after every completed move, however many one step of the loop makes
+  private moveCallback: (() => void) | null = null;
   private biasedFoodCallback: ((
     snake: Position[],
     gridWidth: number,
@@ -75,7 +90,9 @@ export class SnakeGame {
     normalPosition: Position
   ) => Position) | null = null;
 
-  constructor(gridWidth: number = 20, gridHeight: number = 20) {
+  constructor(gridWidth: number = 20, gridHeight: number = 20, random?: SeededRandom) {
+    // Stepped at 60fps so every speed the corruption picks lands within a frame of its cadence
+    super('snake', { width: gridWidth, height: gridHeight, fps: 60 }, random);
     this.data = {
       snake: [{ x: Math.floor(gridWidth / 2), y: Math.floor(gridHeight / 2) }],
       food: this.generateFood(gridWidth, gridHeight, [{ x: Math.floor(gridWidth / 2), y: Math.floor(gridHeight / 2) }]),
@@ -105,25 +122,36 @@ export class SnakeGame {
   start(): void {
     if (this.data.gameState === GameState.READY) {
       this.data.gameState = GameState.PLAYING;
-      this.data.startTime = new Date();
-      this.startGameLoop();
+      this.data.startTime = GameClock.date();
+      this.recorder.begin(this.getSeed(), this.data);
+      this.startLoop();
+      this.notifyStatus();
     }
   }
 
   pause(): void {
-    if (this.data.gameState === GameState.PLAYING) {
-      this.stopGameLoop();
+    if (this.data.gameState === GameState.PLAYING && !this.isPaused) {
+      this.isPaused = true;
+      this.recorder.pause();
+      this.stopLoop();
+      this.notifyStatus();
     }
   }
 
   resume(): void {
-    if (this.data.gameState === GameState.PLAYING) {
-      this.startGameLoop();
+    if (this.data.gameState === GameState.PLAYING && this.isPaused) {
+      this.isPaused = false;
+      this.recorder.resume();
+      this.startLoop();
+      this.notifyStatus();
     }
   }
 
-  reset(): void {
-    this.stopGameLoop();
+  reset(seed?: number): void {
+    this.stopLoop();
+    this.isPaused = false;
+    this.reseed(seed);
+    this.recorder.clear();
     const { gridWidth, gridHeight } = this.data;
     this.data = {
       snake: [{ x: Math.floor(gridWidth / 2), y: Math.floor(gridHeight / 2) }],
@@ -149,11 +177,25 @@ export class SnakeGame {
       deathCause: null
     };
     this.currentGameSpeed = this.BASE_GAME_SPEED;
+    this.stepAccumulator = 0;
+    this.notifyStatus();
+  }
+
+  // One move every currentGameSpeed ms of game time
+  step(dt: number): void {
+    if (this.data.gameState !== GameState.PLAYING || this.isPaused) return;
+
+    this.stepAccumulator += dt;
+    while (this.stepAccumulator >= this.currentGameSpeed && this.data.gameState === GameState.PLAYING) {
+      this.stepAccumulator -= this.currentGameSpeed;
+      this.tick();
+    }
   }
 
   // Input handling
   setDirection(newDirection: Direction): void {
-    if (this.data.gameState !== GameState.PLAYING) return;
+    if (this.data.gameState !== GameState.PLAYING || this.isPaused) return;
+    this.recorder.recordInput('direction', newDirection);
 
     // Prevent reversing into self
     const opposites = {
@@ -199,6 +241,10 @@ export class SnakeGame {
     this.realFoodEatenCallback = callback;
   }
 
+  setMoveCallback(callback: () => void): void {
+    this.moveCallback = callback;
+  }
+
   setBiasedFoodCallback(callback: (
     snake: Position[],
     gridWidth: number,
@@ -229,34 +275,64 @@ export class SnakeGame {
     return this.data.moveCount;
   }
 
-  getGameDuration(): number {
-    if (!this.data.startTime) return 0;
-    const endTime = this.data.endTime || new Date();
-    return endTime.getTime() - this.data.startTime.getTime();
+  isGamePaused(): boolean {
+    return this.isPaused;
   }
 
-  // Private game logic
-  private startGameLoop(): void {
-    this.gameLoop = window.setInterval(() => {
-      this.update();
-    }, this.currentGameSpeed);
+  // Shared lifecycle state
+  protected getStatus(): GameStatus {
+    switch (this.data.gameState) {
+      case GameState.READY:
+        return 'ready';
+      case GameState.PLAYING:
+        return this.isPaused ? 'paused' : 'running';
+      case GameState.GAME_OVER:
+        return this.data.hasWon ? 'won' : 'over';
+    }
+  }
+
+  protected getStartTime(): Date | null {
+    return this.data.startTime;
+  }
+
+  protected getEndTime(): Date | null {
+    return this.data.endTime;
   }
 
+  protected serializeData(): SnakeSnapshotData {
+    // Only a run in progress is suspended, so there is never an end time to keep
+    const data: SnakeSnapshotData['data'] & { endTime?: Date | null } = {
+      ...this.data,
+      startTime: this.data.startTime ? this.data.startTime.getTime() : null
+    };
+    delete data.endTime;
+    return {
+      data,
+      currentGameSpeed: this.currentGameSpeed,
+      stepAccumulator: this.stepAccumulator
+    };
+  }
+
+  protected restoreData(saved: SnakeSnapshotData, timeShift: number): void {
+    const { startTime, ...data } = saved.data;
+    this.data = {
+      ...data,
+      startTime: startTime === null ? null : new Date(startTime + timeShift),
+      endTime: null
+    };
+    this.currentGameSpeed = saved.currentGameSpeed;
+    this.stepAccumulator = saved.stepAccumulator;
+    this.isPaused = true;
+  }
+
+  // Private game logic
   private updateGameSpeed(): void {
-    if (this.gameLoop) {
-      clearInterval(this.gameLoop);
-      this.currentGameSpeed = Math.max(50, this.BASE_GAME_SPEED / this.data.speedMultiplier);
-      this.gameLoop = window.setInterval(() => {
-        this.update();
-      }, this.currentGameSpeed);
-    }
+    this.currentGameSpeed = Math.max(50, this.BASE_GAME_SPEED / this.data.speedMultiplier);
   }
 
-  private stopGameLoop(): void {
-    if (this.gameLoop) {
-      clearInterval(this.gameLoop);
-      this.gameLoop = null;
-    }
+  private tick(): void {
+    this.update();
+    this.recorder.captureFrame(this.data);
   }
 
   private update(): void {
@@ -276,9 +352,17 @@ export class SnakeGame {
       const oldSpeedMultiplier = this.data.speedMultiplier;
       this.data.speedMultiplier = aiUpdate.speedMultiplier;
       if (oldSpeedMultiplier !== this.data.speedMultiplier) {
+        this.recorder.recordAIEvent('speed_change', { from: oldSpeedMultiplier, to: this.data.speedMultiplier });
         this.updateGameSpeed();
       }
 
+      if (aiUpdate.fakeFoods.length > this.data.fakeFoods.length) {
+        this.recorder.recordAIEvent('fake_food_spawned', { count: aiUpdate.fakeFoods.length - this.data.fakeFoods.length });
+      }
+      if (aiUpdate.environmentalBlocks.length > this.data.environmentalBlocks.length) {
+        this.recorder.recordAIEvent('blocks_spawned', { count: aiUpdate.environmentalBlocks.length - this.data.environmentalBlocks.length });
+      }
+
       // Update fake foods (ADDITIVE, not replacement)
       this.data.fakeFoods = aiUpdate.fakeFoods;
 
@@ -351,6 +435,7 @@ export class SnakeGame {
         if (this.fakeFoodApproachedCallback) {
           this.fakeFoodApproachedCallback(fakeFood);
         }
+        this.recorder.recordAIEvent('fake_food_vanished', fakeFood);
         
         // CRITICAL: Don't return here - continue to check real food
         // Fake food disappears but doesn't stop the snake
@@ -370,7 +455,11 @@ export class SnakeGame {
       // Generate new food (potentially biased)
       let newFood = this.generateFood(this.data.gridWidth, this.data.gridHeight, this.data.snake);
       if (this.biasedFoodCallback) {
+        const normalFood = newFood;
         newFood = this.biasedFoodCallback(this.data.snake, this.data.gridWidth, this.data.gridHeight, newFood);
+        if (newFood.x !== normalFood.x || newFood.y !== normalFood.y) {
+          this.recorder.recordAIEvent('food_moved', { from: normalFood, to: newFood });
+        }
       }
       this.data.food = newFood;
     }
@@ -379,20 +468,25 @@ export class SnakeGame {
     if (!foodEaten) {
       this.data.snake.pop();
     }
+
+    if (this.moveCallback) {
+      this.moveCallback();
+    }
   }
 
   private gameOver(): void {
     this.data.gameState = GameState.GAME_OVER;
-    this.data.endTime = new Date();
-    this.stopGameLoop();
+    this.data.endTime = GameClock.date();
+    this.stopLoop();
+    this.notifyStatus();
   }
 
   private generateFood(gridWidth: number, gridHeight: number, snake: Position[]): Position {
     let food: Position;
     do {
       food = {
-        x: Math.floor(Math.random() * gridWidth),
-        y: Math.floor(Math.random() * gridHeight)
+        x: this.random.nextInt(gridWidth),
+        y: this.random.nextInt(gridHeight)
       };
     } while (snake.some(segment => segment.x === food.x && segment.y === food.y));
     
@@ -401,6 +495,6 @@ export class SnakeGame {
 
   // Cleanup
   destroy(): void {
-    this.stopGameLoop();
+    this.stopLoop();
   }
 }
\ No newline at end of file
@@ -1,15 +1,23 @@
-// Snake Input Handler - Clean keyboard input management
+// Snake Input Handler - Turns the console's direction actions into snake turns
 
 import { Direction } from './SnakeGame';
+import InputManager, { InputEvent } from '../../input/InputManager';
 
 export type InputCallback = (direction: Direction) => void;
 
+const ACTION_DIRECTIONS: Partial<Record<InputEvent['action'], Direction>> = {
+  up: Direction.UP,
+  down: Direction.DOWN,
+  left: Direction.LEFT,
+  right: Direction.RIGHT
+};
+
 export class SnakeInputHandler {
   private callback: InputCallback | null = null;
-  private isActive = false;
+  private unsubscribe: (() => void) | null = null;
 
   constructor() {
-    this.handleKeyPress = this.handleKeyPress.bind(this);
+    this.handleInput = this.handleInput.bind(this);
   }
 
   setCallback(callback: InputCallback): void {
@@ -17,49 +25,23 @@ export class SnakeInputHandler {
   }
 
   activate(): void {
-    if (!this.isActive) {
-      this.isActive = true;
-      document.addEventListener('keydown', this.handleKeyPress);
+    if (!this.unsubscribe) {
+      this.unsubscribe = InputManager.getInstance().subscribe(this.handleInput);
     }
   }
 
   deactivate(): void {
-    if (this.isActive) {
-      this.isActive = false;
-      document.removeEventListener('keydown', this.handleKeyPress);
+    if (this.unsubscribe) {
+      this.unsubscribe();
+      this.unsubscribe = null;
     }
   }
 
-  private handleKeyPress(event: KeyboardEvent): void {
-    if (!this.callback) return;
-
-    let direction: Direction | null = null;
-
-    switch (event.key) {
-      case 'ArrowUp':
-      case 'w':
-      case 'W':
-        direction = Direction.UP;
-        break;
-      case 'ArrowDown':
-      case 's':
-      case 'S':
-        direction = Direction.DOWN;
-        break;
-      case 'ArrowLeft':
-      case 'a':
-      case 'A':
-        direction = Direction.LEFT;
-        break;
-      case 'ArrowRight':
-      case 'd':
-      case 'D':
-        direction = Direction.RIGHT;
-        break;
-    }
+  private handleInput(event: InputEvent): void {
+    if (!this.callback || !event.pressed || event.repeat) return;
 
+    const direction = ACTION_DIRECTIONS[event.action];
     if (direction) {
-      event.preventDefault();
       this.callback(direction);
     }
   }
@@ -68,4 +50,4 @@ export class SnakeInputHandler {
     this.deactivate();
     this.callback = null;
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,395 @@
+// Input Manager - Maps keyboard, gamepad and touch input to the console's logical actions
+
+import { StorageManager } from '../storage/StorageManager';
+import { ProfileManager, getProfileStoragePrefix } from '../storage/ProfileManager';
+
+// secondary is each game's second button - Minesweeper flags with it
+export type InputAction = 'up' | 'down' | 'left' | 'right' | 'confirm' | 'secondary' | 'back' | 'pause';
+export type InputSource = 'keyboard' | 'gamepad' | 'touch';
+
+// Display order for the remapping panel
+export const INPUT_ACTIONS: InputAction[] = ['up', 'down', 'left', 'right', 'confirm', 'secondary', 'back', 'pause'];
+
+// Keyboard slots per action shown in the remapping panel
+export const KEY_SLOTS = 2;
+
+export interface InputBindings {
+  // KeyboardEvent.code values - the physical key, whatever the layout prints on it
+  keys: Record<InputAction, string[]>;
+  // Standard-mapping gamepad button indices
+  buttons: Record<InputAction, number[]>;
+}
+
+export interface InputEvent {
+  action: InputAction;
+  // False when the last thing holding the action lets go
+  pressed: boolean;
+  // A held key auto-repeating - menus step again, games usually ignore it
+  repeat: boolean;
+  source: InputSource;
+}
+
+export type InputListener = (event: InputEvent) => void;
+
+// What the remapping panel receives while it is waiting for the player to press something
+export type CapturedInput =
+  | { type: 'key'; code: string }
+  | { type: 'button'; button: number };
+
+export const DEFAULT_BINDINGS: InputBindings = {
+  keys: {
+    up: ['ArrowUp', 'KeyW'],
+    down: ['ArrowDown', 'KeyS'],
+    left: ['ArrowLeft', 'KeyA'],
+    right: ['ArrowRight', 'KeyD'],
+    confirm: ['Space', 'Enter'],
+    secondary: ['KeyF', 'KeyX'],
+    back: ['Escape', 'Backspace'],
+    pause: ['KeyP']
+  },
+  buttons: {
+    up: [12],
+    down: [13],
+    left: [14],
+    right: [15],
+    confirm: [0],
+    secondary: [2],
+    back: [1],
+    pause: [9]
+  }
+};
+
+const BINDINGS_STORAGE_KEY = 'input_bindings';
+// Left stick deflection that counts as a direction
+const STICK_THRESHOLD = 0.5;
+
+const BUTTON_LABELS = [
+  'A', 'B', 'X', 'Y', 'LB', 'RB', 'LT', 'RT', 'SELECT', 'START', 'L3', 'R3', 'D-UP', 'D-DOWN', 'D-LEFT', 'D-RIGHT', 'HOME'
+];
+
+const KEY_LABELS: Record<string, string> = {
+  ArrowUp: '↑',
+  ArrowDown: '↓',
+  ArrowLeft: '←',
+  ArrowRight: '→',
+  Space: 'SPACE',
+  Enter: 'ENTER',
+  Escape: 'ESC',
+  Backspace: 'BKSP'
+};
+
+export function getKeyLabel(code: string): string {
+  if (KEY_LABELS[code]) return KEY_LABELS[code];
+  if (code.startsWith('Key')) return code.slice(3);
+  if (code.startsWith('Digit')) return code.slice(5);
+  return code.toUpperCase();
+}
+
+export function getButtonLabel(button: number): string {
+  return BUTTON_LABELS[button] || `BUTTON ${button}`;
+}
+
+function cloneBindings(bindings: InputBindings): InputBindings {
+  return JSON.parse(JSON.stringify(bindings));
+}
+
+// Text fields keep their keys - typing a name must not steer the menu
+function isTypingTarget(target: EventTarget | null): boolean {
+  if (!(target instanceof HTMLElement)) return false;
+  return target.isContentEditable || target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.tagName === 'SELECT';
+}
+
+class InputManager {
+  private static instance: InputManager;
+  private listeners = new Set<InputListener>();
+  // Modal screens that take every event while open - the most recent one wins
+  private grabs: InputListener[] = [];
+  private storage = StorageManager.getInstance();
+  private bindings: InputBindings = cloneBindings(DEFAULT_BINDINGS);
+  private bindingsProfileId: string | null = null;
+  // Everything currently holding each action down - a key, a pad button, a touch button
+  private holders = new Map<InputAction, Set<string>>();
+  private pressedButtons = new Map<number, Set<string>>();
+  private capture: ((input: CapturedInput) => void) | null = null;
+  private pollFrameId: number | null = null;
+  private isInitialized = false;
+
+  private constructor() {}
+
+  static getInstance(): InputManager {
+    if (!InputManager.instance) {
+      InputManager.instance = new InputManager();
+    }
+    return InputManager.instance;
+  }
+
+  initialize(): void {
+    if (this.isInitialized) return;
+    this.isInitialized = true;
+
+    window.addEventListener('keydown', this.handleKeyDown);
+    window.addEventListener('keyup', this.handleKeyUp);
+    // Keys released while the window is unfocused never send keyup
+    window.addEventListener('blur', this.releaseAll);
+    window.addEventListener('gamepadconnected', this.startPolling);
+  }
+
+  subscribe(listener: InputListener): () => void {
+    this.initialize();
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  // Only the grabbing listener hears anything until released, e.g. initials entry over a finished game
+  grab(listener: InputListener): () => void {
+    this.initialize();
+    this.grabs.push(listener);
+    return () => {
+      this.grabs = this.grabs.filter(grab => grab !== listener);
+    };
+  }
+
+  isHeld(action: InputAction): boolean {
+    return (this.holders.get(action)?.size || 0) > 0;
+  }
+
+  // Bindings belong to the active player - re-read whenever the profile has changed
+  getBindings(): InputBindings {
+    const profileId = ProfileManager.getInstance().getActiveProfileId();
+    if (this.bindingsProfileId !== profileId) {
+      this.bindingsProfileId = profileId;
+      this.bindings = this.loadBindings(profileId);
+    }
+    return this.bindings;
+  }
+
+  // Shown in on-screen prompts, e.g. PRESS SPACE TO START
+  getActionLabel(action: InputAction): string {
+    const code = this.getBindings().keys[action][0];
+    return code ? getKeyLabel(code) : action.toUpperCase();
+  }
+
+  // Primary keys for all four directions, for instructions like "USE ↑ ↓ ← → TO MOVE"
+  getDirectionLabels(): string {
+    return (['up', 'down', 'left', 'right'] as InputAction[]).map(action => this.getActionLabel(action)).join(' ');
+  }
+
+  // A key can only do one thing, so it is taken off any action it was bound to before
+  bindKey(action: InputAction, slot: number, code: string): void {
+    const bindings = this.getBindings();
+    for (const other of INPUT_ACTIONS) {
+      bindings.keys[other] = bindings.keys[other].filter(existing => existing !== code);
+    }
+    const keys = bindings.keys[action];
+    keys.splice(Math.min(slot, keys.length), 1, code);
+    this.saveBindings();
+  }
+
+  unbindKey(action: InputAction, slot: number): void {
+    this.getBindings().keys[action].splice(slot, 1);
+    this.saveBindings();
+  }
+
+  bindButton(action: InputAction, button: number): void {
+    const bindings = this.getBindings();
+    for (const other of INPUT_ACTIONS) {
+      bindings.buttons[other] = bindings.buttons[other].filter(existing => existing !== button);
+    }
+    bindings.buttons[action] = [button];
+    this.saveBindings();
+  }
+
+  resetBindings(): void {
+    this.getBindings();
+    this.bindings = cloneBindings(DEFAULT_BINDINGS);
+    this.saveBindings();
+  }
+
+  // The next key or pad button goes to the callback instead of triggering an action
+  captureNext(callback: (input: CapturedInput) => void): () => void {
+    this.initialize();
+    this.releaseAll();
+    this.capture = callback;
+    this.startPolling();
+    return () => {
+      if (this.capture === callback) this.capture = null;
+    };
+  }
+
+  // On-screen touch buttons hold actions like any other device
+  press(action: InputAction, source: InputSource = 'touch'): void {
+    this.hold(action, `${source}:${action}`, source, false);
+  }
+
+  release(action: InputAction, source: InputSource = 'touch'): void {
+    this.letGo(action, `${source}:${action}`, source);
+  }
+
+  private loadBindings(profileId: string): InputBindings {
+    const stored = this.storage.getItem<Partial<InputBindings>>(`${getProfileStoragePrefix(profileId)}${BINDINGS_STORAGE_KEY}`);
+    const bindings = cloneBindings(DEFAULT_BINDINGS);
+
+    // Actions missing from an older save keep their defaults
+    for (const action of INPUT_ACTIONS) {
+      const keys = stored?.keys?.[action];
+      const buttons = stored?.buttons?.[action];
+      if (Array.isArray(keys)) bindings.keys[action] = keys.slice(0, KEY_SLOTS);
+      if (Array.isArray(buttons)) bindings.buttons[action] = buttons;
+    }
+    return bindings;
+  }
+
+  private saveBindings(): void {
+    if (!this.bindingsProfileId) return;
+    this.storage.setItem(`${getProfileStoragePrefix(this.bindingsProfileId)}${BINDINGS_STORAGE_KEY}`, this.bindings);
+  }
+
+  private actionsForKey(code: string): InputAction[] {
+    const keys = this.getBindings().keys;
+    return INPUT_ACTIONS.filter(action => keys[action].includes(code));
+  }
+
+  private handleKeyDown = (event: KeyboardEvent): void => {
+    if (this.capture) {
+      event.preventDefault();
+      const capture = this.capture;
+      this.capture = null;
+      capture({ type: 'key', code: event.code });
+      return;
+    }
+    if (isTypingTarget(event.target)) return;
+
+    const actions = this.actionsForKey(event.code);
+    if (actions.length === 0) return;
+
+    // Stops arrows and space scrolling the page under the game
+    if (this.listeners.size > 0 || this.grabs.length > 0) event.preventDefault();
+    actions.forEach(action => this.hold(action, `key:${event.code}`, 'keyboard', event.repeat));
+  };
+
+  private handleKeyUp = (event: KeyboardEvent): void => {
+    this.actionsForKey(event.code).forEach(action => this.letGo(action, `key:${event.code}`, 'keyboard'));
+  };
+
+  private hold(action: InputAction, holder: string, source: InputSource, repeat: boolean): void {
+    let holders = this.holders.get(action);
+    if (!holders) {
+      holders = new Set();
+      this.holders.set(action, holders);
+    }
+
+    const alreadyHeld = holders.size > 0;
+    const isRepeat = repeat || holders.has(holder);
+    holders.add(holder);
+    // A second device pressing an already held action is not a new press
+    if (alreadyHeld && !isRepeat) return;
+    this.emit({ action, pressed: true, repeat: isRepeat, source });
+  }
+
+  private letGo(action: InputAction, holder: string, source: InputSource): void {
+    const holders = this.holders.get(action);
+    if (!holders || !holders.delete(holder)) return;
+    if (holders.size === 0) {
+      this.emit({ action, pressed: false, repeat: false, source });
+    }
+  }
+
+  private releaseAll = (): void => {
+    this.holders.forEach((holders, action) => {
+      if (holders.size === 0) return;
+      holders.clear();
+      this.emit({ action, pressed: false, repeat: false, source: 'keyboard' });
+    });
+  };
+
+  private emit(event: InputEvent): void {
+    const grab = this.grabs[this.grabs.length - 1];
+    if (grab) {
+      grab(event);
+      return;
+    }
+    // Copied so a listener may unsubscribe (or navigate away) mid-dispatch
+    Array.from(this.listeners).forEach(listener => listener(event));
+  }
+
+  private getGamepads(): Gamepad[] {
+    if (typeof navigator === 'undefined' || !navigator.getGamepads) return [];
+    return Array.from(navigator.getGamepads()).filter((pad): pad is Gamepad => pad !== null);
+  }
+
+  // The Gamepad API has no events for buttons - pads are read once per display frame while one is connected
+  private startPolling = (): void => {
+    if (this.pollFrameId === null) {
+      this.pollFrameId = requestAnimationFrame(this.poll);
+    }
+  };
+
+  private poll = (): void => {
+    const pads = this.getGamepads();
+    this.releaseDisconnected(pads.map(pad => pad.index));
+    if (pads.length === 0) {
+      this.pollFrameId = null;
+      return;
+    }
+    this.pollFrameId = requestAnimationFrame(this.poll);
+
+    const buttons = this.getBindings().buttons;
+    pads.forEach(pad => {
+      const down = new Set<string>();
+
+      pad.buttons.forEach((button, index) => {
+        if (button.pressed) down.add(`pad${pad.index}:b${index}`);
+      });
+      const [x = 0, y = 0] = pad.axes;
+      if (y < -STICK_THRESHOLD) down.add(`pad${pad.index}:stick-up`);
+      if (y > STICK_THRESHOLD) down.add(`pad${pad.index}:stick-down`);
+      if (x < -STICK_THRESHOLD) down.add(`pad${pad.index}:stick-left`);
+      if (x > STICK_THRESHOLD) down.add(`pad${pad.index}:stick-right`);
+
+      const previous = this.pressedButtons.get(pad.index) || new Set<string>();
+      this.pressedButtons.set(pad.index, down);
+
+      if (this.capture) {
+        const pressed = pad.buttons.findIndex((button, index) => button.pressed && !previous.has(`pad${pad.index}:b${index}`));
+        if (pressed >= 0) {
+          const capture = this.capture;
+          this.capture = null;
+          capture({ type: 'button', button: pressed });
+        }
+        return;
+      }
+
+      for (const action of INPUT_ACTIONS) {
+        const holders = buttons[action].map(button => `pad${pad.index}:b${button}`);
+        // The stick always steers, whatever the d-pad is bound to
+        if (action === 'up' || action === 'down' || action === 'left' || action === 'right') {
+          holders.push(`pad${pad.index}:stick-${action}`);
+        }
+
+        holders.forEach(holder => {
+          if (down.has(holder) && !previous.has(holder)) this.hold(action, holder, 'gamepad', false);
+          if (!down.has(holder) && previous.has(holder)) this.letGo(action, holder, 'gamepad');
+        });
+      }
+    });
+  };
+
+  // An unplugged pad lets go of everything it was holding
+  private releaseDisconnected(connected: number[]): void {
+    Array.from(this.pressedButtons.keys())
+      .filter(index => !connected.includes(index))
+      .forEach(index => {
+        const prefix = `pad${index}:`;
+        this.holders.forEach((holders, action) => {
+          Array.from(holders)
+            .filter(holder => holder.startsWith(prefix))
+            .forEach(holder => this.letGo(action, holder, 'gamepad'));
+        });
+        this.pressedButtons.delete(index);
+      });
+  }
+}
+
+export default InputManager;
@@ -0,0 +1,82 @@
+// Touch Controls - On-screen d-pad and buttons for phones and tablets
+
+import { useEffect, useState } from 'react';
+import InputManager, { InputAction } from './InputManager';
+import './TouchControls.css';
+
+// Only devices whose main pointer is a finger get the overlay
+const isTouchDevice = () =>
+  typeof window !== 'undefined' && window.matchMedia?.('(pointer: coarse)').matches;
+
+interface TouchButtonProps {
+  action: InputAction;
+  label: string;
+  className: string;
+}
+
+const TouchButton: React.FC<TouchButtonProps> = ({ action, label, className }) => {
+  const input = InputManager.getInstance();
+  const [held, setHeld] = useState(false);
+
+  const press = (e: React.PointerEvent<HTMLButtonElement>) => {
+    e.preventDefault();
+    e.currentTarget.setPointerCapture(e.pointerId);
+    setHeld(true);
+    input.press(action);
+  };
+
+  const release = () => {
+    setHeld(false);
+    input.release(action);
+  };
+
+  // Unmounting mid-press must not leave the action stuck down
+  useEffect(() => () => input.release(action), [action, input]);
+
+  return (
+    <button
+      className={`touch-button ${className} ${held ? 'held' : ''}`}
+      onPointerDown={press}
+      onPointerUp={release}
+      onPointerCancel={release}
+      onContextMenu={(e) => e.preventDefault()}
+    >
+      {label}
+    </button>
+  );
+};
+
+const TouchControls: React.FC = () => {
+  const [visible, setVisible] = useState(isTouchDevice);
+
+  useEffect(() => {
+    const query = window.matchMedia?.('(pointer: coarse)');
+    if (!query) return;
+    const handleChange = () => setVisible(query.matches);
+    query.addEventListener('change', handleChange);
+    return () => query.removeEventListener('change', handleChange);
+  }, []);
+
+  if (!visible) return null;
+
+  return (
+    <div className="touch-controls">
+      <div className="touch-dpad">
+        <TouchButton action="up" label="▲" className="dpad-up" />
+        <TouchButton action="left" label="◀" className="dpad-left" />
+        <TouchButton action="right" label="▶" className="dpad-right" />
+        <TouchButton action="down" label="▼" className="dpad-down" />
+      </div>
+      <div className="touch-menu">
+        <TouchButton action="pause" label="START" className="touch-start" />
+      </div>
+      <div className="touch-face">
+        <TouchButton action="secondary" label="X" className="face-x" />
+        <TouchButton action="back" label="B" className="face-b" />
+        <TouchButton action="confirm" label="A" className="face-a" />
+      </div>
+    </div>
+  );
+};
+
+export default TouchControls;
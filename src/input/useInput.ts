@@ -0,0 +1,17 @@
+import { useEffect, useRef } from 'react';
+import InputManager, { InputListener } from './InputManager';
+
+// Subscribes for the component's lifetime - the latest listener always runs, so it can read fresh state.
+// Exclusive listeners grab all input from everything else until they unmount
+export const useInput = (listener: InputListener, exclusive = false) => {
+  const listenerRef = useRef(listener);
+  listenerRef.current = listener;
+
+  useEffect(() => {
+    const manager = InputManager.getInstance();
+    const forward: InputListener = event => listenerRef.current(event);
+    return exclusive ? manager.grab(forward) : manager.subscribe(forward);
+  }, [exclusive]);
+};
+
+export default useInput;
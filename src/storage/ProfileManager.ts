@@ -0,0 +1,157 @@
+// Profile Manager - Named player profiles sharing one machine
+
+import { StorageManager } from './StorageManager'
+
+const PROFILES_STORAGE_KEY = 'retro_console_profiles'
+const MAX_NAME_LENGTH = 12
+
+// The original single user - keeps the legacy storage keys so old saves still load
+export const DEFAULT_PROFILE_ID = 'default-user'
+
+export interface PlayerProfile {
+  id: string
+  name: string
+  createdAt: number
+  lastUsedAt: number
+}
+
+interface StoredProfiles {
+  profiles: PlayerProfile[]
+  activeProfileId: string
+}
+
+// Prefix for every storage key owned by a profile
+export function getProfileStoragePrefix(profileId: string): string {
+  return profileId === DEFAULT_PROFILE_ID
+    ? 'retro_console_'
+    : `retro_console_profile_${profileId}_`
+}
+
+// IndexedDB database holding a profile's memory
+export function getProfileDatabaseName(profileId: string): string {
+  return profileId === DEFAULT_PROFILE_ID ? 'kes-kai-memory' : `kes-kai-memory-${profileId}`
+}
+
+export class ProfileManager {
+  private static instance: ProfileManager
+  private storage: StorageManager
+  private data: StoredProfiles
+
+  private constructor() {
+    this.storage = StorageManager.getInstance()
+    this.data = this.loadProfiles()
+  }
+
+  static getInstance(): ProfileManager {
+    if (!ProfileManager.instance) {
+      ProfileManager.instance = new ProfileManager()
+    }
+    return ProfileManager.instance
+  }
+
+  private loadProfiles(): StoredProfiles {
+    const stored = this.storage.getItem<StoredProfiles>(PROFILES_STORAGE_KEY)
+
+    if (stored && Array.isArray(stored.profiles) && stored.profiles.length > 0) {
+      const activeExists = stored.profiles.some(p => p.id === stored.activeProfileId)
+      return {
+        profiles: stored.profiles,
+        activeProfileId: activeExists ? stored.activeProfileId : stored.profiles[0].id
+      }
+    }
+
+    const now = Date.now()
+    return {
+      profiles: [{ id: DEFAULT_PROFILE_ID, name: 'PLAYER 1', createdAt: now, lastUsedAt: now }],
+      activeProfileId: DEFAULT_PROFILE_ID
+    }
+  }
+
+  private saveProfiles(): void {
+    this.storage.setItem(PROFILES_STORAGE_KEY, this.data)
+  }
+
+  private validateName(name: string, ignoreId?: string): string {
+    const trimmed = name.trim().toUpperCase()
+
+    if (!trimmed) {
+      throw new Error('Profile name cannot be empty')
+    }
+    if (trimmed.length > MAX_NAME_LENGTH) {
+      throw new Error(`Profile name must be ${MAX_NAME_LENGTH} characters or fewer`)
+    }
+    if (this.data.profiles.some(p => p.id !== ignoreId && p.name === trimmed)) {
+      throw new Error(`A profile named ${trimmed} already exists`)
+    }
+
+    return trimmed
+  }
+
+  getProfiles(): PlayerProfile[] {
+    return [...this.data.profiles]
+  }
+
+  getActiveProfileId(): string {
+    return this.data.activeProfileId
+  }
+
+  getActiveProfile(): PlayerProfile {
+    return this.data.profiles.find(p => p.id === this.data.activeProfileId) || this.data.profiles[0]
+  }
+
+  createProfile(name: string): PlayerProfile {
+    const now = Date.now()
+    const profile: PlayerProfile = {
+      id: `profile_${now.toString(36)}_${Math.random().toString(36).slice(2, 6)}`,
+      name: this.validateName(name),
+      createdAt: now,
+      lastUsedAt: now
+    }
+
+    this.data.profiles.push(profile)
+    this.saveProfiles()
+    return profile
+  }
+
+  renameProfile(profileId: string, name: string): void {
+    const profile = this.data.profiles.find(p => p.id === profileId)
+    if (!profile) {
+      throw new Error(`Unknown profile: ${profileId}`)
+    }
+
+    profile.name = this.validateName(name, profileId)
+    this.saveProfiles()
+  }
+
+  // Removes the profile and all of its locally stored memory
+  deleteProfile(profileId: string): void {
+    if (profileId === DEFAULT_PROFILE_ID) {
+      throw new Error('The default profile cannot be deleted')
+    }
+    if (!this.data.profiles.some(p => p.id === profileId)) {
+      throw new Error(`Unknown profile: ${profileId}`)
+    }
+
+    this.data.profiles = this.data.profiles.filter(p => p.id !== profileId)
+    if (this.data.activeProfileId === profileId) {
+      this.data.activeProfileId = this.data.profiles[0].id
+    }
+
+    this.storage.removeItemsWithPrefix(getProfileStoragePrefix(profileId))
+    if (typeof indexedDB !== 'undefined') {
+      indexedDB.deleteDatabase(getProfileDatabaseName(profileId))
+    }
+    this.saveProfiles()
+  }
+
+  setActiveProfile(profileId: string): void {
+    const profile = this.data.profiles.find(p => p.id === profileId)
+    if (!profile) {
+      throw new Error(`Unknown profile: ${profileId}`)
+    }
+
+    profile.lastUsedAt = Date.now()
+    this.data.activeProfileId = profileId
+    this.saveProfiles()
+  }
+}
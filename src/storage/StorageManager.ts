@@ -66,4 +66,21 @@ export class StorageManager {
       console.error('Storage removal error:', error)
     }
   }
-}
\ No newline at end of file
+
+  // Remove every key in the active backend that starts with the given prefix
+  removeItemsWithPrefix(prefix: string): void {
+    try {
+      const storage = this.isLocalStorageAvailable ? localStorage : sessionStorage
+      const keys: string[] = []
+      for (let i = 0; i < storage.length; i++) {
+        const key = storage.key(i)
+        if (key && key.startsWith(prefix)) {
+          keys.push(key)
+        }
+      }
+      keys.forEach(key => storage.removeItem(key))
+    } catch (error) {
+      console.error('Storage removal error:', error)
+    }
+  }
+}
@@ -1,11 +1,7 @@
 // Storage Types - Data structures for user behavior and persistence
 
-export enum GameType {
-  SNAKE = 'snake',
-  MINESWEEPER = 'minesweeper', 
-  PACMAN = 'pacman',
-  BLOCKBREAKER = 'blockbreaker'
-}
+// Id of a game registered in games/GameRegistry
+export type GameType = string
 
 export enum InteractionType {
   CLICK = 'click',
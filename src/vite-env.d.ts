@@ -2,6 +2,7 @@
 
 interface ImportMetaEnv {
   readonly VITE_AI_MEMORY_ENDPOINT?: string;
+  readonly VITE_AI_MEMORY_TOKEN?: string;
 }
 
 interface ImportMeta {